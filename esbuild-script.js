@@ -2,7 +2,11 @@ const esbuild = require('esbuild');
 const copyStaticFiles = require('esbuild-copy-static-files');
 
 const config = {
-  entryPoints: ['./src/index.web.ts'],
+  entryPoints: {
+    'index.web': './src/index.web.ts',
+    // mesh preprocessing runs in Web Workers, see 'createPreprocessWorker_Web()'
+    preprocessWorker: './src/meshPreprocessing/workers/preprocessWorker.ts',
+  },
   outdir: './build',
   bundle: true,
   define: {},
@@ -1,6 +1,8 @@
 import {
   binaryFileReader_Web,
+  createPreprocessWorker_Web,
   createTextureFromFile_Web,
+  createTextureFromEmbeddedImage_Web,
   textFileReader_Web,
 } from './sys_web/loadersWeb.ts';
 
@@ -38,8 +40,7 @@ export const BYTES_MAT4 = BYTES_F32 * 16;
 export const NANO_TO_MILISECONDS = 0.000001;
 export const MILISECONDS_TO_SECONDS = 0.001;
 
-// deno-lint-ignore no-window-prefix no-window
-export const IS_DENO = window.Deno !== undefined;
+export const IS_DENO = 'Deno' in globalThis;
 export const IS_BROWSER = !IS_DENO;
 export const IS_WGPU = IS_DENO;
 
@@ -51,6 +52,8 @@ export const DEPTH_FORMAT: GPUTextureFormat = 'depth24plus';
  * - https://github.com/Scthe/nanite-webgpu/issues/5
  */
 export const HDR_RENDER_TEX_FORMAT: GPUTextureFormat = 'rgba16float';
+/** Visibility buffer. See `SNIPPET_VISIBILITY_BUFFER` */
+export const VISIBILITY_TEX_FORMAT: GPUTextureFormat = 'rg32uint';
 
 /** 4 for Vec4, 3 for Vec3. ATM using Vec3  */
 export const CO_PER_VERTEX: number = 3;
@@ -64,6 +67,10 @@ export type DisplayMode =
   | 'dbg-nanite-meshlets'
   | 'dbg-depth-pyramid';
 export type NaniteDevice = 'cpu' | 'gpu';
+/** See `createErrorMetric()` */
+export type NaniteErrorMetric = 'pixels' | 'legacy';
+/** How impostor views are placed around the object. See `impostorLayout.ts` */
+export type ImpostorLayout = 'horizontal' | 'hemiOctahedral' | 'octahedral';
 
 export const SHADING_MODE_PBR = 0;
 export const SHADING_MODE_TRIANGLE = 1;
@@ -75,8 +82,6 @@ export const SHADING_MODE_HW_SW_IMPOSTOR = 5;
 export const CONFIG = {
   /** Test env may require GPUBuffers to have extra COPY_* flags to readback results. Or silence console spam. */
   isTest: false,
-  /** If we are not rendering the scene but only exporting the LOD hierarchy */
-  isExporting: false,
   githubRepoLink: 'https://github.com/Scthe/nanite-webgpu',
   githubDemoLink: 'https://scthe.github.io/nanite-webgpu',
   /** This runtime injection prevents loading Deno's libraries like fs, png, etc. */
@@ -84,6 +89,8 @@ export const CONFIG = {
     textFileReader: textFileReader_Web,
     binaryFileReader: binaryFileReader_Web,
     createTextureFromFile: createTextureFromFile_Web,
+    createTextureFromEmbeddedImage: createTextureFromEmbeddedImage_Web,
+    createPreprocessWorker: createPreprocessWorker_Web,
   },
 
   ///////////////
@@ -95,8 +102,11 @@ export const CONFIG = {
   /** if you need to check for holes */
   useAlternativeClearColor: false,
   // useAlternativeClearColor: true,
-  /** DO NOT CHANGE BEFORE DEFINING THE LIGHT VALUES IN SHADER. WILL CAUSE RNG VALUES OTHERWISE */
-  lightsCount: 2,
+  /** Added to every shaded pixel. Other lights are per scene, see `Scene.lights` */
+  ambientLight: {
+    color: [1, 1, 1],
+    intensity: 0.05,
+  },
   /** Feel free to switch on if you want */
   useVertexQuantization: false,
   drawGround: true,
@@ -135,12 +145,23 @@ export const CONFIG = {
     enabled: true,
     frustumCulling: true,
     occlusionCulling: true,
+    /** Test groups of nearby instances first. Skip all instances of the culled group */
+    useBvh: true,
   },
 
   ///////////////
   /// BILLBOARD IMPOSTORS
   impostors: {
+    /**
+     * - 'horizontal' - `views` images around the UP-axis. Wrong when seen from above/below,
+     * - 'hemiOctahedral' - `gridSize*gridSize` images from the upper hemisphere,
+     * - 'octahedral' - `gridSize*gridSize` images from all directions.
+     */
+    layout: 'hemiOctahedral' as ImpostorLayout,
+    /** Only for 'horizontal' layout */
     views: 12,
+    /** Only for octahedral layouts. Images per side of the grid */
+    gridSize: 8,
     // TODO [RIGHT HERE RIGHT NOW] BRING BACK THE 512px BILLBOARDS CAUSE THEY ARE CUTE
     textureSize: 64,
     /** Every object that is smaller than this on screen becomes impostor billboard.
@@ -148,6 +169,12 @@ export const CONFIG = {
      * This an AABB for an ENTIRE object, not a meshlet!
      */
     billboardThreshold: 4000,
+    /**
+     * Objects between `billboardThreshold` and `billboardThreshold * (1 + crossFadeBand)`
+     * are drawn both as mesh and billboard. Dithering decides which one is visible in each pixel.
+     * 0 to disable.
+     */
+    crossFadeBand: 0.5,
     /** Do not render mesh, ONLY billboards regardless of everything */
     forceOnlyBillboards: false,
     ditherStrength: 0.4,
@@ -159,13 +186,30 @@ export const CONFIG = {
     frustumCulling: true,
     occlusionCulling: true,
 
-    /** Software backface cull is not finished, as the gains seem limited. TODO:
-     * - handle instances. ATM only every instance assumes it has identity tfx matrix for purpose of culling
-     * - fix bugs. Some disappearing triangles at very oblique angles. Just a magic slider to scale condition by 1.1+?
-     * - use in GPU visiblity flow
-     * - test on dense meshes. Probably works better then
+    /**
+     * Skip meshlets whose every triangle faces away from the camera. Uses the cones
+     * from `nanite.preprocess.meshletBackfaceCullingConeWeight`. GPU flow only.
+     * Ignored if `nanite.render.allowHardwareBackfaceCull` is off.
      */
-    // useSoftwareBackfaceCull: false,
+    coneCulling: false,
+  },
+
+  ///////////////
+  /// CULLING - TRIANGLES
+  cullingTriangles: {
+    /**
+     * Compute pass after meshlet culling. Tests each triangle of the hardware
+     * rasterized meshlets and writes the survivors into a compacted index buffer.
+     * Hardware rasterizer then does an indexed draw per object instead of drawing whole meshlets.
+     */
+    enabled: false,
+    /** Same winding as the hardware. Ignored if `nanite.render.allowHardwareBackfaceCull` is off */
+    backfaceCulling: true,
+    zeroAreaCulling: true,
+    /** Bounding box of the triangle does not contain any pixel center */
+    smallPrimitiveCulling: true,
+    /** Size of the compacted index buffer shared by all objects. Triangles that do not fit are not drawn. Not changeable at runtime */
+    maxTriangles: 2_000_000,
   },
 
   ///////////////
@@ -174,6 +218,58 @@ export const CONFIG = {
     enabled: true,
     /** Every meshlet that is less pixels than this will be software rendered. Calculated as `screen space AABB width * height`. */
     threshold: 1360.0,
+    /**
+     * Meshlets between `threshold` and `threshold * (1 + crossFadeBand)` are drawn
+     * by both rasterizers. Dithering decides which one is visible in each pixel.
+     * 0 to disable.
+     */
+    crossFadeBand: 0.5,
+    /**
+     * Store full 32bit depth. Requires 2 dispatches: depth-only `atomicMax()`,
+     * then write normal where the depth matches. Default mode packs u16 depth
+     * and 2*u8 normal into a single u32.
+     */
+    preciseDepth: false,
+  },
+
+  ///////////////
+  /// SHADOWS
+  shadows: {
+    /** Only the first directional light from `Scene.lights` casts shadows. Requires GPU nanite */
+    enabled: true,
+    /** Not changeable at runtime */
+    mapSize: 2048,
+    /** Shadow map covers this distance around the camera. Single cascade */
+    distance: 8.0,
+    /** Same as `nanite.render.errorThreshold`, but measured in shadow map texels */
+    errorThreshold: 2.0,
+    /** Subtracted from the depth in the shadow map range [0, 1] */
+    depthBias: 0.0005,
+    /** Move sampled position along the normal. World space */
+    normalOffset: 0.01,
+    /** Ground is not PBR shaded, so it just gets darker. Not changeable at runtime */
+    groundShadowStrength: 0.5,
+  },
+
+  ///////////////
+  /// QUALITY GOVERNOR
+  /** Adjusts the thresholds below to hit the frame time budget. See `QualityGovernor` */
+  qualityGovernor: {
+    enabled: false,
+    /** Frame time budget in milliseconds */
+    targetMs: 16.0,
+    /** Do nothing while frame time is within `targetMs * (1 ± hysteresis)` */
+    hysteresis: 0.15,
+    /** Min. time between adjustments. Frame times are averaged over it */
+    adjustIntervalMs: 500,
+    /** How often to measure GPU frame time (if 'timestamp-query' is available) */
+    gpuSampleIntervalMs: 100,
+    /** Change of the quality level per adjustment. Level is in range [0, 1] */
+    step: 0.05,
+    /** `min` is used at the best quality, `max` when fastest */
+    errorThreshold: { min: 0.25, max: 4.0 },
+    softwareRasterizerThreshold: { min: 500.0, max: 2500.0 },
+    billboardThreshold: { min: 1000.0, max: 8000.0 },
   },
 
   ///////////////
@@ -182,6 +278,7 @@ export const CONFIG = {
     preprocess: {
       meshletMaxVertices: 64,
       meshletMaxTriangles: 128,
+      /** Meshoptimizer's tradeoff between meshlet size and backface cone culling efficiency. 0 to not compute the cones at all. */
       meshletBackfaceCullingConeWeight: 1.0,
       /** Reduce triangle count per each level. */
       simplificationDecimateFactor: 2,
@@ -212,6 +309,8 @@ export const CONFIG = {
       useMapToFindAdjacentEdges: true,
       /** Go to Devtools->Performance to check Chrome's log */
       enableProfiler: false,
+      /** Web Workers used to build the LOD tree. 'auto' is based on CPU cores. 0 to run on the main thread. */
+      workerCount: 'auto' as number | 'auto',
     },
     render: {
       naniteDevice: 'gpu' as NaniteDevice,
@@ -220,10 +319,39 @@ export const CONFIG = {
        * High value -> high acceptable error -> coarse LOD.
        */
       errorThreshold: 0.5,
+      /**
+       * - 'pixels' - `errorThreshold` is in pixels. Same meaning for every resolution and FOV.
+       * - 'legacy' - old unitless metric. Distance is measured in clip space,
+       *              so the result changes with FOV and aspect ratio.
+       */
+      errorMetric: 'pixels' as NaniteErrorMetric,
       /** See cull meshlets pass shader to compare 2 implementations */
       useVisibilityImpl_Iter: true,
       /** Stop updating visbilit buffer (for debug) */
       freezeGPU_Visibilty: false,
+      /**
+       * Draw what was visible last frame, rebuild depth pyramid, then re-test
+       * everything else against it. Requires instance culling and any occlusion culling.
+       * GPU stats only count draws from the 2nd phase.
+       */
+      twoPassOcclusionCulling: true,
+      /**
+       * Start from the LOD tree roots and only check children of meshlets with
+       * too large error. Otherwise every meshlet of every instance is tested.
+       * Requires instance culling.
+       */
+      hierarchicalCulling: true,
+      /**
+       * Merge all objects into scene-wide buffers (meshlets, vertices, indices,
+       * instances). Each stage is then a single dispatch or indirect draw for
+       * the whole scene. Not available with vertex quantization.
+       */
+      mergeObjects: true,
+      /**
+       * Both rasterizers write only (instance, meshlet, triangle) per pixel.
+       * Then full-screen material pass fetches vertex attributes and shades.
+       */
+      useVisibilityBuffer: false,
       /** Next frame will do an expensive GPU->CPU readback to check content of the GPU 'drawn meshlets' buffer */
       nextFrameDebugDrawnMeshletsBuffer: false,
       shadingMode: SHADING_MODE_PBR,
@@ -263,3 +391,24 @@ export function isSoftwareRasterizerEnabled() {
     enabled && wouldReturnAnything && !potentiallyDangerous && hasAnyCulling
   );
 }
+
+/** Impostors are selected by the instance culling. Without it, every instance is drawn as a mesh */
+export function useImpostorBillboards() {
+  return CONFIG.cullingInstances.enabled;
+}
+
+/** Shadow map is rendered with the GPU culling pipeline */
+export function useShadowMap() {
+  return CONFIG.shadows.enabled && CONFIG.nanite.render.naniteDevice === 'gpu';
+}
+
+export function useTwoPassOcclusionCulling() {
+  const ci = CONFIG.cullingInstances;
+  const cm = CONFIG.cullingMeshlets;
+  // only the indirect variant of meshlet culling (after instance culling) has 2 phases
+  return (
+    CONFIG.nanite.render.twoPassOcclusionCulling &&
+    ci.enabled &&
+    (ci.occlusionCulling || cm.occlusionCulling)
+  );
+}
@@ -6,8 +6,10 @@ const MAX_QUERY_COUNT = 1024;
 const QUERIES_PER_PASS = 2;
 const TOTAL_MAX_QUERIES = MAX_QUERY_COUNT * QUERIES_PER_PASS;
 
-type GpuProfilerResultItem = [string, number];
-export type GpuProfilerResult = Array<[string, number]>;
+type ProfilerScopeType = 'cpu' | 'gpu';
+/** [name, timeMs, type]. Only 'gpu' scopes come from the timestamp queries */
+type GpuProfilerResultItem = [string, number, ProfilerScopeType];
+export type GpuProfilerResult = Array<GpuProfilerResultItem>;
 
 export type ProfilerRegionId = number | undefined;
 
@@ -30,12 +32,17 @@ export class GpuProfiler {
   private readonly queryInProgressBuffer: GPUBuffer;
   private readonly resultsBuffer: GPUBuffer;
 
-  private currentFrameScopes: Array<[string, 'cpu' | 'gpu', number]> = [];
+  private currentFrameScopes: Array<[string, ProfilerScopeType, number]> = [];
 
   get enabled() {
     return this._profileThisFrame && this.hasRequiredFeature;
   }
 
+  /** Requires 'timestamp-query' */
+  get isSupported() {
+    return this.hasRequiredFeature;
+  }
+
   constructor(device: GPUDevice) {
     this.hasRequiredFeature = device.features.has('timestamp-query');
     if (!this.hasRequiredFeature) {
@@ -119,7 +126,7 @@ export class GpuProfiler {
           } else {
             time = cpuTime;
           }
-          return [name, time];
+          return [name, time, type];
         }
       );
       this.resultsBuffer.unmap();
@@ -3,10 +3,17 @@ import { parseArgs } from 'jsr:@std/cli/parse-args';
 
 import { Dimensions, replaceFileExt } from './utils/index.ts';
 import { Renderer } from './renderer.ts';
-import { SCENES, SceneName, isValidSceneName } from './scene/sceneFiles.ts';
+import {
+  SCENES,
+  SceneName,
+  SceneSource,
+  getSceneObjectDef,
+  getSceneObjectNames,
+  isValidSceneSource,
+} from './scene/sceneFiles.ts';
 import { createGpuDevice, ensureIntegerDimensions } from './utils/webgpu.ts';
-import { OnObjectLoadedCb, loadScene } from './scene/load/loadScene.ts';
-import { createErrorSystem } from './utils/errors.ts';
+import { loadScene, loadSceneDef } from './scene/load/loadScene.ts';
+import { ErrorSystem, createErrorSystem } from './utils/errors.ts';
 import {
   injectMeshoptimizerWASM,
   injectMetisWASM,
@@ -16,11 +23,15 @@ import { CONFIG, MODELS_DIR } from './constants.ts';
 import {
   textFileReader_Deno,
   createTextureFromFile_Deno,
+  createTextureFromEmbeddedImage_Deno,
   binaryFileReader_Deno,
+  createPreprocessWorker_Deno,
 } from './sys_deno/loadersDeno.ts';
 import { ObjectLoadingProgressCb } from './scene/load/types.ts';
 import { Scene } from './scene/scene.ts';
-import { exportToFile } from './scene/import-export/import-export.ts';
+import { exportMeshFile } from './scene/import-export/import-export.ts';
+import { NANITE_FILE_EXT } from './scene/import-export/naniteFile.ts';
+import { isMeshFile } from './scene/load/loadObject.ts';
 
 const SCENE_FILE: SceneName = 'jinxCombined';
 // const SCENE_FILE: SceneName = 'manyObjects2';
@@ -32,6 +43,9 @@ injectMetisWASM();
 CONFIG.loaders.textFileReader = textFileReader_Deno;
 CONFIG.loaders.binaryFileReader = binaryFileReader_Deno;
 CONFIG.loaders.createTextureFromFile = createTextureFromFile_Deno;
+CONFIG.loaders.createTextureFromEmbeddedImage =
+  createTextureFromEmbeddedImage_Deno;
+CONFIG.loaders.createPreprocessWorker = createPreprocessWorker_Deno;
 CONFIG.colors.gamma = 1.0; // I assume the png library does it for us?
 
 const cliArgs = parseArgs(Deno.args, {
@@ -41,21 +55,23 @@ const cliArgs = parseArgs(Deno.args, {
 
 const actSceneName = parseSceneName(cliArgs);
 
-// GPUDevice
-const device = (await createGpuDevice())!;
-if (!device) Deno.exit(1);
-const errorSystem = createErrorSystem(device);
-errorSystem.startErrorScope('init');
-
 if (cliArgs.export) {
-  await exportScene(device);
+  // does not need the GPU
+  await exportScene(actSceneName);
 } else {
+  // GPUDevice
+  const device = (await createGpuDevice())!;
+  if (!device) Deno.exit(1);
+  const errorSystem = createErrorSystem(device);
+  errorSystem.startErrorScope('init');
+
   const scene = await loadSceneFile(device, actSceneName);
-  renderSceneToFile(device, scene, './output.png');
+  renderSceneToFile(device, errorSystem, scene, './output.png');
 }
 
 async function renderSceneToFile(
   device: GPUDevice,
+  errorSystem: ErrorSystem,
   scene: Scene,
   outputPath: string
 ) {
@@ -135,32 +151,28 @@ async function renderSceneToFile(
   await writePngFromGPUBuffer(outputBuffer, renderer.viewportSize, outputPath);
 }
 
-async function exportScene(device: GPUDevice) {
-  CONFIG.isExporting = true;
+async function exportScene(scene: SceneSource) {
+  console.log(`Exporting scene '${scene}'..`);
   const exportedFiles: string[] = [];
-
-  await loadSceneFile(device, actSceneName, async (obj) => {
-    const fileNameLC = obj.fileName.toLowerCase();
-    if (!fileNameLC.endsWith('.obj')) {
-      console.log(`Skipping export for '${obj.fileName}', it is not an .obj file`); // prettier-ignore
-      return;
+  const progCb = createProgressCb();
+  const sceneDef = await loadSceneDef(scene);
+
+  for (const objName of getSceneObjectNames(sceneDef)) {
+    const fileName = getSceneObjectDef(objName).file;
+    if (!isMeshFile(fileName)) {
+      console.log(`Skipping export for '${fileName}', it is not a mesh file (OBJ, glTF, PLY, STL)`); // prettier-ignore
+      continue;
     }
 
-    console.log(`Exporting: '${obj.fileName}'`);
-    const fileNameNew = replaceFileExt(obj.fileName, '.json');
+    console.log(`Exporting: '${fileName}'`);
+    const fileNameNew = replaceFileExt(fileName, NANITE_FILE_EXT);
     const exportedFilePath = `${MODELS_DIR}/${fileNameNew}`;
-    const exportedFilePathBin = replaceFileExt(exportedFilePath, '.bin');
 
-    await exportToFile(device, obj, exportedFilePath, exportedFilePathBin);
+    await exportMeshFile(objName, exportedFilePath, progCb);
 
     console.log(`Export success. Result file: '${exportedFilePath}'`);
-    exportedFiles.push(exportedFilePath, exportedFilePathBin);
-  });
-
-  await errorSystem.reportErrorScopeAsync((lastError) => {
-    console.error(lastError);
-    throw new Error(lastError);
-  });
+    exportedFiles.push(exportedFilePath);
+  }
 
   console.log(`Success! Exported files:`, exportedFiles);
 }
@@ -186,33 +198,34 @@ function cmdCopyTextureToBuffer(
   );
 }
 
-function parseSceneName(cliArgs_: typeof cliArgs): SceneName {
-  let result: SceneName = SCENE_FILE;
+/** Built-in scene name or path to JSON scene file */
+function parseSceneName(cliArgs_: typeof cliArgs): SceneSource {
+  let result: SceneSource = SCENE_FILE;
   const cliSceneName = cliArgs_._[0];
 
-  if (isValidSceneName(cliSceneName)) {
+  if (isValidSceneSource(cliSceneName)) {
     result = cliSceneName;
   } else if (cliSceneName != undefined) {
     const okNames = Object.keys(SCENES).join(',');
-    throw new Error(`Invalid scene name '${cliSceneName}', try one of: ${okNames}`); // prettier-ignore
+    throw new Error(`Invalid scene name '${cliSceneName}', use path to .json scene file or one of: ${okNames}`); // prettier-ignore
   }
   return result;
 }
 
-function loadSceneFile(
-  device: GPUDevice,
-  sceneName: SceneName,
-  objectLoadedCb?: OnObjectLoadedCb
-) {
+function loadSceneFile(device: GPUDevice, sceneName: SceneSource) {
   console.log(`Loading scene '${sceneName}'..`);
+  const progCb = createProgressCb();
+  return loadScene(device, sceneName, progCb);
+}
 
+function createProgressCb(): ObjectLoadingProgressCb {
   const setReportText = (msg: string) => {
     console.log(msg);
   };
   let lastReportedPercent = -1;
 
   // deno-lint-ignore require-await
-  const progCb: ObjectLoadingProgressCb = async (objName, p): Promise<void> => {
+  return async (objName, p): Promise<void> => {
     if (typeof p === 'string') {
       setReportText(p);
     } else {
@@ -223,6 +236,4 @@ function loadSceneFile(
       }
     }
   };
-
-  return loadScene(device, sceneName, progCb, objectLoadedCb);
 }
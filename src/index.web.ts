@@ -3,7 +3,7 @@ import { createInputHandler } from './sys_web/input.ts';
 import { Renderer } from './renderer.ts';
 import { STATS } from './sys_web/stats.ts';
 import { initializeGUI, onGpuProfilerResult } from './sys_web/gui.ts';
-import { GpuProfiler } from './gpuProfiler.ts';
+import { GpuProfiler, getProfilerTimestamp } from './gpuProfiler.ts';
 import { initCanvasResizeSystem } from './sys_web/cavasResize.ts';
 import {
   CONFIG,
@@ -17,17 +17,23 @@ import {
   hideHtmlEl,
   ensureHtmlElIsVisible,
 } from './utils/index.ts';
-import { Scene } from './scene/scene.ts';
+import { Scene, disposeScene, getNaniteDrawables } from './scene/scene.ts';
 import { loadScene } from './scene/load/loadScene.ts';
-import { SceneName } from './scene/sceneFiles.ts';
+import { SceneName, SceneSource } from './scene/sceneFiles.ts';
 import {
+  setNaniteConeCullStats,
   setNaniteDrawImpostorsStats,
   setNaniteDrawStats,
   setNaniteDrawStatsHw_Sw,
+  setNaniteMeshletsQueueStats,
+  setNaniteTriangleCullStats,
 } from './passes/_shared.ts';
 import { downloadDrawnImpostorsBuffer } from './scene/naniteBuffers/drawnImpostorsBuffer.ts';
+import { downloadDrawnTrianglesBuffer } from './scene/naniteBuffers/drawnTrianglesBuffer.ts';
+import { downloadMeshletsQueueBuffer } from './scene/naniteBuffers/meshletsQueueBuffer.ts';
 import { ObjectLoadingProgressCb } from './scene/load/types.ts';
 import { applySearchParams } from './sys_web/searchParams.ts';
+import { QualityGovernor } from './qualityGovernor.ts';
 
 // const SCENE_FILE: SceneName = 'bunnySingle';
 // const SCENE_FILE: SceneName = 'bunnyRow';
@@ -72,9 +78,8 @@ const SCENE_FILE: SceneName = 'jinxCombined'; // jinx
 
   // file load
   let scene: Scene;
-  let loaderEl: HTMLElement | null = null;
+  const loaderEl = document.getElementById('loader-wrapper');
   try {
-    loaderEl = document.getElementById('loader-wrapper');
     showHtmlEl(loaderEl);
     scene = await loadSceneFile(device, sceneFile);
   } catch (e) {
@@ -94,7 +99,36 @@ const SCENE_FILE: SceneName = 'jinxCombined'; // jinx
   );
   canvasResizeSystem.addListener(renderer.onCanvasResize);
 
-  initializeGUI(profiler, scene, renderer.cameraCtrl);
+  // scene switch from GUI. Old scene is rendered till the new one is ready
+  let isChangingScene = false;
+  const changeScene = async (nextSceneFile: SceneSource) => {
+    if (isChangingScene) return undefined;
+    isChangingScene = true;
+    try {
+      showHtmlEl(loaderEl);
+      const nextScene = await loadSceneFile(device, nextSceneFile);
+      const prevScene = scene;
+      scene = nextScene;
+      renderer.onSceneChanged();
+      disposeScene(prevScene);
+      return nextScene;
+    } catch (e) {
+      console.error(e);
+      const msg = e instanceof Error ? e.message : String(e);
+      alert(`Could not load scene '${nextSceneFile}'. ${msg}`);
+      return undefined;
+    } finally {
+      hideHtmlEl(loaderEl);
+      isChangingScene = false;
+    }
+  };
+
+  const qualityGovernor = new QualityGovernor(profiler.isSupported);
+
+  initializeGUI(profiler, qualityGovernor, scene, renderer.cameraCtrl, {
+    sceneFile,
+    changeScene,
+  });
   STATS.show();
   let done = false;
 
@@ -118,6 +152,14 @@ const SCENE_FILE: SceneName = 'jinxCombined'; // jinx
     profiler.beginFrame();
     const deltaTime = STATS.deltaTimeMS * MILISECONDS_TO_SECONDS;
 
+    // quality governor. Profiler results are shown only if the user asked for them
+    const frameStart = getProfilerTimestamp();
+    qualityGovernor.onCpuFrame(STATS.deltaTimeMS, frameStart);
+    const isUserProfile = profiler.enabled;
+    if (!isUserProfile && qualityGovernor.shouldProfileGpu(frameStart)) {
+      profiler.profileNextFrame(true);
+    }
+
     canvasResizeSystem.revalidateCanvasSize();
 
     const inputState = getInputState();
@@ -132,7 +174,10 @@ const SCENE_FILE: SceneName = 'jinxCombined'; // jinx
     profiler.endFrame(cmdBuf);
     device.queue.submit([cmdBuf.finish()]);
 
-    profiler.scheduleRaportIfNeededAsync(onGpuProfilerResult);
+    profiler.scheduleRaportIfNeededAsync((result) => {
+      qualityGovernor.onGpuProfilerResult(result, getProfilerTimestamp());
+      if (isUserProfile) onGpuProfilerResult(result);
+    });
 
     // download GPU visibility buffer if needed
     if (CONFIG.nanite.render.nextFrameDebugDrawnMeshletsBuffer) {
@@ -179,7 +224,7 @@ function getCanvasContext(
   return [canvas, context];
 }
 
-function loadSceneFile(device: GPUDevice, sceneName: SceneName) {
+function loadSceneFile(device: GPUDevice, sceneName: SceneSource) {
   const reportEl = document.getElementById('loader-text');
   const setReportText = (msg: string) => {
     // console.log(msg);
@@ -214,21 +259,75 @@ function showErrorMessage(msg?: string) {
 function getGPUStats(device: GPUDevice, scene: Scene) {
   getGPUStats_meshlets(device, scene);
   getGPUStats_impostors(device, scene);
+  if (CONFIG.cullingTriangles.enabled) {
+    getGPUStats_triangles(device, scene);
+  }
+  // hierarchical culling requires instance culling
+  const render = CONFIG.nanite.render;
+  if (render.hierarchicalCulling && CONFIG.cullingInstances.enabled) {
+    getGPUStats_meshletsQueue(device, scene);
+  }
+}
+
+async function getGPUStats_meshletsQueue(device: GPUDevice, scene: Scene) {
+  let overflowCount = 0;
+
+  const resultsAsync = getNaniteDrawables(scene).map(async (obj) => {
+    const result = await downloadMeshletsQueueBuffer(device, obj);
+    overflowCount += result.overflowCount;
+  });
+  await Promise.all(resultsAsync);
+
+  setNaniteMeshletsQueueStats(overflowCount);
+}
+
+async function getGPUStats_triangles(device: GPUDevice, scene: Scene) {
+  let culledBackface = 0;
+  let culledZeroArea = 0;
+  let culledSmall = 0;
+  let testedTriangles = 0;
+
+  const resultsAsync = getNaniteDrawables(scene).map(async (obj) => {
+    const result = await downloadDrawnTrianglesBuffer(device, obj);
+    const culled =
+      result.culledBackface + result.culledZeroArea + result.culledSmall;
+
+    culledBackface += result.culledBackface;
+    culledZeroArea += result.culledZeroArea;
+    culledSmall += result.culledSmall;
+    testedTriangles += result.indexCount / 3 + result.overflowCount + culled;
+  });
+  await Promise.all(resultsAsync);
+
+  setNaniteTriangleCullStats(
+    culledBackface,
+    culledZeroArea,
+    culledSmall,
+    testedTriangles
+  );
 }
 
 async function getGPUStats_impostors(device: GPUDevice, scene: Scene) {
-  let allInstances = 0;
+  const allInstances = scene.naniteObjects.reduce(
+    (acc, obj) => acc + obj.instancesCount,
+    0
+  );
   let drawnImpostors = 0;
+  let crossFadedImpostors = 0;
 
-  const resultsAsync = scene.naniteObjects.map(async (obj) => {
+  const resultsAsync = getNaniteDrawables(scene).map(async (obj) => {
     const result = await downloadDrawnImpostorsBuffer(device, obj);
 
-    allInstances += obj.instancesCount;
     drawnImpostors += result.impostorCount;
+    crossFadedImpostors += result.crossFadeCount;
   });
   await Promise.all(resultsAsync);
 
-  setNaniteDrawImpostorsStats(drawnImpostors, allInstances);
+  setNaniteDrawImpostorsStats(
+    drawnImpostors,
+    crossFadedImpostors,
+    allInstances
+  );
 }
 
 async function getGPUStats_meshlets(device: GPUDevice, scene: Scene) {
@@ -238,14 +337,16 @@ async function getGPUStats_meshlets(device: GPUDevice, scene: Scene) {
   let drawnTrianglesHW = 0;
   let drawnMeshletsSW = 0;
   let drawnTrianglesSW = 0;
+  let coneCulledMeshlets = 0;
 
-  const resultsAsync = scene.naniteObjects.map(async (obj) => {
+  const resultsAsync = getNaniteDrawables(scene).map(async (obj) => {
     const { hardwareRaster, softwareRaster } =
       await downloadDrawnMeshletsBuffer(device, obj);
 
     drawnMeshlets += hardwareRaster.meshletCount + softwareRaster.meshletCount;
     drawnMeshletsHW += hardwareRaster.meshletCount;
     drawnMeshletsSW += softwareRaster.meshletCount;
+    coneCulledMeshlets += hardwareRaster.coneCulledMeshlets;
 
     const getTriCnt = (meshletId: number) => {
       const meshlet = obj.find(meshletId);
@@ -275,6 +376,7 @@ async function getGPUStats_meshlets(device: GPUDevice, scene: Scene) {
     drawnMeshletsSW,
     drawnTrianglesSW
   );
+  setNaniteConeCullStats(coneCulledMeshlets, drawnMeshlets);
 }
 
 // special check for software rasterizer warning
@@ -1,5 +1,5 @@
 import { vec3 } from 'wgpu-matrix';
-import { BYTES_F32, BYTES_U32, VERTS_IN_TRIANGLE } from '../constants.ts';
+import { BYTES_F32, VERTS_IN_TRIANGLE } from '../constants.ts';
 import { copyToTypedArray } from '../utils/index.ts';
 import { WasmModule } from '../utils/wasm-types.d.ts';
 import { meshoptCall, wasmPtr } from '../utils/wasm.ts';
@@ -71,21 +71,23 @@ export async function createMeshlets(
   const meshlets: meshopt_Meshlet[] = [];
   for (let i = 0; i < meshletCount; i += 1) {
     const idx = i * U32_IN_MESHOPT_MESHLET;
-    const meshlet: Omit<meshopt_Meshlet, 'bounds'> = {
+    const meshlet: meshopt_Meshlet = {
       vertexOffset: meshletsRaw[idx + 0],
       triangleOffset: meshletsRaw[idx + 1],
       vertexCount: meshletsRaw[idx + 2],
       triangleCount: meshletsRaw[idx + 3],
     };
-    /*const bounds = computeMeshletBounds(
-      module,
-      vertices,
-      meshData,
-      meshletVertices,
-      meshletTriangles,
-      meshlet
-    );*/
-    // console.log('bounds', bounds);
+    // cones are only meaningful if meshoptimizer was optimizing for them
+    if (opts.coneWeight! > 0) {
+      meshlet.bounds = computeMeshletBounds(
+        module,
+        mesh.positions,
+        mesh.positionsStride,
+        meshletVertices,
+        meshletTriangles,
+        meshlet
+      );
+    }
 
     meshlets.push(meshlet);
   }
@@ -210,32 +212,43 @@ export function splitIndicesPerMeshlets(meshlets: meshopt_Meshlets) {
   });
 }
 
-function _computeMeshletBounds(
+/**
+ * Backface culling cone of a single meshlet. Only the meshlet's vertices
+ * are copied to the wasm heap, the whole vertex buffer would be too slow.
+ */
+function computeMeshletBounds(
   module: WasmModule,
   vertices: Float32Array,
-  vertexCount: number,
   stride: number,
   meshletVertices: Uint32Array,
   meshletTriangles: Uint8Array,
   meshlet: Omit<meshopt_Meshlet, 'bounds'>
 ): meshopt_Bounds {
-  const mVerts = new Uint32Array(
-    meshletVertices,
-    meshlet.vertexOffset * BYTES_U32
+  const strideF32 = stride / BYTES_F32;
+  const positions = new Float32Array(meshlet.vertexCount * 3);
+  const localVertices = new Uint32Array(meshlet.vertexCount);
+  for (let i = 0; i < meshlet.vertexCount; i++) {
+    const vertIdx = meshletVertices[meshlet.vertexOffset + i];
+    positions[i * 3 + 0] = vertices[vertIdx * strideF32 + 0];
+    positions[i * 3 + 1] = vertices[vertIdx * strideF32 + 1];
+    positions[i * 3 + 2] = vertices[vertIdx * strideF32 + 2];
+    localVertices[i] = i;
+  }
+  const mIdx = meshletTriangles.subarray(
+    meshlet.triangleOffset,
+    meshlet.triangleOffset + meshlet.triangleCount * VERTS_IN_TRIANGLE
   );
-  const mIdx = new Uint8Array(meshletTriangles, meshlet.triangleOffset);
-  // console.log('computeMeshletBounds', arguments);
 
   const returnValueBuffer = new Float32Array(MESHOPT_BOUNDS_BYTES / BYTES_F32);
 
-  const _ret = meshoptCall(module, 'number', 'meshopt_computeMeshletBounds', [
+  meshoptCall(module, 'number', 'meshopt_computeMeshletBounds', [
     wasmPtr(returnValueBuffer, 'out'),
-    wasmPtr(mVerts), // unsigned int* meshlet_vertices, ||| &meshlet_vertices[m.vertex_offset],
+    wasmPtr(localVertices), // unsigned int* meshlet_vertices, ||| &meshlet_vertices[m.vertex_offset],
     wasmPtr(mIdx), // unsigned char* meshlet_triangles, ||| &meshlet_triangles[m.triangle_offset],
     meshlet.triangleCount, // size_t triangle_count, ||| m.triangle_count,
-    wasmPtr(vertices), // const float* vertex_positions, ||| &vertices[0].x,
-    vertexCount, // size_t vertex_count, ||| vertices.size(),
-    stride, // size_t vertex_positions_stride ||| sizeof(Vertex)
+    wasmPtr(positions), // const float* vertex_positions, ||| &vertices[0].x,
+    meshlet.vertexCount, // size_t vertex_count, ||| vertices.size(),
+    3 * BYTES_F32, // size_t vertex_positions_stride ||| sizeof(Vertex)
   ]);
 
   return parseMeshopt_Bounds(returnValueBuffer);
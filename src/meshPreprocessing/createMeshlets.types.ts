@@ -18,6 +18,9 @@ export const MESHOPT_BOUNDS_BYTES =
   3 + // signed char cone_axis_s8[3];
   1; // signed char cone_cutoff_s8;
 
+/** Part of `meshopt_Bounds` needed for backface cone culling. Model space. */
+export type MeshletCone = Pick<meshopt_Bounds, 'coneAxis' | 'coneCutoff'>;
+
 export interface meshopt_Meshlet {
   /* offsets within meshletVertices */
   vertexOffset: number; // unsigned int
@@ -27,7 +30,8 @@ export interface meshopt_Meshlet {
   triangleOffset: number; // unsigned int
   /** number of triangles in the meshlet */
   triangleCount: number; // unsigned int
-  // bounds?: meshopt_Bounds;
+  /** Only if created with `coneWeight > 0` */
+  bounds?: meshopt_Bounds;
 }
 export const U32_IN_MESHOPT_MESHLET = 4;
 
@@ -6,17 +6,15 @@ import {
   getTriangleCount,
 } from '../utils/index.ts';
 import { BoundingSphere, calculateBounds } from '../utils/calcBounds.ts';
-import { createMeshlets, splitIndicesPerMeshlets } from './createMeshlets.ts';
-import {
-  listAllEdges,
-  findBoundaryEdges,
-  Edge,
-  findAdjacentMeshlets_Iter,
-  findAdjacentMeshlets_Map,
-} from './edgesUtils.ts';
-import { metisFreeAllocations, partitionGraph } from './partitionGraph.ts';
-import { calculateTargetIndexCount, simplifyMesh } from './simplifyMesh.ts';
+import { Edge } from './edgesUtils.ts';
+import { metisFreeAllocations } from './partitionGraph.ts';
 import { ParsedMesh } from '../scene/objLoader.ts';
+import {
+  InlinePreprocessExecutor,
+  PreprocessExecutor,
+} from './workers/workerPool.ts';
+import { CreatedMeshlets } from './workers/preprocessTasks.ts';
+import { MeshletCone } from './createMeshlets.types.ts';
 
 /*
 
@@ -32,10 +30,6 @@ Especially updated version of this file in:
 
 */
 
-const findAdjacentMeshlets = CONFIG.nanite.preprocess.useMapToFindAdjacentEdges
-  ? findAdjacentMeshlets_Map
-  : findAdjacentMeshlets_Iter;
-
 const DEBUG = false;
 
 /** Progress [0..1]. Promise, so you can yield thread (for DOM updates) if you want */
@@ -74,19 +68,26 @@ export interface MeshletWIP {
   /** ## ASSINGED WHEN MORE COARSE MESHLET USES US AS A BASE!
    * Parent/higher-level meshlets means created from this meshlet. `undefined` for root (most coarse) meshlet. */
   parentBounds: BoundingSphere | undefined;
+  /** Backface culling cone. `undefined` for the meshlets that were not split
+   * by meshoptimizer (e.g. root) or if `meshletBackfaceCullingConeWeight` is 0 */
+  cone?: MeshletCone;
 }
 
 export const isWIP_Root = (m: Pick<MeshletWIP, 'parentBounds'>) =>
   m.parentBounds === undefined;
 
+/**
+ * Build the meshlet LOD tree. The heavy work (simplification, METIS)
+ * is done by the `executor`. Groups within one LOD level are
+ * independent, so they are processed in parallel if executor has workers.
+ */
 export async function createNaniteMeshlets(
   parsedMesh: ParsedMesh,
   indices: Uint32Array,
-  progressCb?: MeshPreprocessProgressCb
+  progressCb?: MeshPreprocessProgressCb,
+  executor: PreprocessExecutor = new InlinePreprocessExecutor()
 ): Promise<MeshletWIP[]> {
   const np = CONFIG.nanite.preprocess;
-  const DECIMATE_FACTOR = np.simplificationDecimateFactor;
-  const SIMPLIFICATION_FACTOR_REQ = np.simplificationFactorRequirement;
   const SIMPLIFICATION_FACTOR_REQ_BETWEEN_LEVELS =
     1.0 - np.simplificationFactorRequirementBetweenLevels;
   const SIMPLIFICATION_TARGET_ERROR_MULTIPLIER =
@@ -95,6 +96,7 @@ export async function createNaniteMeshlets(
 
   NEXT_MESHLET_ID = 0;
   const estimatedMeshletCount = estimateFinalMeshletCount(indices); // guess for progress stats
+  executor.setMesh(parsedMesh);
 
   const allMeshlets: MeshletWIP[] = [];
   let lodLevel = 0;
@@ -102,7 +104,15 @@ export async function createNaniteMeshlets(
   // the 'has error < threshold' check. They only depend on the parent's error.
   // If the parent also passes the check, the parent should be rendered instead
   const mockBounds = calculateBounds(parsedMesh.positions, indices).sphere;
-  const bottomMeshlets = await splitIntoMeshlets(indices, 0.0, [], mockBounds);
+  const bottomMeshletsData = await executor.run('splitIntoMeshlets', {
+    indices: indices.slice(), // copy, as it will be transferred
+  });
+  const bottomMeshlets = await createMeshletWips(
+    bottomMeshletsData,
+    0.0,
+    [],
+    mockBounds
+  );
 
   let currentMeshlets = bottomMeshlets;
   lodLevel += 1;
@@ -145,11 +155,11 @@ export async function createNaniteMeshlets(
     const nparts = Math.ceil(currentMeshlets.length / GROUP_SIZE);
     let partitioned = [currentMeshlets];
     if (currentMeshlets.length > GROUP_SIZE) {
-      const adjacency = findAdjacentMeshlets(
-        currentMeshlets.map((m) => m.boundaryEdges)
-      );
       // each part is 4 meshlets
-      const meshletIdxPerPart = await partitionGraph(adjacency, nparts, {});
+      const meshletIdxPerPart = await executor.run('partition', {
+        boundaryEdges: currentMeshlets.map((m) => m.boundaryEdges),
+        nparts,
+      });
       partitioned = meshletIdxPerPart.map((indices) => {
         return indices.map((i) => currentMeshlets[i]);
       });
@@ -162,63 +172,54 @@ export async function createNaniteMeshlets(
       );
     }
 
-    // 2. for each group of 4 meshlets
-    const newlyCreatedMeshlets: MeshletWIP[] = [];
-    for (const childMeshletGroup of partitioned) {
-      // 2.1 [GROUP] merge triangles from all meshlets in the group
-      const megaMeshlet: Uint32Array = mergeMeshlets(...childMeshletGroup);
-
-      // 2.2 [GROUP] simplify to remove not needed edges/vertices in the middle
-      const targetIndexCount = calculateTargetIndexCount(
-        megaMeshlet.length,
-        DECIMATE_FACTOR
-      );
-      const simplifiedMesh = await simplifyMesh(parsedMesh, megaMeshlet, {
-        targetIndexCount,
+    // 2. for each group of 4 meshlets. Groups are independent of each other,
+    // so schedule all of them at once. Results are processed in order,
+    // so the meshlet ids are the same as if we did it sequentially.
+    const simplifiedGroups = partitioned.map((childMeshletGroup) =>
+      executor.run('simplifyGroup', {
+        // 2.1 [GROUP] merge triangles from all meshlets in the group
+        indices: mergeMeshlets(...childMeshletGroup),
+        // 2.2 [GROUP] simplify to remove not needed edges/vertices in the middle
         targetError: simplificationTargetError,
-        lockBorders: true, // important!
-      });
+        // this happens on last iteration, when < 4 meshlets
+        asSingleMeshlet: partitioned.length === 1,
+      })
+    );
+    // do not leave unhandled rejections if we throw on an earlier group
+    simplifiedGroups.forEach((p) => p.catch(() => {}));
+
+    const newlyCreatedMeshlets: MeshletWIP[] = [];
+    for (let groupIdx = 0; groupIdx < partitioned.length; groupIdx++) {
+      const childMeshletGroup = partitioned[groupIdx];
+      const simplifiedGroup = await simplifiedGroups[groupIdx];
 
-      // AKA percent of triangles still left after simplify.
-      // Check if we simplified enough. If we could not simplify further, no point
-      // in continuing for this group for higher levels
-      const trianglesBefore = getTriangleCount(megaMeshlet);
-      const trianglesAfter = getTriangleCount(simplifiedMesh.indexBuffer);
-      const simplificationFactor = trianglesAfter / trianglesBefore;
-      if (simplificationFactor > SIMPLIFICATION_FACTOR_REQ) {
+      if (!simplifiedGroup.simplified) {
         // Simplification unsuccessful. This is OK for complicated objects
         // Current `childMeshlet` will be roots of the LOD tree (no parent).
+        const { trianglesBefore, trianglesAfter } = simplifiedGroup;
         console.warn(`Part of the mesh could not be simplified more (LOD level=${lodLevel}). Reduced from ${trianglesBefore} to ${formatPercentageNumber(trianglesAfter, trianglesBefore)} triangles`); // prettier-ignore
         continue;
       }
 
       // simplification went OK, calculate meshlet data
       const errorNow = Math.max(
-        simplifiedMesh.error * simplifiedMesh.errorScale,
+        simplifiedGroup.error,
         MINIMAL_SIMPLICATION_ERROR
       );
       const childrenError = Math.max(
         ...childMeshletGroup.map((m) => m.maxSiblingsError)
       );
       const totalError = errorNow + childrenError;
-      const bounds = calculateBounds(parsedMesh.positions, megaMeshlet).sphere;
+      const bounds = simplifiedGroup.bounds;
 
       // 2.3 [GROUP] split into new meshlets. Share: simplificationError, bounds (both are used in nanite to reproject the error)
-      let newMeshlets: MeshletWIP[];
-      if (partitioned.length === 1) {
-        // this happens on last iteration, when < 4 meshlets
-        // prettier-ignore
-        const rootMeshlet = await createMeshletWip(simplifiedMesh.indexBuffer, totalError, childMeshletGroup, bounds);
-        newMeshlets = [rootMeshlet];
-      } else {
-        // prettier-ignore
-        newMeshlets = await splitIntoMeshlets(simplifiedMesh.indexBuffer, totalError, childMeshletGroup, bounds);
-      }
+      // prettier-ignore
+      const newMeshlets = await createMeshletWips(simplifiedGroup.meshlets, totalError, childMeshletGroup, bounds);
 
       if (DEBUG) {
         // prettier-ignore
         console.log(
-          `\tTry simplify (intial=${getTriangleCount(megaMeshlet)} into target=${getTriangleCount(targetIndexCount)} tris), got ${getTriangleCount(simplifiedMesh.indexBuffer)} tris (${(100.0 * simplificationFactor).toFixed(2)}%).`,
+          `\tSimplified group ${groupIdx} (error=${totalError}).`,
           'Meshlets:', newMeshlets
         );
       }
@@ -246,6 +247,7 @@ export async function createNaniteMeshlets(
   // By now the LOD tree is complete
 
   // mass free the memory, see the JSDocs of the fn.
+  // Only affects the current thread, workers free everything on terminate.
   metisFreeAllocations();
 
   return allMeshlets;
@@ -253,47 +255,41 @@ export async function createNaniteMeshlets(
   /////////////
   /// Utils
 
-  async function splitIntoMeshlets(
-    indices: Uint32Array,
+  async function createMeshletWips(
+    created: CreatedMeshlets,
     simplificationError: number,
     createdFrom: MeshletWIP[],
     sharedSiblingsBounds: BoundingSphere
-  ) {
-    const meshletsOpt = await createMeshlets(parsedMesh, indices, {
-      maxVertices: CONFIG.nanite.preprocess.meshletMaxVertices,
-      maxTriangles: CONFIG.nanite.preprocess.meshletMaxTriangles,
-      coneWeight: CONFIG.nanite.preprocess.meshletBackfaceCullingConeWeight,
-    });
-    // during init: create tons of small meshlets
-    // during iter: split simplified mesh into 2+ meshlets
-    const meshletsIndices = splitIndicesPerMeshlets(meshletsOpt);
-
-    const meshlets: MeshletWIP[] = await Promise.all(
-      meshletsIndices.map((indices) => {
-        return createMeshletWip(
-          indices,
-          simplificationError,
-          createdFrom,
-          sharedSiblingsBounds
-        );
-      })
-    );
-
+  ): Promise<MeshletWIP[]> {
+    const meshlets: MeshletWIP[] = [];
+    for (let i = 0; i < created.indices.length; i++) {
+      const m = createMeshletWip(
+        created.indices[i],
+        created.boundaryEdges[i],
+        created.cones[i],
+        simplificationError,
+        createdFrom,
+        sharedSiblingsBounds
+      );
+      meshlets.push(m);
+    }
+    await reportProgress();
     return meshlets;
   }
 
-  async function createMeshletWip(
+  function createMeshletWip(
     indices: Uint32Array,
+    boundaryEdges: Edge[],
+    cone: MeshletCone | undefined,
     simplificationError: number,
     createdFrom: MeshletWIP[],
     sharedSiblingsBounds: BoundingSphere
-  ): Promise<MeshletWIP> {
-    const edges = listAllEdges(indices);
-    const boundaryEdges = findBoundaryEdges(edges);
+  ): MeshletWIP {
     const m: MeshletWIP = {
       id: NEXT_MESHLET_ID,
       indices,
       boundaryEdges,
+      cone,
       maxSiblingsError: simplificationError,
       parentError: Infinity,
       sharedSiblingsBounds,
@@ -303,7 +299,6 @@ export async function createNaniteMeshlets(
     };
     NEXT_MESHLET_ID += 1;
     allMeshlets.push(m);
-    await reportProgress();
     return m;
   }
 
@@ -0,0 +1,32 @@
+import { CONFIG } from '../../constants.ts';
+import { ParsedMesh } from '../../scene/objLoader.ts';
+import { PreprocessTaskType } from './preprocessTasks.ts';
+
+/** Worker has it's own copy of all modules, so we have to send the CONFIG and .wasm paths */
+export interface WorkerInitMessage {
+  type: 'init';
+  preprocessConfig: typeof CONFIG.nanite.preprocess;
+  meshoptimizerWasmPath: string | undefined;
+  metisWasmPath: string | undefined;
+}
+
+export interface WorkerSetMeshMessage {
+  type: 'setMesh';
+  mesh: ParsedMesh;
+}
+
+export interface WorkerTaskMessage {
+  type: 'task';
+  taskId: number;
+  taskType: PreprocessTaskType;
+  args: unknown;
+}
+
+export type WorkerRequest =
+  | WorkerInitMessage
+  | WorkerSetMeshMessage
+  | WorkerTaskMessage;
+
+export type WorkerResponse =
+  | { taskId: number; result: unknown }
+  | { taskId: number; error: string };
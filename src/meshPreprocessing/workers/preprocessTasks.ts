@@ -0,0 +1,240 @@
+import { CONFIG } from '../../constants.ts';
+import {
+  ParsedMesh,
+  RawMeshData,
+  createParsedMesh,
+  loadObjFile,
+} from '../../scene/objLoader.ts';
+import { parsePlyFile } from '../../scene/plyLoader.ts';
+import { parseStlFile } from '../../scene/stlLoader.ts';
+import { BoundingSphere, calculateBounds } from '../../utils/calcBounds.ts';
+import { getTriangleCount } from '../../utils/index.ts';
+import { createMeshlets, splitIndicesPerMeshlets } from '../createMeshlets.ts';
+import { MeshletCone } from '../createMeshlets.types.ts';
+import {
+  Edge,
+  listAllEdges,
+  findBoundaryEdges,
+  findAdjacentMeshlets_Iter,
+  findAdjacentMeshlets_Map,
+} from '../edgesUtils.ts';
+import { partitionGraph } from '../partitionGraph.ts';
+import { calculateTargetIndexCount, simplifyMesh } from '../simplifyMesh.ts';
+
+/**
+ * Meshlets created by the task. Each meshlet has it's own index buffer,
+ * so they can be transferred between threads without copy.
+ */
+export interface CreatedMeshlets {
+  indices: Uint32Array[];
+  boundaryEdges: Edge[][];
+  /** Backface culling cones. `undefined` if not computed */
+  cones: Array<MeshletCone | undefined>;
+}
+
+export type SimplifiedGroup =
+  | {
+      simplified: false;
+      trianglesBefore: number;
+      trianglesAfter: number;
+    }
+  | {
+      simplified: true;
+      /** Already multiplied by meshoptimizer's error scale */
+      error: number;
+      /** Bounds of the merged (not simplified) meshlets */
+      bounds: BoundingSphere;
+      meshlets: CreatedMeshlets;
+    };
+
+/** Each task is a self-contained piece of work that can be done on any thread. */
+export interface PreprocessTasks {
+  /** OBJ parse and `optimizeMeshBuffers()` */
+  parseObj: {
+    args: { objText: string; scale: number };
+    result: ParsedMesh;
+  };
+  /** PLY parse and `optimizeMeshBuffers()` */
+  parsePly: {
+    args: { data: Uint8Array; scale: number };
+    result: ParsedMesh;
+  };
+  /** STL parse and `optimizeMeshBuffers()` */
+  parseStl: {
+    args: { data: Uint8Array; scale: number };
+    result: ParsedMesh;
+  };
+  /** `optimizeMeshBuffers()` for meshes that were already parsed, e.g. glTF */
+  createParsedMesh: {
+    args: { rawMesh: RawMeshData };
+    result: ParsedMesh;
+  };
+  /** Split whole mesh into meshlets. Used for the bottom LOD level. */
+  splitIntoMeshlets: {
+    args: { indices: Uint32Array };
+    result: CreatedMeshlets;
+  };
+  /** METIS partition of the meshlets into groups. Returns meshlet indices per group. */
+  partition: {
+    args: { boundaryEdges: Edge[][]; nparts: number };
+    result: number[][];
+  };
+  /** Simplify merged meshlets of a single group and split the result into new meshlets */
+  simplifyGroup: {
+    args: {
+      /** Merged indices of all meshlets in the group */
+      indices: Uint32Array;
+      targetError: number;
+      /** Do not split the result. Used for the root of the LOD tree. */
+      asSingleMeshlet: boolean;
+    };
+    result: SimplifiedGroup;
+  };
+}
+
+export type PreprocessTaskType = keyof PreprocessTasks;
+export type PreprocessTaskArgs<K extends PreprocessTaskType> =
+  PreprocessTasks[K]['args'];
+export type PreprocessTaskResult<K extends PreprocessTaskType> =
+  PreprocessTasks[K]['result'];
+
+/** Mesh is required for every task except the parsing ones */
+type TaskHandler<K extends PreprocessTaskType> = (
+  mesh: ParsedMesh | undefined,
+  args: PreprocessTaskArgs<K>
+) => Promise<PreprocessTaskResult<K>>;
+
+const TASK_HANDLERS: { [K in PreprocessTaskType]: TaskHandler<K> } = {
+  parseObj: (_mesh, { objText, scale }) => loadObjFile(objText, scale),
+  parsePly: (_mesh, { data, scale }) =>
+    createParsedMesh(parsePlyFile(data, scale)),
+  parseStl: (_mesh, { data, scale }) =>
+    createParsedMesh(parseStlFile(data, scale)),
+  createParsedMesh: (_mesh, { rawMesh }) => createParsedMesh(rawMesh),
+  splitIntoMeshlets: (mesh, { indices }) =>
+    splitIntoMeshlets(requireMesh(mesh), indices),
+  // deno-lint-ignore require-await
+  partition: async (_mesh, args) => partitionMeshlets(args),
+  simplifyGroup: (mesh, args) => simplifyGroup(requireMesh(mesh), args),
+};
+
+export function runPreprocessTask<K extends PreprocessTaskType>(
+  mesh: ParsedMesh | undefined,
+  type: K,
+  args: PreprocessTaskArgs<K>
+): Promise<PreprocessTaskResult<K>> {
+  const handler = TASK_HANDLERS[type] as TaskHandler<K>;
+  return handler(mesh, args);
+}
+
+/** List buffers of all typed arrays inside the object, so they can be transferred instead of copied. */
+export function getTransferables(data: unknown): ArrayBuffer[] {
+  const result = new Set<ArrayBuffer>();
+
+  const visit = (value: unknown) => {
+    if (value == null || typeof value !== 'object') return;
+    if (ArrayBuffer.isView(value)) {
+      const buffer = value.buffer;
+      if (buffer instanceof ArrayBuffer) result.add(buffer);
+      return;
+    }
+    Object.values(value).forEach(visit);
+  };
+  visit(data);
+
+  return [...result];
+}
+
+function requireMesh(mesh: ParsedMesh | undefined): ParsedMesh {
+  if (!mesh) {
+    throw new Error(`Mesh preprocessing task requires the mesh data. Call 'setMesh()' first.`); // prettier-ignore
+  }
+  return mesh;
+}
+
+async function splitIntoMeshlets(
+  mesh: ParsedMesh,
+  indices: Uint32Array
+): Promise<CreatedMeshlets> {
+  const meshletsOpt = await createMeshlets(mesh, indices, {
+    maxVertices: CONFIG.nanite.preprocess.meshletMaxVertices,
+    maxTriangles: CONFIG.nanite.preprocess.meshletMaxTriangles,
+    coneWeight: CONFIG.nanite.preprocess.meshletBackfaceCullingConeWeight,
+  });
+  // during init: create tons of small meshlets
+  // during iter: split simplified mesh into 2+ meshlets
+  const meshletsIndices = splitIndicesPerMeshlets(meshletsOpt);
+  const cones = meshletsOpt.meshlets.map(({ bounds }) =>
+    bounds
+      ? { coneAxis: bounds.coneAxis, coneCutoff: bounds.coneCutoff }
+      : undefined
+  );
+  return createMeshletsData(meshletsIndices, cones);
+}
+
+function createMeshletsData(
+  meshletsIndices: Uint32Array[],
+  cones: Array<MeshletCone | undefined>
+): CreatedMeshlets {
+  return {
+    indices: meshletsIndices,
+    boundaryEdges: meshletsIndices.map((indices) =>
+      findBoundaryEdges(listAllEdges(indices))
+    ),
+    cones,
+  };
+}
+
+function partitionMeshlets({
+  boundaryEdges,
+  nparts,
+}: PreprocessTaskArgs<'partition'>) {
+  const findAdjacentMeshlets = CONFIG.nanite.preprocess
+    .useMapToFindAdjacentEdges
+    ? findAdjacentMeshlets_Map
+    : findAdjacentMeshlets_Iter;
+
+  const adjacency = findAdjacentMeshlets(boundaryEdges);
+  return partitionGraph(adjacency, nparts, {});
+}
+
+async function simplifyGroup(
+  mesh: ParsedMesh,
+  { indices, targetError, asSingleMeshlet }: PreprocessTaskArgs<'simplifyGroup'>
+): Promise<SimplifiedGroup> {
+  const targetIndexCount = calculateTargetIndexCount(
+    indices.length,
+    CONFIG.nanite.preprocess.simplificationDecimateFactor
+  );
+  const simplifiedMesh = await simplifyMesh(mesh, indices, {
+    targetIndexCount,
+    targetError,
+    lockBorders: true, // important!
+  });
+
+  // AKA percent of triangles still left after simplify.
+  // Check if we simplified enough. If we could not simplify further, no point
+  // in continuing for this group for higher levels
+  const trianglesBefore = getTriangleCount(indices);
+  const trianglesAfter = getTriangleCount(simplifiedMesh.indexBuffer);
+  const simplificationFactor = trianglesAfter / trianglesBefore;
+  if (
+    simplificationFactor >
+    CONFIG.nanite.preprocess.simplificationFactorRequirement
+  ) {
+    return { simplified: false, trianglesBefore, trianglesAfter };
+  }
+
+  const bounds = calculateBounds(mesh.positions, indices).sphere;
+  // no cone for the single meshlet, it would be too wide to cull anything
+  const meshlets = asSingleMeshlet
+    ? createMeshletsData([simplifiedMesh.indexBuffer], [undefined])
+    : await splitIntoMeshlets(mesh, simplifiedMesh.indexBuffer);
+
+  return {
+    simplified: true,
+    error: simplifiedMesh.error * simplifiedMesh.errorScale,
+    bounds,
+    meshlets,
+  };
+}
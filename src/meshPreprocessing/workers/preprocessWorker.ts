@@ -0,0 +1,48 @@
+/*
+Entry point for the mesh preprocessing worker.
+
+- Web: bundled by esbuild into a separate file (see 'esbuild-script.js').
+- Deno: loaded as a module worker straight from the .ts file.
+*/
+
+import { CONFIG } from '../../constants.ts';
+import { ParsedMesh } from '../../scene/objLoader.ts';
+import { OVERRIDE_MESHOPTIMIZER_WASM_PATH } from '../meshoptimizerUtils.ts';
+import { OVERRIDE_METIS_WASM_PATH } from '../partitionGraph.ts';
+import { WorkerRequest, WorkerResponse } from './messages.ts';
+import { getTransferables, runPreprocessTask } from './preprocessTasks.ts';
+
+let MESH: ParsedMesh | undefined = undefined;
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const msg = event.data;
+
+  switch (msg.type) {
+    case 'init': {
+      Object.assign(CONFIG.nanite.preprocess, msg.preprocessConfig);
+      OVERRIDE_MESHOPTIMIZER_WASM_PATH.value = msg.meshoptimizerWasmPath;
+      OVERRIDE_METIS_WASM_PATH.value = msg.metisWasmPath;
+      break;
+    }
+    case 'setMesh': {
+      MESH = msg.mesh;
+      break;
+    }
+    case 'task': {
+      const { taskId, taskType, args } = msg;
+      try {
+        // deno-lint-ignore no-explicit-any
+        const result = await runPreprocessTask(MESH, taskType, args as any);
+        postResponse({ taskId, result }, getTransferables(result));
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        postResponse({ taskId, error });
+      }
+      break;
+    }
+  }
+};
+
+function postResponse(resp: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(resp, { transfer });
+}
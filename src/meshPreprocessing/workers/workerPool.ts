@@ -0,0 +1,192 @@
+import { CONFIG } from '../../constants.ts';
+import { ParsedMesh } from '../../scene/objLoader.ts';
+import { clamp } from '../../utils/index.ts';
+import { OVERRIDE_MESHOPTIMIZER_WASM_PATH } from '../meshoptimizerUtils.ts';
+import { OVERRIDE_METIS_WASM_PATH } from '../partitionGraph.ts';
+import { WorkerRequest, WorkerResponse } from './messages.ts';
+import {
+  PreprocessTaskArgs,
+  PreprocessTaskResult,
+  PreprocessTaskType,
+  getTransferables,
+  runPreprocessTask,
+} from './preprocessTasks.ts';
+
+/** Runs mesh preprocessing tasks. Either on the workers or on the current thread. */
+export interface PreprocessExecutor {
+  /** Send the mesh data that all the tasks operate on */
+  setMesh(mesh: ParsedMesh): void;
+  /** Any `TypedArray` in args is transferred, do not use it afterwards */
+  run<K extends PreprocessTaskType>(
+    type: K,
+    args: PreprocessTaskArgs<K>
+  ): Promise<PreprocessTaskResult<K>>;
+  terminate(): void;
+}
+
+/**
+ * Create workers if the environment supports them. Fallbacks to
+ * the current thread otherwise. Always call `terminate()` when done.
+ */
+export function createPreprocessExecutor(): PreprocessExecutor {
+  const workerCount = getWorkerCount();
+  if (workerCount <= 0 || typeof Worker === 'undefined') {
+    return new InlinePreprocessExecutor();
+  }
+
+  const workers: Worker[] = [];
+  try {
+    for (let i = 0; i < workerCount; i++) {
+      workers.push(CONFIG.loaders.createPreprocessWorker());
+    }
+  } catch (e) {
+    console.warn(`Could not create mesh preprocessing workers. Using main thread instead.`, e); // prettier-ignore
+    workers.forEach((w) => w.terminate());
+    return new InlinePreprocessExecutor();
+  }
+
+  return new PreprocessWorkerPool(workers);
+}
+
+function getWorkerCount() {
+  const { workerCount } = CONFIG.nanite.preprocess;
+  if (workerCount !== 'auto') return workerCount;
+
+  const cores = globalThis.navigator?.hardwareConcurrency || 1;
+  // leave one core for the main thread
+  return clamp(cores - 1, 1, 8);
+}
+
+/** No workers. Used in tests or if the environment does not support workers. */
+export class InlinePreprocessExecutor implements PreprocessExecutor {
+  private mesh: ParsedMesh | undefined = undefined;
+
+  setMesh(mesh: ParsedMesh) {
+    this.mesh = mesh;
+  }
+
+  run<K extends PreprocessTaskType>(type: K, args: PreprocessTaskArgs<K>) {
+    return runPreprocessTask(this.mesh, type, args);
+  }
+
+  terminate() {
+    this.mesh = undefined;
+  }
+}
+
+interface QueuedTask {
+  taskId: number;
+  type: PreprocessTaskType;
+  args: unknown;
+  // deno-lint-ignore no-explicit-any
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Each worker executes one task at a time. Rest of the tasks wait in the queue.
+ * Results are transferred back, so there is no copy.
+ */
+export class PreprocessWorkerPool implements PreprocessExecutor {
+  private readonly idleWorkers: Worker[];
+  private readonly queue: QueuedTask[] = [];
+  private readonly running = new Map<Worker, QueuedTask>();
+  private nextTaskId = 0;
+  private isTerminated = false;
+
+  constructor(private readonly workers: Worker[]) {
+    this.idleWorkers = [...workers];
+
+    const initMsg: WorkerRequest = {
+      type: 'init',
+      preprocessConfig: CONFIG.nanite.preprocess,
+      meshoptimizerWasmPath: OVERRIDE_MESHOPTIMIZER_WASM_PATH.value,
+      metisWasmPath: OVERRIDE_METIS_WASM_PATH.value,
+    };
+
+    workers.forEach((worker) => {
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) =>
+        this.onWorkerResponse(worker, e.data);
+      worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        this.onWorkerCrash(e.message);
+      };
+      worker.postMessage(initMsg);
+    });
+  }
+
+  /** Each worker gets a copy. Messages are processed in order, so no need to wait. */
+  setMesh(mesh: ParsedMesh) {
+    const msg: WorkerRequest = { type: 'setMesh', mesh };
+    this.workers.forEach((worker) => worker.postMessage(msg));
+  }
+
+  run<K extends PreprocessTaskType>(
+    type: K,
+    args: PreprocessTaskArgs<K>
+  ): Promise<PreprocessTaskResult<K>> {
+    if (this.isTerminated) {
+      return Promise.reject(new Error('Preprocessing worker pool was already terminated')); // prettier-ignore
+    }
+
+    return new Promise((resolve, reject) => {
+      const taskId = this.nextTaskId++;
+      this.queue.push({ taskId, type, args, resolve, reject });
+      this.scheduleTasks();
+    });
+  }
+
+  terminate() {
+    this.isTerminated = true;
+    this.workers.forEach((worker) => worker.terminate());
+    this.idleWorkers.length = 0;
+    this.rejectAll(new Error('Preprocessing worker pool was terminated'));
+  }
+
+  private scheduleTasks() {
+    while (this.queue.length > 0 && this.idleWorkers.length > 0) {
+      const task = this.queue.shift()!;
+      const worker = this.idleWorkers.pop()!;
+      this.running.set(worker, task);
+
+      const msg: WorkerRequest = {
+        type: 'task',
+        taskId: task.taskId,
+        taskType: task.type,
+        args: task.args,
+      };
+      worker.postMessage(msg, getTransferables(task.args));
+    }
+  }
+
+  private onWorkerResponse(worker: Worker, resp: WorkerResponse) {
+    const task = this.running.get(worker);
+    if (!task || task.taskId !== resp.taskId) {
+      console.error(`Preprocessing worker returned result for unknown task ${resp.taskId}`); // prettier-ignore
+      return;
+    }
+
+    this.running.delete(worker);
+    this.idleWorkers.push(worker);
+
+    if ('error' in resp) {
+      task.reject(new Error(resp.error));
+    } else {
+      task.resolve(resp.result);
+    }
+    this.scheduleTasks();
+  }
+
+  /** Unhandled error (e.g. failed to load the script). Nothing we can recover from. */
+  private onWorkerCrash(message: string) {
+    this.rejectAll(new Error(`Preprocessing worker crashed: ${message}`));
+    this.terminate();
+  }
+
+  private rejectAll(error: Error) {
+    this.running.forEach((task) => task.reject(error));
+    this.queue.forEach((task) => task.reject(error));
+    this.running.clear();
+    this.queue.length = 0;
+  }
+}
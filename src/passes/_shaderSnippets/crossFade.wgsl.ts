@@ -0,0 +1,76 @@
+/**
+ * Transitions that would otherwise pop:
+ * - between the mesh and the impostor billboard,
+ * - between the hardware and the software rasterizer.
+ *
+ * Inside the band, both sides draw. Each pixel is kept by only one of them, based on `SNIPPET_DITHER`.
+ * Both transitions use the same dither, so the rasterizers split exactly the pixels that the mesh keeps.
+ *
+ * Requires `RenderUniformsBuffer.SHADER_SNIPPET`, 'SNIPPET_DITHER', 'GET_MODEL_MAT_SCALE'
+ * and 'SNIPPET_PROJECT_SPHERE' (or 'SNIPPET_OCCLUSION_CULLING').
+ */
+export const SNIPPET_CROSS_FADE = /* wgsl */ `
+
+/**
+ * How much of the instance is drawn as a mesh. 0 - only billboard, 1 - only mesh.
+ * Band is between 'billboardThreshold' and 'billboardThreshold * (1 + band)' pixels.
+ */
+fn getBillboardCrossFade(
+  settingsFlags: u32,
+  modelMat: mat4x4<f32>,
+  boundingSphere: vec4f
+) -> f32 {
+  if (useForceBillboards(settingsFlags)) {
+    return 0.0;
+  }
+
+  return getCrossFadeInBand(
+    modelMat,
+    boundingSphere,
+    _uniforms.billboardThreshold,
+    _uniforms.billboardCrossFadeBand
+  );
+}
+
+/**
+ * How much of the meshlet is drawn by the hardware rasterizer. 0 - only software, 1 - only hardware.
+ * Band is between 'softwareRasterizerThreshold' and 'softwareRasterizerThreshold * (1 + band)' pixels.
+ * Meshlets inside the band are on both drawn meshlets lists.
+ */
+fn getRasterizerCrossFade(
+  modelMat: mat4x4<f32>,
+  boundingSphere: vec4f
+) -> f32 {
+  return getCrossFadeInBand(
+    modelMat,
+    boundingSphere,
+    _uniforms.softwareRasterizerThreshold,
+    _uniforms.softwareRasterizerCrossFadeBand
+  );
+}
+
+fn getCrossFadeInBand(
+  modelMat: mat4x4<f32>,
+  boundingSphere: vec4f,
+  threshold: f32,
+  band: f32
+) -> f32 {
+  var pixelSpan = vec2f();
+  let projectionOK = projectSphereToScreen(modelMat, boundingSphere, &pixelSpan);
+  let area = pixelSpan.x * pixelSpan.y;
+  // negated, so that NaN area (degenerate projection) is not faded
+  if (!projectionOK || !(area < threshold * (1.0 + band))) { return 1.0; }
+  if (area < threshold) { return 0.0; }
+  return (area - threshold) / (threshold * band);
+}
+
+/** Mesh keeps pixels where dither is below the cross fade. Billboard keeps the rest. */
+fn isCrossFadeMeshPixel(crossFade: f32, pixel: vec2u) -> bool {
+  return crossFade >= 1.0 || getDitherForPixel(pixel) < crossFade;
+}
+
+/** Hardware rasterizer keeps pixels where dither is below the cross fade. Software rasterizer keeps the rest. */
+fn isCrossFadeHardwarePixel(rasterizerCrossFade: f32, pixel: vec2u) -> bool {
+  return isCrossFadeMeshPixel(rasterizerCrossFade, pixel);
+}
+`;
@@ -1,3 +1,4 @@
+/** Requires 'GET_MODEL_MAT_SCALE' snippet */
 export const SNIPPET_FRUSTUM_CULLING = /* wgsl */ `
 
 fn isInsideCameraFrustum(
@@ -6,7 +7,7 @@ fn isInsideCameraFrustum(
 ) -> bool {
   var center = vec4f(boundingSphere.xyz, 1.);
   center = modelMat * center;
-  let r = boundingSphere.w;
+  let r = boundingSphere.w * getModelMatScale(modelMat);
   let r0 = dot(center, _uniforms.cameraFrustumPlane0) <= r;
   let r1 = dot(center, _uniforms.cameraFrustumPlane1) <= r;
   let r2 = dot(center, _uniforms.cameraFrustumPlane2) <= r;
@@ -2,10 +2,22 @@ import { CAMERA_CFG } from '../../constants.ts';
 import { LINEAR_DEPTH } from './linearDepth.wgsl.ts';
 import { CLAMP_TO_MIP_LEVELS } from './shaderSnippets.wgls.ts';
 
-export const SNIPPET_OCCLUSION_CULLING = /* wgsl */ `
+/**
+ * Two-pass occlusion culling:
+ * - 'phase1' - draw what was visible last frame. No occlusion test, we do not have the depth yet.
+ * - (depth pyramid is rebuilt from the 'phase1' depth)
+ * - 'phase2' - test everything against the new depth pyramid. Draw what was skipped
+ *              in 'phase1' and store the visibility for the next frame.
+ *
+ * 'single' - old approach. One pass tested against the previous frame's depth pyramid.
+ */
+export type OcclusionCullingPhase = 'single' | 'phase1' | 'phase2';
 
-${CLAMP_TO_MIP_LEVELS}
-${LINEAR_DEPTH}
+/**
+ * Screen space size of the bounding sphere. Already included in 'SNIPPET_OCCLUSION_CULLING'.
+ * Requires 'GET_MODEL_MAT_SCALE' snippet.
+ */
+export const SNIPPET_PROJECT_SPHERE = /* wgsl */ `
 
 /**
  * Everything closer than this will always pass the occlusion culling.
@@ -24,6 +36,86 @@ ${LINEAR_DEPTH}
  */
 const CLOSE_RANGE_NEAR_CAMERA: f32 = 4.0;
 
+/**
+ * https://github.com/zeux/niagara/blob/master/src/shaders/math.h#L2
+ * https://zeux.io/2023/01/12/approximate-projected-bounds/
+ * 2D Polyhedral Bounds of a Clipped, Perspective-Projected 3D Sphere. Michael Mara, Morgan McGuire. 2013
+ * 
+ * @param centerViewSpace sphere center (view space)
+ * @param r radius
+ */
+fn projectSphereView(
+  projMat: mat4x4f,
+  centerViewSpace: vec3f,
+  r: f32,
+  pixelSpan: ptr<function, vec4f>
+) -> bool {
+  // abs cause view space is ???
+  let zNear: f32 = ${CAMERA_CFG.near};
+  // if (abs(center.z) < r + ${CAMERA_CFG.near}){
+  // let distanceToNearPlane = abs(center.z) - zNear;
+  // if (distanceToNearPlane < r){
+  let closestPointZ = abs(centerViewSpace.z) - r;
+  if (closestPointZ < zNear + CLOSE_RANGE_NEAR_CAMERA){
+    return false;
+  }
+
+  // WARNING: This code only works for perspective camera
+  // For ortho I think you would have [c.x-r, c.y-r, c.x+r, c.y+r]?
+  let c = vec3f(centerViewSpace.xy, -centerViewSpace.z); // see camera.ts
+  let cr = c * r;
+  let czr2 = c.z * c.z - r * r;
+
+  let vx = sqrt(c.x * c.x + czr2);
+  let minX = (vx * c.x - cr.z) / (vx * c.z + cr.x);
+  let maxX = (vx * c.x + cr.z) / (vx * c.z - cr.x);
+
+  let vy = sqrt(c.y * c.y + czr2);
+  let minY = (vy * c.y - cr.z) / (vy * c.z + cr.y);
+  let maxY = (vy * c.y + cr.z) / (vy * c.z - cr.y);
+
+  
+  let P00 = projMat[0][0];
+  let P11 = projMat[1][1];
+  var aabb = vec4(minX * P00, minY * P11, maxX * P00, maxY * P11);
+  // swizzle cause Y-axis is down. We will do abs() regardless. Then convert to [0, 1]
+  aabb = aabb.xwzy * vec4(0.5, -0.5, 0.5, -0.5) + vec4(0.5);
+  *pixelSpan = aabb;
+
+  return true;
+}
+
+
+fn projectSphereToScreen(
+  modelMat: mat4x4<f32>,
+  boundingSphere: vec4f,
+  pixelSpan: ptr<function,vec2f>
+) -> bool {
+  // get AABB in projection space
+  // TODO [LOW] duplicate from occlusion culling
+  let viewportSize = _uniforms.viewport.xy;
+  let viewMat = _uniforms.viewMatrix;
+  let projMat = _uniforms.projMatrix;
+  var aabb = vec4f();
+  let center = viewMat * modelMat * vec4f(boundingSphere.xyz, 1.);
+  let r = boundingSphere.w * getModelMatScale(modelMat);
+  let projectionOK = projectSphereView(projMat, center.xyz, r, &aabb);
+  *pixelSpan = vec2f(
+    abs(aabb.z - aabb.x) * viewportSize.x,
+    abs(aabb.w - aabb.y) * viewportSize.y
+  );
+  return projectionOK;
+}
+`;
+
+/** Requires 'GET_MODEL_MAT_SCALE' snippet */
+export const SNIPPET_OCCLUSION_CULLING = /* wgsl */ `
+
+${SNIPPET_PROJECT_SPHERE}
+
+${CLAMP_TO_MIP_LEVELS}
+${LINEAR_DEPTH}
+
 /** 
  * https://www.youtube.com/live/Fj1E1A4CPCM?si=PJmBhKd_TQk1GMOb&t=2462 - triangles
  * https://www.youtube.com/watch?v=5sBpo5wKmEM - meshlets
@@ -40,7 +132,7 @@ fn isPassingOcclusionCulling(
   // project meshlet's center to view space
   // NOTE: view space is weird, e.g. .z is NEGATIVE!
   let center = viewMat * modelMat * vec4f(boundingSphere.xyz, 1.);
-  let r = boundingSphere.w;
+  let r = boundingSphere.w * getModelMatScale(modelMat);
 
   let closestPointZ = abs(center.z) - r;
 
@@ -111,75 +203,4 @@ fn getBB(projMat: mat4x4f, center: vec3f, r: f32, dir: vec3f) -> vec4f {
   let pProj = projMat * vec4f(p, 1.);
   return pProj / pProj.w;
 }
-
-/**
- * https://github.com/zeux/niagara/blob/master/src/shaders/math.h#L2
- * https://zeux.io/2023/01/12/approximate-projected-bounds/
- * 2D Polyhedral Bounds of a Clipped, Perspective-Projected 3D Sphere. Michael Mara, Morgan McGuire. 2013
- * 
- * @param centerViewSpace sphere center (view space)
- * @param r radius
- */
-fn projectSphereView(
-  projMat: mat4x4f,
-  centerViewSpace: vec3f,
-  r: f32,
-  pixelSpan: ptr<function, vec4f>
-) -> bool {
-  // abs cause view space is ???
-  let zNear: f32 = ${CAMERA_CFG.near};
-  // if (abs(center.z) < r + ${CAMERA_CFG.near}){
-  // let distanceToNearPlane = abs(center.z) - zNear;
-  // if (distanceToNearPlane < r){
-  let closestPointZ = abs(centerViewSpace.z) - r;
-  if (closestPointZ < zNear + CLOSE_RANGE_NEAR_CAMERA){
-    return false;
-  }
-
-  // WARNING: This code only works for perspective camera
-  // For ortho I think you would have [c.x-r, c.y-r, c.x+r, c.y+r]?
-  let c = vec3f(centerViewSpace.xy, -centerViewSpace.z); // see camera.ts
-  let cr = c * r;
-  let czr2 = c.z * c.z - r * r;
-
-  let vx = sqrt(c.x * c.x + czr2);
-  let minX = (vx * c.x - cr.z) / (vx * c.z + cr.x);
-  let maxX = (vx * c.x + cr.z) / (vx * c.z - cr.x);
-
-  let vy = sqrt(c.y * c.y + czr2);
-  let minY = (vy * c.y - cr.z) / (vy * c.z + cr.y);
-  let maxY = (vy * c.y + cr.z) / (vy * c.z - cr.y);
-
-  
-  let P00 = projMat[0][0];
-  let P11 = projMat[1][1];
-  var aabb = vec4(minX * P00, minY * P11, maxX * P00, maxY * P11);
-  // swizzle cause Y-axis is down. We will do abs() regardless. Then convert to [0, 1]
-  aabb = aabb.xwzy * vec4(0.5, -0.5, 0.5, -0.5) + vec4(0.5);
-  *pixelSpan = aabb;
-
-  return true;
-}
-
-
-fn projectSphereToScreen(
-  modelMat: mat4x4<f32>,
-  boundingSphere: vec4f,
-  pixelSpan: ptr<function,vec2f>
-) -> bool {
-  // get AABB in projection space
-  // TODO [LOW] duplicate from occlusion culling
-  let viewportSize = _uniforms.viewport.xy;
-  let viewMat = _uniforms.viewMatrix;
-  let projMat = _uniforms.projMatrix;
-  var aabb = vec4f();
-  let center = viewMat * modelMat * vec4f(boundingSphere.xyz, 1.);
-  let r = boundingSphere.w;
-  let projectionOK = projectSphereView(projMat, center.xyz, r, &aabb);
-  *pixelSpan = vec2f(
-    abs(aabb.z - aabb.x) * viewportSize.x,
-    abs(aabb.w - aabb.y) * viewportSize.y
-  );
-  return projectionOK;
-}
 `;
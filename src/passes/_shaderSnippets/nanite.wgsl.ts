@@ -1,51 +1,83 @@
+/** Requires 'GET_MVP_MAT' and 'GET_MODEL_MAT_SCALE' snippets */
 export const SNIPPET_NANITE_LOD_CULLING = /* wgsl */ `
 
 fn isCorrectNaniteLOD (
   modelMat: mat4x4<f32>,
   meshlet: NaniteMeshletTreeNode
 ) -> bool {
-  let flags = _uniforms.flags;
-
   let threshold = _uniforms.viewport.z;
   let screenHeight = _uniforms.viewport.y;
   let cotHalfFov = _uniforms.viewport.w;
-  let mvpMatrix = getMVP_Mat(modelMat, _uniforms.viewMatrix, _uniforms.projMatrix);
+  let modelScale = getModelMatScale(modelMat);
+  let distanceMatrix = getNaniteErrorDistanceMatrix(modelMat);
 
   // getVisibilityStatus
   let clusterError = getProjectedError(
-    mvpMatrix,
+    distanceMatrix,
     screenHeight,
     cotHalfFov,
+    modelScale,
     meshlet.boundsMidPointAndError,
   );
   let parentError = getProjectedError(
-    mvpMatrix,
+    distanceMatrix,
     screenHeight,
     cotHalfFov,
+    modelScale,
     meshlet.parentBoundsMidPointAndError,
   );
 
   return parentError > threshold && clusterError <= threshold;
 }
 
+/** Hierarchical culling: if false, the children have to be checked instead */
+fn isNaniteClusterErrorAcceptable(
+  modelMat: mat4x4<f32>,
+  meshlet: NaniteMeshletTreeNode
+) -> bool {
+  let threshold = _uniforms.viewport.z;
+  let clusterError = getProjectedError(
+    getNaniteErrorDistanceMatrix(modelMat),
+    _uniforms.viewport.y,
+    _uniforms.viewport.w,
+    getModelMatScale(modelMat),
+    meshlet.boundsMidPointAndError,
+  );
+  return clusterError <= threshold;
+}
+
+/** See 'createErrorMetric()'. Legacy metric measures the distance in clip space */
+fn getNaniteErrorDistanceMatrix(modelMat: mat4x4<f32>) -> mat4x4<f32> {
+  if (useLegacyErrorMetric(_uniforms.flags)) {
+    return getMVP_Mat(modelMat, _uniforms.viewMatrix, _uniforms.projMatrix);
+  }
+  return _uniforms.viewMatrix * modelMat;
+}
+
 
+/** Projected error in pixels */
 fn getProjectedError(
-  mvpMatrix: mat4x4<f32>,
+  distanceMatrix: mat4x4<f32>,
   screenHeight: f32,
   cotHalfFov: f32,
+  modelScale: f32,
   boundsMidPointAndError: vec4f
 ) -> f32 {
   // return 1000.0 * boundsMidPointAndError.w; // used to debug tests, see calcs at the top of 'cullMeshletsPass.test.ts'
   
-  let r = boundsMidPointAndError.w; // error
-  
   // WARNING: .parentError is INFINITY at top level
   // This is implemented as GPU meshlet just having some absurd high value
-  if (r >= PARENT_ERROR_INFINITY) {
+  if (boundsMidPointAndError.w >= PARENT_ERROR_INFINITY) {
     return PARENT_ERROR_INFINITY;
   }
+  let r = boundsMidPointAndError.w * modelScale; // error in world space
+
+  // orthographic projection (shadow map). Error does not depend on the distance
+  if (_uniforms.projMatrix[3][3] == 1.0) {
+    return (cotHalfFov * r * screenHeight) / 2.0;
+  }
 
-  let center = mvpMatrix * vec4f(boundsMidPointAndError.xyz, 1.0f);
+  let center = distanceMatrix * vec4f(boundsMidPointAndError.xyz, 1.0f);
   let d2 = dot(center.xyz, center.xyz); // 
   let projectedR = (cotHalfFov * r) / sqrt(d2 - r * r);
   return (projectedR * screenHeight) / 2.0;
@@ -115,8 +115,13 @@ fn pbr_mixDiffuseAndSpecular(material: Material, diffuse: vec3f, specular: vec3f
 fn disneyPBR(material: Material, light: Light) -> vec3f {
   let N = material.normal; // normal at fragment
   let V = material.toEye; // viewDir
-  let L = normalize(light.position - material.positionWS); // wi in integral
-  let attenuation = 1.0; // hardcoded for this demo
+  var L = normalize(light.position); // wi in integral. Directional light
+  var attenuation = 1.0;
+  if (light.isPointLight) {
+    let toLight = light.position - material.positionWS;
+    L = normalize(toLight);
+    attenuation = 1.0 / max(dot(toLight, toLight), 0.0001); // inverse square
+  }
 
   // diffuse
   let lambert = pbr_LambertDiffuse(material);
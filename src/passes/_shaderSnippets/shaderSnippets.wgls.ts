@@ -10,6 +10,19 @@ fn getMVP_Mat(modelMat: ${MAT4}, viewMat: ${MAT4}, projMat: ${MAT4}) -> ${MAT4}
 }
 `;
 
+/**
+ * Largest scale along any axis. Multiply bounding sphere radius (or error) by it
+ * to get the value in world space. Works for non-uniform scale too.
+ */
+export const GET_MODEL_MAT_SCALE = /* wgsl */ `
+fn getModelMatScale(modelMat: ${MAT4}) -> f32 {
+  let sx = dot(modelMat[0].xyz, modelMat[0].xyz);
+  let sy = dot(modelMat[1].xyz, modelMat[1].xyz);
+  let sz = dot(modelMat[2].xyz, modelMat[2].xyz);
+  return sqrt(max(sx, max(sy, sz)));
+}
+`;
+
 export const FS_NORMAL_FROM_DERIVATIVES = /* wgsl */ `
 fn normalFromDerivatives(wsPosition: vec4f) -> vec3f{
   let posWsDx = dpdxFine(wsPosition);
@@ -72,12 +85,18 @@ fn clampToMipLevels(v: i32, _texture: texture_2d<f32>) -> i32 {
 
 export const NORMALS_UTILS = /* wgsl */ `
 
-// WARNING: This is true only when you do not have scale (only rotation and transpose).
+// Uses cofactor matrix instead of inverse-transpose. Same result up to a scale,
+// which we normalize anyway. Handles non-uniform scale and mirroring.
 // https://paroj.github.io/gltut/Illumination/Tut09%20Normal%20Transformation.html
+// https://github.com/graphitemaster/normals_revisited
 fn transformNormalToWorldSpace(modelMat: mat4x4f, normalV: vec3f) -> vec3f {
-  let normalMatrix = modelMat; // !
-  let normalWS = normalMatrix * vec4f(normalV, 0.0);
-  return normalize(normalWS.xyz);
+  let c0 = modelMat[0].xyz;
+  let c1 = modelMat[1].xyz;
+  let c2 = modelMat[2].xyz;
+  let normalMatrix = mat3x3f(cross(c1, c2), cross(c2, c0), cross(c0, c1));
+  let det = dot(c0, normalMatrix[0]);
+  let normalWS = normalMatrix * normalV * sign(det);
+  return normalize(normalWS);
 }
 
 /** https://knarkowicz.wordpress.com/2014/04/16/octahedron-normal-vector-encoding/
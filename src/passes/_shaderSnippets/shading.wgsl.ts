@@ -1,13 +1,13 @@
-import { CONFIG } from '../../constants.ts';
-
-const LIGHT_COUNT = CONFIG.lightsCount;
-
 export const DEFAULT_COLOR: [number, number, number] = [0.9, 0.9, 0.9];
 
-/** https://github.com/Scthe/WebFX/blob/master/src/shaders/sintel.frag.glsl#L135 */
+/**
+ * https://github.com/Scthe/WebFX/blob/master/src/shaders/sintel.frag.glsl#L135
+ *
+ * Requires `RenderUniformsBuffer.SHADER_SNIPPET`. Lights are read from there.
+ * Also requires `SNIPPET_SHADOW_MAP`.
+ */
 export const SNIPPET_SHADING = /* wgsl */ `
 
-const LIGHT_COUNT = ${LIGHT_COUNT}u;
 const PI: f32 = ${Math.PI};
 
 
@@ -23,15 +23,21 @@ struct Material {
 };
 
 struct Light {
+  /** Position or direction to the light */
   position: vec3f,
+  isPointLight: bool,
   color: vec3f,
   intensity: f32
 };
 
-fn unpackLight(pos: vec3f, color: vec4f, light: ptr<function, Light>) {
-  (*light).position = pos;
-  (*light).color = color.rgb;
-  (*light).intensity = color.a;
+fn getLight(idx: u32) -> Light {
+  let data = _uniforms.lights[idx];
+  var light: Light;
+  light.position = data.position.xyz;
+  light.isPointLight = u32(data.position.w) == LIGHT_TYPE_POINT;
+  light.color = data.color.rgb;
+  light.intensity = data.color.a;
+  return light;
 }
 
 
@@ -39,44 +45,22 @@ fn dotMax0 (n: vec3f, toEye: vec3f) -> f32 {
   return max(0.0, dot(n, toEye));
 }
 
-fn doShading(
-  material: Material,
-  ambientLight: vec4f,
-  lights: array<Light, ${LIGHT_COUNT}>
-) -> vec3f {
+fn doShading(material: Material) -> vec3f {
+  let ambientLight = _uniforms.ambientLight;
   let ambient = ambientLight.rgb * ambientLight.a; // * material.ao;
   var radianceSum = vec3(0.0);
 
-  // this used to be a for-loop, but wgpu's Naga complains:
-  // let light = lights[i];
-  //                    ^ The expression may only be indexed by a constant
-  radianceSum += disneyPBR(material, lights[0]);
-  radianceSum += disneyPBR(material, lights[1]);
+  // Naga does not allow dynamic index into a function-local array.
+  // Uniform buffer is fine.
+  let lightsCount = min(_uniforms.lightsCount, MAX_LIGHTS);
+  for (var i = 0u; i < lightsCount; i++) {
+    let shadow = getLightShadow(i, material.positionWS, material.normal);
+    radianceSum += disneyPBR(material, getLight(i)) * shadow;
+  }
 
   return ambient + radianceSum;
 }
 
-/////////////////////////////
-/////////////////////////////
-/// Config
-
-const AMBIENT_LIGHT = vec4f(1., 1., 1., 0.05);
-const LIGHT_FAR = 99999.0;
-
-fn fillLightsData(
-  lights: ptr<function, array<Light, LIGHT_COUNT>>
-){
-  (*lights)[0].position = vec3f(LIGHT_FAR, LIGHT_FAR, 0); // world space
-  (*lights)[0].color = vec3f(1., 0.95, 0.8);
-  // (*lights)[0].color = vec3f(1., 0.0, 0.0); // RED for testing
-  (*lights)[0].intensity = 1.5;
-
-  (*lights)[1].position = vec3f(-LIGHT_FAR, -LIGHT_FAR / 3.0, LIGHT_FAR / 3.0); // world space
-  (*lights)[1].color = vec3f(0.8, 0.8, 1.);
-  // (*lights)[1].color = vec3f(0.0, 0.0, 1.); // BLUE for testing
-  (*lights)[1].intensity = 0.7;
-}
-
 fn createDefaultMaterial(
   material: ptr<function, Material>,
   positionWS: vec4f
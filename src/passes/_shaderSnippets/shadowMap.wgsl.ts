@@ -0,0 +1,49 @@
+/**
+ * Sample the shadow map rendered by `ShadowMapPass`.
+ *
+ * Requires `RenderUniformsBuffer.SHADER_SNIPPET`.
+ */
+export const SNIPPET_SHADOW_MAP = (
+  textureBindingIdx: number,
+  samplerBindingIdx: number
+) => /* wgsl */ `
+
+@group(0) @binding(${textureBindingIdx})
+var _shadowMapTexture: texture_depth_2d;
+
+@group(0) @binding(${samplerBindingIdx})
+var _shadowMapSampler: sampler_comparison;
+
+/** Returns 1.0 if the light does not have the shadow map */
+fn getLightShadow(lightIdx: u32, positionWS: vec3f, normal: vec3f) -> f32 {
+  let shadowLightIdx = i32(_uniforms.shadowParams.x);
+  if (shadowLightIdx != i32(lightIdx)) { return 1.0; }
+  return sampleShadowMap(positionWS, normal);
+}
+
+/** Returns 0.0 if fully in shadow, 1.0 if fully lit. */
+fn sampleShadowMap(positionWS: vec3f, normal: vec3f) -> f32 {
+  let params = _uniforms.shadowParams;
+  if (params.x < 0.0) { return 1.0; }
+
+  let offsetPos = positionWS + normal * params.z;
+  let posClip = _uniforms.shadowMatrix * vec4f(offsetPos, 1.0);
+  let posNDC = posClip.xyz / posClip.w;
+  // outside of the shadow map is always lit
+  if (any(abs(posNDC.xy) > vec2f(1.0)) || posNDC.z > 1.0) { return 1.0; }
+
+  let uv = posNDC.xy * vec2f(0.5, -0.5) + vec2f(0.5);
+  let depth = posNDC.z - params.y;
+  let texelSize = 1.0 / vec2f(textureDimensions(_shadowMapTexture));
+
+  // 3x3 PCF. '*Level()' as we are in the non-uniform control flow
+  var result = 0.0;
+  for (var y = -1; y <= 1; y++) {
+    for (var x = -1; x <= 1; x++) {
+      let offset = vec2f(f32(x), f32(y)) * texelSize;
+      result += textureSampleCompareLevel(_shadowMapTexture, _shadowMapSampler, uv + offset, depth);
+    }
+  }
+  return result / 9.0;
+}
+`;
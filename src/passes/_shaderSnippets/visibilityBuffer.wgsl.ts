@@ -0,0 +1,43 @@
+import { CONFIG } from '../../constants.ts';
+
+const TRIANGLE_BITS = Math.ceil(
+  Math.log2(CONFIG.nanite.preprocess.meshletMaxTriangles)
+);
+
+/**
+ * Pixel of visibility buffer. Written by both rasterizers.
+ * - x: `tfxIdx + 1`. 0 means no pixel. Highest bit is set if software rasterized.
+ * - y: `meshletIdx << TRIANGLE_BITS | triangleIdx`
+ */
+export const SNIPPET_VISIBILITY_BUFFER = /* wgsl */ `
+
+const VISIBILITY_SOFTWARE_BIT: u32 = 0x80000000u;
+const VISIBILITY_TRIANGLE_BITS: u32 = ${TRIANGLE_BITS}u;
+
+struct VisibilityPixel {
+  tfxIdx: u32,
+  meshletIdx: u32,
+  triangleIdx: u32,
+  isSoftwareRasterized: bool,
+}
+
+fn encodeVisibility(tfxIdx: u32, meshletIdx: u32, triangleIdx: u32) -> vec2u {
+  return vec2u(
+    tfxIdx + 1u,
+    (meshletIdx << VISIBILITY_TRIANGLE_BITS) | triangleIdx
+  );
+}
+
+fn isVisibilityEmpty(value: vec2u) -> bool {
+  return value.x == 0u;
+}
+
+fn decodeVisibility(value: vec2u) -> VisibilityPixel {
+  var result: VisibilityPixel;
+  result.tfxIdx = (value.x & ~VISIBILITY_SOFTWARE_BIT) - 1u;
+  result.meshletIdx = value.y >> VISIBILITY_TRIANGLE_BITS;
+  result.triangleIdx = value.y & ((1u << VISIBILITY_TRIANGLE_BITS) - 1u);
+  result.isSoftwareRasterized = (value.x & VISIBILITY_SOFTWARE_BIT) != 0u;
+  return result;
+}
+`;
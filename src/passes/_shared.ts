@@ -80,17 +80,25 @@ export const useDepthStencilAttachment = (
 });
 
 export class BindingsCache {
-  private cache: Record<string, GPUBindGroup | undefined> = {};
-
-  getBindings(key: string, factory: () => GPUBindGroup): GPUBindGroup {
+  private cache: Record<
+    string,
+    { bindings: GPUBindGroup; version: number } | undefined
+  > = {};
+
+  /** Bind group is recreated if `version` changes, e.g. after the bound buffers were reallocated */
+  getBindings(
+    key: string,
+    factory: () => GPUBindGroup,
+    version = 0
+  ): GPUBindGroup {
     const cachedVal = this.cache[key];
-    if (cachedVal) {
-      return cachedVal;
+    if (cachedVal && cachedVal.version === version) {
+      return cachedVal.bindings;
     }
 
-    const val = factory();
-    this.cache[key] = val;
-    return val;
+    const bindings = factory();
+    this.cache[key] = { bindings, version };
+    return bindings;
   }
 
   clear() {
@@ -108,7 +116,13 @@ export function resetNaniteStats() {
   STATS.update('HW: Rendered triangles', '-');
   STATS.update('SW: Rendered meshlets', '-');
   STATS.update('SW: Rendered triangles', '-');
+  STATS.update('Cone culled meshlets', '-');
+  STATS.update('Meshlets queue overflow', '-');
   STATS.update('Rendered impostors', '-');
+  STATS.update('Cross faded impostors', '-');
+  STATS.update('HW: Culled backface', '-');
+  STATS.update('HW: Culled zero area', '-');
+  STATS.update('HW: Culled small', '-');
 }
 
 export function setNaniteDrawStats(
@@ -155,12 +169,55 @@ export function setNaniteDrawStatsHw_Sw(
   );
 }
 
+/** `drawnMeshlets` does not include the cone culled ones */
+export function setNaniteConeCullStats(
+  coneCulledMeshlets: number,
+  drawnMeshlets: number
+) {
+  STATS.update(
+    'Cone culled meshlets',
+    formatPercentageNumber(coneCulledMeshlets, drawnMeshlets + coneCulledMeshlets) // prettier-ignore
+  );
+}
+
+/** `testedTriangles` are all triangles of the hardware rasterized meshlets */
+export function setNaniteTriangleCullStats(
+  culledBackface: number,
+  culledZeroArea: number,
+  culledSmall: number,
+  testedTriangles: number
+) {
+  STATS.update(
+    'HW: Culled backface',
+    formatPercentageNumber(culledBackface, testedTriangles)
+  );
+  STATS.update(
+    'HW: Culled zero area',
+    formatPercentageNumber(culledZeroArea, testedTriangles)
+  );
+  STATS.update(
+    'HW: Culled small',
+    formatPercentageNumber(culledSmall, testedTriangles)
+  );
+}
+
+/** Meshlets that did not fit into the hierarchical culling queue, so they were not drawn */
+export function setNaniteMeshletsQueueStats(overflowCount: number) {
+  STATS.update('Meshlets queue overflow', overflowCount);
+}
+
+/** `drawnImpostors` includes the cross faded ones */
 export function setNaniteDrawImpostorsStats(
   drawnImpostors: number,
+  crossFadedImpostors: number,
   allInstances: number
 ) {
   STATS.update(
     'Rendered impostors',
-    formatPercentageNumber(drawnImpostors, allInstances)
+    formatPercentageNumber(drawnImpostors - crossFadedImpostors, allInstances)
+  );
+  STATS.update(
+    'Cross faded impostors',
+    formatPercentageNumber(crossFadedImpostors, allInstances)
   );
 }
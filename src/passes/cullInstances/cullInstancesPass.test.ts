@@ -19,8 +19,9 @@ import {
   parseDrawnInstancesBuffer,
 } from '../../scene/naniteBuffers/drawnInstancesBuffer.ts';
 import { SHADER_PARAMS as SHADER_PARAMS_CULL_MESHLETS } from '../cullMeshlets/cullMeshletsPass.wgsl.ts';
-import { assert, assertAlmostEquals, assertEquals } from 'assert';
+import { assert, assertEquals } from 'assert';
 import { createDrawnImpostorsBuffer } from '../../scene/naniteBuffers/drawnImpostorsBuffer.ts';
+import { createSceneObjectsBuffer } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
 import { CONFIG } from '../../constants.ts';
 
 const OBJ_NAME = 'CullInstancesPass-obj';
@@ -52,8 +53,7 @@ Deno.test('CullInstancesPass', async () => {
     device,
     OBJ_NAME,
     ALL_MESHLETS_COUNT,
-    mockInstances.count,
-    BOUNDS
+    mockInstances.count
   );
   const bufferReadback = createReadbackBuffer(device, bufferGpu);
   const billboardImpostorsBuffer = createDrawnImpostorsBuffer(
@@ -66,12 +66,28 @@ Deno.test('CullInstancesPass', async () => {
   const mockBuffers = mockNaniteObjectBuffers();
   mockBuffers.drawnInstancesBuffer = bufferGpu;
   mockBuffers.drawnImpostorsBuffer = billboardImpostorsBuffer;
+  mockBuffers.sceneObjectsBuffer = createSceneObjectsBuffer(device, OBJ_NAME, [
+    {
+      boundingSphere: BOUNDS,
+      meshletOffset: 0,
+      meshletCount: ALL_MESHLETS_COUNT,
+      bottomMeshletCount: ALL_MESHLETS_COUNT,
+      instanceOffset: 0,
+      instanceCount: mockInstances.count,
+      rootsOffset: 0,
+      impostorLayer: 0,
+      diffuseLayer: 0,
+    },
+  ]);
 
   // nanite object
   const mockNaniteObject: NaniteObject = {
     name: OBJ_NAME,
     meshletCount: ALL_MESHLETS_COUNT,
     instancesCount: mockInstances.count,
+    instances: mockInstances,
+    instancesCapacity: mockInstances.capacity,
+    instancesBvh: undefined,
     buffers: mockBuffers,
     bindInstanceTransforms: (bindingIdx: number): GPUBindGroupEntry => ({
       binding: bindingIdx,
@@ -111,10 +127,6 @@ Deno.test('CullInstancesPass', async () => {
   assertEquals(result.workgroupsX, expWorkgroupsX);
   assertEquals(result.workgroupsZ, 1);
   assertEquals(result.allMeshletsCount, ALL_MESHLETS_COUNT);
-  assertAlmostEquals(result.boundingSphere[0], BOUNDS.center[0]);
-  assertAlmostEquals(result.boundingSphere[1], BOUNDS.center[1]);
-  assertAlmostEquals(result.boundingSphere[2], BOUNDS.center[2]);
-  assertAlmostEquals(result.boundingSphere[3], BOUNDS.radius);
 
   // based on instances data
   // Following case only happens when we have more instances than max dispatch size.
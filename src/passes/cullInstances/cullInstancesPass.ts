@@ -1,4 +1,4 @@
-import { NaniteObject } from '../../scene/naniteObject.ts';
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
 import { assertIsGPUTextureView } from '../../utils/webgpu.ts';
 import {
   BindingsCache,
@@ -7,26 +7,65 @@ import {
   labelShader,
 } from '../_shared.ts';
 import { PassCtx } from '../passCtx.ts';
+import { OcclusionCullingPhase } from '../_shaderSnippets/cullOcclusion.wgsl.ts';
 import { SHADER_PARAMS, SHADER_CODE } from './cullInstancesPass.wgsl.ts';
+import { CONFIG } from '../../constants.ts';
+import { getInstancesBvhMaxLeafCount } from '../../scene/naniteBuffers/instancesBvhBuffer.ts';
 
 export class CullInstancesPass {
   public static NAME: string = 'CullInstancesPass';
 
-  private readonly pipeline: GPUComputePipeline;
+  private readonly pipelines: Record<OcclusionCullingPhase, GPUComputePipeline>;
+  private readonly pipelines_Bvh: Record<
+    OcclusionCullingPhase,
+    GPUComputePipeline
+  >;
+  /** Key is `${objectName}-${phase}` or `${objectName}-${phase}-bvh` */
   private readonly bindingsCache = new BindingsCache();
 
   constructor(device: GPUDevice) {
-    const shaderModule = device.createShaderModule({
+    const modules = {
+      single: CullInstancesPass.createShaderModule(device, 'single'),
+      phase1: CullInstancesPass.createShaderModule(device, 'phase1'),
+      phase2: CullInstancesPass.createShaderModule(device, 'phase2'),
+    };
+    const create = (phase: OcclusionCullingPhase, mainFn: string) =>
+      CullInstancesPass.createPipeline(device, modules[phase], phase, mainFn);
+
+    this.pipelines = {
+      single: create('single', 'main'),
+      phase1: create('phase1', 'main'),
+      phase2: create('phase2', 'main'),
+    };
+    this.pipelines_Bvh = {
+      single: create('single', 'main_Bvh'),
+      phase1: create('phase1', 'main_Bvh'),
+      phase2: create('phase2', 'main_Bvh'),
+    };
+  }
+
+  private static createShaderModule(
+    device: GPUDevice,
+    phase: OcclusionCullingPhase
+  ) {
+    return device.createShaderModule({
       label: labelShader(CullInstancesPass),
-      code: SHADER_CODE(),
+      code: SHADER_CODE(phase),
     });
+  }
 
-    this.pipeline = device.createComputePipeline({
-      label: labelPipeline(CullInstancesPass),
+  private static createPipeline(
+    device: GPUDevice,
+    shaderModule: GPUShaderModule,
+    phase: OcclusionCullingPhase,
+    mainFn: string
+  ) {
+    return device.createComputePipeline({
+      label: labelPipeline(CullInstancesPass, `${phase}-${mainFn}`),
       layout: 'auto',
       compute: {
         module: shaderModule,
-        entryPoint: 'main',
+        entryPoint: mainFn,
       },
     });
   }
@@ -35,30 +74,58 @@ export class CullInstancesPass {
     this.bindingsCache.clear();
   };
 
-  cmdCullInstances(ctx: PassCtx, naniteObject: NaniteObject) {
+  onSceneChanged = () => this.bindingsCache.clear();
+
+  cmdCullInstances(
+    ctx: PassCtx,
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase = 'single'
+  ) {
     const { cmdBuf, profiler } = ctx;
 
-    // forget draws from previous frame
-    naniteObject.buffers.cmdClearDrawnInstancesDispatchParams(cmdBuf);
-    naniteObject.buffers.cmdClearDrawnImpostorsParams(cmdBuf);
+    this.cmdClearDrawnLists(ctx, naniteObject);
 
     const computePass = cmdBuf.beginComputePass({
       label: CullInstancesPass.NAME,
       timestampWrites: profiler?.createScopeGpu(CullInstancesPass.NAME),
     });
+    this.dispatchCullInstances(ctx, computePass, naniteObject, phase);
+    computePass.end();
+  }
 
-    const pipeline = this.pipeline;
-    const bindings = this.bindingsCache.getBindings(naniteObject.name, () =>
-      this.createBindings(ctx, pipeline, naniteObject)
+  /** Forget draws from previous frame. Has to be recorded outside of the passes */
+  private cmdClearDrawnLists(
+    { cmdBuf }: PassCtx,
+    naniteObject: NaniteDrawable
+  ) {
+    naniteObject.buffers.cmdClearDrawnInstancesDispatchParams(cmdBuf);
+    naniteObject.buffers.cmdClearDrawnImpostorsParams(cmdBuf);
+  }
+
+  /** Record culling of a single drawable into an already started compute pass */
+  private dispatchCullInstances(
+    ctx: PassCtx,
+    computePass: GPUComputePassEncoder,
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
+  ) {
+    const useBvh =
+      CONFIG.cullingInstances.useBvh && naniteObject.instancesBvh !== undefined;
+    const pipeline = (useBvh ? this.pipelines_Bvh : this.pipelines)[phase];
+    const bindings = this.bindingsCache.getBindings(
+      `${naniteObject.name}-${phase}${useBvh ? '-bvh' : ''}`,
+      () => this.createBindings(ctx, pipeline, naniteObject, phase, useBvh),
+      naniteObject.buffersVersion
     );
 
     computePass.setPipeline(pipeline);
     computePass.setBindGroup(0, bindings);
 
     // dispatch params
-    // X: one per instance, but do not overflow limit 65k
+    // X: one per instance (or BVH leaf), but do not overflow limit 65k
+    const capacity = naniteObject.instancesCapacity;
     const workgroupsCntX = Math.min(
-      naniteObject.instancesCount,
+      useBvh ? getInstancesBvhMaxLeafCount(capacity) : capacity,
       SHADER_PARAMS.maxWorkgroupsY
     );
     const workgroupsCntY = 1;
@@ -71,8 +138,6 @@ export class CullInstancesPass {
       workgroupsCntY,
       workgroupsCntZ
     );
-
-    computePass.end();
   }
 
   private createBindings = (
@@ -83,12 +148,25 @@ export class CullInstancesPass {
       depthPyramidSampler,
     }: PassCtx,
     pipeline: GPUComputePipeline,
-    naniteObject: NaniteObject
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase,
+    useBvh: boolean
   ): GPUBindGroup => {
     const b = SHADER_PARAMS.bindings;
     assertIsGPUTextureView(prevFrameDepthPyramidTexture);
 
     const buffers = naniteObject.buffers;
+    const visibilityBindings =
+      phase === 'single'
+        ? []
+        : [buffers.bindInstancesVisibility(b.instancesVisibility)];
+    const bvh = useBvh ? naniteObject.instancesBvh : undefined;
+    const bvhBindings = bvh
+      ? [
+          { binding: b.instancesBvh, resource: { buffer: bvh.leavesBuffer } },
+          { binding: b.instancesBvhIds, resource: { buffer: bvh.idsBuffer } },
+        ]
+      : [];
 
     return assignResourcesToBindings2(
       CullInstancesPass,
@@ -98,6 +176,7 @@ export class CullInstancesPass {
       [
         globalUniforms.createBindingDesc(b.renderUniforms),
         naniteObject.bindInstanceTransforms(b.instancesTransforms),
+        buffers.bindSceneObjects(b.sceneObjects),
         buffers.bindDrawnInstancesParams(b.dispatchIndirectParams),
         buffers.bindDrawnInstancesList(b.drawnInstanceIdsResult),
         buffers.bindDrawnImpostorsParams(b.billboardsParams),
@@ -107,6 +186,8 @@ export class CullInstancesPass {
           resource: prevFrameDepthPyramidTexture,
         },
         { binding: b.depthSampler, resource: depthPyramidSampler },
+        ...visibilityBindings,
+        ...bvhBindings,
       ]
     );
   };
@@ -1,8 +1,13 @@
 import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
 import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
 import { CONFIG } from '../../constants.ts';
-import { SNIPPET_OCCLUSION_CULLING } from '../_shaderSnippets/cullOcclusion.wgsl.ts';
+import {
+  OcclusionCullingPhase,
+  SNIPPET_OCCLUSION_CULLING,
+} from '../_shaderSnippets/cullOcclusion.wgsl.ts';
 import { SNIPPET_FRUSTUM_CULLING } from '../_shaderSnippets/cullFrustum.wgsl.ts';
+import { SNIPPET_DITHER } from '../_shaderSnippets/dither.wgsl.ts';
+import { SNIPPET_CROSS_FADE } from '../_shaderSnippets/crossFade.wgsl.ts';
 import { SHADER_PARAMS as SHADER_PARAMS_CULL_MESHLETS } from '../cullMeshlets/cullMeshletsPass.wgsl.ts';
 import {
   BUFFER_DRAWN_INSTANCES_LIST,
@@ -13,6 +18,9 @@ import {
   BUFFER_DRAWN_IMPOSTORS_LIST,
 } from '../../scene/naniteBuffers/drawnImpostorsBuffer.ts';
 import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
+import { BUFFER_INSTANCES_VISIBILITY } from '../../scene/naniteBuffers/visibilityBuffer.ts';
+import { BUFFER_INSTANCES_BVH } from '../../scene/naniteBuffers/instancesBvhBuffer.ts';
+import { BUFFER_SCENE_OBJECTS } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
 
 export const SHADER_PARAMS = {
   workgroupSizeX: 32,
@@ -27,25 +35,88 @@ export const SHADER_PARAMS = {
     billboardsIdsResult: 5,
     depthPyramidTexture: 6,
     depthSampler: 7,
+    instancesVisibility: 8,
+    instancesBvh: 9,
+    instancesBvhIds: 10,
+    sceneObjects: 11,
   },
 };
 
 ///////////////////////////
 /// SHADER CODE
+/// 'main' - thread per instance.
+/// 'main_Bvh' - workgroup per leaf of the instances BVH. Skips all instances of the culled leaf.
+///   Only for a single object, merged scene buffers have no BVH.
 ///////////////////////////
 const c = SHADER_PARAMS;
 const b = SHADER_PARAMS.bindings;
 
-export const SHADER_CODE = () => /* wgsl */ `
+/** Body of 'cullInstance()'. See 'OcclusionCullingPhase' */
+const CULL_INSTANCE: Record<OcclusionCullingPhase, string> = {
+  single: /* wgsl */ `
+  if (isInstanceRendered(settingsFlags, modelMat, boundingSphere)) {
+    registerInstanceDraw(settingsFlags, tfxIdx, modelMat, boundingSphere, false);
+  }`,
+
+  phase1: /* wgsl */ `
+  // no depth pyramid for this frame yet, so no occlusion culling
+  if (!_checkInstanceVisibility(tfxIdx, INSTANCE_VISIBLE)) { return; }
+  if (
+    useInstancesFrustumCulling(settingsFlags) &&
+    !isInsideCameraFrustum(modelMat, boundingSphere)
+  ) {
+    return;
+  }
+  registerInstanceDraw(settingsFlags, tfxIdx, modelMat, boundingSphere, false);`,
+
+  phase2: /* wgsl */ `
+  let wasVisible = _checkInstanceVisibility(tfxIdx, INSTANCE_VISIBLE);
+  let isVisible = isInstanceRendered(settingsFlags, modelMat, boundingSphere);
+  _storeInstanceVisibility(tfxIdx, isVisible);
+  if (!isVisible) { return; }
+
+  // Billboard was already drawn in 'phase1'. Meshlets are always culled again,
+  // as 'phase1' only drew the ones that were visible last frame.
+  registerInstanceDraw(settingsFlags, tfxIdx, modelMat, boundingSphere, wasVisible);`,
+};
+
+/** Leaf test has to be as conservative as the instance test in the same phase */
+const IS_BVH_LEAF_VISIBLE: Record<OcclusionCullingPhase, string> = {
+  single: /* wgsl */ `
+  return isInstanceRendered(settingsFlags, IDENTITY_MAT4, leafBounds);`,
+
+  phase1: /* wgsl */ `
+  return !useInstancesFrustumCulling(settingsFlags) ||
+    isInsideCameraFrustum(IDENTITY_MAT4, leafBounds);`,
+
+  phase2: /* wgsl */ `
+  return isInstanceRendered(settingsFlags, IDENTITY_MAT4, leafBounds);`,
+};
+
+/** Instance inside culled BVH leaf is not visible */
+const CULL_INSTANCE_IN_CULLED_LEAF: Record<OcclusionCullingPhase, string> = {
+  single: '',
+  phase1: '',
+  phase2: /* wgsl */ `
+  _storeInstanceVisibility(tfxIdx, false);`,
+};
+
+export const SHADER_CODE = (
+  phase: OcclusionCullingPhase = 'single'
+) => /* wgsl */ `
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
 ${SHADER_SNIPPETS.GET_MVP_MAT}
+${SHADER_SNIPPETS.GET_MODEL_MAT_SCALE}
 ${SHADER_SNIPPETS.UTILS}
 ${SNIPPET_FRUSTUM_CULLING}
 ${SNIPPET_OCCLUSION_CULLING}
+${SNIPPET_DITHER}
+${SNIPPET_CROSS_FADE}
 
 // instance transforms
 ${BUFFER_INSTANCES(b.instancesTransforms)}
+${BUFFER_SCENE_OBJECTS(b.sceneObjects)}
 
 // cull params
 ${BUFFER_DRAWN_INSTANCES_PARAMS(b.dispatchIndirectParams, 'read_write')}
@@ -63,6 +134,11 @@ var _depthPyramidTexture: texture_2d<f32>;
 @group(0) @binding(${b.depthSampler})
 var _depthSampler: sampler;
 
+${
+  phase !== 'single'
+    ? BUFFER_INSTANCES_VISIBILITY(b.instancesVisibility, phase === 'phase2' ? 'read_write' : 'read') // prettier-ignore
+    : ''
+}
 
 
 @compute
@@ -74,10 +150,7 @@ fn main(
   resetOtherDrawParams(global_id);
 
   let settingsFlags = _uniforms.flags;
-  let boundingSphere = _drawnInstancesParams.objectBoundingSphere;
-  let MAX_WORKGROUPS_Y: u32 = ${SHADER_PARAMS_CULL_MESHLETS.maxWorkgroupsY}u;
 
-  
   // prepare iters
   let instanceCount: u32 = _getInstanceCount();
   let iterCount: u32 = ceilDivideU32(instanceCount, ${c.maxWorkgroupsY}u);
@@ -87,26 +160,78 @@ fn main(
     let tfxIdx: u32 = tfxOffset + i;
     if (tfxIdx >= instanceCount) { continue; }
     let modelMat = _getInstanceTransform(tfxIdx);
+    if (!_isInstanceAlive(modelMat)) { continue; }
 
-    if (!isInstanceRendered(settingsFlags, modelMat, boundingSphere)){
-      continue;
-    }
+    let boundingSphere = _getInstanceObject(tfxIdx).boundingSphere;
+    cullInstance(settingsFlags, tfxIdx, modelMat, boundingSphere);
+  } 
+}
 
-    if (renderAsBillboard(settingsFlags, modelMat, boundingSphere)) {
-      let idx = atomicAdd(&_drawnImpostorsParams.instanceCount, 1u);
-      _drawnImpostorsList[idx] = tfxIdx;
-
-    } else {
-      // add 1, but no more than MAX_WORKGROUPS_Y.
-      // meh impl, but..
-      atomicAdd(&_drawnInstancesParams.workgroupsY, 1u);
-      atomicMin(&_drawnInstancesParams.workgroupsY, MAX_WORKGROUPS_Y);
-      
-      // add to the ACTUALL total counter
-      let idx = atomicAdd(&_drawnInstancesParams.actuallyDrawnInstances, 1u);
-      _drawnInstancesList[idx] = tfxIdx;
+fn cullInstance(
+  settingsFlags: u32,
+  tfxIdx: u32,
+  modelMat: mat4x4<f32>,
+  boundingSphere: vec4f
+) {
+${CULL_INSTANCE[phase]}
+}
+
+///////////////////////////
+/// BVH
+///////////////////////////
+
+${BUFFER_INSTANCES_BVH(b.instancesBvh, b.instancesBvhIds)}
+
+/** Leaf bounds are already in world space */
+const IDENTITY_MAT4 = mat4x4<f32>(
+  1.0, 0.0, 0.0, 0.0,
+  0.0, 1.0, 0.0, 0.0,
+  0.0, 0.0, 1.0, 0.0,
+  0.0, 0.0, 0.0, 1.0,
+);
+
+@compute
+@workgroup_size(${c.workgroupSizeX}, 1, 1)
+fn main_Bvh(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+  @builtin(workgroup_id) workgroup_id: vec3<u32>,
+  @builtin(local_invocation_index) local_idx: u32,
+  @builtin(num_workgroups) num_workgroups: vec3<u32>,
+) {
+  // set rest of the indirect draw params. Has to be first line in the shader in case we ooopsie and do early return by accident somewhere.
+  resetOtherDrawParams(global_id);
+
+  let settingsFlags = _uniforms.flags;
+  // BVH is built only for a single object, never for merged buffers
+  let boundingSphere = _sceneObjects.objects[0].boundingSphere;
+  let leafCount = _instancesBvh.leafCount;
+
+  // whole workgroup tests the same leaf, then splits its instances
+  for (var leafIdx = workgroup_id.x; leafIdx < leafCount; leafIdx += num_workgroups.x) {
+    let leaf = _instancesBvh.leaves[leafIdx];
+    let leafBounds = _getInstancesBvhLeafBounds(leaf, boundingSphere);
+    let isLeafVisible = isBvhLeafVisible(settingsFlags, leafBounds);
+
+    for (var i = local_idx; i < leaf.instanceCount; i += ${c.workgroupSizeX}u) {
+      let tfxIdx = _getInstancesBvhInstance(leafIdx, i);
+      let modelMat = _getInstanceTransform(tfxIdx);
+      if (!_isInstanceAlive(modelMat)) { continue; }
+
+      if (isLeafVisible) {
+        cullInstance(settingsFlags, tfxIdx, modelMat, boundingSphere);
+      } else {
+        cullInstanceInCulledLeaf(tfxIdx);
+      }
     }
-  } 
+  }
+}
+
+fn isBvhLeafVisible(settingsFlags: u32, leafBounds: vec4f) -> bool {
+${IS_BVH_LEAF_VISIBLE[phase]}
+}
+
+fn cullInstanceInCulledLeaf(tfxIdx: u32) {
+${CULL_INSTANCE_IN_CULLED_LEAF[phase]}
 }
 
 ///////////////////////////
@@ -137,21 +262,35 @@ fn isInstanceRendered(
 }
 
 
-fn renderAsBillboard(
+/** Inside the cross fade band, the instance is added to both lists */
+fn registerInstanceDraw(
   settingsFlags: u32,
+  tfxIdx: u32,
   modelMat: mat4x4<f32>,
-  boundingSphere: vec4f
-) -> bool {
-  if (useForceBillboards(settingsFlags)) {
-    return true;
+  boundingSphere: vec4f,
+  skipBillboard: bool
+) {
+  let crossFade = getBillboardCrossFade(settingsFlags, modelMat, boundingSphere);
+
+  if (crossFade < 1.0 && !skipBillboard) {
+    let idx = atomicAdd(&_drawnImpostorsParams.instanceCount, 1u);
+    _drawnImpostorsList[idx] = tfxIdx;
+    if (crossFade > 0.0) {
+      atomicAdd(&_drawnImpostorsParams.crossFadeCount, 1u);
+    }
   }
 
-  var pixelSpan = vec2f();
-  let projectionOK = projectSphereToScreen(modelMat, boundingSphere, &pixelSpan);
-  return (
-    projectionOK &&
-    pixelSpan.x * pixelSpan.y < _uniforms.billboardThreshold
-  );
+  if (crossFade > 0.0) {
+    // add 1, but no more than MAX_WORKGROUPS_Y.
+    // meh impl, but..
+    let MAX_WORKGROUPS_Y: u32 = ${SHADER_PARAMS_CULL_MESHLETS.maxWorkgroupsY}u;
+    atomicAdd(&_drawnInstancesParams.workgroupsY, 1u);
+    atomicMin(&_drawnInstancesParams.workgroupsY, MAX_WORKGROUPS_Y);
+    
+    // add to the ACTUALL total counter
+    let idx = atomicAdd(&_drawnInstancesParams.actuallyDrawnInstances, 1u);
+    _drawnInstancesList[idx] = tfxIdx;
+  }
 }
 
 fn resetOtherDrawParams(global_id: vec3<u32>){
@@ -5,8 +5,13 @@ import {
 } from '../../sys_deno/testUtils.ts';
 import { CullMeshletsPass } from './cullMeshletsPass.ts';
 import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
-import { mat4 } from 'wgpu-matrix';
-import { BYTES_VEC3, CONFIG, VERTS_IN_TRIANGLE } from '../../constants.ts';
+import { mat4, vec3 } from 'wgpu-matrix';
+import {
+  BYTES_VEC2,
+  BYTES_VEC3,
+  CONFIG,
+  VERTS_IN_TRIANGLE,
+} from '../../constants.ts';
 import {
   NaniteVisibilityStatus,
   calcCotHalfFov,
@@ -24,8 +29,19 @@ import { parseDrawnMeshletsBuffer } from '../../scene/naniteBuffers/drawnMeshlet
 import { NaniteVisibilityBufferCPU } from '../naniteCpu/types.ts';
 import { GPUOriginalMesh } from '../../scene/GPUOriginalMesh.ts';
 import { ParsedMesh } from '../../scene/objLoader.ts';
-import { createGrid, createInstancesData } from '../../scene/instancesData.ts';
+import {
+  InstancesDef,
+  createGrid,
+  createInstanceTransforms,
+  createInstancesData,
+  createInstancesList,
+} from '../../scene/instancesData.ts';
 import { ImpostorBillboardTexture } from '../../scene/renderImpostors/renderImpostors.ts';
+import { MeshletWIP } from '../../meshPreprocessing/index.ts';
+import { NaniteDrawable, NaniteObject } from '../../scene/naniteObject.ts';
+import { PassCtx } from '../passCtx.ts';
+import { NaniteSceneBuffers } from '../../scene/naniteSceneBuffers/index.ts';
+import { createFallbackTexture } from '../../utils/textures.ts';
 
 const THRESHOLD = 1.0;
 const ERR_GT = 0.002;
@@ -68,20 +84,206 @@ Deno.test('CullMeshletsPass', async () => {
   ]);
   // console.log(allMeshlets);
 
-  const uniforms = new RenderUniformsBuffer(device);
+  const naniteObject = createMockNaniteObject(
+    device,
+    allWIPMeshlets,
+    createGrid(1, 1)
+  );
+  const [passCtx, resultData] = await cullMeshlets(
+    device,
+    reportWebGPUErrAsync,
+    naniteObject
+  );
+
+  // cleanup
+  device.destroy();
+
+  // check draw params
+  const parsedResult = parseDrawnMeshletsBuffer(resultData).hardwareRaster;
+  // printTypedArray('drawParamsResult ', drawParamsResult);
+  assertEquals(
+    parsedResult.vertexCount,
+    CONFIG.nanite.preprocess.meshletMaxTriangles * VERTS_IN_TRIANGLE
+  );
+  assertEquals(parsedResult.meshletCount, EXPECTED_DRAWN_MESHLETS_COUNT);
+  assertEquals(parsedResult.firstVertex, 0);
+  assertEquals(parsedResult.firstInstance, 0);
+
+  // check visibility buffer
+  const visibilityResult = parsedResult.meshletIds;
+  const naniteVisibilityBufferCPU = new NaniteVisibilityBufferCPU();
+  naniteVisibilityBufferCPU.initialize(allWIPMeshlets.length);
+  // printTypedArray('visbilityResult', visibilityResultArr);
+  const getProjectedError = createErrorMetric(
+    passCtx,
+    calcCotHalfFov(),
+    naniteVisibilityBufferCPU,
+    mat4.identity()
+  );
+
+  allWIPMeshlets.forEach((mWIP) => {
+    if (mWIP.id === 0) return; // the dummy one, cause idx==0 is also the default value of the U32Array buffer
+
+    const meshlet = naniteObject.find(mWIP.id)!;
+    const resultMeshlet = visibilityResult.find((m) => m.meshletId === mWIP.id);
+
+    // compare if it's visible or not
+    const expectedStr = getVisibilityStatus(getProjectedError, meshlet);
+    const expected = expectedStr === NaniteVisibilityStatus.RENDERED;
+    // console.log({ id: mWIP.id, expected, resultMeshlet });
+    assertEquals(
+      expected,
+      resultMeshlet !== undefined,
+      `Meshlet ${mWIP.id} has invalid visibility`
+    );
+
+    // check transformId
+    if (resultMeshlet) {
+      assertEquals(resultMeshlet.transformId, 0);
+    }
+  });
+});
+
+Deno.test('CullMeshletsPass :: backface cone culling', async () => {
+  const [device, reportWebGPUErrAsync] = await createGpuDevice_TESTS();
+  CONFIG.cullingMeshlets.frustumCulling = false;
+  CONFIG.cullingInstances.enabled = false;
+  CONFIG.cullingMeshlets.coneCulling = true;
+
+  // rotated and non-uniformly scaled, in front of the camera at the origin.
+  // Camera in model space is nowhere near the camera in world space
+  const instances = createInstancesList([
+    { position: [0, 0, -10], rotationDgr: [0, 90, 0], scale: [1, 0.5, 0.25] },
+  ]);
+  const [modelMat] = createInstanceTransforms(instances);
+  const cameraModelSpace = vec3.transformMat4(
+    [0, 0, 0],
+    mat4.inverse(modelMat)
+  );
+  const toCamera = Array.from(vec3.normalize(cameraModelSpace));
+  const fromCamera = Array.from(vec3.negate(toCamera));
+  const CONE_CUTOFF = 0.5; // cos(60dgr)
+
+  // prettier-ignore
+  const allWIPMeshlets = createMeshlets_TESTS([
+    // dummy, see the test above
+    { maxSiblingsError: Infinity, parentError: Infinity, lodLevel: 1 },
+    // 1: triangles face the camera <- OK
+    { maxSiblingsError: ERR_LT, parentError: Infinity, lodLevel: 0, parentIdx: 0,
+      cone: { coneAxis: toCamera, coneCutoff: CONE_CUTOFF } },
+    // 2: triangles face away from the camera <- FAIL (cone culled)
+    { maxSiblingsError: ERR_LT, parentError: Infinity, lodLevel: 0, parentIdx: 0,
+      cone: { coneAxis: fromCamera, coneCutoff: CONE_CUTOFF } },
+  ]);
+  const naniteObject = createMockNaniteObject(
+    device,
+    allWIPMeshlets,
+    instances
+  );
+  const [_passCtx, resultData] = await cullMeshlets(
+    device,
+    reportWebGPUErrAsync,
+    naniteObject
+  );
+
+  // cleanup
+  device.destroy();
+  CONFIG.cullingMeshlets.coneCulling = false;
+
+  const parsedResult = parseDrawnMeshletsBuffer(resultData).hardwareRaster;
+  assertEquals(parsedResult.meshletIds, [{ transformId: 0, meshletId: 1 }]);
+  assertEquals(parsedResult.coneCulledMeshlets, 1);
+});
+
+Deno.test('CullMeshletsPass :: merged objects', async () => {
+  const [device, reportWebGPUErrAsync] = await createGpuDevice_TESTS();
+  CONFIG.cullingMeshlets.frustumCulling = false;
+  CONFIG.cullingInstances.enabled = false;
+
+  // prettier-ignore
+  const naniteObjectA = createMockNaniteObject(
+    device,
+    createMeshlets_TESTS([
+      // dummy, see the first test
+      { maxSiblingsError: Infinity, parentError: Infinity, lodLevel: 1 },
+      // 1: no parent AND (my error < threshold) <- OK
+      { maxSiblingsError: ERR_LT, parentError: Infinity, lodLevel: 0, parentIdx: 0 },
+    ]),
+    createInstancesList([{ position: [0, 0, 0] }]),
+    'test-object-a'
+  );
+  // prettier-ignore
+  const naniteObjectB = createMockNaniteObject(
+    device,
+    createMeshlets_TESTS([
+      // dummy, see the first test
+      { maxSiblingsError: Infinity, parentError: Infinity, lodLevel: 1 },
+      // 1: no parent AND (my error > threshold) <- FAIL (failed threshold)
+      { maxSiblingsError: ERR_GT, parentError: Infinity, lodLevel: 0, parentIdx: 0 },
+      // 2: no parent AND (my error < threshold) <- OK
+      { maxSiblingsError: ERR_LT, parentError: Infinity, lodLevel: 0, parentIdx: 0 },
+    ]),
+    createInstancesList([{ position: [0, 0, 0] }, { position: [0, 0, 0] }]),
+    'test-object-b'
+  );
+  const fallbackTexture = createFallbackTexture(device, [0, 0, 0]);
+  const mergedBuffers = new NaniteSceneBuffers(
+    device,
+    [naniteObjectA, naniteObjectB],
+    fallbackTexture
+  );
+  const cmdBuf = device.createCommandEncoder();
+  mergedBuffers.cmdCopyInstanceTransforms(cmdBuf);
+  device.queue.submit([cmdBuf.finish()]);
+
+  const [_passCtx, resultData] = await cullMeshlets(
+    device,
+    reportWebGPUErrAsync,
+    mergedBuffers
+  );
+
+  // cleanup
+  device.destroy();
+
+  // meshlet and instance ids are global
+  const meshletOffsetB = naniteObjectA.meshletCount;
+  const instanceOffsetB = naniteObjectA.instancesCapacity;
+  const parsedResult = parseDrawnMeshletsBuffer(resultData).hardwareRaster;
+  const drawn = [...parsedResult.meshletIds].sort(
+    (a, b) => a.transformId - b.transformId
+  );
+  assertEquals(drawn, [
+    { transformId: 0, meshletId: 1 },
+    { transformId: instanceOffsetB, meshletId: meshletOffsetB + 2 },
+    { transformId: instanceOffsetB + 1, meshletId: meshletOffsetB + 2 },
+  ]);
+  assertEquals(mergedBuffers.find(meshletOffsetB + 2)?.id, 2);
+});
 
+function createMockNaniteObject(
+  device: GPUDevice,
+  allWIPMeshlets: MeshletWIP[],
+  instancesDef: InstancesDef,
+  name = 'test-object'
+): NaniteObject {
   // mock mesh data, does not matter as visibility buffer only operates on instances+meshlets
-  // It never has to step down to the actuall geometry
+  // It never has to step down to the actuall geometry. UVs are only copied into the merged buffers
   const mockOriginalMesh: GPUOriginalMesh = {
     vertexBuffer: { size: 'mocked-vertex-buffer-size' },
+    vertexCount: 3,
+    uvBuffer: device.createBuffer({
+      size: 3 * BYTES_VEC2,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    }),
     // deno-lint-ignore no-explicit-any
   } as any;
+  // single small triangle at the origin. Each meshlet's own bounds are calculated from it
   const mockParsedMesh: ParsedMesh = {
-    vertexCount: 1,
-    positions: new Float32Array([0, 1, 2]), // mock
+    vertexCount: 3,
+    positions: new Float32Array([-0.1, 0, 0, 0.1, 0, 0, 0, 0.1, 0]),
     positionsStride: BYTES_VEC3,
-    normals: new Float32Array([0, 1, 0]), // mock
-    uv: new Float32Array([0.5, 0.5]), // mock
+    normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]), // mock
+    uv: new Float32Array([0.5, 0.5, 0.5, 0.5, 0.5, 0.5]), // mock
     indices: new Uint32Array([0, 1, 2]),
     indicesCount: 3,
     verticesAndAttributes: new Float32Array([0, 1, 2]), // mock
@@ -96,21 +298,26 @@ Deno.test('CullMeshletsPass', async () => {
   };
 
   // finally, we can create nanite object
-  const mockInstances = createInstancesData(
-    device,
-    'test-object',
-    createGrid(1, 1)
-  );
-  const mockImpostors: ImpostorBillboardTexture = undefined!;
-  const naniteObject = createNaniteObject(
+  const mockInstances = createInstancesData(device, name, instancesDef);
+  const mockImpostors = { layer: 0 } as ImpostorBillboardTexture;
+  return createNaniteObject(
     device,
-    'test-object',
+    name,
     mockOriginalMesh,
     mockParsedMesh,
     allWIPMeshlets,
     mockInstances,
     mockImpostors
   );
+}
+
+/** Camera is at the origin, looking at -Z. Returns content of the drawn meshlets buffer */
+async function cullMeshlets(
+  device: GPUDevice,
+  reportWebGPUErrAsync: () => Promise<void>,
+  naniteObject: NaniteDrawable
+): Promise<[PassCtx, Uint32Array]> {
+  const uniforms = new RenderUniformsBuffer(device);
 
   // retrieve visiblityBuffer
   const visiblityBuffer = naniteObject.buffers.drawnMeshletsBuffer;
@@ -125,6 +332,7 @@ Deno.test('CullMeshletsPass', async () => {
   passCtx.projMatrix = mat4.identity();
   passCtx.viewMatrix = mat4.identity();
   passCtx.vpMatrix = mat4.identity();
+  passCtx.cameraPositionWorldSpace = [0, 0, 0];
   passCtx.globalUniforms = uniforms;
   CONFIG.nanite.render.errorThreshold = THRESHOLD;
   uniforms.update(passCtx);
@@ -141,51 +349,5 @@ Deno.test('CullMeshletsPass', async () => {
   );
   // printTypedArray('resultData', resultData);
 
-  // cleanup
-  device.destroy();
-
-  // check draw params
-  const parsedResult = parseDrawnMeshletsBuffer(resultData).hardwareRaster;
-  // printTypedArray('drawParamsResult ', drawParamsResult);
-  assertEquals(
-    parsedResult.vertexCount,
-    CONFIG.nanite.preprocess.meshletMaxTriangles * VERTS_IN_TRIANGLE
-  );
-  assertEquals(parsedResult.meshletCount, EXPECTED_DRAWN_MESHLETS_COUNT);
-  assertEquals(parsedResult.firstVertex, 0);
-  assertEquals(parsedResult.firstInstance, 0);
-
-  // check visibility buffer
-  const visibilityResult = parsedResult.meshletIds;
-  const naniteVisibilityBufferCPU = new NaniteVisibilityBufferCPU();
-  naniteVisibilityBufferCPU.initialize(allWIPMeshlets.length);
-  // printTypedArray('visbilityResult', visibilityResultArr);
-  const getProjectedError = createErrorMetric(
-    passCtx,
-    calcCotHalfFov(),
-    naniteVisibilityBufferCPU,
-    mat4.identity()
-  );
-
-  allWIPMeshlets.forEach((mWIP) => {
-    if (mWIP.id === 0) return; // the dummy one, cause idx==0 is also the default value of the U32Array buffer
-
-    const meshlet = naniteObject.find(mWIP.id)!;
-    const resultMeshlet = visibilityResult.find((m) => m.meshletId === mWIP.id);
-
-    // compare if it's visible or not
-    const expectedStr = getVisibilityStatus(getProjectedError, meshlet);
-    const expected = expectedStr === NaniteVisibilityStatus.RENDERED;
-    // console.log({ id: mWIP.id, expected, resultMeshlet });
-    assertEquals(
-      expected,
-      resultMeshlet !== undefined,
-      `Meshlet ${mWIP.id} has invalid visibility`
-    );
-
-    // check transformId
-    if (resultMeshlet) {
-      assertEquals(resultMeshlet.transformId, 0);
-    }
-  });
-});
+  return [passCtx, resultData];
+}
@@ -1,4 +1,4 @@
-import { NaniteObject } from '../../scene/naniteObject.ts';
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
 import {
   assertIsGPUTextureView,
   getItemsPerThread,
@@ -12,6 +12,7 @@ import {
 import { PassCtx } from '../passCtx.ts';
 import { SHADER_PARAMS, SHADER_CODE } from './cullMeshletsPass.wgsl.ts';
 import { CONFIG } from '../../constants.ts';
+import { OcclusionCullingPhase } from '../_shaderSnippets/cullOcclusion.wgsl.ts';
 
 /** Pass to cull on meshlet level */
 export class CullMeshletsPass {
@@ -25,15 +26,34 @@ export class CullMeshletsPass {
   private readonly pipeline_Iter: GPUComputePipeline;
   private readonly bindingsCache_Iter = new BindingsCache();
 
-  // shader variant 3
-  private readonly pipeline_Indirect: GPUComputePipeline;
+  // shader variant 3. Each phase of two-pass occlusion culling has separate shader
+  private readonly pipelines_Indirect: Record<
+    OcclusionCullingPhase,
+    GPUComputePipeline
+  >;
+  /** Key is `${objectName}-${phase}` */
   private readonly bindingsCache_Indirect = new BindingsCache();
 
+  // shader variant 4. Only the step depends on the phase
+  private readonly pipeline_HierarchyInit: GPUComputePipeline;
+  private readonly pipeline_HierarchyAdvance: GPUComputePipeline;
+  private readonly pipelines_HierarchyStep: Record<
+    OcclusionCullingPhase,
+    GPUComputePipeline
+  >;
+  /** Key is `${objectName}-${mainFn}` or `${objectName}-${mainFn}-${phase}` */
+  private readonly bindingsCache_Hierarchy = new BindingsCache();
+
   constructor(device: GPUDevice) {
-    const shaderModule = device.createShaderModule({
-      label: labelShader(CullMeshletsPass),
-      code: SHADER_CODE(),
-    });
+    const shaderModule = CullMeshletsPass.createShaderModule(device, 'single');
+    const shaderModulePhase1 = CullMeshletsPass.createShaderModule(
+      device,
+      'phase1'
+    );
+    const shaderModulePhase2 = CullMeshletsPass.createShaderModule(
+      device,
+      'phase2'
+    );
 
     this.pipeline_SpreadYZ = CullMeshletsPass.createPipeline(
       device,
@@ -45,11 +65,61 @@ export class CullMeshletsPass {
       shaderModule,
       'main_Iter'
     );
-    this.pipeline_Indirect = CullMeshletsPass.createPipeline(
+    this.pipelines_Indirect = {
+      single: CullMeshletsPass.createPipeline(
+        device,
+        shaderModule,
+        'main_Indirect'
+      ),
+      phase1: CullMeshletsPass.createPipeline(
+        device,
+        shaderModulePhase1,
+        'main_Indirect'
+      ),
+      phase2: CullMeshletsPass.createPipeline(
+        device,
+        shaderModulePhase2,
+        'main_Indirect'
+      ),
+    };
+
+    this.pipeline_HierarchyInit = CullMeshletsPass.createPipeline(
+      device,
+      shaderModule,
+      'main_HierarchyInit'
+    );
+    this.pipeline_HierarchyAdvance = CullMeshletsPass.createPipeline(
       device,
       shaderModule,
-      'main_Indirect'
+      'main_HierarchyAdvance'
     );
+    this.pipelines_HierarchyStep = {
+      single: CullMeshletsPass.createPipeline(
+        device,
+        shaderModule,
+        'main_HierarchyStep'
+      ),
+      phase1: CullMeshletsPass.createPipeline(
+        device,
+        shaderModulePhase1,
+        'main_HierarchyStep'
+      ),
+      phase2: CullMeshletsPass.createPipeline(
+        device,
+        shaderModulePhase2,
+        'main_HierarchyStep'
+      ),
+    };
+  }
+
+  private static createShaderModule(
+    device: GPUDevice,
+    phase: OcclusionCullingPhase
+  ) {
+    return device.createShaderModule({
+      label: labelShader(CullMeshletsPass),
+      code: SHADER_CODE(phase),
+    });
   }
 
   private static createPipeline(
@@ -67,62 +137,102 @@ export class CullMeshletsPass {
     });
   }
 
-  onViewportResize = () => {
+  onViewportResize = () => this.clearBindingsCaches();
+
+  onSceneChanged = () => this.clearBindingsCaches();
+
+  private clearBindingsCaches() {
     this.bindingsCache_SpreadYZ.clear();
     this.bindingsCache_Iter.clear();
     this.bindingsCache_Indirect.clear();
-  };
+    this.bindingsCache_Hierarchy.clear();
+  }
 
-  cmdCullMeshlets(ctx: PassCtx, naniteObject: NaniteObject) {
+  /** Two-pass occlusion culling requires instance culling */
+  cmdCullMeshlets(
+    ctx: PassCtx,
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase = 'single'
+  ) {
     const { cmdBuf, profiler } = ctx;
 
-    // forget draws from previous frame
-    naniteObject.buffers.cmdClearDrawnMeshletsParams(cmdBuf);
+    this.cmdClearDrawnLists(ctx, naniteObject, phase);
 
     const computePass = cmdBuf.beginComputePass({
       label: CullMeshletsPass.NAME,
       timestampWrites: profiler?.createScopeGpu(CullMeshletsPass.NAME),
     });
+    this.dispatchCullMeshlets(ctx, computePass, naniteObject, phase);
+    computePass.end();
+  }
 
-    if (CONFIG.cullingInstances.enabled) {
-      this.dispatchVariant_Indirect(ctx, computePass, naniteObject);
+  /** Forget draws from previous frame. Has to be recorded outside of the passes */
+  private cmdClearDrawnLists(
+    { cmdBuf }: PassCtx,
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
+  ) {
+    naniteObject.buffers.cmdClearDrawnMeshletsParams(cmdBuf);
+    if (CullMeshletsPass.useHierarchy(phase)) {
+      naniteObject.buffers.cmdClearMeshletsQueueParams(cmdBuf);
+    }
+  }
+
+  /** Record culling of a single drawable into an already started compute pass */
+  private dispatchCullMeshlets(
+    ctx: PassCtx,
+    computePass: GPUComputePassEncoder,
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
+  ) {
+    if (CullMeshletsPass.useHierarchy(phase)) {
+      this.dispatchVariant_Hierarchy(ctx, computePass, naniteObject, phase);
+    } else if (CullMeshletsPass.useIndirect(phase)) {
+      this.dispatchVariant_Indirect(ctx, computePass, naniteObject, phase);
     } else if (CONFIG.nanite.render.useVisibilityImpl_Iter) {
       this.dispatchVariant_Iter(ctx, computePass, naniteObject);
     } else {
       this.dispatchVariant_SpreadYZ(ctx, computePass, naniteObject);
     }
-
-    computePass.end();
   }
 
+  /** Meshlets are culled for the instances that survived the instance culling */
+  private static useIndirect = (phase: OcclusionCullingPhase) =>
+    CONFIG.cullingInstances.enabled || phase !== 'single';
+
+  private static useHierarchy = (phase: OcclusionCullingPhase) =>
+    CullMeshletsPass.useIndirect(phase) &&
+    CONFIG.nanite.render.hierarchicalCulling;
+
   /** See shader for explanation */
   private dispatchVariant_SpreadYZ(
     ctx: PassCtx,
     computePass: GPUComputePassEncoder,
-    naniteObject: NaniteObject
+    naniteObject: NaniteDrawable
   ) {
     const pipeline = this.pipeline_SpreadYZ;
     const bindings = this.bindingsCache_SpreadYZ.getBindings(
       naniteObject.name,
-      () => this.createBindings(ctx, pipeline, naniteObject)
+      () => this.createBindings(ctx, pipeline, naniteObject),
+      naniteObject.buffersVersion
     );
 
     computePass.setPipeline(pipeline);
     computePass.setBindGroup(0, bindings);
 
     // dispatch params
-    // X: one per meshlet
+    // X: one per meshlet of the largest object
     const workgroupsCntX = getItemsPerThread(
-      naniteObject.meshletCount,
+      naniteObject.buffers.maxMeshletCount,
       SHADER_PARAMS.workgroupSizeX
     );
     // Y,Z: There is max of 65k for this number. We might have > 65k instances.
     // So we split the instance count between y, z.
     const workgroupsCntY = Math.ceil(
-      Math.min(naniteObject.instancesCount, SHADER_PARAMS.maxWorkgroupsY)
+      Math.min(naniteObject.instancesCapacity, SHADER_PARAMS.maxWorkgroupsY)
     );
     const workgroupsCntZ = Math.ceil(
-      naniteObject.instancesCount / SHADER_PARAMS.maxWorkgroupsY
+      naniteObject.instancesCapacity / SHADER_PARAMS.maxWorkgroupsY
     );
 
     // dispatch
@@ -137,26 +247,27 @@ export class CullMeshletsPass {
   private dispatchVariant_Iter(
     ctx: PassCtx,
     computePass: GPUComputePassEncoder,
-    naniteObject: NaniteObject
+    naniteObject: NaniteDrawable
   ) {
     const pipeline = this.pipeline_Iter;
     const bindings = this.bindingsCache_Iter.getBindings(
       naniteObject.name,
-      () => this.createBindings(ctx, pipeline, naniteObject)
+      () => this.createBindings(ctx, pipeline, naniteObject),
+      naniteObject.buffersVersion
     );
 
     computePass.setPipeline(pipeline);
     computePass.setBindGroup(0, bindings);
 
     // dispatch params
-    // X: one per meshlet
+    // X: one per meshlet of the largest object
     const workgroupsCntX = getItemsPerThread(
-      naniteObject.meshletCount,
+      naniteObject.buffers.maxMeshletCount,
       SHADER_PARAMS.workgroupSizeX
     );
     // Y: one per instance, but do not overflow limit 65k
     const workgroupsCntY = Math.min(
-      naniteObject.instancesCount,
+      naniteObject.instancesCapacity,
       SHADER_PARAMS.maxWorkgroupsY
     );
     // Z: nope
@@ -174,12 +285,14 @@ export class CullMeshletsPass {
   private dispatchVariant_Indirect(
     ctx: PassCtx,
     computePass: GPUComputePassEncoder,
-    naniteObject: NaniteObject
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
   ) {
-    const pipeline = this.pipeline_Indirect;
+    const pipeline = this.pipelines_Indirect[phase];
     const bindings = this.bindingsCache_Indirect.getBindings(
-      naniteObject.name,
-      () => this.createBindingsIndirect(ctx, pipeline, naniteObject)
+      `${naniteObject.name}-${phase}`,
+      () => this.createBindingsIndirect(ctx, pipeline, naniteObject, phase),
+      naniteObject.buffersVersion
     );
 
     computePass.setPipeline(pipeline);
@@ -192,6 +305,52 @@ export class CullMeshletsPass {
     );
   }
 
+  /** See shader for explanation */
+  private dispatchVariant_Hierarchy(
+    ctx: PassCtx,
+    computePass: GPUComputePassEncoder,
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
+  ) {
+    const { name, buffers, buffersVersion } = naniteObject;
+    const cache = this.bindingsCache_Hierarchy;
+
+    // push roots for each drawn instance
+    const initPipeline = this.pipeline_HierarchyInit;
+    const initBindings = cache.getBindings(
+      `${name}-main_HierarchyInit`,
+      () => this.createBindingsHierarchyInit(ctx, initPipeline, naniteObject),
+      buffersVersion
+    );
+    computePass.setPipeline(initPipeline);
+    computePass.setBindGroup(0, initBindings);
+    computePass.dispatchWorkgroupsIndirect(buffers.drawnInstancesBuffer, 0);
+
+    // each step goes 1 LOD level down
+    const advancePipeline = this.pipeline_HierarchyAdvance;
+    const advanceBindings = cache.getBindings(
+      `${name}-main_HierarchyAdvance`,
+      () => this.createBindingsHierarchyAdvance(ctx, advancePipeline, naniteObject), // prettier-ignore
+      buffersVersion
+    );
+    const stepPipeline = this.pipelines_HierarchyStep[phase];
+    const stepBindings = cache.getBindings(
+      `${name}-main_HierarchyStep-${phase}`,
+      () => this.createBindingsHierarchyStep(ctx, stepPipeline, naniteObject, phase), // prettier-ignore
+      buffersVersion
+    );
+
+    for (let i = 0; i < naniteObject.lodLevelCount; i++) {
+      computePass.setPipeline(advancePipeline);
+      computePass.setBindGroup(0, advanceBindings);
+      computePass.dispatchWorkgroups(1);
+
+      computePass.setPipeline(stepPipeline);
+      computePass.setBindGroup(0, stepBindings);
+      buffers.cmdDispatchMeshletsQueueIndirect(computePass);
+    }
+  }
+
   /** Shared by both normal and indirect variants */
   private getTheUsuallBindGroups(
     {
@@ -199,7 +358,7 @@ export class CullMeshletsPass {
       prevFrameDepthPyramidTexture,
       depthPyramidSampler,
     }: PassCtx,
-    naniteObject: NaniteObject
+    naniteObject: NaniteDrawable
   ) {
     const b = SHADER_PARAMS.bindings;
     const buffers = naniteObject.buffers;
@@ -212,6 +371,7 @@ export class CullMeshletsPass {
       buffers.bindDrawnMeshletsList(b.drawnMeshletsList),
       buffers.bindDrawnMeshletsSwParams(b.drawnMeshletsSwParams),
       naniteObject.bindInstanceTransforms(b.instancesTransforms),
+      buffers.bindSceneObjects(b.sceneObjects),
       {
         binding: b.depthPyramidTexture,
         resource: prevFrameDepthPyramidTexture,
@@ -223,7 +383,7 @@ export class CullMeshletsPass {
   private createBindings = (
     ctx: PassCtx,
     pipeline: GPUComputePipeline,
-    naniteObject: NaniteObject
+    naniteObject: NaniteDrawable
   ): GPUBindGroup => {
     const { device } = ctx;
     const bindGroups = this.getTheUsuallBindGroups(ctx, naniteObject);
@@ -240,13 +400,15 @@ export class CullMeshletsPass {
   private createBindingsIndirect = (
     ctx: PassCtx,
     pipeline: GPUComputePipeline,
-    naniteObject: NaniteObject
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
   ): GPUBindGroup => {
     const { device } = ctx;
     const b = SHADER_PARAMS.bindings;
     const bindGroups = this.getTheUsuallBindGroups(ctx, naniteObject);
 
     const buffers = naniteObject.buffers;
+    const visibilityBindings = this.getVisibilityBindings(naniteObject, phase);
 
     return assignResourcesToBindings2(
       CullMeshletsPass,
@@ -257,6 +419,89 @@ export class CullMeshletsPass {
         ...bindGroups,
         buffers.bindDrawnInstancesParams(b.drawnInstancesParams),
         buffers.bindDrawnInstancesList(b.drawnInstancesList),
+        ...visibilityBindings,
+      ]
+    );
+  };
+
+  private getVisibilityBindings(
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
+  ): GPUBindGroupEntry[] {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+    return phase === 'single'
+      ? []
+      : [
+          buffers.bindInstancesVisibility(b.instancesVisibility),
+          buffers.bindMeshletsVisibility(b.meshletsVisibility),
+        ];
+  }
+
+  private createBindingsHierarchyInit = (
+    { device }: PassCtx,
+    pipeline: GPUComputePipeline,
+    naniteObject: NaniteDrawable
+  ): GPUBindGroup => {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+
+    return assignResourcesToBindings2(
+      CullMeshletsPass,
+      naniteObject.name,
+      device,
+      pipeline,
+      [
+        buffers.bindDrawnMeshletsParams(b.drawnMeshletsParams),
+        buffers.bindDrawnMeshletsSwParams(b.drawnMeshletsSwParams),
+        buffers.bindDrawnInstancesParams(b.drawnInstancesParams),
+        buffers.bindDrawnInstancesList(b.drawnInstancesList),
+        buffers.bindMeshletsHierarchy(b.meshletsHierarchy),
+        buffers.bindMeshletsQueue(b.meshletsQueue),
+        buffers.bindSceneObjects(b.sceneObjects),
+      ]
+    );
+  };
+
+  private createBindingsHierarchyAdvance = (
+    { device }: PassCtx,
+    pipeline: GPUComputePipeline,
+    naniteObject: NaniteDrawable
+  ): GPUBindGroup => {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+
+    return assignResourcesToBindings2(
+      CullMeshletsPass,
+      naniteObject.name,
+      device,
+      pipeline,
+      [
+        buffers.bindMeshletsQueue(b.meshletsQueue),
+        buffers.bindMeshletsQueueDispatch(b.meshletsQueueDispatch),
+      ]
+    );
+  };
+
+  private createBindingsHierarchyStep = (
+    ctx: PassCtx,
+    pipeline: GPUComputePipeline,
+    naniteObject: NaniteDrawable,
+    phase: OcclusionCullingPhase
+  ): GPUBindGroup => {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+
+    return assignResourcesToBindings2(
+      CullMeshletsPass,
+      naniteObject.name,
+      ctx.device,
+      pipeline,
+      [
+        ...this.getTheUsuallBindGroups(ctx, naniteObject),
+        ...this.getVisibilityBindings(naniteObject, phase),
+        buffers.bindMeshletsHierarchy(b.meshletsHierarchy),
+        buffers.bindMeshletsQueue(b.meshletsQueue),
       ]
     );
   };
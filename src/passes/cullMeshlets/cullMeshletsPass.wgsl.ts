@@ -2,9 +2,14 @@ import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
 import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
 import { BUFFER_MESHLET_DATA } from '../../scene/naniteBuffers/meshletsDataBuffer.ts';
 import { CONFIG } from '../../constants.ts';
-import { SNIPPET_OCCLUSION_CULLING } from '../_shaderSnippets/cullOcclusion.wgsl.ts';
+import {
+  OcclusionCullingPhase,
+  SNIPPET_OCCLUSION_CULLING,
+} from '../_shaderSnippets/cullOcclusion.wgsl.ts';
 import { SNIPPET_FRUSTUM_CULLING } from '../_shaderSnippets/cullFrustum.wgsl.ts';
 import { SNIPPET_NANITE_LOD_CULLING } from '../_shaderSnippets/nanite.wgsl.ts';
+import { SNIPPET_DITHER } from '../_shaderSnippets/dither.wgsl.ts';
+import { SNIPPET_CROSS_FADE } from '../_shaderSnippets/crossFade.wgsl.ts';
 import {
   BUFFER_DRAWN_INSTANCES_PARAMS,
   BUFFER_DRAWN_INSTANCES_LIST,
@@ -15,7 +20,17 @@ import {
   BUFFER_DRAWN_MESHLETS_SW_PARAMS,
 } from '../../scene/naniteBuffers/drawnMeshletsBuffer.ts';
 import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
+import {
+  BUFFER_INSTANCES_VISIBILITY,
+  BUFFER_MESHLETS_VISIBILITY,
+} from '../../scene/naniteBuffers/visibilityBuffer.ts';
 import { SHADER_PARAMS as SHADER_PARAMS_RASTERIZE_SW } from '../rasterizeSw/rasterizeSwPass.wgsl.ts';
+import { BUFFER_MESHLETS_HIERARCHY } from '../../scene/naniteBuffers/meshletsHierarchyBuffer.ts';
+import {
+  BUFFER_MESHLETS_QUEUE,
+  BUFFER_MESHLETS_QUEUE_DISPATCH,
+} from '../../scene/naniteBuffers/meshletsQueueBuffer.ts';
+import { BUFFER_SCENE_OBJECTS } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
 
 export const SHADER_PARAMS = {
   workgroupSizeX: 32,
@@ -32,27 +47,76 @@ export const SHADER_PARAMS = {
     depthSampler: 7,
     drawnInstancesParams: 8,
     drawnInstancesList: 9,
+    instancesVisibility: 10,
+    meshletsVisibility: 11,
+    meshletsHierarchy: 12,
+    meshletsQueue: 13,
+    meshletsQueueDispatch: 14,
+    sceneObjects: 15,
   },
 };
 
 ///////////////////////////
 /// SHADER CODE
-/// We dispatch X=meshletCount, YZ=instance count
+/// We dispatch X=meshletCount, YZ=instance count. Meshlet count is of the largest object,
+/// 'global_id.x' is the meshlet index inside the instance's object (see 'NaniteSceneObject').
 /// There is limit of 65535 and instance count can go over.
 /// Variant 1: Split instance ID between YZ and have tons of empty workgroups.
 /// Variant 2: Z=1 and iterate in shader.
 /// Variant 3: Same as variant 2, but dispatch indirect based on cullInstancesPass. This is the one you should read.
+/// Variant 4: Traverse the meshlet DAG from the roots. Uses variant 3's instance list and 'cullMeshlet()'.
+///   Only variants 3 and 4 support two-pass occlusion culling.
 ///////////////////////////
 const c = SHADER_PARAMS;
 const b = SHADER_PARAMS.bindings;
 
-export const SHADER_CODE = () => /* wgsl */ `
+/** Body of 'cullMeshlet()'. See 'OcclusionCullingPhase' */
+const CULL_MESHLET: Record<OcclusionCullingPhase, string> = {
+  single: /* wgsl */ `
+  if (isMeshletRendered(settingsFlags, modelMat, meshlet)) {
+    registerDraw(modelMat, meshlet.ownBoundingSphere, tfxIdx, meshletIdx);
+  }`,
+
+  phase1: /* wgsl */ `
+  // no depth pyramid for this frame yet, so no occlusion culling
+  let visibilityIdx = _getMeshletVisibilityIdx(obj, tfxIdx, meshletIdx);
+  if (!_wasMeshletVisible(visibilityIdx)) { return; }
+  if (
+    useFrustumCulling(settingsFlags) &&
+    !isInsideCameraFrustum(modelMat, meshlet.ownBoundingSphere)
+  ) {
+    return;
+  }
+  if (
+    isCorrectNaniteLOD(modelMat, meshlet) &&
+    !isBackfaceConeCulled(settingsFlags, modelMat, meshlet)
+  ) {
+    registerDraw(modelMat, meshlet.ownBoundingSphere, tfxIdx, meshletIdx);
+  }`,
+
+  phase2: /* wgsl */ `
+  let visibilityIdx = _getMeshletVisibilityIdx(obj, tfxIdx, meshletIdx);
+  let isVisible = isMeshletRendered(settingsFlags, modelMat, meshlet);
+  let wasVisible = _storeMeshletVisibility(visibilityIdx, isVisible);
+  // 'phase1' only processed instances that were visible last frame
+  let drawnInPhase1 = wasVisible && _checkInstanceVisibility(tfxIdx, INSTANCE_VISIBLE_LAST_FRAME);
+  if (isVisible && !drawnInPhase1) {
+    registerDraw(modelMat, meshlet.ownBoundingSphere, tfxIdx, meshletIdx);
+  }`,
+};
+
+export const SHADER_CODE = (
+  phase: OcclusionCullingPhase = 'single'
+) => /* wgsl */ `
 
 ${SHADER_SNIPPETS.GET_MVP_MAT}
+${SHADER_SNIPPETS.GET_MODEL_MAT_SCALE}
 ${SHADER_SNIPPETS.UTILS}
 ${SNIPPET_OCCLUSION_CULLING}
 ${SNIPPET_FRUSTUM_CULLING}
 ${SNIPPET_NANITE_LOD_CULLING}
+${SNIPPET_DITHER}
+${SNIPPET_CROSS_FADE}
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
 ${BUFFER_MESHLET_DATA(b.meshletsData)}
@@ -60,6 +124,7 @@ ${BUFFER_DRAWN_MESHLETS_PARAMS(b.drawnMeshletsParams, 'read_write')}
 ${BUFFER_DRAWN_MESHLETS_SW_PARAMS(b.drawnMeshletsSwParams, 'read_write')}
 ${BUFFER_DRAWN_MESHLETS_LIST(b.drawnMeshletsList, 'read_write')}
 ${BUFFER_INSTANCES(b.instancesTransforms)}
+${BUFFER_SCENE_OBJECTS(b.sceneObjects)}
 
 @group(0) @binding(${b.depthPyramidTexture})
 var _depthPyramidTexture: texture_2d<f32>;
@@ -85,19 +150,23 @@ fn main_SpreadYZ(
   // set rest of the indirect draw params. Has to be first line in the shader in case we ooopsie and do early return by accident somewhere.
   resetOtherDrawParams(global_id);
 
-  // get meshlet
-  let meshletIdx: u32 = global_id.x;
-  if (meshletIdx >= arrayLength(&_meshlets)) {
-    return;
-  }
-  let meshlet = _meshlets[meshletIdx];
-
   // reconstruct instanceId
   let tfxIdx: u32 = (global_id.z * ${c.maxWorkgroupsY}u) + global_id.y;
   if (tfxIdx >= _getInstanceCount()) {
     return;
   }
   let modelMat = _getInstanceTransform(tfxIdx);
+  if (!_isInstanceAlive(modelMat)) {
+    return;
+  }
+
+  // get meshlet
+  let obj = _getInstanceObject(tfxIdx);
+  if (global_id.x >= obj.meshletCount) {
+    return;
+  }
+  let meshletIdx: u32 = obj.meshletOffset + global_id.x;
+  let meshlet = _meshlets[meshletIdx];
 
   let settingsFlags = _uniforms.flags;
   if (isMeshletRendered(settingsFlags, modelMat, meshlet)){
@@ -118,13 +187,6 @@ fn main_Iter(
 ) {
   // set rest of the indirect draw params. Has to be first line in the shader in case we ooopsie and do early return by accident somewhere.
   resetOtherDrawParams(global_id);
-
-  // get meshlet
-  let meshletIdx: u32 = global_id.x;
-  if (meshletIdx >= arrayLength(&_meshlets)) {
-    return;
-  }
-  let meshlet = _meshlets[meshletIdx];
   let settingsFlags = _uniforms.flags;
 
   // prepare iters
@@ -133,7 +195,15 @@ fn main_Iter(
   let tfxOffset: u32 = global_id.y * iterCount;
   for(var i: u32 = 0u; i < iterCount; i++){
     let tfxIdx: u32 = tfxOffset + i;
+    if (tfxIdx >= instanceCount) { continue; }
     let modelMat = _getInstanceTransform(tfxIdx);
+    if (!_isInstanceAlive(modelMat)) { continue; }
+
+    // get meshlet
+    let obj = _getInstanceObject(tfxIdx);
+    if (global_id.x >= obj.meshletCount) { continue; }
+    let meshletIdx: u32 = obj.meshletOffset + global_id.x;
+    let meshlet = _meshlets[meshletIdx];
 
     if (isMeshletRendered(settingsFlags, modelMat, meshlet)){
       registerDraw(modelMat, meshlet.ownBoundingSphere, tfxIdx, meshletIdx);
@@ -152,6 +222,16 @@ ${BUFFER_DRAWN_INSTANCES_PARAMS(b.drawnInstancesParams, 'read')}
 // array with results
 ${BUFFER_DRAWN_INSTANCES_LIST(b.drawnInstancesList, 'read')}
 
+${
+  phase !== 'single'
+    ? /* wgsl */ `
+// visibility from previous frames
+${BUFFER_INSTANCES_VISIBILITY(b.instancesVisibility, 'read')}
+${BUFFER_MESHLETS_VISIBILITY(b.meshletsVisibility, phase === 'phase2' ? 'read_write' : 'read')}
+`
+    : ''
+}
+
 @compute
 @workgroup_size(${c.workgroupSizeX}, 1, 1)
 fn main_Indirect(
@@ -159,13 +239,6 @@ fn main_Indirect(
 ) {
   // set rest of the indirect draw params. Has to be first line in the shader in case we ooopsie and do early return by accident somewhere.
   resetOtherDrawParams(global_id);
-
-  // get meshlet
-  let meshletIdx: u32 = global_id.x;
-  if (meshletIdx >= arrayLength(&_meshlets)) {
-    return;
-  }
-  let meshlet = _meshlets[meshletIdx];
   let settingsFlags = _uniforms.flags;
 
   // prepare iters
@@ -174,15 +247,125 @@ fn main_Indirect(
   let tfxOffset: u32 = global_id.y * iterCount;
   for(var i: u32 = 0u; i < iterCount; i++){
     let iterOffset: u32 = tfxOffset + i;
+    if (iterOffset >= instanceCount) { continue; }
     let tfxIdx: u32 = _drawnInstancesList[iterOffset];
     let modelMat = _getInstanceTransform(tfxIdx);
 
-    if (isMeshletRendered(settingsFlags, modelMat, meshlet)){
-      registerDraw(modelMat, meshlet.ownBoundingSphere, tfxIdx, meshletIdx);
-    }
+    // get meshlet
+    let obj = _getInstanceObject(tfxIdx);
+    if (global_id.x >= obj.meshletCount) { continue; }
+    let meshletIdx: u32 = obj.meshletOffset + global_id.x;
+    let meshlet = _meshlets[meshletIdx];
+
+    cullMeshlet(settingsFlags, modelMat, obj, meshlet, tfxIdx, meshletIdx);
   } 
 }
 
+fn cullMeshlet(
+  settingsFlags: u32,
+  modelMat: mat4x4<f32>,
+  obj: NaniteSceneObject,
+  meshlet: NaniteMeshletTreeNode,
+  tfxIdx: u32,
+  meshletIdx: u32
+) {
+${CULL_MESHLET[phase]}
+}
+
+
+
+///////////////////////////
+/// SHADER VARIANT 4: hierarchical traversal INDIRECT DISPATCH
+/// 1. 'main_HierarchyInit' - push '(tfxIdx, root)' for each drawn instance. Dispatched like variant 3.
+/// 2. 'main_HierarchyAdvance' - single thread. Swap queue halves and write the dispatch for the next step.
+/// 3. 'main_HierarchyStep' - if meshlet's error is acceptable, it's on the LOD cut: cull it like variant 3.
+///    Otherwise push its children. We only reach the meshlets with parentError > threshold.
+/// Steps 2 and 3 are repeated once per LOD level.
+///
+/// Only meshlets on the LOD cut are frustum/occlusion culled. Bounds in the DAG are not
+/// hierarchical (children can stick out of the parent), so we cannot reject whole subtrees.
+/// 'phase2' only updates visibility of the meshlets on the cut. Other bits can be stale,
+/// but 'phase1' still checks the LOD, so at worst it draws a few occluded meshlets.
+///////////////////////////
+
+${BUFFER_MESHLETS_HIERARCHY(b.meshletsHierarchy)}
+${BUFFER_MESHLETS_QUEUE(b.meshletsQueue)}
+${BUFFER_MESHLETS_QUEUE_DISPATCH(b.meshletsQueueDispatch)}
+
+@compute
+@workgroup_size(${c.workgroupSizeX}, 1, 1)
+fn main_HierarchyInit(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+) {
+  // set rest of the indirect draw params. Has to be first line in the shader in case we ooopsie and do early return by accident somewhere.
+  resetOtherDrawParams(global_id);
+
+  // Dispatch is for all meshlets of the largest object, but there are only a few roots
+  let rootIdx: u32 = global_id.x;
+
+  // prepare iters
+  let instanceCount: u32 = _drawnInstancesParams.actuallyDrawnInstances;
+  let iterCount: u32 = ceilDivideU32(instanceCount, ${c.maxWorkgroupsY}u);
+  let tfxOffset: u32 = global_id.y * iterCount;
+  for(var i: u32 = 0u; i < iterCount; i++){
+    let iterOffset: u32 = tfxOffset + i;
+    if (iterOffset >= instanceCount) { continue; }
+    let tfxIdx: u32 = _drawnInstancesList[iterOffset];
+    let rootsOffset = _getInstanceObject(tfxIdx).rootsOffset;
+    if (rootIdx >= _getRootMeshletCount(rootsOffset)) { continue; }
+    _pushMeshletsQueue(tfxIdx, _getRootMeshlet(rootsOffset, rootIdx));
+  }
+}
+
+@compute
+@workgroup_size(1, 1, 1)
+fn main_HierarchyAdvance() {
+  let count = min(
+    atomicLoad(&_meshletsQueue.outCount),
+    _getMeshletsQueueCapacity()
+  );
+  _meshletsQueue.inSlot = 1u - _meshletsQueue.inSlot;
+  _meshletsQueue.inCount = count;
+  atomicStore(&_meshletsQueue.outCount, 0u);
+
+  // step iterates in shader if there are more items
+  _meshletsQueueDispatch.workgroupsX = min(
+    ceilDivideU32(count, ${c.workgroupSizeX}u),
+    ${c.maxWorkgroupsY}u
+  );
+  _meshletsQueueDispatch.workgroupsY = 1u;
+  _meshletsQueueDispatch.workgroupsZ = 1u;
+}
+
+@compute
+@workgroup_size(${c.workgroupSizeX}, 1, 1)
+fn main_HierarchyStep(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+  @builtin(num_workgroups) num_workgroups: vec3<u32>,
+) {
+  let settingsFlags = _uniforms.flags;
+  let itemCount = _meshletsQueue.inCount;
+  let threadCount = num_workgroups.x * ${c.workgroupSizeX}u;
+
+  for (var i: u32 = global_id.x; i < itemCount; i += threadCount) {
+    let item = _getMeshletsQueueItem(i);
+    let tfxIdx: u32 = item.x;
+    let meshletIdx: u32 = item.y;
+    let meshlet = _meshlets[meshletIdx];
+    let modelMat = _getInstanceTransform(tfxIdx);
+
+    if (isNaniteClusterErrorAcceptable(modelMat, meshlet)) {
+      let obj = _getInstanceObject(tfxIdx);
+      cullMeshlet(settingsFlags, modelMat, obj, meshlet, tfxIdx, meshletIdx);
+    } else {
+      let childCount = _getMeshletChildrenCount(meshlet);
+      for (var j: u32 = 0u; j < childCount; j++) {
+        _pushMeshletsQueue(tfxIdx, _getMeshletChild(meshlet, j));
+      }
+    }
+  }
+}
+
 ///////////////////////////
 /// UTILS
 ///////////////////////////
@@ -207,7 +390,47 @@ fn isMeshletRendered(
     return false;
   }
 
-  return isCorrectNaniteLOD(modelMat, meshlet);
+  if (!isCorrectNaniteLOD(modelMat, meshlet)) {
+    return false;
+  }
+  return !isBackfaceConeCulled(settingsFlags, modelMat, meshlet);
+}
+
+/**
+ * All triangles of the meshlet face away from the camera. Only for meshlets on the LOD cut,
+ * as the parent's cone says nothing about the children. Test is done in model space,
+ * so it also works for instances with non-uniform scale.
+ * https://github.com/zeux/meshoptimizer/blob/master/src/meshoptimizer.h (meshopt_computeMeshletBounds)
+ */
+fn isBackfaceConeCulled(
+  settingsFlags: u32,
+  modelMat: mat4x4<f32>,
+  meshlet: NaniteMeshletTreeNode
+) -> bool {
+  if (!useMeshletsConeCulling(settingsFlags)) {
+    return false;
+  }
+
+  let cone = meshlet.coneAxisAndCutoff; // cutoff is 1 if the meshlet has no cone
+  let camera = worldToModelSpace(modelMat, _uniforms.cameraPosition.xyz);
+  let sphere = meshlet.ownBoundingSphere;
+  let toCenter = sphere.xyz - camera;
+  let isCulled = dot(toCenter, cone.xyz) >= cone.w * length(toCenter) + sphere.w;
+  if (isCulled) {
+    atomicAdd(&_drawnMeshletsParams.coneCulledMeshlets, 1u);
+  }
+  return isCulled;
+}
+
+/** Inverse of the affine 'modelMat' applied to a point. Rows of the 3x3 inverse are cross products of the columns. */
+fn worldToModelSpace(modelMat: mat4x4<f32>, p: vec3f) -> vec3f {
+  let a = modelMat[0].xyz;
+  let b = modelMat[1].xyz;
+  let c = modelMat[2].xyz;
+  let d = p - modelMat[3].xyz;
+  let bc = cross(b, c);
+  let det = dot(a, bc);
+  return vec3f(dot(bc, d), dot(cross(c, a), d), dot(cross(a, b), d)) / det;
 }
 
 fn resetOtherDrawParams(global_id: vec3<u32>){
@@ -239,14 +462,11 @@ fn registerDraw(
   // to the global atomic the sum ONCE and re-distribute result among the threads.
   // See NV_shader_thread_group, functionality 4.
 
-  
-  var pixelSpan = vec2f();
-  let projectionOK = projectSphereToScreen(modelMat, boundingSphere, &pixelSpan);
-  // let useSoftwareRasterizer = true; // mock
-  let useSoftwareRasterizer = projectionOK &&
-    pixelSpan.x * pixelSpan.y < _uniforms.softwareRasterizerThreshold; 
+  // inside the cross fade band the meshlet is on both lists. Rasterizers split the pixels
+  let hardwareCrossFade = getRasterizerCrossFade(modelMat, boundingSphere);
+  // let hardwareCrossFade = 0.0; // mock
 
-  if (useSoftwareRasterizer) {
+  if (hardwareCrossFade < 1.0) {
     // (software rasterizer)
     // add 1, but no more than MAX_WORKGROUPS_Y.
     // meh impl, but..
@@ -257,9 +477,10 @@ fn registerDraw(
     // add to the ACTUALL total counter
     let idx = atomicAdd(&_drawnMeshletsSwParams.actuallyDrawnMeshlets, 1u);
     _storeMeshletSoftwareDraw(idx, tfxIdx, meshletIdx);
+  }
 
-  } else {
-     // (hardware rasterizer)
+  if (hardwareCrossFade > 0.0) {
+    // (hardware rasterizer)
     let idx = atomicAdd(&_drawnMeshletsParams.instanceCount, 1u);
     _storeMeshletHardwareDraw(idx, tfxIdx, meshletIdx);
   }
@@ -0,0 +1,192 @@
+import { assertEquals } from 'assert';
+import { mat4 } from 'wgpu-matrix';
+import {
+  createGpuDevice_TESTS,
+  createMockPassCtx,
+  mockNaniteObjectBuffers,
+} from '../../sys_deno/testUtils.ts';
+import { CullTrianglesPass } from './cullTrianglesPass.ts';
+import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
+import { BYTES_U32, CONFIG } from '../../constants.ts';
+import { Dimensions, ensureTypedArray } from '../../utils/index.ts';
+import {
+  cmdCopyToReadbackBuffer,
+  createGPU_StorageBuffer,
+  createReadbackBuffer,
+  readBufferToCPU,
+} from '../../utils/webgpu.ts';
+import {
+  NaniteMeshletTreeNode,
+  NaniteDrawable,
+} from '../../scene/naniteObject.ts';
+import { createGrid, createInstancesData } from '../../scene/instancesData.ts';
+import {
+  createMeshletsDataBuffer,
+  uploadMeshletsToGPU,
+} from '../../scene/naniteBuffers/meshletsDataBuffer.ts';
+import { createDrawnMeshletsBuffer } from '../../scene/naniteBuffers/drawnMeshletsBuffer.ts';
+import {
+  BYTES_COMPACTED_INDICES_HEADER,
+  createDrawnTrianglesBuffer,
+  createDrawnTrianglesDispatchBuffer,
+  parseDrawnTrianglesBuffer,
+} from '../../scene/naniteBuffers/drawnTrianglesBuffer.ts';
+
+const VIEWPORT_SIZE: Dimensions = {
+  width: 64,
+  height: 64,
+};
+
+const OBJ_NAME = 'CullTrianglesPass-obj';
+
+const VERTEX_POSITIONS = [
+  [0, 0.5, 0.0, 1.0],
+  [-0.75, -0.5, 0.0, 1.0],
+  [0.75, -0.5, 0.0, 1.0],
+  // tiny triangle between the pixel centers
+  [0.00025, 0.00033, 0.0, 1.0],
+  [0.00075, 0.00033, 0.0, 1.0],
+  [0.0005, 0.001, 0.0, 1.0],
+].flat();
+// prettier-ignore
+const INDEX_BUFFER = [
+  0, 1, 2, // visible (CCW)
+  0, 2, 1, // backface (CW)
+  0, 0, 1, // zero area
+  3, 4, 5, // small
+];
+
+Deno.test('CullTrianglesPass', async () => {
+  const [device, reportWebGPUErrAsync] = await createGpuDevice_TESTS();
+  CONFIG.cullingTriangles.maxTriangles = 8;
+  CONFIG.cullingTriangles.backfaceCulling = true;
+  CONFIG.cullingTriangles.zeroAreaCulling = true;
+  CONFIG.cullingTriangles.smallPrimitiveCulling = true;
+  CONFIG.nanite.render.allowHardwareBackfaceCull = true;
+
+  const uniforms = new RenderUniformsBuffer(device);
+  const { mockBuffers, mockNaniteObject } = createMockNaniteObject(device);
+
+  // pass
+  const pass = new CullTrianglesPass(device);
+
+  // readback
+  const paramsBuffer = mockBuffers.drawnTrianglesBuffer;
+  const paramsReadbackBuffer = createReadbackBuffer(device, paramsBuffer);
+  const indicesBuffer = pass.compactedIndexBuffer;
+  const indicesReadbackBuffer = createReadbackBuffer(device, indicesBuffer);
+
+  // submit
+  const cmdBuf = device.createCommandEncoder();
+  const passCtx = createMockPassCtx(device, cmdBuf);
+  passCtx.projMatrix = mat4.identity();
+  passCtx.viewMatrix = mat4.identity();
+  passCtx.globalUniforms = uniforms;
+  passCtx.viewport = VIEWPORT_SIZE;
+  uniforms.update(passCtx);
+  pass.cmdClearCompactedIndices(passCtx);
+  pass.cmdCullTriangles(passCtx, mockNaniteObject);
+  cmdCopyToReadbackBuffer(cmdBuf, paramsBuffer, paramsReadbackBuffer);
+  cmdCopyToReadbackBuffer(cmdBuf, indicesBuffer, indicesReadbackBuffer);
+  device.queue.submit([cmdBuf.finish()]);
+
+  await reportWebGPUErrAsync();
+
+  // read back
+  const paramsData = await readBufferToCPU(Uint32Array, paramsReadbackBuffer);
+  const indicesData = await readBufferToCPU(Uint32Array, indicesReadbackBuffer);
+
+  // cleanup
+  device.destroy();
+
+  // draw params
+  const result = parseDrawnTrianglesBuffer(paramsData);
+  assertEquals(result.indexCount, 3);
+  assertEquals(result.instanceCount, 1);
+  assertEquals(result.firstIndex, 0);
+  assertEquals(result.culledBackface, 1);
+  assertEquals(result.culledZeroArea, 1);
+  assertEquals(result.culledSmall, 1);
+  assertEquals(result.overflowCount, 0);
+
+  // compacted indices
+  const headerLen = BYTES_COMPACTED_INDICES_HEADER / BYTES_U32;
+  assertEquals(indicesData[0], 3); // allocatedCount
+  assertEquals(
+    Array.from(indicesData.slice(headerLen, headerLen + 3)),
+    [0, 1, 2]
+  );
+});
+
+function createMockNaniteObject(device: GPUDevice) {
+  const mockBuffers = mockNaniteObjectBuffers();
+
+  // geometry
+  mockBuffers.vertexPositionsBuffer = createGPU_StorageBuffer(
+    device,
+    `${OBJ_NAME}-vertices`,
+    ensureTypedArray(Float32Array, VERTEX_POSITIONS)
+  );
+  mockBuffers.indexBuffer = createGPU_StorageBuffer(
+    device,
+    `${OBJ_NAME}-indices`,
+    ensureTypedArray(Uint32Array, INDEX_BUFFER)
+  );
+
+  // instances
+  const mockInstances = createInstancesData(device, OBJ_NAME, createGrid(1, 1));
+
+  // meshlets data
+  const bSphere = { center: [0, 0, 0], radius: 1 };
+  const meshlet: NaniteMeshletTreeNode = {
+    id: 0,
+    sharedSiblingsBounds: bSphere,
+    maxSiblingsError: 0,
+    parentBounds: bSphere,
+    parentError: Infinity,
+    // deno-lint-ignore no-explicit-any
+    ownBounds: { sphere: bSphere } as any,
+    triangleCount: INDEX_BUFFER.length / 3,
+    firstIndexOffset: 0,
+    lodLevel: 0,
+    createdFrom: [],
+  };
+  const meshlets = [meshlet];
+  mockBuffers.meshletsDataBuffer = createMeshletsDataBuffer(
+    device,
+    OBJ_NAME,
+    meshlets.length
+  );
+  uploadMeshletsToGPU(device, mockBuffers.meshletsDataBuffer, meshlets);
+
+  // drawn meshlet: single hardware rasterized meshlet
+  mockBuffers.drawnMeshletsBuffer = createDrawnMeshletsBuffer(
+    device,
+    OBJ_NAME,
+    meshlets.length * mockInstances.count
+  );
+  const vertsPerMeshlet = CONFIG.nanite.preprocess.meshletMaxTriangles * 3;
+  mockBuffers._mockMeshletHardwareDraw(
+    device,
+    new Uint32Array([vertsPerMeshlet, 1, 0, 0])
+  );
+  mockBuffers._mockMeshletsDrawList(device, new Uint32Array([0, 0]));
+
+  // drawn triangles
+  mockBuffers.drawnTrianglesBuffer = createDrawnTrianglesBuffer(device, OBJ_NAME); // prettier-ignore
+  mockBuffers.drawnTrianglesDispatchBuffer = createDrawnTrianglesDispatchBuffer(device, OBJ_NAME); // prettier-ignore
+
+  // nanite object
+  const mockNaniteObject: NaniteDrawable = {
+    name: OBJ_NAME,
+    buffers: mockBuffers,
+    buffersVersion: 0,
+    bindInstanceTransforms: (bindingIdx: number): GPUBindGroupEntry => ({
+      binding: bindingIdx,
+      resource: { buffer: mockInstances.transformsBuffer },
+    }),
+    // deno-lint-ignore no-explicit-any
+  } as any;
+
+  return { mockBuffers, mockNaniteObject };
+}
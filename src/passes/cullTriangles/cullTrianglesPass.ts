@@ -0,0 +1,175 @@
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
+import {
+  BindingsCache,
+  assignResourcesToBindings2,
+  labelPipeline,
+  labelShader,
+} from '../_shared.ts';
+import { PassCtx } from '../passCtx.ts';
+import {
+  SHADER_PARAMS,
+  SHADER_CODE,
+  SHADER_CODE_INIT,
+} from './cullTrianglesPass.wgsl.ts';
+import { CONFIG } from '../../constants.ts';
+import {
+  BYTES_COMPACTED_INDICES_HEADER,
+  createCompactedIndexBuffer,
+} from '../../scene/naniteBuffers/drawnTrianglesBuffer.ts';
+
+/** Pass to cull triangles of the hardware rasterized meshlets */
+export class CullTrianglesPass {
+  public static NAME: string = 'CullTrianglesPass';
+
+  private readonly pipeline_Init: GPUComputePipeline;
+  private readonly pipeline: GPUComputePipeline;
+  /** Key is `${objectName}-${mainFn}` */
+  private readonly bindingsCache = new BindingsCache();
+
+  /** Shared by all objects. See `BUFFER_COMPACTED_INDICES` */
+  public readonly compactedIndexBuffer: GPUBuffer;
+
+  constructor(device: GPUDevice) {
+    this.pipeline_Init = CullTrianglesPass.createPipeline(
+      device,
+      SHADER_CODE_INIT(),
+      'main_Init'
+    );
+    this.pipeline = CullTrianglesPass.createPipeline(
+      device,
+      SHADER_CODE(),
+      'main'
+    );
+
+    this.compactedIndexBuffer = createCompactedIndexBuffer(
+      device,
+      CONFIG.cullingTriangles.maxTriangles
+    );
+  }
+
+  private static createPipeline(
+    device: GPUDevice,
+    code: string,
+    mainFn: string
+  ) {
+    const shaderModule = device.createShaderModule({
+      label: labelShader(CullTrianglesPass),
+      code,
+    });
+    return device.createComputePipeline({
+      label: labelPipeline(CullTrianglesPass, mainFn),
+      layout: 'auto',
+      compute: {
+        module: shaderModule,
+        entryPoint: mainFn,
+      },
+    });
+  }
+
+  onSceneChanged = () => this.bindingsCache.clear();
+
+  /** Forget triangles of all objects. Call once before culling any of them. Has to be recorded outside of the passes */
+  cmdClearCompactedIndices({ cmdBuf }: PassCtx) {
+    cmdBuf.clearBuffer(
+      this.compactedIndexBuffer,
+      0,
+      BYTES_COMPACTED_INDICES_HEADER
+    );
+  }
+
+  cmdCullTriangles(ctx: PassCtx, naniteObject: NaniteDrawable) {
+    const { cmdBuf, profiler } = ctx;
+
+    const computePass = cmdBuf.beginComputePass({
+      label: CullTrianglesPass.NAME,
+      timestampWrites: profiler?.createScopeGpu(CullTrianglesPass.NAME),
+    });
+    this.dispatchCullTriangles(ctx, computePass, naniteObject);
+    computePass.end();
+  }
+
+  /** Record culling of a single drawable into an already started compute pass. Requires meshlet culling to be done */
+  private dispatchCullTriangles(
+    ctx: PassCtx,
+    computePass: GPUComputePassEncoder,
+    naniteObject: NaniteDrawable
+  ) {
+    const { name, buffers, buffersVersion } = naniteObject;
+
+    // reset draw params and write the dispatch
+    const initPipeline = this.pipeline_Init;
+    const initBindings = this.bindingsCache.getBindings(
+      `${name}-main_Init`,
+      () => this.createBindingsInit(ctx, initPipeline, naniteObject),
+      buffersVersion
+    );
+    computePass.setPipeline(initPipeline);
+    computePass.setBindGroup(0, initBindings);
+    computePass.dispatchWorkgroups(1);
+
+    // cull
+    const pipeline = this.pipeline;
+    const bindings = this.bindingsCache.getBindings(
+      `${name}-main`,
+      () => this.createBindings(ctx, pipeline, naniteObject),
+      buffersVersion
+    );
+    computePass.setPipeline(pipeline);
+    computePass.setBindGroup(0, bindings);
+    buffers.cmdDispatchDrawnTrianglesIndirect(computePass);
+  }
+
+  private createBindingsInit = (
+    { device }: PassCtx,
+    pipeline: GPUComputePipeline,
+    naniteObject: NaniteDrawable
+  ): GPUBindGroup => {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+
+    return assignResourcesToBindings2(
+      CullTrianglesPass,
+      naniteObject.name,
+      device,
+      pipeline,
+      [
+        buffers.bindDrawnMeshletsParams(b.drawnMeshletsParams),
+        buffers.bindDrawnTrianglesParams(b.drawnTrianglesParams),
+        buffers.bindDrawnTrianglesDispatch(b.drawnTrianglesDispatch),
+        this.bindCompactedIndices(b.compactedIndices),
+      ]
+    );
+  };
+
+  private createBindings = (
+    { device, globalUniforms }: PassCtx,
+    pipeline: GPUComputePipeline,
+    naniteObject: NaniteDrawable
+  ): GPUBindGroup => {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+
+    return assignResourcesToBindings2(
+      CullTrianglesPass,
+      naniteObject.name,
+      device,
+      pipeline,
+      [
+        globalUniforms.createBindingDesc(b.renderUniforms),
+        buffers.bindMeshletData(b.meshletsData),
+        naniteObject.bindInstanceTransforms(b.instancesTransforms),
+        buffers.bindDrawnMeshletsList(b.drawnMeshletsList),
+        buffers.bindVertexPositions(b.vertexPositions),
+        buffers.bindIndexBuffer(b.indexBuffer),
+        buffers.bindDrawnTrianglesParams(b.drawnTrianglesParams),
+        buffers.bindDrawnTrianglesDispatch(b.drawnTrianglesDispatch),
+        this.bindCompactedIndices(b.compactedIndices),
+      ]
+    );
+  };
+
+  private bindCompactedIndices = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.compactedIndexBuffer },
+  });
+}
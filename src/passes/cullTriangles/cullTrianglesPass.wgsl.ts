@@ -0,0 +1,228 @@
+import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
+import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
+import { CONFIG } from '../../constants.ts';
+import { BUFFER_MESHLET_DATA } from '../../scene/naniteBuffers/meshletsDataBuffer.ts';
+import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
+import {
+  BUFFER_DRAWN_MESHLETS_LIST,
+  BUFFER_DRAWN_MESHLETS_PARAMS,
+} from '../../scene/naniteBuffers/drawnMeshletsBuffer.ts';
+import { BUFFER_VERTEX_POSITIONS } from '../../scene/naniteBuffers/vertexPositionsBuffer.ts';
+import { BUFFER_INDEX_BUFFER } from '../../scene/naniteBuffers/index.ts';
+import {
+  BUFFER_COMPACTED_INDICES,
+  BUFFER_DRAWN_TRIANGLES_DISPATCH,
+  BUFFER_DRAWN_TRIANGLES_PARAMS,
+} from '../../scene/naniteBuffers/drawnTrianglesBuffer.ts';
+
+export const SHADER_PARAMS = {
+  /** Thread per triangle, workgroup per meshlet */
+  workgroupSizeX: CONFIG.nanite.preprocess.meshletMaxTriangles,
+  maxWorkgroupsX: 1 << 15, // Spec says limit is 65535 (2^16 - 1), so we use 32768
+  bindings: {
+    renderUniforms: 0,
+    meshletsData: 1,
+    instancesTransforms: 2,
+    drawnMeshletsParams: 3,
+    drawnMeshletsList: 4,
+    vertexPositions: 5,
+    indexBuffer: 6,
+    drawnTrianglesParams: 7,
+    drawnTrianglesDispatch: 8,
+    compactedIndices: 9,
+  },
+};
+
+///////////////////////////
+/// SHADER CODE
+/// 1. 'main_Init' - single thread. Reset this object's draw params. Its range of
+///    the compacted index buffer starts after the objects culled before it.
+///    Write the dispatch (workgroup per hardware rasterized meshlet).
+/// 2. 'main' - thread per triangle. Survivors of the workgroup allocate their
+///    indices with a single atomic. Workgroups iterate if there are more meshlets
+///    than the dispatch limit.
+///
+/// Separate shaders, as 'main' reads the dispatch params that 'main_Init' writes.
+/// They have to be read-only to be used as indirect dispatch in the same dispatch.
+///////////////////////////
+const c = SHADER_PARAMS;
+const b = SHADER_PARAMS.bindings;
+
+export const SHADER_CODE_INIT = () => /* wgsl */ `
+
+${BUFFER_DRAWN_MESHLETS_PARAMS(b.drawnMeshletsParams, 'read_write')}
+${BUFFER_DRAWN_TRIANGLES_PARAMS(b.drawnTrianglesParams)}
+${BUFFER_DRAWN_TRIANGLES_DISPATCH(b.drawnTrianglesDispatch, 'read_write')}
+${BUFFER_COMPACTED_INDICES(b.compactedIndices)}
+
+@compute
+@workgroup_size(1, 1, 1)
+fn main_Init() {
+  let meshletCount = atomicLoad(&_drawnMeshletsParams.instanceCount);
+  let allocatedCount = atomicLoad(&_compactedIndices.allocatedCount);
+
+  atomicStore(&_drawnTrianglesParams.indexCount, 0u);
+  _drawnTrianglesParams.instanceCount = 1u;
+  _drawnTrianglesParams.firstIndex = min(allocatedCount, arrayLength(&_compactedIndices.indices));
+  _drawnTrianglesParams.baseVertex = 0u;
+  _drawnTrianglesParams.firstInstance = 0u;
+  atomicStore(&_drawnTrianglesParams.culledBackface, 0u);
+  atomicStore(&_drawnTrianglesParams.culledZeroArea, 0u);
+  atomicStore(&_drawnTrianglesParams.culledSmall, 0u);
+  atomicStore(&_drawnTrianglesParams.overflowCount, 0u);
+
+  _drawnTrianglesDispatch.workgroupsX = min(meshletCount, ${c.maxWorkgroupsX}u);
+  _drawnTrianglesDispatch.workgroupsY = 1u;
+  _drawnTrianglesDispatch.workgroupsZ = 1u;
+  _drawnTrianglesDispatch.meshletCount = meshletCount;
+}
+`;
+
+export const SHADER_CODE = () => /* wgsl */ `
+
+${SHADER_SNIPPETS.GET_MVP_MAT}
+
+${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
+${BUFFER_MESHLET_DATA(b.meshletsData)}
+${BUFFER_INSTANCES(b.instancesTransforms)}
+${BUFFER_DRAWN_MESHLETS_LIST(b.drawnMeshletsList, 'read')}
+${BUFFER_VERTEX_POSITIONS(b.vertexPositions)}
+${BUFFER_INDEX_BUFFER(b.indexBuffer)}
+${BUFFER_DRAWN_TRIANGLES_PARAMS(b.drawnTrianglesParams)}
+${BUFFER_DRAWN_TRIANGLES_DISPATCH(b.drawnTrianglesDispatch, 'read')}
+${BUFFER_COMPACTED_INDICES(b.compactedIndices)}
+
+const VERTS_PER_MESHLET: u32 = ${c.workgroupSizeX}u * 3u;
+const NO_SPACE: u32 = 0xffffffffu;
+
+const TRIANGLE_VISIBLE: u32 = 0u;
+const TRIANGLE_BACKFACE: u32 = 1u;
+const TRIANGLE_ZERO_AREA: u32 = 2u;
+const TRIANGLE_SMALL: u32 = 3u;
+const TRIANGLE_OUTSIDE_MESHLET: u32 = 4u;
+
+var<workgroup> _survivorCount: atomic<u32>;
+var<workgroup> _firstSurvivorIndex: u32;
+
+@compute
+@workgroup_size(${c.workgroupSizeX}, 1, 1)
+fn main(
+  @builtin(workgroup_id) workgroup_id: vec3<u32>,
+  @builtin(local_invocation_index) triangleIdx: u32,
+  @builtin(num_workgroups) num_workgroups: vec3<u32>,
+) {
+  let settingsFlags = _uniforms.flags;
+  let viewportSize = _uniforms.viewport.xy;
+  let meshletCount = _drawnTrianglesDispatch.meshletCount;
+  var culledBackface = 0u;
+  var culledZeroArea = 0u;
+  var culledSmall = 0u;
+
+  for (var drawIdx = workgroup_id.x; drawIdx < meshletCount; drawIdx += num_workgroups.x) {
+    if (triangleIdx == 0u) {
+      atomicStore(&_survivorCount, 0u);
+    }
+    workgroupBarrier();
+
+    // test
+    let drawData: vec2u = _getMeshletHardwareDraw(drawIdx); // .x - transformIdx, .y - meshletIdx
+    let meshlet = _meshlets[drawData.y];
+    var cullResult = TRIANGLE_OUTSIDE_MESHLET;
+    if (triangleIdx < meshlet.triangleCount) {
+      let modelMat = _getInstanceTransform(drawData.x);
+      let mvpMat = getMVP_Mat(modelMat, _uniforms.viewMatrix, _uniforms.projMatrix);
+      let indexOffset = meshlet.firstIndexOffset + triangleIdx * 3u;
+      cullResult = cullTriangle(settingsFlags, mvpMat, viewportSize, indexOffset);
+    }
+    culledBackface += select(0u, 1u, cullResult == TRIANGLE_BACKFACE);
+    culledZeroArea += select(0u, 1u, cullResult == TRIANGLE_ZERO_AREA);
+    culledSmall += select(0u, 1u, cullResult == TRIANGLE_SMALL);
+
+    var survivorIdx = 0u;
+    if (cullResult == TRIANGLE_VISIBLE) {
+      survivorIdx = atomicAdd(&_survivorCount, 1u);
+    }
+    workgroupBarrier();
+
+    // single allocation for the whole meshlet
+    if (triangleIdx == 0u) {
+      _firstSurvivorIndex = allocateIndices(atomicLoad(&_survivorCount));
+    }
+    workgroupBarrier();
+
+    // write
+    let firstIndex = _firstSurvivorIndex;
+    if (cullResult == TRIANGLE_VISIBLE && firstIndex != NO_SPACE) {
+      let idx = firstIndex + survivorIdx * 3u;
+      let vertexIdx = drawIdx * VERTS_PER_MESHLET + triangleIdx * 3u;
+      _compactedIndices.indices[idx] = vertexIdx;
+      _compactedIndices.indices[idx + 1u] = vertexIdx + 1u;
+      _compactedIndices.indices[idx + 2u] = vertexIdx + 2u;
+    }
+  }
+
+  // stats
+  if (culledBackface > 0u) { atomicAdd(&_drawnTrianglesParams.culledBackface, culledBackface); }
+  if (culledZeroArea > 0u) { atomicAdd(&_drawnTrianglesParams.culledZeroArea, culledZeroArea); }
+  if (culledSmall > 0u) { atomicAdd(&_drawnTrianglesParams.culledSmall, culledSmall); }
+}
+
+fn cullTriangle(
+  settingsFlags: u32,
+  mvpMat: mat4x4f,
+  viewportSize: vec2f,
+  indexOffset: u32
+) -> u32 {
+  let p0 = mvpMat * _getVertexPosition(_indexBuffer[indexOffset]); // assumes .w=1
+  let p1 = mvpMat * _getVertexPosition(_indexBuffer[indexOffset + 1u]);
+  let p2 = mvpMat * _getVertexPosition(_indexBuffer[indexOffset + 2u]);
+
+  // crosses the near plane. Projected winding and bounds are wrong, leave it to the clipper
+  if (min(min(p0.w, p1.w), p2.w) <= 0.0) {
+    return TRIANGLE_VISIBLE;
+  }
+  let v0 = clipToViewportPx(viewportSize, p0);
+  let v1 = clipToViewportPx(viewportSize, p1);
+  let v2 = clipToViewportPx(viewportSize, p2);
+
+  // CCW is front face. Same as in the software rasterizer
+  let area = (v1.x - v0.x) * (v2.y - v0.y) - (v2.x - v0.x) * (v1.y - v0.y);
+  if (useTrianglesZeroAreaCulling(settingsFlags) && area == 0.0) {
+    return TRIANGLE_ZERO_AREA;
+  }
+  if (useTrianglesBackfaceCulling(settingsFlags) && area < 0.0) {
+    return TRIANGLE_BACKFACE;
+  }
+
+  // bounding box does not contain any pixel center (at '.5') in X or Y
+  if (useTrianglesSmallCulling(settingsFlags)) {
+    let boundsMin = min(min(v0, v1), v2) - 0.5;
+    let boundsMax = max(max(v0, v1), v2) - 0.5;
+    if (any(ceil(boundsMin) > floor(boundsMax))) {
+      return TRIANGLE_SMALL;
+    }
+  }
+
+  return TRIANGLE_VISIBLE;
+}
+
+fn clipToViewportPx(viewportSize: vec2f, posClip: vec4f) -> vec2f {
+  let posNDC = posClip.xy / posClip.w;
+  return (posNDC * 0.5 + 0.5) * viewportSize;
+}
+
+/** Returns 'NO_SPACE' if there are no triangles or the compacted index buffer is full */
+fn allocateIndices(triangleCount: u32) -> u32 {
+  if (triangleCount == 0u) {
+    return NO_SPACE;
+  }
+  let indexCount = triangleCount * 3u;
+  let firstIndex = atomicAdd(&_compactedIndices.allocatedCount, indexCount);
+  if (firstIndex + indexCount > arrayLength(&_compactedIndices.indices)) {
+    atomicAdd(&_drawnTrianglesParams.overflowCount, triangleCount);
+    return NO_SPACE;
+  }
+  atomicAdd(&_drawnTrianglesParams.indexCount, indexCount);
+  return firstIndex;
+}
+`;
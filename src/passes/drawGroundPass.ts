@@ -11,7 +11,8 @@ import {
 import { PassCtx } from './passCtx.ts';
 import { RenderUniformsBuffer } from './renderUniformsBuffer.ts';
 import { projectPoint } from '../utils/index.ts';
-import { CAMERA_CFG } from '../constants.ts';
+import { CAMERA_CFG, CONFIG } from '../constants.ts';
+import { SNIPPET_SHADOW_MAP } from './_shaderSnippets/shadowMap.wgsl.ts';
 
 /** Software rasterizer depth has the whole 16-bit hack.
  * TBH the fix based on blend is better, but this can also help.
@@ -22,6 +23,8 @@ const SOFTW_RASTER_DEPTH_16BIT_FIX =
 export const SHADER_PARAMS = {
   bindings: {
     renderUniforms: 0,
+    shadowMapTexture: 1,
+    shadowMapSampler: 2,
   },
 };
 const b = SHADER_PARAMS.bindings;
@@ -33,8 +36,10 @@ const SHADER_CODE = (
 ) => /* wgsl */ `
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
+${SNIPPET_SHADOW_MAP(b.shadowMapTexture, b.shadowMapSampler)}
 
 const H = ${floorHeight};
+const SHADOW_STRENGTH = ${CONFIG.shadows.groundShadowStrength};
 const OFFSET = ${offset};
 const SPAN = ${span};
 
@@ -86,6 +91,9 @@ fn main_fs(fragIn: VertexOutput) -> @location(0) vec4f {
   if(mm.x > 0.0 && mm.y > 0.0) { color = BLUE; }
   if(mm.x > 0.0 && mm.y == 0.0) { color = RED; }
   if(mm.x == 0.0 && mm.y > 0.0) { color = GREEN; }
+
+  let shadow = sampleShadowMap(fragIn.positionWS.xyz, vec3f(0., 1., 0.));
+  color = color * mix(1.0 - SHADOW_STRENGTH, 1.0, shadow);
   return vec4f(color * SATURATION, 1.0);
 }
 `;
@@ -98,6 +106,12 @@ export class DrawGroundPass {
 
   constructor(private readonly outTextureFormat: GPUTextureFormat) {}
 
+  /** Ground size depends on the objects, so the pipeline has to be recreated */
+  onSceneChanged = () => {
+    this.pipeline = undefined;
+    this.bindingsCache.clear();
+  };
+
   private getRenderPipeline(ctx: PassCtx): GPURenderPipeline {
     if (this.pipeline !== undefined) {
       return this.pipeline;
@@ -179,13 +193,15 @@ export class DrawGroundPass {
   }
 
   private createBindings = (
-    { device, globalUniforms }: PassCtx,
+    { device, globalUniforms, shadowMap }: PassCtx,
     pipeline: GPURenderPipeline
   ): GPUBindGroup => {
     const b = SHADER_PARAMS.bindings;
 
     return assignResourcesToBindings2(DrawGroundPass, '', device, pipeline, [
       globalUniforms.createBindingDesc(b.renderUniforms),
+      { binding: b.shadowMapTexture, resource: shadowMap.texture },
+      { binding: b.shadowMapSampler, resource: shadowMap.sampler },
     ]);
   };
 }
@@ -197,6 +213,7 @@ function calculateGroundSize({ scene }: PassCtx) {
   scene.naniteObjects.forEach((o) => {
     const bBox = o.bounds.box;
     o.instances.transforms.forEach((tfxMat) => {
+      if (!tfxMat) return; // removed instance
       addPoint(projectPoint(tfxMat, bBox[0], tmp));
       addPoint(projectPoint(tfxMat, bBox[1], tmp));
     });
@@ -4,23 +4,30 @@ import {
   SHADING_MODE_NORMALS,
 } from '../../constants.ts';
 import { SNIPPET_DITHER } from '../_shaderSnippets/dither.wgsl.ts';
+import { SNIPPET_PROJECT_SPHERE } from '../_shaderSnippets/cullOcclusion.wgsl.ts';
+import { SNIPPET_CROSS_FADE } from '../_shaderSnippets/crossFade.wgsl.ts';
 import { SNIPPET_PACKING } from '../_shaderSnippets/pack.wgsl.ts';
-import { BUFFER_DRAWN_INSTANCES_PARAMS } from '../../scene/naniteBuffers/drawnInstancesBuffer.ts';
+import { BUFFER_SCENE_OBJECTS } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
 import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
 import { BUFFER_DRAWN_IMPOSTORS_LIST } from '../../scene/naniteBuffers/drawnImpostorsBuffer.ts';
 import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
 import { SNIPPET_SHADING_PBR } from '../_shaderSnippets/pbr.wgsl.ts';
 import { SNIPPET_SHADING } from '../_shaderSnippets/shading.wgsl.ts';
+import { SNIPPET_SHADOW_MAP } from '../_shaderSnippets/shadowMap.wgsl.ts';
 import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
+import { SNIPPET_IMPOSTOR_LAYOUT } from '../../scene/renderImpostors/impostorLayout.wgsl.ts';
+import { getImpostorGridSize } from '../../scene/renderImpostors/renderImpostors.ts';
 
 export const SHADER_PARAMS = {
   bindings: {
     renderUniforms: 0,
     instancesTransforms: 1,
-    wholeObjectCullData: 2,
+    sceneObjects: 2,
     billboardsIdsResult: 3,
     impostorTexture: 4,
     sampler: 5,
+    shadowMapTexture: 6,
+    shadowMapSampler: 7,
   },
 };
 
@@ -29,37 +36,51 @@ export const SHADER_PARAMS = {
 ///////////////////////////
 const b = SHADER_PARAMS.bindings;
 
-export const SHADER_CODE = () => /* wgsl */ `
+export const SHADER_CODE = () => {
+  const { layout } = CONFIG.impostors;
+  return /* wgsl */ `
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
 ${SNIPPET_DITHER}
 ${SNIPPET_PACKING}
 ${SHADER_SNIPPETS.NORMALS_UTILS}
+${SHADER_SNIPPETS.GET_MODEL_MAT_SCALE}
+${SNIPPET_PROJECT_SPHERE}
+${SNIPPET_CROSS_FADE}
 ${SNIPPET_SHADING_PBR}
 ${SNIPPET_SHADING}
 ${SHADER_SNIPPETS.FS_NORMAL_FROM_DERIVATIVES}
+${SNIPPET_IMPOSTOR_LAYOUT(layout, getImpostorGridSize(layout))}
 
-// for bounding sphere
-${BUFFER_DRAWN_INSTANCES_PARAMS(b.wholeObjectCullData, 'read')}
+// for bounding sphere and impostor layer
+${BUFFER_SCENE_OBJECTS(b.sceneObjects)}
 
 // instance transforms
 ${BUFFER_INSTANCES(b.instancesTransforms)}
+${SNIPPET_SHADOW_MAP(b.shadowMapTexture, b.shadowMapSampler)}
 
 // billboard: array with results
 ${BUFFER_DRAWN_IMPOSTORS_LIST(b.billboardsIdsResult, 'read')}
 
+// impostors of all objects, layer is per object
 @group(0) @binding(${b.impostorTexture})
-var _diffuseTexture: texture_2d<f32>;
+var _diffuseTexture: texture_2d_array<f32>;
 
 @group(0) @binding(${b.sampler})
 var _sampler: sampler;
 
 struct VertexOutput {
   @builtin(position) position: vec4<f32>,
-  @location(0) positionWS: vec4f,
+  /** Point on the billboard's quad */
+  @location(0) positionVS: vec3f,
   @location(1) uv: vec2f,
-  @location(2) @interpolate(flat) facingAngleDgr: f32,
-  @location(3) @interpolate(flat) tfxIdx: u32,
+  /** Object space, relative to bounding sphere center. Divided by radius */
+  @location(2) quadPosMS: vec3f,
+  /** Object space direction from the object towards the camera */
+  @location(3) @interpolate(flat) cameraDirMS: vec3f,
+  @location(4) @interpolate(flat) tfxIdx: u32,
+  /** See 'getBillboardCrossFade()' */
+  @location(5) @interpolate(flat) crossFade: f32,
 };
 
 @vertex
@@ -84,8 +105,8 @@ fn main_vs(
   let tfxIdx = _drawnImpostorsList[inInstanceIndex];
   let modelMat = _getInstanceTransform(tfxIdx);
   
-  let boundingSphere = _drawnInstancesParams.objectBoundingSphere;
-  let r = boundingSphere.w;
+  let boundingSphere = _getInstanceObject(tfxIdx).boundingSphere;
+  let r = boundingSphere.w * getModelMatScale(modelMat);
   let viewMat = _uniforms.viewMatrix;
   let projMat = _uniforms.projMatrix;
   
@@ -93,115 +114,131 @@ fn main_vs(
   // center -> view, then move corners in view space by radius, then project
   let center = viewMat * modelMat * vec4f(boundingSphere.xyz, 1.);
   let cornerVS = vec4f(center.xy + r * quadOffset, center.z, 1.);
-  // TODO modify .z to bring closer/FURTHER in view space? Further means occ. cull will be more conservative
 
   result.position = projMat * cornerVS;
-  result.positionWS = modelMat * vec4f(boundingSphere.xyz, 1.); // TODO [IGNORE] viewMatInv * cornerVS; would be better
+  result.positionVS = cornerVS.xyz;
   result.uv = (quadOffset.xy + 1.0) / 2.0;
   result.uv.y = 1.0 - result.uv.y;
   result.tfxIdx = tfxIdx;
+  result.crossFade = getBillboardCrossFade(_uniforms.flags, modelMat, boundingSphere);
 
-  // calculate 2d angle (ignore Y-axis) between camera-to-object and where model is facing
-  // used to calculate which impostor image to use
+  // Used to calculate which impostor images to use. Model matrix has only uniform scale,
+  // so its inverse is the transpose divided by scale^2.
+  let modelRotInv = transpose(mat3x3f(modelMat[0].xyz, modelMat[1].xyz, modelMat[2].xyz));
+  let scale = getModelMatScale(modelMat);
   let cameraPos = _uniforms.cameraPosition.xyz;
   let centerWS = (modelMat * vec4f(boundingSphere.xyz, 1.)).xyz;
-  var camera2ModelDir: vec3f = cameraPos - centerWS;
-  // var camera2ModelDir: vec3f = cameraPos; // mock
-  var objectFrontDir: vec3f = (modelMat * vec4f(0., 0., 1., 0.)).xyz;
-  // let objectFrontDir = vec3f(0., 0., 1.0); // mock
-  result.facingAngleDgr = angleDgr_axisXZ(objectFrontDir, camera2ModelDir);
+  result.cameraDirMS = normalize(modelRotInv * (cameraPos - centerWS));
 
-  return result;
-}
+  // billboard corner in object space. Camera's right/up are rows of the view matrix
+  let cameraRight = vec3f(viewMat[0][0], viewMat[1][0], viewMat[2][0]);
+  let cameraUp = vec3f(viewMat[0][1], viewMat[1][1], viewMat[2][1]);
+  let quadPosWS = quadOffset.x * cameraRight + quadOffset.y * cameraUp;
+  result.quadPosMS = (modelRotInv * quadPosWS) / scale;
 
-/** https://math.stackexchange.com/questions/878785/how-to-find-an-angle-in-range0-360-between-2-vectors
- * 
- * Consult 'src\passes\naniteBillboard\mathPlayground.test.ts' before making any changes!
- */
-fn angleDgr_axisXZ(vecA: vec3f, vecB: vec3f) -> f32 {
-  let vecAn = normalize(vec2f(vecA.x, vecA.z));
-  let vecBn = normalize(vec2f(vecB.x, vecB.z));
-  let dot = vecAn.x * vecBn.x + vecAn.y * vecBn.y;
-  let det = vecAn.x * vecBn.y - vecAn.y * vecBn.x;
-  var dgr = degrees(atan2(det, dot));
-
-  while (dgr < 0.0) { dgr += 360.0; }
-  return dgr;
+  return result;
 }
 
 
-const IMPOSTOR_COUNT: u32 = ${CONFIG.impostors.views};
-const IMPOSTOR_COUNT_INV: f32 = 1.0 / f32(${CONFIG.impostors.views});
-
-
 struct ImpostorSample {
   diffuse: vec4f,
   normal: vec3f,
+  /** Distance from the bounding sphere center towards camera, in radius units */
+  depth: f32,
+};
+
+struct FragmentOutput {
+  @builtin(frag_depth) fragDepth: f32,
+  @location(0) color: vec4<f32>,
 };
 
 @fragment
 fn main_fs(
   fragIn: VertexOutput
-) -> @location(0) vec4<f32> {
+) -> FragmentOutput {
+  var result: FragmentOutput;
   let modelMat = _getInstanceTransform(fragIn.tfxIdx);
-  let delta = 360.0 * IMPOSTOR_COUNT_INV; // 30dgr
-  let shownImageF32 = fragIn.facingAngleDgr / delta;
-
-  // do blend between 2 consecutive billboard images. Not amazing, but..
-  let shownImage0 = u32(floor(shownImageF32));
-  let shownImage1 = u32(ceil(shownImageF32)); // to hipster to +1
-  let impostor0 = impostorSample(modelMat, shownImage0, fragIn.uv);
-  let impostor1 = impostorSample(modelMat, shownImage1, fragIn.uv);
+  let obj = _getInstanceObject(fragIn.tfxIdx);
 
-  // mix factor between both images
+  // dithering moves the direction by up to half of the image
   let ditherStr = getBillboardDitheringStrength(_uniforms.flags);
-  let dither = getDitherForPixel(vec2u(fragIn.position.xy)) - 0.5; // range: [-0.5 .. 0.5]
-  let modStr = saturate(mix(fract(shownImageF32), dither, ditherStr));
+  let pixel = vec2u(fragIn.position.xy);
+  let dither = getDitherForPixel(pixel) - 0.5; // range: [-0.5 .. 0.5]
+  let frames = getImpostorFrames(fragIn.cameraDirMS, dither * ditherStr);
+  let w = frames.weights;
+
+  // blend between closest billboard images
+  let impostor0 = impostorSample(modelMat, obj.impostorLayer, frames.frames[0], fragIn);
+  let impostor1 = impostorSample(modelMat, obj.impostorLayer, frames.frames[1], fragIn);
+  let impostor2 = impostorSample(modelMat, obj.impostorLayer, frames.frames[2], fragIn);
+  let alphas = w * vec3f(impostor0.diffuse.a, impostor1.diffuse.a, impostor2.diffuse.a);
+  let alpha = alphas.x + alphas.y + alphas.z;
+  if (alpha < 0.5) { discard; }
+  // the rest of the pixels is drawn by the mesh
+  if (isCrossFadeMeshPixel(fragIn.crossFade, pixel)) { discard; }
+
+  // Move the quad's point along the view ray by the impostor's depth.
+  // Images with an empty pixel do not contribute.
+  let r = obj.boundingSphere.w * getModelMatScale(modelMat);
+  let depthOffset = dot(alphas, vec3f(impostor0.depth, impostor1.depth, impostor2.depth)) / alpha;
+  let quadVS = fragIn.positionVS;
+  let positionVS = quadVS * ((quadVS.z + depthOffset * r) / quadVS.z);
+  let positionProj = _uniforms.projMatrix * vec4f(positionVS, 1.0);
+  result.fragDepth = positionProj.z / positionProj.w;
 
   let shadingMode = getShadingMode(_uniforms.flags);
   var color: vec4f;
 
   if (shadingMode == ${SHADING_MODE_NORMALS}u) {
-    // ignores impostor1, but it's just a debug mode so..
-    color = vec4f(abs(impostor0.normal), impostor0.diffuse.a);
+    let n = w.x * impostor0.normal + w.y * impostor1.normal + w.z * impostor2.normal;
+    color = vec4f(abs(n), alpha);
     
   } else if (shadingMode == ${SHADING_MODE_HW_SW_IMPOSTOR}u) {
-    color = vec4f(0., 0., 1., impostor0.diffuse.a);
+    color = vec4f(0., 0., 1., alpha);
 
   } else {
-    // shading
+    // shading. View matrix has no scale, so its inverse rotation is a transpose.
+    let viewMat = _uniforms.viewMatrix;
+    let viewRotInv = transpose(mat3x3f(viewMat[0].xyz, viewMat[1].xyz, viewMat[2].xyz));
+    let positionWS = _uniforms.cameraPosition.xyz + viewRotInv * positionVS;
     var material: Material;
-    createDefaultMaterial(&material, fragIn.positionWS);
-    var lights = array<Light, LIGHT_COUNT>();
-    fillLightsData(&lights);
+    createDefaultMaterial(&material, vec4f(positionWS, 1.0));
 
     // impostor 0
     material.normal = impostor0.normal;
     material.albedo = impostor0.diffuse.rgb;
-    let c0 = doShading(material, AMBIENT_LIGHT, lights);
+    let c0 = doShading(material);
     // impostor 1
     material.normal = impostor1.normal;
     material.albedo = impostor1.diffuse.rgb;
-    let c1 = doShading(material, AMBIENT_LIGHT, lights);
+    let c1 = doShading(material);
+    // impostor 2
+    material.normal = impostor2.normal;
+    material.albedo = impostor2.diffuse.rgb;
+    let c2 = doShading(material);
 
     // mix
-    let a = mix(impostor0.diffuse.a, impostor1.diffuse.a, modStr);
-    color = vec4f(mix(c0, c1, modStr), a);
+    color = vec4f(w.x * c0 + w.y * c1 + w.z * c2, alpha);
   }
 
-  if (color.a < 0.5) { discard; }
-  return vec4(color.xyz, 1.0);
+  result.color = vec4(color.xyz, 1.0);
+  return result;
 }
 
 
-fn impostorSample(modelMat: mat4x4f, idx: u32, uv: vec2f) -> ImpostorSample {
-  // e.g. for idx=4 and uv.x=0.7 turn into 4.7 and then divide by IMPOSTOR_COUNT
-  let uvX = (f32(idx % IMPOSTOR_COUNT) + uv.x) * IMPOSTOR_COUNT_INV;
-  let texValues = textureSample(_diffuseTexture, _sampler, vec2f(uvX, uv.y));
+fn impostorSample(modelMat: mat4x4f, layer: u32, frame: vec2u, fragIn: VertexOutput) -> ImpostorSample {
+  let frameUV = getImpostorFrameUV(frame, fragIn.uv, fragIn.quadPosMS);
+  // do not bleed into the neighbouring images
+  let isInside = all(frameUV >= vec2f(0.0)) && all(frameUV <= vec2f(1.0));
+  let uv = getImpostorTextureUV(frame, saturate(frameUV));
+  let texValues = textureSample(_diffuseTexture, _sampler, uv, layer);
 
   var result: ImpostorSample;
   result.diffuse = unpackColor8888(texValues.r);
+  result.diffuse.a = select(0.0, result.diffuse.a, isInside);
   result.normal = transformNormalToWorldSpace(modelMat, unpackNormal(texValues.g));
+  result.depth = texValues.b;
   return result;
 }
 `;
+};
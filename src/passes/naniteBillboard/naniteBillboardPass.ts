@@ -1,4 +1,4 @@
-import { NaniteObject } from '../../scene/naniteObject.ts';
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
 import {
   BindingsCache,
   assignResourcesToBindings2,
@@ -51,9 +51,11 @@ export class NaniteBillboardPass {
     });
   }
 
+  onSceneChanged = () => this.bindingsCache.clear();
+
   cmdRenderBillboards(
     ctx: PassCtx,
-    naniteObject: NaniteObject,
+    naniteObjects: NaniteDrawable[],
     loadOp: GPULoadOp
   ) {
     const { cmdBuf, profiler, depthTexture, hdrRenderTexture } = ctx;
@@ -67,24 +69,25 @@ export class NaniteBillboardPass {
       depthStencilAttachment: useDepthStencilAttachment(depthTexture, loadOp),
       timestampWrites: profiler?.createScopeGpu(NaniteBillboardPass.NAME),
     });
-    const bindings = this.bindingsCache.getBindings(naniteObject.name, () =>
-      this.createBindings(ctx, naniteObject)
-    );
-
-    // set render pass data
     renderPass.setPipeline(this.pipeline);
-    renderPass.setBindGroup(0, bindings);
 
-    // draw
-    renderPass.drawIndirect(naniteObject.buffers.drawnImpostorsBuffer, 0);
+    for (const naniteObject of naniteObjects) {
+      const bindings = this.bindingsCache.getBindings(
+        naniteObject.name,
+        () => this.createBindings(ctx, naniteObject),
+        naniteObject.buffersVersion
+      );
+      renderPass.setBindGroup(0, bindings);
+      renderPass.drawIndirect(naniteObject.buffers.drawnImpostorsBuffer, 0);
+    }
 
     // fin
     renderPass.end();
   }
 
   private createBindings = (
-    { device, globalUniforms, scene }: PassCtx,
-    naniteObject: NaniteObject
+    { device, globalUniforms, scene, shadowMap }: PassCtx,
+    naniteObject: NaniteDrawable
   ): GPUBindGroup => {
     const b = SHADER_PARAMS.bindings;
     const buffers = naniteObject.buffers;
@@ -97,11 +100,13 @@ export class NaniteBillboardPass {
       [
         globalUniforms.createBindingDesc(b.renderUniforms),
         naniteObject.bindInstanceTransforms(b.instancesTransforms),
-        buffers.bindDrawnInstancesParams(b.wholeObjectCullData),
+        buffers.bindSceneObjects(b.sceneObjects),
         buffers.bindDrawnImpostorsList(b.billboardsIdsResult),
-        naniteObject.impostor.bind(b.impostorTexture),
+        scene.impostorTextures.bind(b.impostorTexture),
         // needs nearest as we will also sample packed normals
         { binding: b.sampler, resource: scene.samplerNearest },
+        { binding: b.shadowMapTexture, resource: shadowMap.texture },
+        { binding: b.shadowMapSampler, resource: shadowMap.sampler },
       ]
     );
   };
@@ -0,0 +1,88 @@
+import { assertAlmostEquals, assertEquals } from 'assert';
+import { mat4 } from 'wgpu-matrix';
+import { PassCtx } from '../passCtx.ts';
+import {
+  calcCotHalfFov,
+  createErrorMetric,
+} from './calcNaniteMeshletsVisibility.ts';
+import { NaniteVisibilityBufferCPU } from './types.ts';
+import {
+  createInstanceTransforms,
+  createInstancesList,
+} from '../../scene/instancesData.ts';
+import { dgr2rad, getModelMatScale } from '../../utils/index.ts';
+import { BoundingSphere } from '../../utils/calcBounds.ts';
+import { NaniteErrorMetric } from '../../constants.ts';
+
+const BOUNDS: BoundingSphere = { center: [0, 0, 0], radius: 1 };
+const ERROR = 0.01;
+
+const createMockCtx = (): PassCtx =>
+  ({
+    viewMatrix: mat4.identity(),
+    projMatrix: mat4.identity(),
+    viewport: { width: 800, height: 600 },
+    // deno-lint-ignore no-explicit-any
+  }) as any;
+
+Deno.test('createInstanceTransforms :: TRS and raw matrices', () => {
+  const [trs, matrix] = createInstanceTransforms(
+    createInstancesList([
+      { position: [1, 2, 3], rotationDgr: [0, 90, 0], scale: [2, 3, 4] },
+      mat4.translation([5, 6, 7]),
+    ])
+  );
+
+  // scale is applied before rotation: local X (scaled by 2) points to -Z
+  const x = mat4.multiply(trs, mat4.translation([1, 0, 0]));
+  assertAlmostEquals(x[12], 1);
+  assertAlmostEquals(x[13], 2);
+  assertAlmostEquals(x[14], 3 - 2);
+  assertAlmostEquals(getModelMatScale(trs), 4);
+
+  assertEquals(Array.from(matrix), Array.from(mat4.translation([5, 6, 7])));
+  assertEquals(getModelMatScale(matrix), 1);
+});
+
+Deno.test('createErrorMetric :: error is scaled with the instance', () => {
+  const ctx = createMockCtx();
+  const cotHalfFov = calcCotHalfFov();
+  const getError = (scale: number | [number, number, number]) => {
+    const [modelMat] = createInstanceTransforms(
+      createInstancesList([{ position: [0, 0, -10], scale }])
+    );
+    const visibilityBuffer = new NaniteVisibilityBufferCPU();
+    const metric = createErrorMetric(ctx, cotHalfFov, visibilityBuffer, modelMat); // prettier-ignore
+    return metric(BOUNDS, ERROR);
+  };
+
+  const error1 = getError(1);
+  // same distance to camera, so the error scales (almost) linearly
+  assertAlmostEquals(getError(3) / error1, 3, 0.001);
+  // non-uniform scale uses the largest axis
+  assertAlmostEquals(getError([0.5, 3, 1]), getError(3));
+  assertEquals(getError(0.5) < error1, true);
+});
+
+Deno.test('createErrorMetric :: error is in pixels', () => {
+  const fovDgr = 60;
+  const cotHalfFov = calcCotHalfFov(fovDgr);
+  const getError = (height: number, errorMetric: NaniteErrorMetric) => {
+    const ctx = createMockCtx();
+    ctx.viewport.height = height;
+    ctx.projMatrix = mat4.perspective(dgr2rad(fovDgr), 800 / height, 0.01, 100); // prettier-ignore
+    const modelMat = mat4.translation([0, 0, -10]);
+    const visibilityBuffer = new NaniteVisibilityBufferCPU();
+    const metric = createErrorMetric(ctx, cotHalfFov, visibilityBuffer, modelMat, errorMetric); // prettier-ignore
+    return metric(BOUNDS, ERROR);
+  };
+
+  // sphere with radius ERROR, 10 units in front of the camera
+  const expected =
+    ((cotHalfFov * ERROR) / Math.sqrt(10 * 10 - ERROR * ERROR)) * (600 / 2);
+  assertAlmostEquals(getError(600, 'pixels'), expected);
+  // same scene at 2x resolution has 2x more pixels
+  assertAlmostEquals(getError(1200, 'pixels') / getError(600, 'pixels'), 2);
+  // legacy metric is still available
+  assertEquals(getError(600, 'legacy') !== getError(600, 'pixels'), true);
+});
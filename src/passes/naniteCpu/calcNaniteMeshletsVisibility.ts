@@ -1,7 +1,8 @@
-import { Mat4, Vec3, vec4 } from 'wgpu-matrix';
+import { Mat4, Vec3, mat4, vec4 } from 'wgpu-matrix';
 import { PassCtx } from '../passCtx.ts';
 import {
   dgr2rad,
+  getModelMatScale,
   getModelViewProjectionMatrix,
   projectPoint,
 } from '../../utils/index.ts';
@@ -50,11 +51,6 @@ export function calcNaniteMeshletsVisibility(
     const meshlet = meshletsToCheck.pop()!; // remove last from queue - depth first
     visibilityBuffer.setVisited(meshlet.id);
 
-    // if (checkIsBackface(ctx, modelMat, meshlet)) {
-    // culledCount += 1;
-    // continue;
-    // }
-
     const status = getVisibilityStatus(getProjectedError, meshlet);
 
     if (status === NaniteVisibilityStatus.RENDERED) {
@@ -94,41 +90,10 @@ function checkIsInsideFrustum(
     TMP_CACHED_VEC4,
     TMP_CACHED_VEC4
   );
-  sphereWorldSpace[3] = bounds.sphere.radius;
+  sphereWorldSpace[3] = bounds.sphere.radius * getModelMatScale(modelMat);
   return frustum.isInside(sphereWorldSpace);
 }
 
-/** WARNING: NOT FINISHED! SEE NOTE IN `src/constants.ts` for reasons and remaining scope. */
-/*
-function checkIsBackface(
-  ctx: PassCtx,
-  _modelMat: Mat4,
-  meshlet: NaniteMeshletTreeNode
-) {
-  const bounds = meshlet.ownBounds;
-  if (!CONFIG.nanite.render.useSoftwareBackfaceCull || !bounds) return false;
-
-  const negate = (v: Vec3, i: number) => {
-    v[i] = -v[i];
-  };
-  const cam = ctx.cameraPositionWorldSpace;
-  negate(cam, 0); // see camera.ts for similar ops
-  negate(cam, 1);
-  negate(cam, 2);
-
-  // TODO [IGNORE] world space position? Or bring camera into model space pos? invModelMatrix * cameraPos
-  const cam2MeshletDir = vec3.normalize([
-    bounds.coneApex[0] - cam[0],
-    bounds.coneApex[1] - cam[1],
-    bounds.coneApex[2] - cam[2],
-  ]);
-
-  // TODO [IGNORE] return dot(center - camera_position, cone_axis) >= cone_cutoff * length(center - camera_position) + radius;
-  //      https://github.com/zeux/niagara/blob/master/src/shaders/math.h
-  const angle = vec3.dot(cam2MeshletDir, bounds.coneApex);
-  return angle >= bounds.coneCutoff;
-}*/
-
 /**
  * Returns visiblity status so we can skip processing children.
  *
@@ -170,38 +135,49 @@ export function getVisibilityStatus(
  * > 3.6.1 Screen Space Error Saturation
  * >
  * > "We use the screen projection error E which is simply the projection of the model space error λ on screen"
+ *
+ * 'legacy' metric measures the distance in clip space instead of view space. The result
+ * changes with the FOV and the position on the screen, so it's not really in pixels.
  */
 export function createErrorMetric(
   ctx: PassCtx,
   cotHalfFov: number,
   visibilityBuffer: NaniteVisibilityBufferCPU,
-  modelMat: Mat4
+  modelMat: Mat4,
+  errorMetric = CONFIG.nanite.render.errorMetric
 ) {
-  const mvpMatrix = getModelViewProjectionMatrix(
-    modelMat,
-    ctx.viewMatrix,
-    ctx.projMatrix,
-    visibilityBuffer.mvpMatrix
-  );
+  const distanceMatrix =
+    errorMetric === 'legacy'
+      ? getModelViewProjectionMatrix(
+          modelMat,
+          ctx.viewMatrix,
+          ctx.projMatrix,
+          visibilityBuffer.errorMetricMatrix
+        )
+      : mat4.multiply(
+          ctx.viewMatrix,
+          modelMat,
+          visibilityBuffer.errorMetricMatrix
+        );
   const screenHeight = ctx.viewport.height;
+  const modelScale = getModelMatScale(modelMat);
 
   return function getProjectedError(
     bounds: BoundingSphere | undefined,
-    errorWorldSpace: number
+    errorModelSpace: number
   ) {
     // WARNING: .parentError is INFINITY at top level
-    if (errorWorldSpace === Infinity || bounds == undefined) {
+    if (errorModelSpace === Infinity || bounds == undefined) {
       return Infinity;
     }
 
     // const center = projectPoint(mvpMatrix, bounds.center);
     // const d2 = vec3.dot(center, center);
-    const d2 = calculateD2(mvpMatrix, bounds.center);
-    const r = errorWorldSpace;
+    const d2 = calculateD2(distanceMatrix, bounds.center);
+    const r = errorModelSpace * modelScale;
     const projectedR = (cotHalfFov * r) / Math.sqrt(d2 - r * r);
     /*console.log({
       cotHalfFov,
-      center,
       d2,
       r,
       projectedR,
@@ -40,6 +40,8 @@ export class DrawNanitesPass {
     );
   }
 
+  onSceneChanged = () => this.bindingsCache.clear();
+
   private static createRenderPipeline(
     device: GPUDevice,
     outTextureFormat: GPUTextureFormat
@@ -110,8 +112,10 @@ export class DrawNanitesPass {
     naniteObject: NaniteObject
   ) {
     const instances = naniteObject.instances.transforms;
-    const bindings = this.bindingsCache.getBindings(naniteObject.name, () =>
-      this.createBindings(ctx, naniteObject)
+    const bindings = this.bindingsCache.getBindings(
+      naniteObject.name,
+      () => this.createBindings(ctx, naniteObject),
+      naniteObject.buffersVersion
     );
 
     renderPass.setBindGroup(0, bindings);
@@ -124,6 +128,8 @@ export class DrawNanitesPass {
 
     for (let instanceIdx = 0; instanceIdx < instances.length; instanceIdx++) {
       const instanceModelMat = instances[instanceIdx];
+      if (!instanceModelMat) continue; // removed instance
+
       const toDrawCount = calcNaniteMeshletsVisibility(
         ctx,
         cotHalfFov,
@@ -156,7 +162,7 @@ export class DrawNanitesPass {
   }
 
   private createBindings = (
-    { device, globalUniforms, scene }: PassCtx,
+    { device, globalUniforms, scene, shadowMap }: PassCtx,
     naniteObject: NaniteObject
   ): GPUBindGroup => {
     const b = SHADER_PARAMS.bindings;
@@ -176,6 +182,8 @@ export class DrawNanitesPass {
         },
         { binding: b.diffuseTexture, resource: diffuseTextureView },
         { binding: b.sampler, resource: scene.samplerLinear },
+        { binding: b.shadowMapTexture, resource: shadowMap.texture },
+        { binding: b.shadowMapSampler, resource: shadowMap.sampler },
       ]
     );
   };
@@ -3,6 +3,7 @@ import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
 import { SNIPPET_SHADING_PBR } from '../_shaderSnippets/pbr.wgsl.ts';
 import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
 import { SNIPPET_SHADING } from '../_shaderSnippets/shading.wgsl.ts';
+import { SNIPPET_SHADOW_MAP } from '../_shaderSnippets/shadowMap.wgsl.ts';
 import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
 
 export const SHADER_PARAMS = {
@@ -11,6 +12,8 @@ export const SHADER_PARAMS = {
     instancesTransforms: 1,
     diffuseTexture: 2,
     sampler: 3,
+    shadowMapTexture: 4,
+    shadowMapSampler: 5,
   },
 };
 
@@ -30,6 +33,7 @@ ${SNIPPET_SHADING}
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
 ${BUFFER_INSTANCES(b.instancesTransforms)}
+${SNIPPET_SHADOW_MAP(b.shadowMapTexture, b.shadowMapSampler)}
 
 @group(0) @binding(${b.diffuseTexture})
 var _diffuseTexture: texture_2d<f32>;
@@ -88,9 +92,7 @@ fn main_fs(fragIn: VertexOutput) -> @location(0) vec4<f32> {
     material.albedo = textureSample(_diffuseTexture, _sampler, fragIn.uv).rgb;
     
     // shading
-    var lights = array<Light, LIGHT_COUNT>();
-    fillLightsData(&lights);
-    color = doShading(material, AMBIENT_LIGHT, lights);
+    color = doShading(material);
   }
 
   return vec4(color.xyz, 1.0);
@@ -12,7 +12,8 @@ export class NaniteVisibilityBufferCPU {
   public visitedMeshlets: boolean[] = [];
   public drawnMeshlets: NaniteMeshletTreeNode[] = [];
   public drawnMeshletsCount = 0;
-  public mvpMatrix: Mat4 = mat4.identity();
+  /** Cached for `createErrorMetric()`. Model-view or MVP matrix, depending on the metric */
+  public errorMetricMatrix: Mat4 = mat4.identity();
 
   initialize(meshletCount: number) {
     this.visitedMeshlets = Array(meshletCount);
@@ -4,6 +4,7 @@ import { Dimensions } from '../utils/index.ts';
 import { Scene } from '../scene/scene.ts';
 import { RenderUniformsBuffer } from './renderUniformsBuffer.ts';
 import { Frustum } from '../utils/frustum.ts';
+import { ShadowMapInfo } from './shadowMap/shadowMapPass.ts';
 
 export interface PassCtx {
   frameIdx: number;
@@ -20,8 +21,17 @@ export interface PassCtx {
   depthTexture: GPUTextureView;
   prevFrameDepthPyramidTexture: GPUTextureView;
   hdrRenderTexture: GPUTextureView;
+  /** Only used if `CONFIG.nanite.render.useVisibilityBuffer` */
+  visibilityTexture: GPUTextureView;
   rasterizerSwResult: GPUBuffer;
+  /** Only used if `CONFIG.softwareRasterizer.preciseDepth` */
+  rasterizerSwNormals: GPUBuffer;
+  rasterizerSwVisibility: GPUBuffer;
+  /** Only used if `CONFIG.cullingTriangles.enabled` */
+  compactedIndexBuffer: GPUBuffer;
   softwareRasterizerEnabled: boolean;
   globalUniforms: RenderUniformsBuffer;
   depthPyramidSampler: GPUSampler;
+  /** Always bound in shading passes. Check `lightIdx` to know if it's used */
+  shadowMap: ShadowMapInfo;
 }
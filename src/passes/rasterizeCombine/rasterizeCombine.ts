@@ -12,11 +12,16 @@ import {
 import { SHADER_PARAMS, SHADER_CODE } from './rasterizeCombine.wgsl.ts';
 import { PassCtx } from '../passCtx.ts';
 import { cmdDrawFullscreenTriangle } from '../_shaderSnippets/fullscreenTriangle.wgsl.ts';
+import { CONFIG, VISIBILITY_TEX_FORMAT } from '../../constants.ts';
+
+/** Which software rasterizer result we read. See `SoftwareRasterizerMode` */
+type CombineMode = 'packed' | 'precise' | 'visibility';
 
 export class RasterizeCombine {
   public static NAME: string = 'RasterizeCombine';
 
-  private readonly pipeline: GPURenderPipeline;
+  private readonly pipelines: Record<CombineMode, GPURenderPipeline>;
+  /** Key is `${depthTextureLabel}-${mode}` */
   private readonly bindingsCache = new BindingsCache();
 
   constructor(device: GPUDevice, outTextureFormat: GPUTextureFormat) {
@@ -25,8 +30,37 @@ export class RasterizeCombine {
       code: SHADER_CODE(),
     });
 
-    this.pipeline = device.createRenderPipeline({
-      label: labelPipeline(RasterizeCombine),
+    const createPipeline = RasterizeCombine.createShadingPipeline;
+    this.pipelines = {
+      packed: createPipeline(device, shaderModule, outTextureFormat, 'main_fs'),
+      precise: createPipeline(device, shaderModule, outTextureFormat, 'main_fs_precise'),
+      visibility: device.createRenderPipeline({
+        label: labelPipeline(RasterizeCombine, 'visibility'),
+        layout: 'auto',
+        vertex: {
+          module: shaderModule,
+          entryPoint: 'main_vs',
+          buffers: [],
+        },
+        fragment: {
+          module: shaderModule,
+          entryPoint: 'main_fs_visibility',
+          targets: [{ format: VISIBILITY_TEX_FORMAT }],
+        },
+        primitive: { topology: 'triangle-list' },
+        depthStencil: PIPELINE_DEPTH_STENCIL_ON,
+      }),
+    }; // prettier-ignore
+  }
+
+  private static createShadingPipeline(
+    device: GPUDevice,
+    shaderModule: GPUShaderModule,
+    outTextureFormat: GPUTextureFormat,
+    fragmentMainFn: string
+  ) {
+    return device.createRenderPipeline({
+      label: labelPipeline(RasterizeCombine, fragmentMainFn),
       layout: 'auto',
       vertex: {
         module: shaderModule,
@@ -35,7 +69,7 @@ export class RasterizeCombine {
       },
       fragment: {
         module: shaderModule,
-        entryPoint: 'main_fs',
+        entryPoint: fragmentMainFn,
         targets: [
           {
             format: outTextureFormat,
@@ -63,53 +97,82 @@ export class RasterizeCombine {
 
   onViewportResize = () => this.bindingsCache.clear();
 
+  /** In visibility buffer mode, this is done per object and writes into the visibility texture */
   cmdCombineRasterResults(ctx: PassCtx) {
-    const {
-      cmdBuf,
-      profiler,
-      hdrRenderTexture,
-      rasterizerSwResult,
-      depthTexture,
-    } = ctx;
+    const { cmdBuf, profiler, hdrRenderTexture, depthTexture } = ctx;
     assertIsGPUTextureView(hdrRenderTexture);
+    const mode = getCombineMode();
+    const colorTexture =
+      mode === 'visibility' ? ctx.visibilityTexture : hdrRenderTexture;
 
     const renderPass = cmdBuf.beginRenderPass({
       label: RasterizeCombine.NAME,
       colorAttachments: [
         // do not clear!
-        useColorAttachment(hdrRenderTexture, getClearColorVec3(), 'load'),
+        useColorAttachment(colorTexture, getClearColorVec3(), 'load'),
       ],
       depthStencilAttachment: useDepthStencilAttachment(depthTexture, 'load'),
       timestampWrites: profiler?.createScopeGpu(RasterizeCombine.NAME),
     });
 
-    const bindings = this.bindingsCache.getBindings(depthTexture.label, () =>
-      this.createBindings(ctx, rasterizerSwResult)
+    const pipeline = this.pipelines[mode];
+    const bindings = this.bindingsCache.getBindings(
+      `${depthTexture.label}-${mode}`,
+      () => this.createBindings(ctx, pipeline, mode)
     );
     renderPass.setBindGroup(0, bindings);
-    renderPass.setPipeline(this.pipeline);
+    renderPass.setPipeline(pipeline);
     cmdDrawFullscreenTriangle(renderPass);
     renderPass.end();
   }
 
   private createBindings = (
-    { device, globalUniforms }: PassCtx,
-    rasterizerSwResult: GPUBuffer
+    {
+      device,
+      globalUniforms,
+      rasterizerSwResult,
+      rasterizerSwNormals,
+      rasterizerSwVisibility,
+      shadowMap,
+    }: PassCtx,
+    pipeline: GPURenderPipeline,
+    mode: CombineMode
   ): GPUBindGroup => {
     const b = SHADER_PARAMS.bindings;
+    const modeBindings: GPUBindGroupEntry[] = [];
+    if (mode === 'precise') {
+      const resource = { buffer: rasterizerSwNormals };
+      modeBindings.push({ binding: b.softwareRasterizerNormals, resource });
+    }
+    if (mode === 'visibility') {
+      const resource = { buffer: rasterizerSwVisibility };
+      modeBindings.push({ binding: b.softwareRasterizerVisibility, resource }); // prettier-ignore
+    } else {
+      // shading
+      modeBindings.push(
+        { binding: b.shadowMapTexture, resource: shadowMap.texture },
+        { binding: b.shadowMapSampler, resource: shadowMap.sampler }
+      );
+    }
 
     return assignResourcesToBindings2(
       RasterizeCombine,
       RasterizeCombine.NAME,
       device,
-      this.pipeline,
+      pipeline,
       [
         globalUniforms.createBindingDesc(b.renderUniforms),
         {
           binding: b.softwareRasterizerResult,
           resource: { buffer: rasterizerSwResult },
         },
+        ...modeBindings,
       ]
     );
   };
 }
+
+function getCombineMode(): CombineMode {
+  if (CONFIG.nanite.render.useVisibilityBuffer) return 'visibility';
+  return CONFIG.softwareRasterizer.preciseDepth ? 'precise' : 'packed';
+}
@@ -1,9 +1,15 @@
 import { FULLSCREEN_TRIANGLE_POSITION } from '../_shaderSnippets/fullscreenTriangle.wgsl.ts';
-import { BUFFER_SOFTWARE_RASTERIZER_RESULT } from '../rasterizeSw/rasterizeSwPass.wgsl.ts';
+import {
+  BUFFER_SOFTWARE_RASTERIZER_RESULT,
+  BUFFER_SOFTWARE_RASTERIZER_NORMALS,
+  BUFFER_SOFTWARE_RASTERIZER_VISIBILITY,
+} from '../rasterizeSw/rasterizeSwPass.wgsl.ts';
+import { SNIPPET_VISIBILITY_BUFFER } from '../_shaderSnippets/visibilityBuffer.wgsl.ts';
 import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
 import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
 import { SNIPPET_SHADING_PBR } from '../_shaderSnippets/pbr.wgsl.ts';
 import { SNIPPET_SHADING } from '../_shaderSnippets/shading.wgsl.ts';
+import { SNIPPET_SHADOW_MAP } from '../_shaderSnippets/shadowMap.wgsl.ts';
 import {
   SHADING_MODE_HW_SW_IMPOSTOR,
   SHADING_MODE_NORMALS,
@@ -13,6 +19,10 @@ export const SHADER_PARAMS = {
   bindings: {
     renderUniforms: 0,
     softwareRasterizerResult: 1,
+    softwareRasterizerVisibility: 2,
+    softwareRasterizerNormals: 3,
+    shadowMapTexture: 4,
+    shadowMapSampler: 5,
   },
 };
 
@@ -29,9 +39,13 @@ ${SHADER_SNIPPETS.NORMALS_UTILS}
 ${SHADER_SNIPPETS.FS_NORMAL_FROM_DERIVATIVES}
 ${SNIPPET_SHADING_PBR}
 ${SNIPPET_SHADING}
+${SNIPPET_VISIBILITY_BUFFER}
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
 ${BUFFER_SOFTWARE_RASTERIZER_RESULT(b.softwareRasterizerResult, 'read')}
+${BUFFER_SOFTWARE_RASTERIZER_VISIBILITY(b.softwareRasterizerVisibility, 'read')}
+${BUFFER_SOFTWARE_RASTERIZER_NORMALS(b.softwareRasterizerNormals, 'read')}
+${SNIPPET_SHADOW_MAP(b.shadowMapTexture, b.shadowMapSampler)}
 
 
 @vertex
@@ -89,15 +103,46 @@ fn main_fs(
   // let nUnpacked: vec3f = vec3f(vec2f(nx, ny) * 2.0 - 1.0, 0.0); // [-1 .. 1] // VERSION 0: NO OCT. ENCODED, XY ONLY
   let nUnpacked: vec3f = normalize(decodeOctahedronNormal(vec2f(nx, ny)));
 
+  result.color = shadeSoftwarePixel(positionPxF32, swRasterDepthF32, nUnpacked);
+  return result;
+}
+
+/** Precise mode. See 'createPreciseDepth()' */
+@fragment
+fn main_fs_precise(
+  @builtin(position) positionPxF32: vec4<f32>
+) -> FragmentOutput {
+  var result: FragmentOutput;
+
+  let viewportSize: vec2f = _uniforms.viewport.xy;
+  let swRasterizerIdx: u32 = u32(positionPxF32.y) * u32(viewportSize.x) + u32(positionPxF32.x);
+  let swRasterDepth: u32 = _softwareRasterizerResult[swRasterizerIdx];
+  if (swRasterDepth == 0u){
+    // same as in 'main_fs()'. Depth 0 would be the far plane
+    discard;
+  }
+
+  let swRasterDepthF32 = 1.0 - bitcast<f32>(swRasterDepth);
+  result.fragDepth = swRasterDepthF32; // this pass has depth test ON!
+
+  let nOctahedr = unpack2x16unorm(_softwareRasterizerNormals[swRasterizerIdx]); // [0, 1]
+  let nUnpacked: vec3f = normalize(decodeOctahedronNormal(nOctahedr));
+
+  result.color = shadeSoftwarePixel(positionPxF32, swRasterDepthF32, nUnpacked);
+  return result;
+}
+
+fn shadeSoftwarePixel(positionPxF32: vec4f, swRasterDepthF32: f32, nUnpacked: vec3f) -> vec4f {
+  let viewportSize: vec2f = _uniforms.viewport.xy;
   let shadingMode = getShadingMode(_uniforms.flags);
   
   if (shadingMode == ${SHADING_MODE_NORMALS}u) {
-    result.color = vec4f(abs(nUnpacked.xyz), 1.0);
-    // result.color = vec4f(nUnpacked.xyz, 1.0);
-    // result.color = vec4f(-nUnpacked.xyz, 1.0);
+    return vec4f(abs(nUnpacked.xyz), 1.0);
+    // return vec4f(nUnpacked.xyz, 1.0);
+    // return vec4f(-nUnpacked.xyz, 1.0);
    
   } else if (shadingMode == ${SHADING_MODE_HW_SW_IMPOSTOR}u) {
-    result.color = vec4f(0., 1., 0., 1.);
+    return vec4f(0., 1., 0., 1.);
 
   } else {
     // material
@@ -115,12 +160,39 @@ fn main_fs(
     material.roughness = 0.0;
 
     // shading
-    var lights = array<Light, LIGHT_COUNT>();
-    fillLightsData(&lights);
-    result.color = vec4f(doShading(material, AMBIENT_LIGHT, lights), 1.0);
+    return vec4f(doShading(material), 1.0);
   }
+}
+
+
+///////////////////////////
+/// VISIBILITY BUFFER MODE
+///////////////////////////
+
+struct FragmentOutputVisibility {
+  @builtin(frag_depth) fragDepth: f32,
+  @location(0) visibility: vec2u,
+};
 
+/** Only for the current object. Shading happens later in 'VisibilityMaterialPass' */
+@fragment
+fn main_fs_visibility(
+  @builtin(position) positionPxF32: vec4<f32>
+) -> FragmentOutputVisibility {
+  var result: FragmentOutputVisibility;
+
+  let viewportSize: vec2f = _uniforms.viewport.xy;
+  let swRasterizerIdx: u32 = u32(positionPxF32.y) * u32(viewportSize.x) + u32(positionPxF32.x);
+  let visibility: vec2u = _softwareRasterizerVisibility[swRasterizerIdx];
+  if (isVisibilityEmpty(visibility)) {
+    // no pixel for this object. Depth buffer still contains previous objects
+    discard;
+  }
+
+  // depth was reversed, see 'createPreciseDepth()'
+  let depth = 1.0 - bitcast<f32>(_softwareRasterizerResult[swRasterizerIdx]);
+  result.fragDepth = depth; // this pass has depth test ON!
+  result.visibility = vec2u(visibility.x | VISIBILITY_SOFTWARE_BIT, visibility.y);
   return result;
 }
-
 `;
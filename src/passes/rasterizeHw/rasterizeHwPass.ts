@@ -10,44 +10,91 @@ import {
   useDepthStencilAttachment,
 } from '../_shared.ts';
 import { PassCtx } from '../passCtx.ts';
-import { NaniteObject } from '../../scene/naniteObject.ts';
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
 import { SHADER_CODE, SHADER_PARAMS } from './rasterizeHwPass.wgsl.ts';
-import { getDiffuseTexture } from '../../scene/scene.ts';
+import { getDiffuseTextureArray } from '../../scene/scene.ts';
 import { assertIsGPUTextureView } from '../../utils/webgpu.ts';
+import { CONFIG, VISIBILITY_TEX_FORMAT } from '../../constants.ts';
+import { BYTES_COMPACTED_INDICES_HEADER } from '../../scene/naniteBuffers/drawnTrianglesBuffer.ts';
 
 export class RasterizeHwPass {
   public static NAME: string = 'RasterizeHwPass';
 
   private readonly renderPipeline: GPURenderPipeline;
   private readonly bindingsCache = new BindingsCache();
+  // visibility buffer mode
+  private readonly renderPipeline_Visibility: GPURenderPipeline;
+  private readonly bindingsCache_Visibility = new BindingsCache();
+  // triangle culling. Indexed draw of the compacted index buffer
+  private readonly renderPipeline_Compacted: GPURenderPipeline;
+  private readonly bindingsCache_Compacted = new BindingsCache();
+  private readonly renderPipeline_VisibilityCompacted: GPURenderPipeline;
+  private readonly bindingsCache_VisibilityCompacted = new BindingsCache();
 
   constructor(device: GPUDevice, outTextureFormat: GPUTextureFormat) {
-    this.renderPipeline = RasterizeHwPass.createRenderPipeline(
-      device,
-      outTextureFormat
+    const shaderModule = device.createShaderModule({
+      label: labelShader(RasterizeHwPass),
+      code: SHADER_CODE(),
+    });
+    const create = (
+      format: GPUTextureFormat,
+      vertexMainFn: string,
+      fragmentMainFn: string
+    ) =>
+      RasterizeHwPass.createRenderPipeline(
+        device,
+        shaderModule,
+        format,
+        vertexMainFn,
+        fragmentMainFn
+      );
+
+    this.renderPipeline = create(outTextureFormat, 'main_vs', 'main_fs');
+    this.renderPipeline_Visibility = create(
+      VISIBILITY_TEX_FORMAT,
+      'main_vs',
+      'main_fs_visibility'
+    );
+    this.renderPipeline_Compacted = create(
+      outTextureFormat,
+      'main_vs_compacted',
+      'main_fs'
+    );
+    this.renderPipeline_VisibilityCompacted = create(
+      VISIBILITY_TEX_FORMAT,
+      'main_vs_compacted',
+      'main_fs_visibility'
     );
   }
 
+  onSceneChanged = () => {
+    this.bindingsCache.clear();
+    this.bindingsCache_Visibility.clear();
+    this.bindingsCache_Compacted.clear();
+    this.bindingsCache_VisibilityCompacted.clear();
+  };
+
   private static createRenderPipeline(
     device: GPUDevice,
-    outTextureFormat: GPUTextureFormat
+    shaderModule: GPUShaderModule,
+    outTextureFormat: GPUTextureFormat,
+    vertexMainFn: string,
+    fragmentMainFn: string
   ) {
-    const shaderModule = device.createShaderModule({
-      label: labelShader(RasterizeHwPass),
-      code: SHADER_CODE(),
-    });
-
     return device.createRenderPipeline({
-      label: labelPipeline(RasterizeHwPass),
+      label: labelPipeline(
+        RasterizeHwPass,
+        `${vertexMainFn}-${fragmentMainFn}`
+      ),
       layout: 'auto',
       vertex: {
         module: shaderModule,
-        entryPoint: 'main_vs',
+        entryPoint: vertexMainFn,
         buffers: [], // no vertex attributes
       },
       fragment: {
         module: shaderModule,
-        entryPoint: 'main_fs',
+        entryPoint: fragmentMainFn,
         targets: [{ format: outTextureFormat }],
       },
       primitive: PIPELINE_PRIMITIVE_TRIANGLE_LIST,
@@ -55,51 +102,104 @@ export class RasterizeHwPass {
     });
   }
 
+  /**
+   * Draw all drawables in a single render pass. Each drawable is a separate indirect draw.
+   * `useCompactedIndices` only if triangle culling ran for the current drawn meshlets lists.
+   */
   cmdHardwareRasterize(
     ctx: PassCtx,
-    naniteObject: NaniteObject,
-    loadOp: GPULoadOp
+    naniteObjects: NaniteDrawable[],
+    loadOp: GPULoadOp,
+    useCompactedIndices: boolean
   ) {
     const { cmdBuf, profiler, depthTexture, hdrRenderTexture } = ctx;
+    const useVisibilityBuffer = CONFIG.nanite.render.useVisibilityBuffer;
 
     // https://developer.mozilla.org/en-US/docs/Web/API/GPUCommandEncoder/beginRenderPass
     const renderPass = cmdBuf.beginRenderPass({
       label: RasterizeHwPass.NAME,
       colorAttachments: [
-        useColorAttachment(hdrRenderTexture, getClearColorVec3(), loadOp),
+        useVisibilityBuffer
+          ? // each object is shaded separately, so always clear
+            useColorAttachment(ctx.visibilityTexture, [0, 0, 0], 'clear')
+          : useColorAttachment(hdrRenderTexture, getClearColorVec3(), loadOp),
       ],
       depthStencilAttachment: useDepthStencilAttachment(depthTexture, loadOp),
       timestampWrites: profiler?.createScopeGpu(RasterizeHwPass.NAME),
     });
-    const bindings = this.bindingsCache.getBindings(naniteObject.name, () =>
-      this.createBindings(ctx, naniteObject)
+    const [pipeline, bindingsCache] = this.getPipeline(
+      useVisibilityBuffer,
+      useCompactedIndices
     );
+    renderPass.setPipeline(pipeline);
+    if (useCompactedIndices) {
+      renderPass.setIndexBuffer(
+        ctx.compactedIndexBuffer,
+        'uint32',
+        BYTES_COMPACTED_INDICES_HEADER
+      );
+    }
 
-    // set render pass data
-    renderPass.setPipeline(this.renderPipeline);
-    renderPass.setBindGroup(0, bindings);
-
-    // draw
-    naniteObject.buffers.cmdDrawMeshletsHardwareIndirect(renderPass);
+    for (const naniteObject of naniteObjects) {
+      const bindings = bindingsCache.getBindings(
+        naniteObject.name,
+        () => this.createBindings(ctx, pipeline, naniteObject),
+        naniteObject.buffersVersion
+      );
+      renderPass.setBindGroup(0, bindings);
+      if (useCompactedIndices) {
+        naniteObject.buffers.cmdDrawTrianglesIndexedIndirect(renderPass);
+      } else {
+        naniteObject.buffers.cmdDrawMeshletsHardwareIndirect(renderPass);
+      }
+    }
 
     // fin
     renderPass.end();
   }
 
+  private getPipeline(
+    useVisibilityBuffer: boolean,
+    useCompactedIndices: boolean
+  ): [GPURenderPipeline, BindingsCache] {
+    if (useCompactedIndices) {
+      return useVisibilityBuffer
+        ? [this.renderPipeline_VisibilityCompacted, this.bindingsCache_VisibilityCompacted] // prettier-ignore
+        : [this.renderPipeline_Compacted, this.bindingsCache_Compacted];
+    }
+    return useVisibilityBuffer
+      ? [this.renderPipeline_Visibility, this.bindingsCache_Visibility]
+      : [this.renderPipeline, this.bindingsCache];
+  }
+
   private createBindings = (
-    { device, globalUniforms, scene }: PassCtx,
-    naniteObject: NaniteObject
+    { device, globalUniforms, scene, shadowMap }: PassCtx,
+    pipeline: GPURenderPipeline,
+    naniteObject: NaniteDrawable
   ): GPUBindGroup => {
     const b = SHADER_PARAMS.bindings;
     const buffers = naniteObject.buffers;
-    const diffuseTextureView = getDiffuseTexture(scene, naniteObject);
+    const diffuseTextureView = getDiffuseTextureArray(scene, naniteObject);
     assertIsGPUTextureView(diffuseTextureView);
 
+    // vertex shader uses all of them, fragment shader adds textures+samplers
+    const isShading =
+      pipeline === this.renderPipeline ||
+      pipeline === this.renderPipeline_Compacted;
+    const shadingBindings: GPUBindGroupEntry[] = isShading
+      ? [
+          { binding: b.diffuseTexture, resource: diffuseTextureView },
+          { binding: b.sampler, resource: scene.samplerLinear },
+          { binding: b.shadowMapTexture, resource: shadowMap.texture },
+          { binding: b.shadowMapSampler, resource: shadowMap.sampler },
+        ]
+      : [];
+
     return assignResourcesToBindings2(
       RasterizeHwPass,
       naniteObject.name,
       device,
-      this.renderPipeline,
+      pipeline,
       [
         globalUniforms.createBindingDesc(b.renderUniforms),
         buffers.bindMeshletData(b.meshlets),
@@ -109,8 +209,8 @@ export class RasterizeHwPass {
         buffers.bindVertexNormals(b.vertexNormals),
         buffers.bindVertexUVs(b.vertexUV),
         buffers.bindIndexBuffer(b.indexBuffer),
-        { binding: b.diffuseTexture, resource: diffuseTextureView },
-        { binding: b.sampler, resource: scene.samplerLinear },
+        buffers.bindSceneObjects(b.sceneObjects),
+        ...shadingBindings,
       ]
     );
   };
@@ -3,7 +3,9 @@ import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
 import { BUFFER_MESHLET_DATA } from '../../scene/naniteBuffers/meshletsDataBuffer.ts';
 import { SNIPPET_SHADING_PBR } from '../_shaderSnippets/pbr.wgsl.ts';
 import { SNIPPET_SHADING } from '../_shaderSnippets/shading.wgsl.ts';
+import { SNIPPET_SHADOW_MAP } from '../_shaderSnippets/shadowMap.wgsl.ts';
 import {
+  CONFIG,
   SHADING_MODE_TRIANGLE,
   SHADING_MODE_MESHLET,
   SHADING_MODE_LOD_LEVEL,
@@ -16,6 +18,11 @@ import { BUFFER_VERTEX_NORMALS } from '../../scene/naniteBuffers/vertexNormalsBu
 import { BUFFER_VERTEX_UVS } from '../../scene/naniteBuffers/vertexUVsBuffer.ts';
 import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
 import { BUFFER_INDEX_BUFFER } from '../../scene/naniteBuffers/index.ts';
+import { SNIPPET_VISIBILITY_BUFFER } from '../_shaderSnippets/visibilityBuffer.wgsl.ts';
+import { SNIPPET_DITHER } from '../_shaderSnippets/dither.wgsl.ts';
+import { SNIPPET_PROJECT_SPHERE } from '../_shaderSnippets/cullOcclusion.wgsl.ts';
+import { SNIPPET_CROSS_FADE } from '../_shaderSnippets/crossFade.wgsl.ts';
+import { BUFFER_SCENE_OBJECTS } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
 
 export const SHADER_PARAMS = {
   bindings: {
@@ -29,6 +36,9 @@ export const SHADER_PARAMS = {
     indexBuffer: 7,
     diffuseTexture: 8,
     sampler: 9,
+    shadowMapTexture: 10,
+    shadowMapSampler: 11,
+    sceneObjects: 12,
   },
 };
 
@@ -46,6 +56,11 @@ ${SHADER_SNIPPETS.FS_NORMAL_FROM_DERIVATIVES}
 ${SHADER_SNIPPETS.NORMALS_UTILS}
 ${SNIPPET_SHADING_PBR}
 ${SNIPPET_SHADING}
+${SNIPPET_VISIBILITY_BUFFER}
+${SHADER_SNIPPETS.GET_MODEL_MAT_SCALE}
+${SNIPPET_DITHER}
+${SNIPPET_PROJECT_SPHERE}
+${SNIPPET_CROSS_FADE}
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
 ${BUFFER_MESHLET_DATA(b.meshlets)}
@@ -55,9 +70,11 @@ ${BUFFER_VERTEX_NORMALS(b.vertexNormals)}
 ${BUFFER_VERTEX_UVS(b.vertexUV)}
 ${BUFFER_INSTANCES(b.instancesTransforms)}
 ${BUFFER_INDEX_BUFFER(b.indexBuffer)}
+${SNIPPET_SHADOW_MAP(b.shadowMapTexture, b.shadowMapSampler)}
+${BUFFER_SCENE_OBJECTS(b.sceneObjects)}
 
 @group(0) @binding(${b.diffuseTexture})
-var _diffuseTexture: texture_2d<f32>;
+var _diffuseTexture: texture_2d_array<f32>;
 
 @group(0) @binding(${b.sampler})
 var _sampler: sampler;
@@ -70,9 +87,16 @@ struct VertexOutput {
   @location(3) @interpolate(flat) instanceIdx: u32,
   @location(4) @interpolate(flat) meshletId: u32,
   @location(5) @interpolate(flat) triangleIdx: u32,
+  /** See 'getBillboardCrossFade()' */
+  @location(6) @interpolate(flat) crossFade: f32,
+  /** See 'getRasterizerCrossFade()' */
+  @location(7) @interpolate(flat) rasterizerCrossFade: f32,
+  /** Layer in '_diffuseTexture' */
+  @location(8) @interpolate(flat) diffuseLayer: u32,
 };
 
 const OUT_OF_SIGHT = 9999999.0;
+const VERTS_PER_MESHLET: u32 = ${CONFIG.nanite.preprocess.meshletMaxTriangles}u * 3u;
 
 @vertex
 fn main_vs(
@@ -82,8 +106,6 @@ fn main_vs(
   var result: VertexOutput;
   let drawData: vec2u = _getMeshletHardwareDraw(inInstanceIndex); // .x - transformIdx, .y - meshletIdx
   let meshlet = _meshlets[drawData.y];
-  result.meshletId = drawData.y;
-  let modelMat = _getInstanceTransform(drawData.x);
 
   // We always draw MAX_MESHLET_TRIANGLES * 3u, but meshlet might have less: discard.
   // While this is not the most performant approach, it has tiny memory footprint
@@ -97,7 +119,26 @@ fn main_vs(
     return result;
   }
 
-  let vertexIdx = _indexBuffer[meshlet.firstIndexOffset + inVertexIndex];
+  return createVertexOutput(drawData, inVertexIndex);
+}
+
+/** Indexed draw from 'CullTrianglesPass'. Index is 'drawnMeshletIdx * VERTS_PER_MESHLET + vertexInMeshlet' */
+@vertex
+fn main_vs_compacted(
+  @builtin(vertex_index) inVertexIndex: u32,
+) -> VertexOutput {
+  let drawIdx = inVertexIndex / VERTS_PER_MESHLET;
+  let drawData: vec2u = _getMeshletHardwareDraw(drawIdx); // .x - transformIdx, .y - meshletIdx
+  return createVertexOutput(drawData, inVertexIndex % VERTS_PER_MESHLET);
+}
+
+fn createVertexOutput(drawData: vec2u, meshletVertexIdx: u32) -> VertexOutput {
+  var result: VertexOutput;
+  let meshlet = _meshlets[drawData.y];
+  result.meshletId = drawData.y;
+  let modelMat = _getInstanceTransform(drawData.x);
+
+  let vertexIdx = _indexBuffer[meshlet.firstIndexOffset + meshletVertexIdx];
   let vertexPos = _getVertexPosition(vertexIdx); // assumes .w=1
   let vertexN = _getVertexNormal(vertexIdx);
   let vertexUV = _getVertexUV(vertexIdx);
@@ -110,7 +151,11 @@ fn main_vs(
   result.normalWS = transformNormalToWorldSpace(modelMat, vertexN);
   result.uv = vertexUV;
   result.instanceIdx = drawData.x;
-  result.triangleIdx = inVertexIndex;
+  result.triangleIdx = meshletVertexIdx;
+  let obj = _getInstanceObject(drawData.x);
+  result.diffuseLayer = obj.diffuseLayer;
+  result.crossFade = getBillboardCrossFade(_uniforms.flags, modelMat, obj.boundingSphere);
+  result.rasterizerCrossFade = getRasterizerCrossFade(modelMat, meshlet.ownBoundingSphere);
 
   return result;
 }
@@ -118,6 +163,9 @@ fn main_vs(
 
 @fragment
 fn main_fs(fragIn: VertexOutput) -> @location(0) vec4<f32> {
+  // the rest of the pixels is drawn by the billboard or the software rasterizer
+  if (!isHardwarePixel(fragIn)) { discard; }
+
   let shadingMode = getShadingMode(_uniforms.flags);
   var color: vec3f;
   
@@ -142,14 +190,27 @@ fn main_fs(fragIn: VertexOutput) -> @location(0) vec4<f32> {
     var material: Material;
     createDefaultMaterial(&material, fragIn.positionWS);
     material.normal = normalize(fragIn.normalWS);
-    material.albedo = textureSample(_diffuseTexture, _sampler, fragIn.uv).rgb;
+    material.albedo = textureSample(_diffuseTexture, _sampler, fragIn.uv, fragIn.diffuseLayer).rgb;
 
     // shading
-    var lights = array<Light, LIGHT_COUNT>();
-    fillLightsData(&lights);
-    color = doShading(material, AMBIENT_LIGHT, lights);
+    color = doShading(material);
   }
 
   return vec4(color.xyz, 1.0);
 }
+
+fn isHardwarePixel(fragIn: VertexOutput) -> bool {
+  let pixel = vec2u(fragIn.position.xy);
+  return isCrossFadeMeshPixel(fragIn.crossFade, pixel) &&
+    isCrossFadeHardwarePixel(fragIn.rasterizerCrossFade, pixel);
+}
+
+/** Visibility buffer mode. Shading happens later in 'VisibilityMaterialPass' */
+@fragment
+fn main_fs_visibility(fragIn: VertexOutput) -> @location(0) vec2u {
+  if (!isHardwarePixel(fragIn)) { discard; }
+  // 'triangleIdx' is a vertex index of the first vertex in the triangle
+  let triangleIdx = fragIn.triangleIdx / 3u;
+  return encodeVisibility(fragIn.instanceIdx, fragIn.meshletId, triangleIdx);
+}
 `;
@@ -21,7 +21,7 @@ import {
 import { writePng } from '../../sys_deno/fakeCanvas.ts';
 import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
 import {
-  NaniteObject,
+  NaniteDrawable,
   NaniteMeshletTreeNode,
 } from '../../scene/naniteObject.ts';
 import { createInstancesData, createGrid } from '../../scene/instancesData.ts';
@@ -31,6 +31,7 @@ import {
   uploadMeshletsToGPU,
 } from '../../scene/naniteBuffers/meshletsDataBuffer.ts';
 import { createDrawnMeshletsBuffer } from '../../scene/naniteBuffers/drawnMeshletsBuffer.ts';
+import { createSceneObjectsBuffer } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
 import {
   createOctahedronNormals,
   decodeOctahedronNormal,
@@ -92,7 +93,7 @@ Deno.test('RasterizeSwPass', async () => {
   passCtx.globalUniforms = uniforms;
   passCtx.viewport = RESULT_SIZE;
   uniforms.update(passCtx);
-  pass.cmdSoftwareRasterize(passCtx, mockNaniteObject);
+  pass.cmdSoftwareRasterize(passCtx, [mockNaniteObject]);
   cmdCopyToReadbackBuffer(cmdBuf, resultBuffer, resultReadbackBuffer);
   device.queue.submit([cmdBuf.finish()]);
 
@@ -190,15 +191,28 @@ function createMockNaniteObject(device: GPUDevice) {
   mockBuffers.drawnMeshletsBuffer = createDrawnMeshletsBuffer(
     device,
     OBJ_NAME,
-    // deno-lint-ignore no-explicit-any
-    meshlets as any,
-    mockInstances.count
+    meshlets.length * mockInstances.count
   );
   mockBuffers._mockMeshletSoftwareDraw(device, new Uint32Array([1, 1, 1, 1]));
   mockBuffers._mockMeshletsDrawList(device, new Uint32Array([0, 0]));
 
+  // bounding sphere for the billboard cross fade
+  mockBuffers.sceneObjectsBuffer = createSceneObjectsBuffer(device, OBJ_NAME, [
+    {
+      boundingSphere: bSphere,
+      meshletOffset: 0,
+      meshletCount: meshlets.length,
+      bottomMeshletCount: meshlets.length,
+      instanceOffset: 0,
+      instanceCount: mockInstances.count,
+      rootsOffset: 0,
+      impostorLayer: 0,
+      diffuseLayer: 0,
+    },
+  ]);
+
   // nanite object
-  const mockNaniteObject: NaniteObject = {
+  const mockNaniteObject: NaniteDrawable = {
     name: OBJ_NAME,
     buffers: mockBuffers,
     bindInstanceTransforms: (bindingIdx: number): GPUBindGroupEntry => ({
@@ -1,5 +1,5 @@
 import { BYTES_U32 } from '../../constants.ts';
-import { NaniteObject } from '../../scene/naniteObject.ts';
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
 import { Dimensions } from '../../utils/index.ts';
 import { cmdClearWholeBuffer } from '../../utils/webgpu.ts';
 import {
@@ -9,24 +9,49 @@ import {
   BindingsCache,
 } from '../_shared.ts';
 import { PassCtx } from '../passCtx.ts';
-import { SHADER_CODE, SHADER_PARAMS } from './rasterizeSwPass.wgsl.ts';
+import {
+  SHADER_CODE,
+  SHADER_PARAMS,
+  SoftwareRasterizerMode,
+} from './rasterizeSwPass.wgsl.ts';
+import { CONFIG } from '../../constants.ts';
 
 export class RasterizeSwPass {
   public static NAME: string = 'RasterizeSwPass';
 
-  private readonly pipeline: GPUComputePipeline;
+  private readonly pipelines: Record<
+    SoftwareRasterizerMode,
+    GPUComputePipeline
+  >;
+  /** Key is `${objectName}-${mode}` */
   private readonly bindingsCache = new BindingsCache();
 
   /** result framebuffer as flat buffer */
   public resultBuffer: GPUBuffer = undefined!; // see this.handleViewportResize()
+  /** Precise mode: octahedral normal per pixel */
+  public normalsBuffer: GPUBuffer = undefined!; // see this.handleViewportResize()
+  /** Visibility buffer mode: 'SNIPPET_VISIBILITY_BUFFER' value per pixel. Only for the current object */
+  public visibilityBuffer: GPUBuffer = undefined!; // see this.handleViewportResize()
 
   constructor(device: GPUDevice) {
+    this.pipelines = {
+      packed: RasterizeSwPass.createPipeline(device, 'packed'),
+      depth: RasterizeSwPass.createPipeline(device, 'depth'),
+      normalsPayload: RasterizeSwPass.createPipeline(device, 'normalsPayload'),
+      visibilityPayload: RasterizeSwPass.createPipeline(device, 'visibilityPayload'),
+    }; // prettier-ignore
+  }
+
+  private static createPipeline(
+    device: GPUDevice,
+    mode: SoftwareRasterizerMode
+  ) {
     const shaderModule = device.createShaderModule({
       label: labelShader(RasterizeSwPass),
-      code: SHADER_CODE(),
+      code: SHADER_CODE(mode),
     });
-    this.pipeline = device.createComputePipeline({
-      label: labelPipeline(RasterizeSwPass),
+    return device.createComputePipeline({
+      label: labelPipeline(RasterizeSwPass, mode),
       layout: 'auto',
       compute: {
         module: shaderModule,
@@ -40,12 +65,20 @@ export class RasterizeSwPass {
     cmdClearWholeBuffer(ctx.cmdBuf, this.resultBuffer);
   }
 
+  onSceneChanged = () => this.bindingsCache.clear();
+
   onViewportResize = (device: GPUDevice, viewportSize: Dimensions) => {
     this.bindingsCache.clear();
 
     if (this.resultBuffer) {
       this.resultBuffer.destroy();
     }
+    if (this.normalsBuffer) {
+      this.normalsBuffer.destroy();
+    }
+    if (this.visibilityBuffer) {
+      this.visibilityBuffer.destroy();
+    }
 
     this.resultBuffer = device.createBuffer({
       label: `rasterize-sw`,
@@ -56,10 +89,29 @@ export class RasterizeSwPass {
         GPUBufferUsage.COPY_DST |
         GPUBufferUsage.COPY_SRC, // for stats, debug etc.
     });
+
+    this.normalsBuffer = device.createBuffer({
+      label: `rasterize-sw-normals`,
+      size: BYTES_U32 * viewportSize.width * viewportSize.height,
+      usage: GPUBufferUsage.STORAGE,
+    });
+
+    this.visibilityBuffer = device.createBuffer({
+      label: `rasterize-sw-visibility`,
+      size: 2 * BYTES_U32 * viewportSize.width * viewportSize.height,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
   };
 
-  cmdSoftwareRasterize(ctx: PassCtx, naniteObject: NaniteObject) {
+  /** Rasterize all objects in a single compute pass. Each object is a separate indirect dispatch */
+  cmdSoftwareRasterize(ctx: PassCtx, naniteObjects: NaniteDrawable[]) {
     const { cmdBuf, profiler } = ctx;
+    const useVisibilityBuffer = CONFIG.nanite.render.useVisibilityBuffer;
+
+    if (useVisibilityBuffer) {
+      // depth is kept between objects, visibility is only for this object
+      cmdClearWholeBuffer(cmdBuf, this.visibilityBuffer);
+    }
 
     // no need to clear previous values, as we override every pixel
     const computePass = cmdBuf.beginComputePass({
@@ -67,41 +119,81 @@ export class RasterizeSwPass {
       timestampWrites: profiler?.createScopeGpu(RasterizeSwPass.NAME),
     });
 
-    const bindings = this.bindingsCache.getBindings(naniteObject.name, () =>
-      this.createBindings(ctx, this.resultBuffer, naniteObject)
+    // payload pass compares against the depth of all objects,
+    // so every object has to finish the depth pass first
+    const dispatchAll = (mode: SoftwareRasterizerMode) =>
+      naniteObjects.forEach((naniteObject) =>
+        this.dispatch(ctx, computePass, naniteObject, mode)
+      );
+
+    if (useVisibilityBuffer) {
+      dispatchAll('depth');
+      dispatchAll('visibilityPayload');
+    } else if (CONFIG.softwareRasterizer.preciseDepth) {
+      // no need to clear normals. Depth decides which pixels are valid
+      dispatchAll('depth');
+      dispatchAll('normalsPayload');
+    } else {
+      dispatchAll('packed');
+    }
+
+    computePass.end();
+  }
+
+  private dispatch(
+    ctx: PassCtx,
+    computePass: GPUComputePassEncoder,
+    naniteObject: NaniteDrawable,
+    mode: SoftwareRasterizerMode
+  ) {
+    const pipeline = this.pipelines[mode];
+    const bindings = this.bindingsCache.getBindings(
+      `${naniteObject.name}-${mode}`,
+      () => this.createBindings(ctx, pipeline, naniteObject, mode),
+      naniteObject.buffersVersion
     );
-    computePass.setPipeline(this.pipeline);
+    computePass.setPipeline(pipeline);
     computePass.setBindGroup(0, bindings);
 
     // dispatch
     naniteObject.buffers.cmdDrawMeshletsSoftwareIndirect(computePass);
-
-    computePass.end();
   }
 
   private createBindings = (
     { device, globalUniforms }: PassCtx,
-    resultBuffer: GPUBuffer,
-    naniteObject: NaniteObject
+    pipeline: GPUComputePipeline,
+    naniteObject: NaniteDrawable,
+    mode: SoftwareRasterizerMode
   ): GPUBindGroup => {
     const b = SHADER_PARAMS.bindings;
     const buffers = naniteObject.buffers;
+    const payloadBindings: GPUBindGroupEntry[] = [];
+    if (mode === 'normalsPayload') {
+      const resource = { buffer: this.normalsBuffer };
+      payloadBindings.push({ binding: b.normalsPayload, resource });
+    }
+    if (mode === 'visibilityPayload') {
+      const resource = { buffer: this.visibilityBuffer };
+      payloadBindings.push({ binding: b.visibilityPayload, resource });
+    }
 
     return assignResourcesToBindings2(
       RasterizeSwPass,
       naniteObject.name,
       device,
-      this.pipeline,
+      pipeline,
       [
         globalUniforms.createBindingDesc(b.renderUniforms),
-        { binding: b.resultBuffer, resource: { buffer: resultBuffer } },
+        { binding: b.resultBuffer, resource: { buffer: this.resultBuffer } },
         buffers.bindVertexPositions(b.vertexPositions),
-        buffers.bindVertexNormals(b.vertexNormals),
         buffers.bindIndexBuffer(b.indexBuffer),
         buffers.bindMeshletData(b.meshletsData),
         buffers.bindDrawnMeshletsList(b.drawnMeshletIds),
         buffers.bindDrawnMeshletsSwParams(b.drawnMeshletParams),
         naniteObject.bindInstanceTransforms(b.instancesTransforms),
+        buffers.bindVertexNormals(b.vertexNormals),
+        buffers.bindSceneObjects(b.sceneObjects),
+        ...payloadBindings,
       ]
     );
   };
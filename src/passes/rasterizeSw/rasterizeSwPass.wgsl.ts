@@ -10,6 +10,11 @@ import {
   BUFFER_DRAWN_MESHLETS_SW_PARAMS,
   BUFFER_DRAWN_MESHLETS_LIST,
 } from '../../scene/naniteBuffers/drawnMeshletsBuffer.ts';
+import { SNIPPET_VISIBILITY_BUFFER } from '../_shaderSnippets/visibilityBuffer.wgsl.ts';
+import { SNIPPET_DITHER } from '../_shaderSnippets/dither.wgsl.ts';
+import { SNIPPET_PROJECT_SPHERE } from '../_shaderSnippets/cullOcclusion.wgsl.ts';
+import { SNIPPET_CROSS_FADE } from '../_shaderSnippets/crossFade.wgsl.ts';
+import { BUFFER_SCENE_OBJECTS } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
 
 /*
 https://fgiesen.wordpress.com/2013/02/10/optimizing-the-basic-rasterizer/
@@ -38,9 +43,28 @@ export const SHADER_PARAMS = {
     drawnMeshletParams: 6,
     instancesTransforms: 7,
     vertexNormals: 8,
+    visibilityPayload: 9,
+    normalsPayload: 10,
+    sceneObjects: 11,
   },
 };
 
+/**
+ * - 'packed' - 16bit depth + octahedral normal in a single u32. Shaded in `RasterizeCombine`.
+ * - 'depth' - 1st dispatch of precise and visibility buffer modes. Only the full 32bit depth.
+ * - 'normalsPayload' - precise mode, 2nd dispatch. Rasterize again and write
+ *     2*u16 octahedral normal for pixels where depth is the same as after 1st dispatch.
+ * - 'visibilityPayload' - visibility buffer, 2nd dispatch. Same as above, but writes
+ *     (instance, meshlet, triangle).
+ *
+ * There is no `atomic<u64>`, so we cannot write depth and payload at once.
+ */
+export type SoftwareRasterizerMode =
+  'packed' | 'depth' | 'normalsPayload' | 'visibilityPayload';
+
+const isPayloadMode = (mode: SoftwareRasterizerMode) =>
+  mode === 'normalsPayload' || mode === 'visibilityPayload';
+
 export const BUFFER_SOFTWARE_RASTERIZER_RESULT = (
   bindingIdx: number,
   access: 'read_write' | 'read'
@@ -52,18 +76,108 @@ var<storage, ${access}> _softwareRasterizerResult: ${
 };
 `;
 
+/** Per pixel. Octahedral normal as 2*u16 */
+export const BUFFER_SOFTWARE_RASTERIZER_NORMALS = (
+  bindingIdx: number,
+  access: 'read_write' | 'read'
+) => /* wgsl */ `
+
+@group(0) @binding(${bindingIdx})
+var<storage, ${access}> _softwareRasterizerNormals: array<u32>;
+`;
+
+/** Per pixel. See `SNIPPET_VISIBILITY_BUFFER` */
+export const BUFFER_SOFTWARE_RASTERIZER_VISIBILITY = (
+  bindingIdx: number,
+  access: 'read_write' | 'read'
+) => /* wgsl */ `
+
+@group(0) @binding(${bindingIdx})
+var<storage, ${access}> _softwareRasterizerVisibility: array<vec2u>;
+`;
+
 ///////////////////////////
 /// SHADER CODE
 ///////////////////////////
 const c = SHADER_PARAMS;
 const b = SHADER_PARAMS.bindings;
 
-export const SHADER_CODE = () => /* wgsl */ `
+const STORE_RESULT = /* wgsl */ `
+/** NOTE: if you want to store color for .png file, it's in ABGR format */
+fn storeResult(viewportSize: vec2u, posPx: vec2u, value: u32) {
+  // bitcast<u32>(value); <- if needed
+  if (!isInsideViewport(viewportSize, posPx)) {
+    return;
+  }
+  let idx = getResultIdx(viewportSize, posPx);
+  // WebGPU clears to 0. So atomicMin is pointless..
+  atomicMax(&_softwareRasterizerResult[idx], value);
+}
+`;
+
+const STORE_NORMAL = /* wgsl */ `
+/** Only the closest pixel from 'depth' dispatch writes. Same depth is a race, but then it does not matter who wins */
+fn storeNormal(viewportSize: vec2u, posPx: vec2u, depth: u32, n: vec3f) {
+  if (!isInsideViewport(viewportSize, posPx)) {
+    return;
+  }
+  let idx = getResultIdx(viewportSize, posPx);
+  if (_softwareRasterizerResult[idx] == depth) {
+    _softwareRasterizerNormals[idx] = pack2x16unorm(encodeOctahedronNormal(n));
+  }
+}
+`;
+
+const STORE_VISIBILITY = /* wgsl */ `
+/** Same as 'storeNormal()' */
+fn storeVisibility(viewportSize: vec2u, posPx: vec2u, depth: u32, visibility: vec2u) {
+  if (!isInsideViewport(viewportSize, posPx)) {
+    return;
+  }
+  let idx = getResultIdx(viewportSize, posPx);
+  if (_softwareRasterizerResult[idx] == depth) {
+    _softwareRasterizerVisibility[idx] = visibility;
+  }
+}
+`;
+
+const STORE_PIXEL: Record<SoftwareRasterizerMode, string> = {
+  packed: /* wgsl */ `
+        let n: vec3f = normalize(n0 * C0 + n1 * C1 + n2 * C2); // [-1, 1]
+        let value = createPayload(depth, n);
+        storeResult(viewportSize, vec2u(u32(x), u32(y)), value);`,
+  depth: /* wgsl */ `
+        let value = createPreciseDepth(depth);
+        storeResult(viewportSize, vec2u(u32(x), u32(y)), value);`,
+  normalsPayload: /* wgsl */ `
+        let n: vec3f = normalize(n0 * C0 + n1 * C1 + n2 * C2); // [-1, 1]
+        let value = createPreciseDepth(depth);
+        storeNormal(viewportSize, vec2u(u32(x), u32(y)), value, n);`,
+  visibilityPayload: /* wgsl */ `
+        let value = createPreciseDepth(depth);
+        storeVisibility(viewportSize, vec2u(u32(x), u32(y)), value, visibility);`,
+};
+
+const STORE_FN: Record<SoftwareRasterizerMode, string> = {
+  packed: STORE_RESULT,
+  depth: STORE_RESULT,
+  normalsPayload: STORE_NORMAL,
+  visibilityPayload: STORE_VISIBILITY,
+};
+
+export const SHADER_CODE = (
+  mode: SoftwareRasterizerMode = 'packed'
+) => /* wgsl */ `
 
 ${SHADER_SNIPPETS.GET_MVP_MAT}
 ${SHADER_SNIPPETS.UTILS}
 ${SHADER_SNIPPETS.NORMALS_UTILS}
 ${LINEAR_DEPTH}
+${SNIPPET_VISIBILITY_BUFFER}
+${SHADER_SNIPPETS.GET_MODEL_MAT_SCALE}
+${SNIPPET_DITHER}
+${SNIPPET_PROJECT_SPHERE}
+${SNIPPET_CROSS_FADE}
 
 ${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
 ${BUFFER_MESHLET_DATA(b.meshletsData)}
@@ -73,7 +187,18 @@ ${BUFFER_VERTEX_POSITIONS(b.vertexPositions)}
 ${BUFFER_VERTEX_NORMALS(b.vertexNormals)}
 ${BUFFER_INDEX_BUFFER(b.indexBuffer)}
 ${BUFFER_INSTANCES(b.instancesTransforms)}
-${BUFFER_SOFTWARE_RASTERIZER_RESULT(b.resultBuffer, 'read_write')}
+${BUFFER_SCENE_OBJECTS(b.sceneObjects)}
+${BUFFER_SOFTWARE_RASTERIZER_RESULT(b.resultBuffer, isPayloadMode(mode) ? 'read' : 'read_write')}
+${
+  mode === 'normalsPayload'
+    ? BUFFER_SOFTWARE_RASTERIZER_NORMALS(b.normalsPayload, 'read_write')
+    : ''
+}
+${
+  mode === 'visibilityPayload'
+    ? BUFFER_SOFTWARE_RASTERIZER_VISIBILITY(b.visibilityPayload, 'read_write')
+    : ''
+}
 
 // test colors in ABGR
 const COLOR_RED: u32 = 0xff0000ffu;
@@ -115,15 +240,24 @@ fn main(
     // get tfx
     let modelMat = _getInstanceTransform(drawData.x);
     let mvpMat = getMVP_Mat(modelMat, viewMatrix, projMatrix);
+    let boundingSphere = _getInstanceObject(drawData.x).boundingSphere;
+    let crossFade = getBillboardCrossFade(_uniforms.flags, modelMat, boundingSphere);
+    // meshlet is on the software list. Outside of the band, it's all ours
+    var rasterizerCrossFade = getRasterizerCrossFade(modelMat, meshlet.ownBoundingSphere);
+    if (rasterizerCrossFade >= 1.0) { rasterizerCrossFade = 0.0; }
 
     // draw
     let indexOffset = meshlet.firstIndexOffset;
+    let visibility = encodeVisibility(drawData.x, drawData.y, triangleIdx);
     rasterize(
       modelMat,
       mvpMat,
       viewportSize,
       indexOffset,
-      triangleIdx
+      triangleIdx,
+      visibility,
+      crossFade,
+      rasterizerCrossFade
     );
   } 
 }
@@ -133,7 +267,10 @@ fn rasterize(
   mvpMat: mat4x4f,
   viewportSizeF32: vec2f,
   indexOffset: u32,
-  triangleIdx: u32
+  triangleIdx: u32,
+  visibility: vec2u,
+  crossFade: f32,
+  rasterizerCrossFade: f32
 ) {
   let viewportSize = vec2u(viewportSizeF32);
 
@@ -213,17 +350,18 @@ fn rasterize(
       // let C2 = edgeFunction(v1, v0, p) / triangleArea; // for vertex 2
 
       // if (C0 >= 0 && C1 >= 0 && C2 >= 0) {
-      if (CX0 >= 0 && CX1 >= 0 && CX2 >= 0) {
+      // pixel row as in 'getResultIdx()'. The rest of the pixels is drawn by the billboard or the hardware rasterizer
+      let pixel = vec2u(u32(x), viewportSize.y - u32(y));
+      let isSoftwarePixel = isCrossFadeMeshPixel(crossFade, pixel) &&
+        !isCrossFadeHardwarePixel(rasterizerCrossFade, pixel);
+      if (CX0 >= 0 && CX1 >= 0 && CX2 >= 0 && isSoftwarePixel) {
         // barycentric coordinates
         let C0 = CX0 / triangleArea2; // for vertex 0
         let C1 = CX1 / triangleArea2; // for vertex 1
         let C2 = CX2 / triangleArea2; // for vertex 2
         
         let depth: f32 = v0_NDC.z * C0 + v1_NDC.z * C1 + v2_NDC.z * C2;
-        let n: vec3f = normalize(n0 * C0 + n1 * C1 + n2 * C2); // [-1, 1]
-        
-        let value = createPayload(depth, n);
-        storeResult(viewportSize, vec2u(u32(x), u32(y)), value);
+${STORE_PIXEL[mode]}
       }
 
       CX0 += CC0.A;
@@ -278,6 +416,11 @@ fn createPayload(depth0: f32, n: vec3f) -> u32 {
   return (u32(depthU16) << 16) | nPacked;
 }
 
+/** Reversed, so we can take max. Bits of positive floats compare the same as the floats */
+fn createPreciseDepth(depth: f32) -> u32 {
+  return bitcast<u32>(clamp(1.0 - depth, 0.0, 1.0));
+}
+
 fn debugBarycentric(C0: f32, C1: f32, C2: f32) -> u32 {
   let color0: u32 = u32(C0 * 255); // 0-255 as u32
   let color1: u32 = u32(C1 * 255); // 0-255 as u32
@@ -300,18 +443,14 @@ fn ndc2viewportPx(viewportSize: vec2f, pos: vec3f) -> vec2f {
   return pos_0_1 * viewportSize.xy;
 }
 
-/** NOTE: if you want to store color for .png file, it's in ABGR format */
-fn storeResult(viewportSize: vec2u, posPx: vec2u, value: u32) {
-  // bitcast<u32>(value); <- if needed
-  if(
-    posPx.x < 0 || posPx.x >= viewportSize.x ||
-    posPx.y < 0 || posPx.y >= viewportSize.y
-  ) {
-    return;
-  }
+fn isInsideViewport(viewportSize: vec2u, posPx: vec2u) -> bool {
+  return posPx.x < viewportSize.x && posPx.y < viewportSize.y;
+}
+
+fn getResultIdx(viewportSize: vec2u, posPx: vec2u) -> u32 {
   let y = viewportSize.y - posPx.y; // invert cause WebGPU coordinates
-  let idx: u32 = y * viewportSize.x + posPx.x;
-  // WebGPU clears to 0. So atomicMin is pointless..
-  atomicMax(&_softwareRasterizerResult[idx], value);
+  return y * viewportSize.x + posPx.x;
 }
+
+${STORE_FN[mode]}
 `;
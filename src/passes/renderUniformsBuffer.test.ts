@@ -0,0 +1,48 @@
+import { assertEquals } from 'assert';
+import { BYTES_MAT4, BYTES_VEC4, CONFIG } from '../constants.ts';
+import {
+  createMockGpuDevice,
+  createMockPassCtx,
+} from '../sys_deno/testUtils.ts';
+import {
+  RenderUniformsBuffer,
+  RenderUniformsMode,
+} from './renderUniformsBuffer.ts';
+
+/** matrices, viewport, camera position, frustum planes. See `BUFFER_SIZE` */
+const FLAGS_OFFSET = 4 * BYTES_MAT4 + 8 * BYTES_VEC4;
+const FLAG_FORCE_BILLBOARDS = 1 << 16;
+
+function uploadUniforms(mode: RenderUniformsMode) {
+  const { device, writes } = createMockGpuDevice();
+  const uniforms = new RenderUniformsBuffer(device, mode);
+  // deno-lint-ignore no-explicit-any
+  uniforms.update(createMockPassCtx(device, undefined as any));
+
+  const view = new DataView(writes[writes.length - 1].data);
+  return {
+    flags: view.getUint32(FLAGS_OFFSET, true),
+    billboardThreshold: view.getFloat32(FLAGS_OFFSET + 4, true),
+  };
+}
+
+Deno.test('RenderUniformsBuffer :: billboard threshold', () => {
+  CONFIG.impostors.billboardThreshold = 1000;
+  CONFIG.impostors.forceOnlyBillboards = true;
+
+  CONFIG.cullingInstances.enabled = true;
+  let result = uploadUniforms('camera');
+  assertEquals(result.billboardThreshold, 1000);
+  assertEquals(result.flags & FLAG_FORCE_BILLBOARDS, FLAG_FORCE_BILLBOARDS);
+
+  // no billboards in the shadow map
+  result = uploadUniforms('shadow');
+  assertEquals(result.billboardThreshold, 0);
+  assertEquals(result.flags & FLAG_FORCE_BILLBOARDS, 0);
+
+  // billboards are not drawn without instance culling, mesh covers everything
+  CONFIG.cullingInstances.enabled = false;
+  result = uploadUniforms('camera');
+  assertEquals(result.billboardThreshold, 0);
+  assertEquals(result.flags & FLAG_FORCE_BILLBOARDS, 0);
+});
@@ -5,16 +5,32 @@ import {
   BYTES_U32,
   BYTES_VEC4,
   CONFIG,
+  useImpostorBillboards,
+  useShadowMap,
 } from '../constants.ts';
 import { GPU_BUFFER_USAGE_UNIFORM } from '../utils/webgpu.ts';
 import { calcCotHalfFov } from './naniteCpu/calcNaniteMeshletsVisibility.ts';
 import { PassCtx } from './passCtx.ts';
+import { Light, LightType, MAX_LIGHTS } from '../scene/lights.ts';
 
 const FLAG_FRUSTUM_CULLING = 1;
 const FLAG_OCCLUSION_CULLING = 2;
 const FLAG_INSTANCES_FRUSTUM_CULLING = 1 << 5;
 const FLAG_INSTANCES_OCCLUSION_CULLING = 1 << 6;
 const FLAG_FORCE_BILLBOARDS = 1 << 16;
+const FLAG_LEGACY_ERROR_METRIC = 1 << 23;
+const FLAG_TRIANGLES_BACKFACE_CULLING = 1 << 24;
+const FLAG_TRIANGLES_ZERO_AREA_CULLING = 1 << 25;
+const FLAG_TRIANGLES_SMALL_CULLING = 1 << 26;
+const FLAG_MESHLETS_CONE_CULLING = 1 << 27;
+
+/** 'shadow' replaces LOD and culling settings with ones for `ShadowMapPass` */
+export type RenderUniformsMode = 'camera' | 'shadow';
+
+const LIGHT_TYPE_IDS: Record<LightType, number> = {
+  directional: 0,
+  point: 1,
+};
 
 export class RenderUniformsBuffer {
   public static SHADER_SNIPPET = (group: number) => /* wgsl */ `
@@ -24,6 +40,15 @@ export class RenderUniformsBuffer {
     const b11111 = 31u; // binary 0b11111
     const b111111 = 63u; // binary 0b111111
 
+    const MAX_LIGHTS = ${MAX_LIGHTS}u;
+    const LIGHT_TYPE_DIRECTIONAL = ${LIGHT_TYPE_IDS.directional}u;
+    const LIGHT_TYPE_POINT = ${LIGHT_TYPE_IDS.point}u;
+
+    struct LightData {
+      position: vec4f, // xyz - position or direction, w - light type
+      color: vec4f, // rgb - color, a - intensity
+    };
+
     struct Uniforms {
       vpMatrix: mat4x4<f32>,
       vpMatrixInv: mat4x4<f32>,
@@ -45,12 +70,27 @@ export class RenderUniformsBuffer {
       // b12,13,14,15 - debug override occlusion cull depth mipmap (value 0-15). 0b1111 means OFF
       // b16 - force billboards
       // b17,b18,b19,b20,b21,b22 - billboard dithering
-      // b23..32 - not used
+      // b23 - legacy nanite error metric
+      // b24,25,26 - triangle culling: backface, zero area, small primitive
+      // b27 - meshlets backface cone culling
+      // b28..32 - not used
       flags: u32,
       billboardThreshold: f32,
       softwareRasterizerThreshold: f32,
+      billboardCrossFadeBand: f32, // relative to billboardThreshold
+      softwareRasterizerCrossFadeBand: f32, // relative to softwareRasterizerThreshold
       padding0: u32,
+      padding1: u32,
+      padding2: u32,
       colorMgmt: vec4f,
+      ambientLight: vec4f, // rgb - color, a - intensity
+      lightsCount: u32,
+      padding3: u32,
+      padding4: u32,
+      padding5: u32,
+      lights: array<LightData, MAX_LIGHTS>,
+      shadowMatrix: mat4x4<f32>,
+      shadowParams: vec4f, // x - shadow casting light index (-1 if none), y - depth bias, z - normal offset
     };
     @binding(0) @group(${group})
     var<uniform> _uniforms: Uniforms;
@@ -61,6 +101,11 @@ export class RenderUniformsBuffer {
     fn useInstancesFrustumCulling(flags: u32) -> bool { return checkFlag(flags, ${FLAG_INSTANCES_FRUSTUM_CULLING}u); }
     fn useInstancesOcclusionCulling(flags: u32) -> bool { return checkFlag(flags, ${FLAG_INSTANCES_OCCLUSION_CULLING}u); }
     fn useForceBillboards(flags: u32) -> bool { return checkFlag(flags, ${FLAG_FORCE_BILLBOARDS}u); }
+    fn useLegacyErrorMetric(flags: u32) -> bool { return checkFlag(flags, ${FLAG_LEGACY_ERROR_METRIC}u); }
+    fn useTrianglesBackfaceCulling(flags: u32) -> bool { return checkFlag(flags, ${FLAG_TRIANGLES_BACKFACE_CULLING}u); }
+    fn useTrianglesZeroAreaCulling(flags: u32) -> bool { return checkFlag(flags, ${FLAG_TRIANGLES_ZERO_AREA_CULLING}u); }
+    fn useTrianglesSmallCulling(flags: u32) -> bool { return checkFlag(flags, ${FLAG_TRIANGLES_SMALL_CULLING}u); }
+    fn useMeshletsConeCulling(flags: u32) -> bool { return checkFlag(flags, ${FLAG_MESHLETS_CONE_CULLING}u); }
     fn getShadingMode(flags: u32) -> u32 {
       return (flags >> 2u) & b111;
     }
@@ -86,17 +131,26 @@ export class RenderUniformsBuffer {
     BYTES_VEC4 + // viewport
     BYTES_VEC4 + // cameraPosition
     6 * BYTES_VEC4 + // camera frustum planes
-    4 * BYTES_U32 + // flags + padding
-    BYTES_VEC4; // color mgmt
+    4 * BYTES_U32 + // flags + thresholds
+    4 * BYTES_U32 + // software rasterizer cross fade band + padding
+    BYTES_VEC4 + // color mgmt
+    BYTES_VEC4 + // ambient light
+    4 * BYTES_U32 + // lights count + padding
+    MAX_LIGHTS * 2 * BYTES_VEC4 + // lights
+    BYTES_MAT4 + // shadowMatrix
+    BYTES_VEC4; // shadowParams
 
   private readonly gpuBuffer: GPUBuffer;
   private readonly data = new ArrayBuffer(RenderUniformsBuffer.BUFFER_SIZE);
   private readonly dataAsF32: Float32Array;
   private readonly dataAsU32: Uint32Array;
 
-  constructor(device: GPUDevice) {
+  constructor(
+    device: GPUDevice,
+    private readonly mode: RenderUniformsMode = 'camera'
+  ) {
     this.gpuBuffer = device.createBuffer({
-      label: 'render-uniforms-buffer',
+      label: `render-uniforms-buffer-${mode}`,
       size: RenderUniformsBuffer.BUFFER_SIZE,
       usage: GPU_BUFFER_USAGE_UNIFORM,
     });
@@ -119,7 +173,10 @@ export class RenderUniformsBuffer {
       cameraFrustum,
       cameraPositionWorldSpace,
       softwareRasterizerEnabled,
+      scene,
+      shadowMap,
     } = ctx;
+    const isShadow = this.mode === 'shadow';
     const c = CONFIG;
     const nanite = c.nanite.render;
     const imp = c.impostors;
@@ -134,8 +191,11 @@ export class RenderUniformsBuffer {
     // viewport
     offsetBytes = this.writeF32(offsetBytes, viewport.width);
     offsetBytes = this.writeF32(offsetBytes, viewport.height);
-    offsetBytes = this.writeF32(offsetBytes, nanite.errorThreshold); // prettier-ignore
-    offsetBytes = this.writeF32(offsetBytes, calcCotHalfFov());
+    const errorThreshold = isShadow ? c.shadows.errorThreshold : nanite.errorThreshold; // prettier-ignore
+    offsetBytes = this.writeF32(offsetBytes, errorThreshold);
+    // orthographic projection for shadows: scale of the Y axis
+    const cotHalfFov = isShadow ? projMatrix[5] : calcCotHalfFov();
+    offsetBytes = this.writeF32(offsetBytes, cotHalfFov);
     // camera position
     const camPos = cameraPositionWorldSpace;
     offsetBytes = this.writeF32(offsetBytes, camPos[0]);
@@ -148,16 +208,29 @@ export class RenderUniformsBuffer {
     }
     // misc
     offsetBytes = this.writeU32(offsetBytes, this.encodeFlags());
-    offsetBytes = this.writeF32(offsetBytes, imp.billboardThreshold);
+    // no billboards in the shadow map or without the billboard pass. Mesh has to cover everything
+    const drawBillboards = !isShadow && useImpostorBillboards();
+    const billboardThreshold = drawBillboards ? imp.billboardThreshold : 0.0;
+    offsetBytes = this.writeF32(offsetBytes, billboardThreshold);
     const swrThreshold = softwareRasterizerEnabled ? swr.threshold : 0.0;
     offsetBytes = this.writeF32(offsetBytes, swrThreshold);
-    // padding
-    offsetBytes += 1 * BYTES_U32;
+    offsetBytes = this.writeF32(offsetBytes, imp.crossFadeBand);
+    offsetBytes = this.writeF32(offsetBytes, swr.crossFadeBand);
+    offsetBytes += 3 * BYTES_U32; // padding
     // color mgmt
     offsetBytes = this.writeF32(offsetBytes, col.gamma);
     offsetBytes = this.writeF32(offsetBytes, col.exposure);
     offsetBytes = this.writeF32(offsetBytes, col.ditherStrength);
     offsetBytes += BYTES_F32; // padding
+    // lights
+    offsetBytes = this.writeLights(offsetBytes, scene.lights);
+    // shadows
+    offsetBytes = this.writeMat4(offsetBytes, shadowMap.vpMatrix);
+    const shadowLightIdx = !isShadow && useShadowMap() ? shadowMap.lightIdx : -1; // prettier-ignore
+    offsetBytes = this.writeF32(offsetBytes, shadowLightIdx);
+    offsetBytes = this.writeF32(offsetBytes, c.shadows.depthBias);
+    offsetBytes = this.writeF32(offsetBytes, c.shadows.normalOffset);
+    offsetBytes += BYTES_F32; // padding
 
     // final write
     if (offsetBytes !== RenderUniformsBuffer.BUFFER_SIZE) {
@@ -166,6 +239,36 @@ export class RenderUniformsBuffer {
     device.queue.writeBuffer(this.gpuBuffer, 0, this.data, 0, offsetBytes);
   }
 
+  private writeLights(offsetBytes: number, lights: Light[]) {
+    const amb = CONFIG.ambientLight;
+    offsetBytes = this.writeF32(offsetBytes, amb.color[0]);
+    offsetBytes = this.writeF32(offsetBytes, amb.color[1]);
+    offsetBytes = this.writeF32(offsetBytes, amb.color[2]);
+    offsetBytes = this.writeF32(offsetBytes, amb.intensity);
+
+    const count = Math.min(lights.length, MAX_LIGHTS);
+    offsetBytes = this.writeU32(offsetBytes, count);
+    offsetBytes += 3 * BYTES_U32; // padding
+
+    for (let i = 0; i < MAX_LIGHTS; i++) {
+      const light = lights[i];
+      if (i >= count) {
+        offsetBytes += 2 * BYTES_VEC4; // unused
+        continue;
+      }
+      const { position: pos, color } = light;
+      offsetBytes = this.writeF32(offsetBytes, pos[0]);
+      offsetBytes = this.writeF32(offsetBytes, pos[1]);
+      offsetBytes = this.writeF32(offsetBytes, pos[2]);
+      offsetBytes = this.writeF32(offsetBytes, LIGHT_TYPE_IDS[light.type]);
+      offsetBytes = this.writeF32(offsetBytes, color[0]);
+      offsetBytes = this.writeF32(offsetBytes, color[1]);
+      offsetBytes = this.writeF32(offsetBytes, color[2]);
+      offsetBytes = this.writeF32(offsetBytes, light.intensity);
+    }
+    return offsetBytes;
+  }
+
   private writeMat4(offsetBytes: number, mat: Mat4) {
     const offset = offsetBytes / BYTES_F32;
     for (let i = 0; i < 16; i++) {
@@ -190,7 +293,9 @@ export class RenderUniformsBuffer {
     const naniteCfg = CONFIG.nanite.render;
     const ci = CONFIG.cullingInstances;
     const cm = CONFIG.cullingMeshlets;
+    const ct = CONFIG.cullingTriangles;
     const imp = CONFIG.impostors;
+    const isShadow = this.mode === 'shadow';
 
     let flags = 0;
     const setFlag = (bit: number, b: boolean) => {
@@ -200,8 +305,14 @@ export class RenderUniformsBuffer {
     // frustum cull
     setFlag(FLAG_FRUSTUM_CULLING, cm.frustumCulling);
 
+    // backface cone culling. Cones are tested against the camera position, not the light
+    const coneCull = cm.coneCulling && naniteCfg.allowHardwareBackfaceCull && !isShadow; // prettier-ignore
+    setFlag(FLAG_MESHLETS_CONE_CULLING, coneCull);
+
     // occlusion culling: skip if we don't have depth pyramid yet
-    let occlCull = naniteCfg.hasValidDepthPyramid && cm.occlusionCulling;
+    // depth pyramid is from the camera's POV, so no occlusion culling for shadows
+    const hasDepthPyramid = naniteCfg.hasValidDepthPyramid && !isShadow;
+    let occlCull = hasDepthPyramid && cm.occlusionCulling;
     setFlag(FLAG_OCCLUSION_CULLING, occlCull);
 
     // b3,4 - shading mode
@@ -209,7 +320,7 @@ export class RenderUniformsBuffer {
     flags = flags | (bits << 2);
 
     // instances culling
-    occlCull = naniteCfg.hasValidDepthPyramid && ci.occlusionCulling;
+    occlCull = hasDepthPyramid && ci.occlusionCulling;
     setFlag(FLAG_INSTANCES_FRUSTUM_CULLING, ci.frustumCulling);
     setFlag(FLAG_INSTANCES_OCCLUSION_CULLING, occlCull);
 
@@ -224,10 +335,20 @@ export class RenderUniformsBuffer {
     flags = flags | (bits << 12);
 
     // BILLBOARDS
-    setFlag(FLAG_FORCE_BILLBOARDS, imp.forceOnlyBillboards);
+    const drawBillboards = !isShadow && useImpostorBillboards();
+    setFlag(FLAG_FORCE_BILLBOARDS, imp.forceOnlyBillboards && drawBillboards);
     bits = Math.floor(imp.ditherStrength * 63);
     flags = flags | (bits << 17);
 
+    // nanite LOD
+    setFlag(FLAG_LEGACY_ERROR_METRIC, naniteCfg.errorMetric === 'legacy');
+
+    // triangles culling
+    const backfaceCull = ct.backfaceCulling && naniteCfg.allowHardwareBackfaceCull; // prettier-ignore
+    setFlag(FLAG_TRIANGLES_BACKFACE_CULLING, backfaceCull);
+    setFlag(FLAG_TRIANGLES_ZERO_AREA_CULLING, ct.zeroAreaCulling);
+    setFlag(FLAG_TRIANGLES_SMALL_CULLING, ct.smallPrimitiveCulling);
+
     return flags;
   }
 }
@@ -0,0 +1,244 @@
+import { Mat4, mat4, vec3 } from 'wgpu-matrix';
+import {
+  BindingsCache,
+  PIPELINE_DEPTH_STENCIL_ON,
+  PIPELINE_PRIMITIVE_TRIANGLE_LIST,
+  assignResourcesToBindings2,
+  createLabel,
+  labelPipeline,
+  labelShader,
+  useDepthStencilAttachment,
+} from '../_shared.ts';
+import { PassCtx } from '../passCtx.ts';
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
+import { getNaniteDrawables } from '../../scene/scene.ts';
+import { SHADER_CODE, SHADER_PARAMS } from './shadowMapPass.wgsl.ts';
+import { CONFIG, DEPTH_FORMAT } from '../../constants.ts';
+import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
+import { CullInstancesPass } from '../cullInstances/cullInstancesPass.ts';
+import { CullMeshletsPass } from '../cullMeshlets/cullMeshletsPass.ts';
+import { Frustum } from '../../utils/frustum.ts';
+import { Dimensions } from '../../utils/index.ts';
+import { Light, getShadowCastingLightIdx } from '../../scene/lights.ts';
+
+/** Everything the shading passes need to sample the shadow map */
+export interface ShadowMapInfo {
+  texture: GPUTextureView;
+  /** Comparison sampler */
+  sampler: GPUSampler;
+  /** Light's view projection matrix */
+  vpMatrix: Mat4;
+  /** Index into `Scene.lights`. -1 if the shadow map has no valid content */
+  lightIdx: number;
+}
+
+/** cached: prevent runtime memory alloc. */
+const tmpVec3 = vec3.create();
+const ORIGIN = vec3.create(0, 0, 0);
+const UP = vec3.create(0, 1, 0);
+const UP_ALT = vec3.create(1, 0, 0);
+
+/**
+ * Shadow map for a single directional light. Uses the same culling passes
+ * as the camera, but with the light's matrices and own LOD error threshold.
+ * Has to be rendered before the camera culling, as it overwrites the drawn lists.
+ */
+export class ShadowMapPass {
+  public static NAME: string = 'ShadowMapPass';
+
+  private readonly pipeline: GPURenderPipeline;
+  private readonly bindingsCache = new BindingsCache();
+  // separate instances, so the bind groups use the shadow uniforms
+  private readonly uniforms: RenderUniformsBuffer;
+  private readonly cullInstancesPass: CullInstancesPass;
+  private readonly cullMeshletsPass: CullMeshletsPass;
+  // light matrices
+  private readonly frustum = new Frustum();
+  private readonly viewMatrix = mat4.identity();
+  private readonly projMatrix = mat4.identity();
+  private readonly viewport: Dimensions;
+
+  public readonly shadowMap: ShadowMapInfo;
+
+  constructor(device: GPUDevice) {
+    const shaderModule = device.createShaderModule({
+      label: labelShader(ShadowMapPass),
+      code: SHADER_CODE(),
+    });
+
+    // depth only, no fragment shader
+    this.pipeline = device.createRenderPipeline({
+      label: labelPipeline(ShadowMapPass),
+      layout: 'auto',
+      vertex: {
+        module: shaderModule,
+        entryPoint: 'main_vs',
+        buffers: [],
+      },
+      primitive: PIPELINE_PRIMITIVE_TRIANGLE_LIST,
+      depthStencil: PIPELINE_DEPTH_STENCIL_ON,
+    });
+
+    this.uniforms = new RenderUniformsBuffer(device, 'shadow');
+    this.cullInstancesPass = new CullInstancesPass(device);
+    this.cullMeshletsPass = new CullMeshletsPass(device);
+
+    const size = CONFIG.shadows.mapSize;
+    this.viewport = { width: size, height: size };
+    const texture = device.createTexture({
+      label: createLabel(ShadowMapPass, `texture-${size}x${size}`),
+      size: [size, size],
+      format: DEPTH_FORMAT,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+    });
+    const sampler = device.createSampler({
+      label: createLabel(ShadowMapPass, 'sampler'),
+      compare: 'less',
+      magFilter: 'linear',
+      minFilter: 'linear',
+      addressModeU: 'clamp-to-edge',
+      addressModeV: 'clamp-to-edge',
+    });
+    this.shadowMap = {
+      texture: texture.createView(),
+      sampler,
+      vpMatrix: mat4.identity(),
+      lightIdx: -1,
+    };
+  }
+
+  /** Culling binds the camera's depth pyramid. Not used, but still has to be valid */
+  onViewportResize = () => {
+    this.cullInstancesPass.onViewportResize();
+    this.cullMeshletsPass.onViewportResize();
+  };
+
+  onSceneChanged = () => {
+    this.bindingsCache.clear();
+    this.cullInstancesPass.onSceneChanged();
+    this.cullMeshletsPass.onSceneChanged();
+    this.shadowMap.lightIdx = -1;
+  };
+
+  /**
+   * Calculate light matrices. Has to be done before the uniforms are written.
+   * Returns false if there is no light that casts shadows.
+   */
+  updateLight(ctx: PassCtx): boolean {
+    const { lights } = ctx.scene;
+    const lightIdx = getShadowCastingLightIdx(lights);
+    this.shadowMap.lightIdx = lightIdx;
+    if (lightIdx === -1) {
+      return false;
+    }
+
+    this.updateLightMatrices(ctx, lights[lightIdx]);
+    return true;
+  }
+
+  /** Fit the orthographic projection around the camera */
+  private updateLightMatrices(ctx: PassCtx, light: Light) {
+    const { distance, mapSize } = CONFIG.shadows;
+    const dir = vec3.normalize(light.position, tmpVec3);
+    const up = Math.abs(dir[1]) > 0.99 ? UP_ALT : UP;
+    mat4.lookAt(dir, ORIGIN, up, this.viewMatrix); // only rotation
+
+    // snap to texels, so the shadows do not shimmer when camera moves
+    const center = vec3.transformMat4(
+      ctx.cameraPositionWorldSpace,
+      this.viewMatrix,
+      tmpVec3
+    );
+    const texelSize = (2 * distance) / mapSize;
+    const x = Math.floor(center[0] / texelSize) * texelSize;
+    const y = Math.floor(center[1] / texelSize) * texelSize;
+
+    // Looks towards -Z. Leave more space towards the light for shadow casters
+    const near = -center[2] - 2 * distance;
+    const far = -center[2] + distance;
+    // prettier-ignore
+    mat4.ortho(x - distance, x + distance, y - distance, y + distance, near, far, this.projMatrix);
+
+    mat4.multiply(this.projMatrix, this.viewMatrix, this.shadowMap.vpMatrix);
+    this.frustum.update(this.shadowMap.vpMatrix);
+  }
+
+  cmdRenderShadowMap(ctx: PassCtx) {
+    const naniteObjects = getNaniteDrawables(ctx.scene);
+    const shadowCtx: PassCtx = {
+      ...ctx,
+      viewport: this.viewport,
+      vpMatrix: this.shadowMap.vpMatrix,
+      viewMatrix: this.viewMatrix,
+      projMatrix: this.projMatrix,
+      cameraFrustum: this.frustum,
+      // everything is hardware rasterized
+      softwareRasterizerEnabled: false,
+      globalUniforms: this.uniforms,
+    };
+    this.uniforms.update(shadowCtx);
+
+    for (let i = 0; i < naniteObjects.length; i++) {
+      const naniteObject = naniteObjects[i];
+      const loadOp: GPULoadOp = i == 0 ? 'clear' : 'load';
+
+      if (CONFIG.cullingInstances.enabled) {
+        this.cullInstancesPass.cmdCullInstances(shadowCtx, naniteObject);
+      }
+      this.cullMeshletsPass.cmdCullMeshlets(shadowCtx, naniteObject);
+      this.cmdDrawShadowCasters(shadowCtx, naniteObject, loadOp);
+    }
+  }
+
+  private cmdDrawShadowCasters(
+    ctx: PassCtx,
+    naniteObject: NaniteDrawable,
+    loadOp: GPULoadOp
+  ) {
+    const { cmdBuf, profiler } = ctx;
+
+    const renderPass = cmdBuf.beginRenderPass({
+      label: ShadowMapPass.NAME,
+      colorAttachments: [],
+      depthStencilAttachment: useDepthStencilAttachment(
+        this.shadowMap.texture,
+        loadOp
+      ),
+      timestampWrites: profiler?.createScopeGpu(ShadowMapPass.NAME),
+    });
+
+    const bindings = this.bindingsCache.getBindings(
+      naniteObject.name,
+      () => this.createBindings(ctx, naniteObject),
+      naniteObject.buffersVersion
+    );
+    renderPass.setPipeline(this.pipeline);
+    renderPass.setBindGroup(0, bindings);
+    naniteObject.buffers.cmdDrawMeshletsHardwareIndirect(renderPass);
+    renderPass.end();
+  }
+
+  private createBindings = (
+    { device }: PassCtx,
+    naniteObject: NaniteDrawable
+  ): GPUBindGroup => {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+
+    return assignResourcesToBindings2(
+      ShadowMapPass,
+      naniteObject.name,
+      device,
+      this.pipeline,
+      [
+        this.uniforms.createBindingDesc(b.renderUniforms),
+        buffers.bindMeshletData(b.meshlets),
+        buffers.bindDrawnMeshletsList(b.drawnMeshletIds),
+        naniteObject.bindInstanceTransforms(b.instancesTransforms),
+        buffers.bindVertexPositions(b.vertexPositions),
+        buffers.bindIndexBuffer(b.indexBuffer),
+      ]
+    );
+  };
+}
@@ -0,0 +1,59 @@
+import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
+import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
+import { BUFFER_MESHLET_DATA } from '../../scene/naniteBuffers/meshletsDataBuffer.ts';
+import { BUFFER_DRAWN_MESHLETS_LIST } from '../../scene/naniteBuffers/drawnMeshletsBuffer.ts';
+import { BUFFER_VERTEX_POSITIONS } from '../../scene/naniteBuffers/vertexPositionsBuffer.ts';
+import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
+import { BUFFER_INDEX_BUFFER } from '../../scene/naniteBuffers/index.ts';
+
+export const SHADER_PARAMS = {
+  bindings: {
+    renderUniforms: 0,
+    meshlets: 1,
+    drawnMeshletIds: 2,
+    instancesTransforms: 3,
+    vertexPositions: 4,
+    indexBuffer: 5,
+  },
+};
+
+///////////////////////////
+/// SHADER CODE
+/// Depth-only version of the hardware rasterizer.
+/// Uniforms contain the light's matrices.
+///////////////////////////
+const b = SHADER_PARAMS.bindings;
+
+export const SHADER_CODE = () => /* wgsl */ `
+
+${SHADER_SNIPPETS.GET_MVP_MAT}
+
+${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
+${BUFFER_MESHLET_DATA(b.meshlets)}
+${BUFFER_DRAWN_MESHLETS_LIST(b.drawnMeshletIds, 'read')}
+${BUFFER_VERTEX_POSITIONS(b.vertexPositions)}
+${BUFFER_INSTANCES(b.instancesTransforms)}
+${BUFFER_INDEX_BUFFER(b.indexBuffer)}
+
+const OUT_OF_SIGHT = 9999999.0;
+
+@vertex
+fn main_vs(
+  @builtin(vertex_index) inVertexIndex: u32, // [0, triangleCount * VERTS_IN_TRIANGLE]
+  @builtin(instance_index) inInstanceIndex: u32,
+) -> @builtin(position) vec4f {
+  let drawData: vec2u = _getMeshletHardwareDraw(inInstanceIndex); // .x - transformIdx, .y - meshletIdx
+  let meshlet = _meshlets[drawData.y];
+
+  // same as in 'RasterizeHwPass'
+  if (inVertexIndex >= meshlet.triangleCount * 3) {
+    return vec4f(OUT_OF_SIGHT, OUT_OF_SIGHT, OUT_OF_SIGHT, 1.0);
+  }
+
+  let modelMat = _getInstanceTransform(drawData.x);
+  let vertexIdx = _indexBuffer[meshlet.firstIndexOffset + inVertexIndex];
+  let vertexPos = _getVertexPosition(vertexIdx); // assumes .w=1
+  let mvpMatrix = getMVP_Mat(modelMat, _uniforms.viewMatrix, _uniforms.projMatrix);
+  return mvpMatrix * vertexPos;
+}
+`;
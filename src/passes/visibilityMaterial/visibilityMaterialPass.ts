@@ -0,0 +1,112 @@
+import { NaniteDrawable } from '../../scene/naniteObject.ts';
+import {
+  BindingsCache,
+  assignResourcesToBindings2,
+  getClearColorVec3,
+  labelPipeline,
+  labelShader,
+  useColorAttachment,
+} from '../_shared.ts';
+import { PassCtx } from '../passCtx.ts';
+import { getDiffuseTextureArray } from '../../scene/scene.ts';
+import { assertIsGPUTextureView } from '../../utils/webgpu.ts';
+import { cmdDrawFullscreenTriangle } from '../_shaderSnippets/fullscreenTriangle.wgsl.ts';
+import { SHADER_CODE, SHADER_PARAMS } from './visibilityMaterialPass.wgsl.ts';
+
+/**
+ * Visibility buffer mode. Shade pixels of a single drawable, based on
+ * what hardware and software rasterizers have written.
+ */
+export class VisibilityMaterialPass {
+  public static NAME: string = 'VisibilityMaterialPass';
+
+  private readonly pipeline: GPURenderPipeline;
+  private readonly bindingsCache = new BindingsCache();
+
+  constructor(device: GPUDevice, outTextureFormat: GPUTextureFormat) {
+    const shaderModule = device.createShaderModule({
+      label: labelShader(VisibilityMaterialPass),
+      code: SHADER_CODE(),
+    });
+
+    this.pipeline = device.createRenderPipeline({
+      label: labelPipeline(VisibilityMaterialPass),
+      layout: 'auto',
+      vertex: {
+        module: shaderModule,
+        entryPoint: 'main_vs',
+        buffers: [],
+      },
+      fragment: {
+        module: shaderModule,
+        entryPoint: 'main_fs',
+        targets: [{ format: outTextureFormat }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+
+  onViewportResize = () => this.bindingsCache.clear();
+
+  onSceneChanged = () => this.bindingsCache.clear();
+
+  cmdShadeVisibilityBuffer(
+    ctx: PassCtx,
+    naniteObject: NaniteDrawable,
+    loadOp: GPULoadOp
+  ) {
+    const { cmdBuf, profiler, hdrRenderTexture } = ctx;
+
+    // no depth test. Visibility buffer only has what was visible
+    const renderPass = cmdBuf.beginRenderPass({
+      label: VisibilityMaterialPass.NAME,
+      colorAttachments: [
+        useColorAttachment(hdrRenderTexture, getClearColorVec3(), loadOp),
+      ],
+      timestampWrites: profiler?.createScopeGpu(VisibilityMaterialPass.NAME),
+    });
+
+    const bindings = this.bindingsCache.getBindings(
+      naniteObject.name,
+      () => this.createBindings(ctx, naniteObject),
+      naniteObject.buffersVersion
+    );
+    renderPass.setPipeline(this.pipeline);
+    renderPass.setBindGroup(0, bindings);
+    cmdDrawFullscreenTriangle(renderPass);
+    renderPass.end();
+  }
+
+  private createBindings = (
+    { device, globalUniforms, scene, visibilityTexture, shadowMap }: PassCtx,
+    naniteObject: NaniteDrawable
+  ): GPUBindGroup => {
+    const b = SHADER_PARAMS.bindings;
+    const buffers = naniteObject.buffers;
+    const diffuseTextureView = getDiffuseTextureArray(scene, naniteObject);
+    assertIsGPUTextureView(diffuseTextureView);
+    assertIsGPUTextureView(visibilityTexture);
+
+    return assignResourcesToBindings2(
+      VisibilityMaterialPass,
+      naniteObject.name,
+      device,
+      this.pipeline,
+      [
+        globalUniforms.createBindingDesc(b.renderUniforms),
+        { binding: b.visibilityTexture, resource: visibilityTexture },
+        buffers.bindMeshletData(b.meshlets),
+        naniteObject.bindInstanceTransforms(b.instancesTransforms),
+        buffers.bindVertexPositions(b.vertexPositions),
+        buffers.bindVertexNormals(b.vertexNormals),
+        buffers.bindVertexUVs(b.vertexUV),
+        buffers.bindIndexBuffer(b.indexBuffer),
+        buffers.bindSceneObjects(b.sceneObjects),
+        { binding: b.diffuseTexture, resource: diffuseTextureView },
+        { binding: b.sampler, resource: scene.samplerLinear },
+        { binding: b.shadowMapTexture, resource: shadowMap.texture },
+        { binding: b.shadowMapSampler, resource: shadowMap.sampler },
+      ]
+    );
+  };
+}
@@ -0,0 +1,241 @@
+import * as SHADER_SNIPPETS from '../_shaderSnippets/shaderSnippets.wgls.ts';
+import { RenderUniformsBuffer } from '../renderUniformsBuffer.ts';
+import { BUFFER_MESHLET_DATA } from '../../scene/naniteBuffers/meshletsDataBuffer.ts';
+import { SNIPPET_SHADING_PBR } from '../_shaderSnippets/pbr.wgsl.ts';
+import { SNIPPET_SHADING } from '../_shaderSnippets/shading.wgsl.ts';
+import { SNIPPET_SHADOW_MAP } from '../_shaderSnippets/shadowMap.wgsl.ts';
+import {
+  SHADING_MODE_TRIANGLE,
+  SHADING_MODE_MESHLET,
+  SHADING_MODE_LOD_LEVEL,
+  SHADING_MODE_NORMALS,
+  SHADING_MODE_HW_SW_IMPOSTOR,
+} from '../../constants.ts';
+import { BUFFER_VERTEX_POSITIONS } from '../../scene/naniteBuffers/vertexPositionsBuffer.ts';
+import { BUFFER_VERTEX_NORMALS } from '../../scene/naniteBuffers/vertexNormalsBuffer.ts';
+import { BUFFER_VERTEX_UVS } from '../../scene/naniteBuffers/vertexUVsBuffer.ts';
+import { BUFFER_INSTANCES } from '../../scene/naniteBuffers/instancesBuffer.ts';
+import { BUFFER_INDEX_BUFFER } from '../../scene/naniteBuffers/index.ts';
+import { FULLSCREEN_TRIANGLE_POSITION } from '../_shaderSnippets/fullscreenTriangle.wgsl.ts';
+import { SNIPPET_VISIBILITY_BUFFER } from '../_shaderSnippets/visibilityBuffer.wgsl.ts';
+import { BUFFER_SCENE_OBJECTS } from '../../scene/naniteBuffers/sceneObjectsBuffer.ts';
+
+export const SHADER_PARAMS = {
+  bindings: {
+    renderUniforms: 0,
+    visibilityTexture: 1,
+    meshlets: 2,
+    instancesTransforms: 3,
+    vertexPositions: 4,
+    vertexNormals: 5,
+    vertexUV: 6,
+    indexBuffer: 7,
+    diffuseTexture: 8,
+    sampler: 9,
+    shadowMapTexture: 10,
+    shadowMapSampler: 11,
+    sceneObjects: 12,
+  },
+};
+
+///////////////////////////
+/// SHADER CODE
+/// Reconstruct the triangle from the visibility buffer and shade it.
+/// Same shading as in the hardware rasterizer, but for both rasterizers.
+///////////////////////////
+const b = SHADER_PARAMS.bindings;
+
+export const SHADER_CODE = () => /* wgsl */ `
+
+${FULLSCREEN_TRIANGLE_POSITION}
+${SHADER_SNIPPETS.GET_MVP_MAT}
+${SHADER_SNIPPETS.GET_RANDOM_COLOR}
+${SHADER_SNIPPETS.NORMALS_UTILS}
+${SHADER_SNIPPETS.FS_NORMAL_FROM_DERIVATIVES}
+${SNIPPET_SHADING_PBR}
+${SNIPPET_SHADING}
+${SNIPPET_VISIBILITY_BUFFER}
+
+${RenderUniformsBuffer.SHADER_SNIPPET(b.renderUniforms)}
+${BUFFER_MESHLET_DATA(b.meshlets)}
+${BUFFER_VERTEX_POSITIONS(b.vertexPositions)}
+${BUFFER_VERTEX_NORMALS(b.vertexNormals)}
+${BUFFER_VERTEX_UVS(b.vertexUV)}
+${BUFFER_INSTANCES(b.instancesTransforms)}
+${BUFFER_INDEX_BUFFER(b.indexBuffer)}
+${BUFFER_SCENE_OBJECTS(b.sceneObjects)}
+${SNIPPET_SHADOW_MAP(b.shadowMapTexture, b.shadowMapSampler)}
+
+@group(0) @binding(${b.visibilityTexture})
+var _visibilityTexture: texture_2d<u32>;
+
+@group(0) @binding(${b.diffuseTexture})
+var _diffuseTexture: texture_2d_array<f32>;
+
+@group(0) @binding(${b.sampler})
+var _sampler: sampler;
+
+
+@vertex
+fn main_vs(
+  @builtin(vertex_index) VertexIndex : u32
+) -> @builtin(position) vec4f {
+  return getFullscreenTrianglePosition(VertexIndex);
+}
+
+@fragment
+fn main_fs(
+  @builtin(position) positionPxF32: vec4<f32>
+) -> @location(0) vec4<f32> {
+  let visibilityRaw = textureLoad(_visibilityTexture, vec2u(positionPxF32.xy), 0).xy;
+  if (isVisibilityEmpty(visibilityRaw)) {
+    // not this object
+    discard;
+  }
+  let visibility = decodeVisibility(visibilityRaw);
+  let meshlet = _meshlets[visibility.meshletIdx];
+  let modelMat = _getInstanceTransform(visibility.tfxIdx);
+  let mvpMatrix = getMVP_Mat(modelMat, _uniforms.viewMatrix, _uniforms.projMatrix);
+
+  // fetch triangle
+  let indexOffset = meshlet.firstIndexOffset + visibility.triangleIdx * 3u;
+  let idx0 = _indexBuffer[indexOffset];
+  let idx1 = _indexBuffer[indexOffset + 1u];
+  let idx2 = _indexBuffer[indexOffset + 2u];
+  let pos0 = _getVertexPosition(idx0); // assumes .w=1
+  let pos1 = _getVertexPosition(idx1); // assumes .w=1
+  let pos2 = _getVertexPosition(idx2); // assumes .w=1
+
+  // barycentrics for this pixel
+  let viewportSize: vec2f = _uniforms.viewport.xy;
+  let pixelNDC = vec2f(
+    (positionPxF32.x / viewportSize.x) * 2.0 - 1.0,
+    1.0 - (positionPxF32.y / viewportSize.y) * 2.0 // WebGPU has Y down
+  );
+  let bary = calcBarycentrics(
+    mvpMatrix * pos0,
+    mvpMatrix * pos1,
+    mvpMatrix * pos2,
+    pixelNDC,
+    viewportSize
+  );
+
+  let shadingMode = getShadingMode(_uniforms.flags);
+  var color: vec3f;
+
+  if (shadingMode == ${SHADING_MODE_TRIANGLE}u) {
+    color = getRandomColor(visibility.triangleIdx * 3u); // same as hardware rasterizer
+  
+  } else if (shadingMode == ${SHADING_MODE_MESHLET}u) {
+    color = getRandomColor(visibility.meshletIdx);
+
+  } else if (shadingMode == ${SHADING_MODE_LOD_LEVEL}u) {
+    color = getRandomColor(meshlet.lodLevel);
+
+  } else if (shadingMode == ${SHADING_MODE_HW_SW_IMPOSTOR}u) {
+    color = select(vec3f(1., 0., 0.), vec3f(0., 1., 0.), visibility.isSoftwareRasterized);
+
+  } else {
+    let normalWS = normalize(interpolate(
+      bary.lambda,
+      transformNormalToWorldSpace(modelMat, _getVertexNormal(idx0)),
+      transformNormalToWorldSpace(modelMat, _getVertexNormal(idx1)),
+      transformNormalToWorldSpace(modelMat, _getVertexNormal(idx2))
+    ));
+
+    if (shadingMode == ${SHADING_MODE_NORMALS}u) {
+      color = abs(normalWS);
+
+    } else {
+      // uv with derivatives, so we get the same mipmap as with the hardware rasterizer
+      let uv0 = _getVertexUV(idx0);
+      let uv1 = _getVertexUV(idx1);
+      let uv2 = _getVertexUV(idx2);
+      let uv = interpolate2(bary.lambda, uv0, uv1, uv2);
+      let uvDdx = interpolate2(bary.ddx, uv0, uv1, uv2);
+      let uvDdy = interpolate2(bary.ddy, uv0, uv1, uv2);
+      let positionWS = modelMat * vec4f(interpolate(bary.lambda, pos0.xyz, pos1.xyz, pos2.xyz), 1.0);
+
+      let diffuseLayer = _getInstanceObject(visibility.tfxIdx).diffuseLayer;
+
+      var material: Material;
+      createDefaultMaterial(&material, positionWS);
+      material.normal = normalWS;
+      material.albedo = textureSampleGrad(_diffuseTexture, _sampler, uv, diffuseLayer, uvDdx, uvDdy).rgb;
+
+      // shading
+      color = doShading(material);
+    }
+  }
+
+  return vec4(color.xyz, 1.0);
+}
+
+
+///////////////////////////
+/// UTILS
+///////////////////////////
+
+struct Barycentrics {
+  lambda: vec3f,
+  /** Change of 'lambda' when moving 1px to the right */
+  ddx: vec3f,
+  /** Change of 'lambda' when moving 1px down */
+  ddy: vec3f,
+}
+
+/**
+ * Perspective-correct barycentrics (and their screen space derivatives) from the clip-space triangle.
+ * http://filmicworlds.com/blog/visibility-buffer-rendering-with-material-graphs/
+ * https://github.com/ConfettiFX/The-Forge/blob/9d43e69141a9cd0ce2ce2d2db5122234d3a2d5b5/Common_3/Renderer/VisibilityBuffer2/Shaders/FSL/vb_shading_utilities.h.fsl#L90
+ */
+fn calcBarycentrics(
+  pt0: vec4f,
+  pt1: vec4f,
+  pt2: vec4f,
+  pixelNDC: vec2f,
+  viewportSize: vec2f
+) -> Barycentrics {
+  var result: Barycentrics;
+  let invW = 1.0 / vec3f(pt0.w, pt1.w, pt2.w);
+  let ndc0 = pt0.xy * invW.x;
+  let ndc1 = pt1.xy * invW.y;
+  let ndc2 = pt2.xy * invW.z;
+
+  let invDet = 1.0 / determinant(mat2x2f(ndc2 - ndc1, ndc0 - ndc1));
+  var ddx = vec3f(ndc1.y - ndc2.y, ndc2.y - ndc0.y, ndc0.y - ndc1.y) * invDet * invW;
+  var ddy = vec3f(ndc2.x - ndc1.x, ndc0.x - ndc2.x, ndc1.x - ndc0.x) * invDet * invW;
+  var ddxSum = dot(ddx, vec3f(1.0));
+  var ddySum = dot(ddy, vec3f(1.0));
+
+  let deltaVec = pixelNDC - ndc0;
+  let interpInvW = invW.x + deltaVec.x * ddxSum + deltaVec.y * ddySum;
+  let interpW = 1.0 / interpInvW;
+  result.lambda = interpW * vec3f(
+    invW.x + deltaVec.x * ddx.x + deltaVec.y * ddy.x,
+    deltaVec.x * ddx.y + deltaVec.y * ddy.y,
+    deltaVec.x * ddx.z + deltaVec.y * ddy.z
+  );
+
+  // NDC -> pixels. Y is flipped
+  let pxToNDC = vec2f(2.0, -2.0) / viewportSize;
+  ddx *= pxToNDC.x;
+  ddy *= pxToNDC.y;
+  ddxSum *= pxToNDC.x;
+  ddySum *= pxToNDC.y;
+
+  let interpW_ddx = 1.0 / (interpInvW + ddxSum);
+  let interpW_ddy = 1.0 / (interpInvW + ddySum);
+  result.ddx = interpW_ddx * (result.lambda * interpInvW + ddx) - result.lambda;
+  result.ddy = interpW_ddy * (result.lambda * interpInvW + ddy) - result.lambda;
+  return result;
+}
+
+fn interpolate(bary: vec3f, v0: vec3f, v1: vec3f, v2: vec3f) -> vec3f {
+  return v0 * bary.x + v1 * bary.y + v2 * bary.z;
+}
+
+fn interpolate2(bary: vec3f, v0: vec2f, v1: vec2f, v2: vec2f) -> vec2f {
+  return v0 * bary.x + v1 * bary.y + v2 * bary.z;
+}
+`;
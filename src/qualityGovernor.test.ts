@@ -0,0 +1,84 @@
+import { assertAlmostEquals, assertEquals } from 'assert';
+import { CONFIG } from './constants.ts';
+import { QualityGovernor } from './qualityGovernor.ts';
+
+Deno.test('QualityGovernor', async (t) => {
+  const cfg = CONFIG.qualityGovernor;
+  const prevConfig = structuredClone(cfg);
+  const prevErrorThreshold = CONFIG.nanite.render.errorThreshold;
+  const prevSwThreshold = CONFIG.softwareRasterizer.threshold;
+  const prevBillboardThreshold = CONFIG.impostors.billboardThreshold;
+  cfg.enabled = true;
+  cfg.targetMs = 10;
+  cfg.hysteresis = 0.2;
+  cfg.adjustIntervalMs = 100;
+  cfg.step = 0.25;
+  cfg.errorThreshold = { min: 1, max: 5 };
+
+  /** Frames every 10ms, adjustment every 100ms */
+  const runFrames = (governor: QualityGovernor, frameMs: number, ts = 0) => {
+    for (let i = 0; i <= 10; i++) {
+      governor.onCpuFrame(frameMs, ts + i * 10);
+    }
+  };
+
+  await t.step('lowers quality when over the budget', () => {
+    const governor = new QualityGovernor(false);
+    runFrames(governor, 20);
+    assertEquals(governor.lastDecision, 'lowerQuality');
+    assertEquals(governor.level, 0.25);
+    assertAlmostEquals(governor.lastFrameMs, 20);
+    assertAlmostEquals(CONFIG.nanite.render.errorThreshold, 2);
+  });
+
+  await t.step('holds inside hysteresis band', () => {
+    const governor = new QualityGovernor(false);
+    governor.level = 0.5;
+    runFrames(governor, 11.5);
+    runFrames(governor, 8.5, 200);
+    assertEquals(governor.lastDecision, 'hold');
+    assertEquals(governor.level, 0.5);
+  });
+
+  await t.step('raises quality when under the budget', () => {
+    const governor = new QualityGovernor(false);
+    governor.level = 0.1;
+    runFrames(governor, 5);
+    assertEquals(governor.lastDecision, 'raiseQuality');
+    assertEquals(governor.level, 0);
+    assertAlmostEquals(CONFIG.nanite.render.errorThreshold, 1);
+  });
+
+  await t.step('uses GPU timings if available', () => {
+    const governor = new QualityGovernor(true);
+    assertEquals(governor.shouldProfileGpu(0), true);
+    assertEquals(governor.shouldProfileGpu(1), false);
+
+    runFrames(governor, 100); // ignored
+    governor.onGpuProfilerResult([['a', 12, 'gpu'], ['b', 8, 'gpu']], 0); // prettier-ignore
+    governor.onGpuProfilerResult([['a', 12, 'gpu'], ['b', 8, 'gpu']], 200); // prettier-ignore
+    assertEquals(governor.lastDecision, 'lowerQuality');
+    assertAlmostEquals(governor.lastFrameMs, 20);
+  });
+
+  await t.step('ignores CPU scopes in GPU timings', () => {
+    const governor = new QualityGovernor(true);
+    governor.onGpuProfilerResult([['a', 9, 'gpu'], ['VisibilityCheckCPU', 30, 'cpu']], 0); // prettier-ignore
+    governor.onGpuProfilerResult([['a', 9, 'gpu'], ['VisibilityCheckCPU', 30, 'cpu']], 200); // prettier-ignore
+    assertEquals(governor.lastDecision, 'hold');
+    assertAlmostEquals(governor.lastFrameMs, 9);
+  });
+
+  await t.step('does nothing if disabled', () => {
+    cfg.enabled = false;
+    const governor = new QualityGovernor(false);
+    runFrames(governor, 20);
+    assertEquals(governor.lastDecision, 'hold');
+    assertEquals(governor.level, 0);
+  });
+
+  Object.assign(cfg, prevConfig);
+  CONFIG.nanite.render.errorThreshold = prevErrorThreshold;
+  CONFIG.softwareRasterizer.threshold = prevSwThreshold;
+  CONFIG.impostors.billboardThreshold = prevBillboardThreshold;
+});
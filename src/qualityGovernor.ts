@@ -0,0 +1,135 @@
+import { CONFIG } from './constants.ts';
+import { GpuProfilerResult } from './gpuProfiler.ts';
+import { STATS } from './sys_web/stats.ts';
+import { clamp, lerp } from './utils/index.ts';
+
+export type QualityGovernorDecision = 'hold' | 'lowerQuality' | 'raiseQuality';
+
+/** Where the frame times come from */
+export type QualityGovernorSource = 'gpu' | 'cpu';
+
+/**
+ * Adjusts LOD error, software rasterizer and impostor thresholds to hit
+ * `CONFIG.qualityGovernor.targetMs`. All 3 thresholds are driven by a single
+ * `level`: 0 uses each `min` (best quality), 1 uses each `max` (fastest).
+ * Raising any of them makes the frame cheaper:
+ * - errorThreshold - coarser LODs,
+ * - softwareRasterizer.threshold - more meshlets in the software rasterizer,
+ * - impostors.billboardThreshold - more instances as billboards.
+ *
+ * Frame times are averaged between adjustments. Nothing changes while
+ * the average is within `targetMs * (1 ± hysteresis)`.
+ */
+export class QualityGovernor {
+  /** 0 - best quality, 1 - fastest */
+  public level = 0;
+  public lastDecision: QualityGovernorDecision = 'hold';
+  /** Average frame time used for the last decision */
+  public lastFrameMs = 0;
+  public readonly source: QualityGovernorSource;
+
+  private samplesMs: number[] = [];
+  private lastAdjustTimestamp: number | undefined = undefined;
+  private lastGpuSampleTimestamp = -Infinity;
+
+  /** @param hasGpuTimings is 'timestamp-query' available */
+  constructor(hasGpuTimings: boolean) {
+    this.source = hasGpuTimings ? 'gpu' : 'cpu';
+    this.updateStats();
+  }
+
+  /** Should we profile GPU this frame? Call once per frame. */
+  shouldProfileGpu(now: number) {
+    const cfg = CONFIG.qualityGovernor;
+    if (!cfg.enabled || this.source !== 'gpu') return false;
+
+    const profile = now - this.lastGpuSampleTimestamp >= cfg.gpuSampleIntervalMs; // prettier-ignore
+    if (profile) this.lastGpuSampleTimestamp = now;
+    return profile;
+  }
+
+  /** Sum of all GPU scopes is the GPU frame time. CPU scopes (e.g. 'VisibilityCheckCPU') are not part of it */
+  onGpuProfilerResult = (result: GpuProfilerResult, now: number) => {
+    if (this.source !== 'gpu') return;
+    const frameMs = result.reduce(
+      (acc, [_name, timeMs, type]) => (type === 'gpu' ? acc + timeMs : acc),
+      0
+    );
+    this.addSample(frameMs, now);
+  };
+
+  /**
+   * Call every frame. Without 'timestamp-query' we use the time between
+   * frames. It's capped by vsync, so set `targetMs` above the refresh interval.
+   */
+  onCpuFrame = (deltaTimeMS: number, now: number) => {
+    if (!CONFIG.qualityGovernor.enabled) {
+      this.samplesMs = [];
+      this.lastAdjustTimestamp = undefined;
+      this.updateStats();
+      return;
+    }
+    if (this.source === 'cpu') {
+      this.addSample(deltaTimeMS, now);
+    }
+  };
+
+  private addSample(frameMs: number, now: number) {
+    const cfg = CONFIG.qualityGovernor;
+    if (!cfg.enabled) return;
+
+    this.samplesMs.push(frameMs);
+    if (this.lastAdjustTimestamp === undefined) {
+      this.lastAdjustTimestamp = now; // just enabled
+      this.applyLevel();
+      return;
+    }
+    if (now - this.lastAdjustTimestamp < cfg.adjustIntervalMs) return;
+
+    const avgMs = this.samplesMs.reduce((acc, e) => acc + e, 0) / this.samplesMs.length; // prettier-ignore
+    this.samplesMs = [];
+    this.lastAdjustTimestamp = now;
+    this.lastFrameMs = avgMs;
+
+    this.lastDecision = getQualityGovernorDecision(avgMs);
+    if (this.lastDecision === 'lowerQuality') {
+      this.level = clamp(this.level + cfg.step, 0, 1);
+    } else if (this.lastDecision === 'raiseQuality') {
+      this.level = clamp(this.level - cfg.step, 0, 1);
+    }
+    this.applyLevel();
+  }
+
+  private applyLevel() {
+    const cfg = CONFIG.qualityGovernor;
+    const l = this.level;
+    const bounds = (b: { min: number; max: number }) => lerp(b.min, b.max, l);
+
+    CONFIG.nanite.render.errorThreshold = bounds(cfg.errorThreshold);
+    CONFIG.softwareRasterizer.threshold = bounds(cfg.softwareRasterizerThreshold); // prettier-ignore
+    CONFIG.impostors.billboardThreshold = bounds(cfg.billboardThreshold);
+    this.updateStats();
+  }
+
+  private updateStats() {
+    if (!CONFIG.qualityGovernor.enabled) {
+      STATS.update('Governor', 'off');
+      STATS.update('Governor frame', '-');
+      return;
+    }
+
+    const level = `${(this.level * 100).toFixed(0)}%`;
+    STATS.update('Governor', `${this.lastDecision} (level ${level})`);
+    const frameMs = this.lastFrameMs.toFixed(2);
+    STATS.update('Governor frame', `${frameMs}ms (${this.source.toUpperCase()})`); // prettier-ignore
+  }
+}
+
+export function getQualityGovernorDecision(
+  frameMs: number
+): QualityGovernorDecision {
+  const { targetMs, hysteresis } = CONFIG.qualityGovernor;
+  if (frameMs > targetMs * (1.0 + hysteresis)) return 'lowerQuality';
+  if (frameMs < targetMs * (1.0 - hysteresis)) return 'raiseQuality';
+  return 'hold';
+}
@@ -11,7 +11,11 @@ import {
   CONFIG,
   DEPTH_FORMAT,
   HDR_RENDER_TEX_FORMAT,
+  VISIBILITY_TEX_FORMAT,
   isSoftwareRasterizerEnabled,
+  useImpostorBillboards,
+  useShadowMap,
+  useTwoPassOcclusionCulling,
 } from './constants.ts';
 import { DrawNanitesPass } from './passes/naniteCpu/drawNanitesPass.ts';
 import { Camera } from './camera.ts';
@@ -21,7 +25,7 @@ import { DbgMeshoptimizerMeshletsPass } from './passes/debug/dbgMeshoptimizerMes
 import { RasterizeHwPass } from './passes/rasterizeHw/rasterizeHwPass.ts';
 import { CullMeshletsPass } from './passes/cullMeshlets/cullMeshletsPass.ts';
 import { GpuProfiler } from './gpuProfiler.ts';
-import { Scene } from './scene/scene.ts';
+import { Scene, getNaniteDrawables } from './scene/scene.ts';
 import { Frustum } from './utils/frustum.ts';
 import {
   assertIsGPUTextureView,
@@ -30,11 +34,19 @@ import {
 import { DepthPyramidPass } from './passes/depthPyramid/depthPyramidPass.ts';
 import { DepthPyramidDebugDrawPass } from './passes/depthPyramid/depthPyramidDebugDrawPass.ts';
 import { CullInstancesPass } from './passes/cullInstances/cullInstancesPass.ts';
+import { CullTrianglesPass } from './passes/cullTriangles/cullTrianglesPass.ts';
 import { NaniteBillboardPass } from './passes/naniteBillboard/naniteBillboardPass.ts';
 import { PresentPass } from './passes/presentPass/presentPass.ts';
 import { RasterizeSwPass } from './passes/rasterizeSw/rasterizeSwPass.ts';
 import { RasterizeCombine } from './passes/rasterizeCombine/rasterizeCombine.ts';
 import { DrawGroundPass } from './passes/drawGroundPass.ts';
+import { OcclusionCullingPhase } from './passes/_shaderSnippets/cullOcclusion.wgsl.ts';
+import { VisibilityMaterialPass } from './passes/visibilityMaterial/visibilityMaterialPass.ts';
+import { ShadowMapPass } from './passes/shadowMap/shadowMapPass.ts';
+import {
+  NaniteSceneBuffers,
+  canMergeObjects,
+} from './scene/naniteSceneBuffers/index.ts';
 
 export class Renderer {
   private readonly renderUniformBuffer: RenderUniformsBuffer;
@@ -44,12 +56,17 @@ export class Renderer {
   private readonly _viewMatrix = mat4.identity(); // cached to prevent allocs.
   public readonly viewportSize: Dimensions = { width: 0, height: 0 };
   private frameIdx = 0;
+  private wasCullingFrozen = false;
+  /** Were the current drawn lists created with triangle culling. Frozen culling keeps drawing them */
+  private hasCompactedIndices = false;
 
   // render target textures
   private depthTexture: GPUTexture = undefined!; // see this.handleViewportResize()
   private depthTextureView: GPUTextureView = undefined!; // see this.handleViewportResize()
   private hdrRenderTexture: GPUTexture = undefined!; // see this.handleViewportResize()
   private hdrRenderTextureView: GPUTextureView = undefined!; // see this.handleViewportResize()
+  private visibilityTexture: GPUTexture = undefined!; // see this.handleViewportResize()
+  private visibilityTextureView: GPUTextureView = undefined!; // see this.handleViewportResize()
 
   // passes
   private readonly drawMeshPass: DrawNanitesPass;
@@ -57,9 +74,12 @@ export class Renderer {
   private readonly rasterizeSwPass: RasterizeSwPass;
   private readonly cullMeshletsPass: CullMeshletsPass;
   private readonly cullInstancesPass: CullInstancesPass;
+  private readonly cullTrianglesPass: CullTrianglesPass;
   private readonly naniteBillboardPass: NaniteBillboardPass;
   private readonly rasterizeCombine: RasterizeCombine;
+  private readonly visibilityMaterialPass: VisibilityMaterialPass;
   private readonly drawGroundPass: DrawGroundPass;
+  private readonly shadowMapPass: ShadowMapPass;
   private readonly presentPass: PresentPass;
   // depth pyramid
   private readonly depthPyramidPass: DepthPyramidPass;
@@ -81,17 +101,23 @@ export class Renderer {
     this.rasterizeSwPass = new RasterizeSwPass(device);
     this.cullMeshletsPass = new CullMeshletsPass(device);
     this.cullInstancesPass = new CullInstancesPass(device);
+    this.cullTrianglesPass = new CullTrianglesPass(device);
     this.naniteBillboardPass = new NaniteBillboardPass(
       device,
       HDR_RENDER_TEX_FORMAT
     );
     this.rasterizeCombine = new RasterizeCombine(device, HDR_RENDER_TEX_FORMAT);
+    this.visibilityMaterialPass = new VisibilityMaterialPass(
+      device,
+      HDR_RENDER_TEX_FORMAT
+    );
     this.depthPyramidPass = new DepthPyramidPass(device);
     this.depthPyramidDebugDrawPass = new DepthPyramidDebugDrawPass(
       device,
       HDR_RENDER_TEX_FORMAT
     );
     this.drawGroundPass = new DrawGroundPass(HDR_RENDER_TEX_FORMAT);
+    this.shadowMapPass = new ShadowMapPass(device);
     this.presentPass = new PresentPass(device, preferredCanvasFormat);
 
     // geometry debug passes
@@ -123,6 +149,11 @@ export class Renderer {
   ) {
     assertIsGPUTextureView(screenTexture);
 
+    // send instances added/removed/moved since the last frame.
+    // Has to be before any bind groups are created, as it can reallocate buffers
+    scene.naniteObjects.forEach((o) => o.instances.uploadChanges());
+    this.updateMergedBuffers(cmdBuf, scene);
+
     const viewMatrix = this.cameraCtrl.viewMatrix;
     const vpMatrix = getViewProjectionMatrix(
       viewMatrix,
@@ -142,7 +173,11 @@ export class Renderer {
       viewport: this.viewportSize,
       scene,
       hdrRenderTexture: this.hdrRenderTextureView,
+      visibilityTexture: this.visibilityTextureView,
       rasterizerSwResult: this.rasterizeSwPass.resultBuffer,
+      rasterizerSwNormals: this.rasterizeSwPass.normalsBuffer,
+      rasterizerSwVisibility: this.rasterizeSwPass.visibilityBuffer,
+      compactedIndexBuffer: this.cullTrianglesPass.compactedIndexBuffer,
       softwareRasterizerEnabled: isSoftwareRasterizerEnabled(),
       device: this.device,
       profiler: this.profiler,
@@ -155,8 +190,17 @@ export class Renderer {
       prevFrameDepthPyramidTexture: depthPyramidTexView,
       globalUniforms: this.renderUniformBuffer,
       depthPyramidSampler: this.depthPyramidPass.depthSampler,
+      shadowMap: this.shadowMapPass.shadowMap,
     };
 
+    // Frozen culling reuses the drawn lists, shadow map would overwrite them.
+    // Light matrices have to be known before the uniforms are written.
+    const updateShadowMap =
+      CONFIG.displayMode === 'nanite' &&
+      useShadowMap() &&
+      !CONFIG.nanite.render.freezeGPU_Visibilty &&
+      this.shadowMapPass.updateLight(ctx);
+
     this.renderUniformBuffer.update(ctx);
 
     if (CONFIG.displayMode === 'dbg-lod') {
@@ -169,7 +213,7 @@ export class Renderer {
     } else {
       // draw nanite - calc visibility either CPU or GPU
       if (CONFIG.nanite.render.naniteDevice === 'gpu') {
-        this.cmdDrawNanite_GPU(ctx);
+        this.cmdDrawNanite_GPU(ctx, updateShadowMap);
       } else {
         this.cmdDrawNanite_CPU(ctx);
       }
@@ -201,61 +245,154 @@ export class Renderer {
     this.drawMeshPass.uploadFrameStats(ctx);
   }
 
-  private cmdDrawNanite_GPU(ctx: PassCtx) {
-    const { naniteObjects } = ctx.scene;
+  private cmdDrawNanite_GPU(ctx: PassCtx, updateShadowMap: boolean) {
     const softwareRasterizeEnabled = ctx.softwareRasterizerEnabled;
 
+    // Two-pass culling splits the drawn lists between phases. The frame when
+    // culling gets frozen runs a single pass, so the frozen lists contain everything.
+    const isFrozen = CONFIG.nanite.render.freezeGPU_Visibilty;
+    const runCulling = !isFrozen || !this.wasCullingFrozen;
+    this.wasCullingFrozen = isFrozen;
+    if (runCulling) {
+      this.hasCompactedIndices = CONFIG.cullingTriangles.enabled;
+    }
+    const twoPass = !isFrozen && useTwoPassOcclusionCulling();
+
+    // uses the same culling passes, so it has to be before the camera's culling
+    if (updateShadowMap) {
+      this.shadowMapPass.cmdRenderShadowMap(ctx);
+    }
+
     if (softwareRasterizeEnabled) {
       this.rasterizeSwPass.clearFramebuffer(ctx);
     }
 
-    // draw objects
+    if (twoPass) {
+      this.cmdDrawNaniteObjects(ctx, 'phase1', runCulling);
+      this.cmdCreateDepthPyramid(ctx);
+      this.cmdDrawNaniteObjects(ctx, 'phase2', runCulling);
+    } else {
+      this.cmdDrawNaniteObjects(ctx, 'single', runCulling);
+    }
+
+    // draw ground
+    if (CONFIG.drawGround) {
+      this.drawGroundPass.cmdDrawGround(ctx, 'load');
+    }
+
+    // depth pyramid for the next frame
+    if (!twoPass) {
+      this.cmdCreateDepthPyramid(ctx);
+    }
+
+    if (CONFIG.displayMode === 'dbg-depth-pyramid') {
+      this.depthPyramidDebugDrawPass.cmdDraw(ctx);
+    }
+  }
+
+  /** Each drawable is either all objects merged (see `NaniteSceneBuffers`), or a single object */
+  private cmdDrawNaniteObjects(
+    ctx: PassCtx,
+    phase: OcclusionCullingPhase,
+    runCulling: boolean
+  ) {
+    const naniteObjects = getNaniteDrawables(ctx.scene);
+    const softwareRasterizeEnabled = ctx.softwareRasterizerEnabled;
+    const useVisibilityBuffer = CONFIG.nanite.render.useVisibilityBuffer;
+    const cullTriangles = runCulling && this.hasCompactedIndices;
+
+    if (cullTriangles) {
+      this.cullTrianglesPass.cmdClearCompactedIndices(ctx);
+    }
+
     for (let i = 0; i < naniteObjects.length; i++) {
       const naniteObject = naniteObjects[i];
-      const loadOp: GPULoadOp = i == 0 ? 'clear' : 'load';
+      const loadOp: GPULoadOp = i == 0 && phase !== 'phase2' ? 'clear' : 'load'; // prettier-ignore
 
-      if (!CONFIG.nanite.render.freezeGPU_Visibilty) {
+      if (runCulling) {
         if (CONFIG.cullingInstances.enabled) {
-          this.cullInstancesPass.cmdCullInstances(ctx, naniteObject);
+          this.cullInstancesPass.cmdCullInstances(ctx, naniteObject, phase);
+        }
+        this.cullMeshletsPass.cmdCullMeshlets(ctx, naniteObject, phase);
+        if (cullTriangles) {
+          this.cullTrianglesPass.cmdCullTriangles(ctx, naniteObject);
         }
-        this.cullMeshletsPass.cmdCullMeshlets(ctx, naniteObject);
       }
 
       // draw: hardware
-      this.rasterizeHwPass.cmdHardwareRasterize(ctx, naniteObject, loadOp);
+      this.rasterizeHwPass.cmdHardwareRasterize(
+        ctx,
+        [naniteObject],
+        loadOp,
+        this.hasCompactedIndices
+      );
 
       // draw: software
       if (softwareRasterizeEnabled) {
-        this.rasterizeSwPass.cmdSoftwareRasterize(ctx, naniteObject);
+        this.rasterizeSwPass.cmdSoftwareRasterize(ctx, [naniteObject]);
+      }
+
+      // shade: visibility buffer contains only this drawable
+      if (useVisibilityBuffer) {
+        if (softwareRasterizeEnabled) {
+          this.rasterizeCombine.cmdCombineRasterResults(ctx);
+        }
+        this.visibilityMaterialPass.cmdShadeVisibilityBuffer(
+          ctx,
+          naniteObject,
+          loadOp
+        );
       }
 
       // draw: impostors
-      if (CONFIG.cullingInstances.enabled) {
-        this.naniteBillboardPass.cmdRenderBillboards(ctx, naniteObject, 'load');
+      if (useImpostorBillboards()) {
+        this.naniteBillboardPass.cmdRenderBillboards(ctx, [naniteObject], 'load'); // prettier-ignore
       }
     }
 
     // combine hardware + software rasterizer results
-    if (softwareRasterizeEnabled) {
+    if (softwareRasterizeEnabled && !useVisibilityBuffer) {
       this.rasterizeCombine.cmdCombineRasterResults(ctx);
     }
+  }
 
-    // draw ground
-    if (CONFIG.drawGround) {
-      this.drawGroundPass.cmdDrawGround(ctx, 'load');
+  /**
+   * Create, recreate or drop the merged buffers, see `CONFIG.nanite.render.mergeObjects`.
+   * Then copy the instance transforms that have changed.
+   */
+  private updateMergedBuffers(cmdBuf: GPUCommandEncoder, scene: Scene) {
+    const { naniteObjects } = scene;
+    const merge = CONFIG.nanite.render.mergeObjects;
+
+    const isOutdated =
+      !merge || !scene.mergedBuffers?.isUpToDate(naniteObjects);
+    if (scene.mergedBuffers && isOutdated) {
+      scene.mergedBuffers.dispose();
+      scene.mergedBuffers = undefined;
+    }
+    // eligibility only changes with the objects, which also outdates the merged buffers
+    if (
+      merge &&
+      !scene.mergedBuffers &&
+      canMergeObjects(this.device, naniteObjects)
+    ) {
+      scene.mergedBuffers = new NaniteSceneBuffers(
+        this.device,
+        naniteObjects,
+        scene.fallbackDiffuseTexture
+      );
     }
 
-    // depth pyramid
+    scene.mergedBuffers?.cmdCopyInstanceTransforms(cmdBuf);
+  }
+
+  private cmdCreateDepthPyramid(ctx: PassCtx) {
     const pyramidOk = this.depthPyramidPass.cmdCreateDepthPyramid(
       ctx,
       this.depthTexture,
       this.depthTextureView
     );
     CONFIG.nanite.render.hasValidDepthPyramid = pyramidOk;
-
-    if (CONFIG.displayMode === 'dbg-depth-pyramid') {
-      this.depthPyramidDebugDrawPass.cmdDraw(ctx);
-    }
   }
 
   private handleViewportResize = (viewportSize: Dimensions) => {
@@ -274,6 +411,9 @@ export class Renderer {
     if (this.hdrRenderTexture) {
       this.hdrRenderTexture.destroy();
     }
+    if (this.visibilityTexture) {
+      this.visibilityTexture.destroy();
+    }
 
     const vpStr = `${viewportSize.width}x${viewportSize.height}`;
 
@@ -286,6 +426,15 @@ export class Renderer {
     });
     this.hdrRenderTextureView = this.hdrRenderTexture.createView();
 
+    this.visibilityTexture = this.device.createTexture({
+      label: `visibility-texture-${vpStr}`,
+      size: [viewportSize.width, viewportSize.height],
+      format: VISIBILITY_TEX_FORMAT,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+    });
+    this.visibilityTextureView = this.visibilityTexture.createView();
+
     this.depthTexture = this.device.createTexture({
       label: `depth-texture-${vpStr}`,
       size: [viewportSize.width, viewportSize.height],
@@ -307,8 +456,26 @@ export class Renderer {
       true
     );
     this.rasterizeCombine.onViewportResize();
+    this.visibilityMaterialPass.onViewportResize();
+    this.shadowMapPass.onViewportResize();
     this.presentPass.onViewportResize();
   };
 
   onCanvasResize = debounce(this.handleViewportResize, 500);
+
+  /** Bind groups are cached per object name. New scene can reuse the names */
+  onSceneChanged = () => {
+    CONFIG.nanite.render.hasValidDepthPyramid = false;
+
+    this.drawMeshPass.onSceneChanged();
+    this.rasterizeHwPass.onSceneChanged();
+    this.rasterizeSwPass.onSceneChanged();
+    this.visibilityMaterialPass.onSceneChanged();
+    this.cullMeshletsPass.onSceneChanged();
+    this.cullInstancesPass.onSceneChanged();
+    this.cullTrianglesPass.onSceneChanged();
+    this.naniteBillboardPass.onSceneChanged();
+    this.drawGroundPass.onSceneChanged();
+    this.shadowMapPass.onSceneChanged();
+  };
 }
@@ -10,6 +10,13 @@ export interface GPUOriginalMesh {
   indexBuffer: GPUBuffer;
 }
 
+export function disposeOriginalMesh(mesh: GPUOriginalMesh) {
+  mesh.vertexBuffer.destroy();
+  mesh.normalsBuffer.destroy();
+  mesh.uvBuffer.destroy();
+  mesh.indexBuffer.destroy();
+}
+
 export const VERTEX_ATTRIBUTE_POSITION: GPUVertexBufferLayout = {
   attributes: [
     {
@@ -0,0 +1,215 @@
+import { assertEquals, assertRejects } from 'assert';
+import { assertSameArray } from '../sys_deno/testUtils.ts';
+import { GltfError, loadGltfFile } from './gltfLoader.ts';
+import { splitVerticesWithAttributesIntoSeparateLists } from './objLoader.ts';
+
+// prettier-ignore
+const TRIANGLE = [
+  0, 0, 0,
+  1, 0, 0,
+  0, 1, 0,
+];
+
+/** Concatenate arrays into a single buffer, each part aligned to 4 bytes */
+function createBuffer(parts: Array<Float32Array | Uint16Array | Uint8Array>) {
+  const offsets: number[] = [];
+  let byteLength = 0;
+  parts.forEach((p) => {
+    offsets.push(byteLength);
+    byteLength += Math.ceil(p.byteLength / 4) * 4;
+  });
+
+  const bytes = new Uint8Array(byteLength);
+  parts.forEach((p, i) => {
+    bytes.set(new Uint8Array(p.buffer, p.byteOffset, p.byteLength), offsets[i]);
+  });
+  const bufferViews = parts.map((p, i) => ({
+    buffer: 0,
+    byteOffset: offsets[i],
+    byteLength: p.byteLength,
+  }));
+  return { bytes, bufferViews };
+}
+
+function toDataUri(bytes: Uint8Array) {
+  const binary = Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+  return `data:application/octet-stream;base64,${btoa(binary)}`;
+}
+
+function createGlb(json: object, bin: Uint8Array) {
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+  const binLength = Math.ceil(bin.length / 4) * 4;
+  const totalLength = 12 + 8 + jsonLength + 8 + binLength;
+
+  const result = new Uint8Array(totalLength);
+  const view = new DataView(result.buffer);
+  view.setUint32(0, 0x46546c67, true); // 'glTF'
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, 0x4e4f534a, true); // JSON
+  result.fill(0x20, 20, 20 + jsonLength); // pad with spaces
+  result.set(jsonBytes, 20);
+  const binStart = 20 + jsonLength;
+  view.setUint32(binStart, binLength, true);
+  view.setUint32(binStart + 4, 0x004e4942, true); // BIN
+  result.set(bin, binStart + 8);
+  return result.buffer;
+}
+
+Deno.test('gltfLoader :: merges primitives with node transforms', async () => {
+  const { bytes, bufferViews } = createBuffer([
+    new Float32Array(TRIANGLE), // 0: mesh 0 positions
+    new Uint16Array([0, 1, 2]), // 1: mesh 0 indices
+    new Float32Array(TRIANGLE), // 2: mesh 1 positions
+    new Float32Array([1, 0, 0, 1, 0, 0, 1, 0, 0]), // 3: mesh 1 normals
+    new Float32Array([0, 0, 1.5, 0, -0.25, 1]), // 4: mesh 1 uv
+  ]);
+  const vec3Accessor = (bufferView: number) => ({
+    bufferView,
+    componentType: 5126,
+    count: 3,
+    type: 'VEC3',
+  });
+  const json = {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [
+      { mesh: 0, translation: [2, 0, 0], children: [1] },
+      { mesh: 1, scale: [1, 3, 1] },
+    ],
+    meshes: [
+      { primitives: [{ attributes: { POSITION: 0 }, indices: 1 }] },
+      {
+        primitives: [
+          { attributes: { POSITION: 2, NORMAL: 3, TEXCOORD_0: 4 } },
+          // not triangles, skipped
+          { attributes: { POSITION: 2 }, mode: 1 },
+        ],
+      },
+    ],
+    accessors: [
+      vec3Accessor(0),
+      { bufferView: 1, componentType: 5123, count: 3, type: 'SCALAR' },
+      vec3Accessor(2),
+      vec3Accessor(3),
+      { bufferView: 4, componentType: 5126, count: 3, type: 'VEC2' },
+    ],
+    bufferViews,
+    buffers: [{ byteLength: bytes.length, uri: toDataUri(bytes) }],
+  };
+  const file = new TextEncoder().encode(JSON.stringify(json));
+
+  const { rawMesh, baseColorTexture } = await loadGltfFile(
+    file.buffer,
+    'models/test.gltf',
+    2.0
+  );
+
+  assertEquals(baseColorTexture, undefined);
+  assertEquals(rawMesh.vertexCount, 6);
+  assertSameArray(rawMesh.indices, [0, 1, 2, 3, 4, 5]);
+
+  const attrs = splitVerticesWithAttributesIntoSeparateLists(
+    rawMesh.verticesAndAttributes
+  );
+  // prettier-ignore
+  assertSameArray(attrs.positions, [
+    4, 0, 0,  6, 0, 0,  4, 2, 0, // translated
+    4, 0, 0,  6, 0, 0,  4, 6, 0, // translated and scaled by the parent
+  ]);
+  // prettier-ignore
+  assertSameArray(attrs.normals, [
+    0, 0, 1,  0, 0, 1,  0, 0, 1, // generated
+    1, 0, 0,  1, 0, 0,  1, 0, 0,
+  ]);
+  // prettier-ignore
+  assertSameArray(attrs.uv, [
+    0.5, 0.5,  0.5, 0.5,  0.5, 0.5, // no UVs
+    0, 0,  0.5, 0,  0.75, 1, // wrapped to [0, 1]
+  ]);
+});
+
+Deno.test('gltfLoader :: reads GLB with embedded texture', async () => {
+  const imageBytes = new Uint8Array([137, 80, 78, 71, 1, 2, 3]);
+  const { bytes, bufferViews } = createBuffer([
+    new Float32Array(TRIANGLE),
+    new Uint8Array([0, 0, 255, 0, 0, 255]), // normalized uv
+    imageBytes,
+  ]);
+  const json = {
+    asset: { version: '2.0' },
+    nodes: [{ mesh: 0 }],
+    meshes: [
+      {
+        primitives: [
+          { attributes: { POSITION: 0, TEXCOORD_0: 1 }, material: 0 },
+        ],
+      },
+    ],
+    materials: [{ pbrMetallicRoughness: { baseColorTexture: { index: 0 } } }],
+    textures: [{ source: 0 }],
+    images: [{ bufferView: 2, mimeType: 'image/png' }],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: 3, type: 'VEC3' },
+      {
+        bufferView: 1,
+        componentType: 5121,
+        normalized: true,
+        count: 3,
+        type: 'VEC2',
+      },
+    ],
+    bufferViews,
+    buffers: [{ byteLength: bytes.length }],
+  };
+
+  const { rawMesh, baseColorTexture } = await loadGltfFile(
+    createGlb(json, bytes),
+    'models/test.glb',
+    1.0
+  );
+
+  assertEquals(rawMesh.vertexCount, 3);
+  const attrs = splitVerticesWithAttributesIntoSeparateLists(
+    rawMesh.verticesAndAttributes
+  );
+  assertSameArray(attrs.uv, [0, 0, 1, 0, 0, 1]);
+
+  if (baseColorTexture?.type !== 'embedded') {
+    throw new Error(`Expected embedded texture, got ${baseColorTexture?.type}`);
+  }
+  assertEquals(baseColorTexture.mimeType, 'image/png');
+  assertEquals(Array.from(baseColorTexture.data), Array.from(imageBytes));
+});
+
+Deno.test('gltfLoader :: rejects glTF 1.0', async () => {
+  const json = { asset: { version: '1.0' } };
+  const file = new TextEncoder().encode(JSON.stringify(json));
+
+  await assertRejects(
+    () => loadGltfFile(file.buffer, 'models/test.gltf', 1.0),
+    GltfError,
+    'glTF 2.0'
+  );
+});
+
+Deno.test('gltfLoader :: rejects buffer view past the buffer', async () => {
+  const { bytes, bufferViews } = createBuffer([new Float32Array(TRIANGLE)]);
+  const json = {
+    asset: { version: '2.0' },
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3' }],
+    bufferViews: [{ ...bufferViews[0], byteOffset: 4 }],
+    buffers: [{ byteLength: bytes.length }],
+  };
+
+  await assertRejects(
+    () => loadGltfFile(createGlb(json, bytes), 'models/test.glb', 1.0),
+    GltfError,
+    'Buffer view 0'
+  );
+});
@@ -0,0 +1,609 @@
+import { Mat4, mat4, vec3 } from 'wgpu-matrix';
+import { CONFIG } from '../constants.ts';
+import { TextureSource } from './load/types.ts';
+import {
+  RawMeshData,
+  calcVertexNormals,
+  createRawMeshData,
+} from './objLoader.ts';
+
+/**
+ * glTF 2.0 loader. Supports both '.gltf' (with external or data URI buffers)
+ * and '.glb'. All triangle primitives of the default scene are merged into
+ * a single mesh, with node transforms applied.
+ *
+ * https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html
+ */
+
+export class GltfError extends Error {
+  constructor(msg: string) {
+    super(`Invalid glTF file. ${msg}`);
+  }
+}
+
+export const isGltfFile = (path: string) => /\.(gltf|glb)$/i.test(path);
+
+export interface LoadedGltf {
+  rawMesh: RawMeshData;
+  /** Base color texture of the first textured material */
+  baseColorTexture: TextureSource | undefined;
+}
+
+/** glTF parse is cheap, but may need to read other files. Do it on the main thread. */
+export async function loadGltfFile(
+  fileContent: ArrayBuffer,
+  filePath: string,
+  scale: number
+): Promise<LoadedGltf> {
+  const { json, binChunk } = parseContainer(fileContent);
+  if (!json.asset?.version?.startsWith('2.')) {
+    throw new GltfError(`Only glTF 2.0 is supported, got '${json.asset?.version}'`); // prettier-ignore
+  }
+
+  const ctx: GltfContext = {
+    json,
+    filePath,
+    buffers: await Promise.all(
+      (json.buffers || []).map((b, idx) =>
+        loadBuffer(b, idx, filePath, binChunk)
+      )
+    ),
+  };
+  validateBufferViews(ctx);
+
+  const primitives = listScenePrimitives(json);
+  if (primitives.length === 0) {
+    throw new GltfError(`No triangle primitives found in '${filePath}'`);
+  }
+
+  const meshParts = primitives.map((p) => readPrimitive(ctx, p, scale));
+  return {
+    rawMesh: mergeMeshParts(meshParts),
+    baseColorTexture: getBaseColorTexture(ctx, primitives),
+  };
+}
+
+///////////////////////////
+/// glTF JSON
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+const GLB_HEADER_BYTES = 12;
+const GLB_CHUNK_HEADER_BYTES = 8;
+
+const PRIMITIVE_MODE_TRIANGLES = 4;
+
+interface GltfJson {
+  asset: { version: string };
+  scene?: number;
+  scenes?: Array<{ nodes?: number[] }>;
+  nodes?: GltfNode[];
+  meshes?: Array<{ primitives: GltfPrimitive[] }>;
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: GltfBuffer[];
+  materials?: GltfMaterial[];
+  textures?: Array<{ source?: number }>;
+  images?: GltfImage[];
+}
+
+interface GltfNode {
+  children?: number[];
+  mesh?: number;
+  matrix?: number[];
+  translation?: [number, number, number];
+  rotation?: [number, number, number, number];
+  scale?: [number, number, number];
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number | undefined>;
+  indices?: number;
+  material?: number;
+  mode?: number;
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: keyof typeof COMPONENTS_PER_TYPE;
+  sparse?: unknown;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfBuffer {
+  uri?: string;
+  byteLength: number;
+}
+
+interface GltfMaterial {
+  pbrMetallicRoughness?: {
+    baseColorTexture?: { index: number; texCoord?: number };
+  };
+}
+
+interface GltfImage {
+  uri?: string;
+  bufferView?: number;
+  mimeType?: string;
+}
+
+interface GltfContext {
+  json: GltfJson;
+  filePath: string;
+  buffers: ArrayBuffer[];
+}
+
+/** Primitive with it's world transform */
+interface ScenePrimitive {
+  primitive: GltfPrimitive;
+  matrix: Mat4;
+}
+
+function parseContainer(fileContent: ArrayBuffer): {
+  json: GltfJson;
+  binChunk: ArrayBuffer | undefined;
+} {
+  const view = new DataView(fileContent);
+  const isGlb =
+    fileContent.byteLength >= GLB_HEADER_BYTES &&
+    view.getUint32(0, true) === GLB_MAGIC;
+  if (!isGlb) {
+    return { json: parseJson(fileContent), binChunk: undefined };
+  }
+
+  const version = view.getUint32(4, true);
+  if (version !== 2) {
+    throw new GltfError(`Unsupported GLB container version ${version}`);
+  }
+
+  let json: GltfJson | undefined = undefined;
+  let binChunk: ArrayBuffer | undefined = undefined;
+  const length = Math.min(view.getUint32(8, true), fileContent.byteLength);
+  let offset = GLB_HEADER_BYTES;
+  while (offset + GLB_CHUNK_HEADER_BYTES <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + GLB_CHUNK_HEADER_BYTES;
+    if (start + chunkLength > length) {
+      throw new GltfError(`GLB chunk at offset ${offset} is out of bounds`);
+    }
+    const chunk = fileContent.slice(start, start + chunkLength);
+    if (chunkType === GLB_CHUNK_JSON) {
+      json = parseJson(chunk);
+    } else if (chunkType === GLB_CHUNK_BIN && binChunk === undefined) {
+      binChunk = chunk;
+    }
+    offset = start + chunkLength;
+  }
+
+  if (!json) {
+    throw new GltfError(`GLB file does not have a JSON chunk`);
+  }
+  return { json, binChunk };
+}
+
+function parseJson(bytes: ArrayBuffer): GltfJson {
+  const text = new TextDecoder().decode(bytes);
+  return JSON.parse(text);
+}
+
+async function loadBuffer(
+  buffer: GltfBuffer,
+  idx: number,
+  filePath: string,
+  binChunk: ArrayBuffer | undefined
+): Promise<ArrayBuffer> {
+  let data: ArrayBuffer;
+  if (buffer.uri === undefined) {
+    if (idx !== 0 || binChunk === undefined) {
+      throw new GltfError(`Buffer ${idx} has no uri and there is no GLB binary chunk`); // prettier-ignore
+    }
+    data = binChunk;
+  } else if (buffer.uri.startsWith('data:')) {
+    data = decodeDataUri(buffer.uri).data.buffer;
+  } else {
+    data = await CONFIG.loaders.binaryFileReader(
+      resolveUri(filePath, buffer.uri)
+    );
+  }
+
+  if (data.byteLength < buffer.byteLength) {
+    throw new GltfError(`Buffer ${idx} has ${data.byteLength} bytes, expected ${buffer.byteLength}`); // prettier-ignore
+  }
+  return data;
+}
+
+/** Readers of accessors and images can then slice the buffers without range checks */
+function validateBufferViews(ctx: GltfContext) {
+  (ctx.json.bufferViews || []).forEach((bufferView, idx) => {
+    const buffer = ctx.buffers[bufferView.buffer];
+    if (!buffer) return; // reported by the users of the buffer view
+
+    const end = (bufferView.byteOffset || 0) + bufferView.byteLength;
+    if (end > buffer.byteLength) {
+      throw new GltfError(`Buffer view ${idx} ends at byte ${end}, but buffer ${bufferView.buffer} has ${buffer.byteLength} bytes`); // prettier-ignore
+    }
+  });
+}
+
+function decodeDataUri(uri: string) {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(uri);
+  if (!match || !match[2]) {
+    throw new GltfError(`Only base64 data URIs are supported`);
+  }
+  const binary = atob(match[3]);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return { mimeType: match[1], data };
+}
+
+/** External files are relative to the glTF file */
+function resolveUri(filePath: string, uri: string) {
+  const dirEnd = filePath.lastIndexOf('/');
+  const dir = dirEnd === -1 ? '' : filePath.substring(0, dirEnd + 1);
+  return dir + decodeURIComponent(uri);
+}
+
+///////////////////////////
+/// Scene traversal
+
+function listScenePrimitives(json: GltfJson): ScenePrimitive[] {
+  const result: ScenePrimitive[] = [];
+  const nodes = json.nodes || [];
+
+  const addMesh = (meshIdx: number, matrix: Mat4) => {
+    const mesh = json.meshes?.[meshIdx];
+    if (!mesh) {
+      throw new GltfError(`Mesh ${meshIdx} does not exist`);
+    }
+    mesh.primitives.forEach((primitive) => {
+      const mode = primitive.mode ?? PRIMITIVE_MODE_TRIANGLES;
+      if (mode !== PRIMITIVE_MODE_TRIANGLES) {
+        console.warn(`glTF mesh ${meshIdx} has primitive with mode=${mode}. Only triangles are supported, skipping.`); // prettier-ignore
+        return;
+      }
+      result.push({ primitive, matrix });
+    });
+  };
+
+  const visitNode = (nodeIdx: number, parentMatrix: Mat4) => {
+    const node = nodes[nodeIdx];
+    if (!node) {
+      throw new GltfError(`Node ${nodeIdx} does not exist`);
+    }
+    const matrix = mat4.multiply(parentMatrix, getNodeMatrix(node));
+    if (node.mesh !== undefined) {
+      addMesh(node.mesh, matrix);
+    }
+    node.children?.forEach((childIdx) => visitNode(childIdx, matrix));
+  };
+
+  const rootNodes = getSceneRootNodes(json);
+  if (rootNodes.length > 0) {
+    rootNodes.forEach((nodeIdx) => visitNode(nodeIdx, mat4.identity()));
+  } else {
+    // file without scene graph, just the meshes
+    json.meshes?.forEach((_, meshIdx) => addMesh(meshIdx, mat4.identity()));
+  }
+
+  return result;
+}
+
+function getSceneRootNodes(json: GltfJson): number[] {
+  if (json.scenes && json.scenes.length > 0) {
+    const scene = json.scenes[json.scene ?? 0];
+    if (!scene) {
+      throw new GltfError(`Scene ${json.scene} does not exist`);
+    }
+    return scene.nodes || [];
+  }
+
+  // no scenes - every node that is not a child of other node is a root
+  const nodes = json.nodes || [];
+  const childNodes = new Set(nodes.flatMap((n) => n.children || []));
+  return nodes.map((_, idx) => idx).filter((idx) => !childNodes.has(idx));
+}
+
+function getNodeMatrix(node: GltfNode): Mat4 {
+  if (node.matrix) {
+    return mat4.clone(node.matrix); // column-major, same as wgpu-matrix
+  }
+
+  const result = mat4.identity();
+  if (node.translation) {
+    mat4.translate(result, node.translation, result);
+  }
+  if (node.rotation) {
+    mat4.multiply(result, mat4.fromQuat(node.rotation), result);
+  }
+  if (node.scale) {
+    mat4.scale(result, node.scale, result);
+  }
+  return result;
+}
+
+///////////////////////////
+/// Accessors
+
+const COMPONENTS_PER_TYPE = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+type ComponentReader = (view: DataView, offset: number) => number;
+
+// prettier-ignore
+const COMPONENT_TYPES: Record<number, { bytes: number; read: ComponentReader; normalize: (v: number) => number }> = {
+  5120: { bytes: 1, read: (v, o) => v.getInt8(o), normalize: (x) => Math.max(x / 127, -1) },
+  5121: { bytes: 1, read: (v, o) => v.getUint8(o), normalize: (x) => x / 255 },
+  5122: { bytes: 2, read: (v, o) => v.getInt16(o, true), normalize: (x) => Math.max(x / 32767, -1) },
+  5123: { bytes: 2, read: (v, o) => v.getUint16(o, true), normalize: (x) => x / 65535 },
+  5125: { bytes: 4, read: (v, o) => v.getUint32(o, true), normalize: (x) => x },
+  5126: { bytes: 4, read: (v, o) => v.getFloat32(o, true), normalize: (x) => x },
+};
+
+/** Read accessor into tightly packed array. Handles strides and normalized integers. */
+function readAccessor<T extends Float32Array | Uint32Array>(
+  ctx: GltfContext,
+  accessorIdx: number,
+  TypedArrayClass: { new (length: number): T }
+): { data: T; count: number; componentCount: number } {
+  const accessor = ctx.json.accessors?.[accessorIdx];
+  if (!accessor) {
+    throw new GltfError(`Accessor ${accessorIdx} does not exist`);
+  }
+  if (accessor.sparse) {
+    throw new GltfError(`Sparse accessors are not supported (accessor ${accessorIdx})`); // prettier-ignore
+  }
+  const componentType = COMPONENT_TYPES[accessor.componentType];
+  const componentCount = COMPONENTS_PER_TYPE[accessor.type];
+  if (!componentType || !componentCount) {
+    throw new GltfError(`Accessor ${accessorIdx} has unsupported type '${accessor.type}' (componentType=${accessor.componentType})`); // prettier-ignore
+  }
+
+  const { count } = accessor;
+  const data = new TypedArrayClass(count * componentCount);
+  if (accessor.bufferView === undefined) {
+    return { data, count, componentCount }; // all zeros, as per spec
+  }
+
+  const bufferView = ctx.json.bufferViews?.[accessor.bufferView];
+  const buffer = bufferView && ctx.buffers[bufferView.buffer];
+  if (!bufferView || !buffer) {
+    throw new GltfError(`Accessor ${accessorIdx} references invalid buffer view ${accessor.bufferView}`); // prettier-ignore
+  }
+
+  const elementBytes = componentType.bytes * componentCount;
+  const stride = bufferView.byteStride || elementBytes;
+  const start = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
+  const end = start + (count - 1) * stride + elementBytes;
+  if (count > 0 && end > (bufferView.byteOffset || 0) + bufferView.byteLength) {
+    throw new GltfError(`Accessor ${accessorIdx} is out of bounds of its buffer view`); // prettier-ignore
+  }
+
+  const view = new DataView(buffer);
+  const normalize = accessor.normalized && data instanceof Float32Array;
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < componentCount; c++) {
+      const offset = start + i * stride + c * componentType.bytes;
+      const value = componentType.read(view, offset);
+      data[i * componentCount + c] = normalize
+        ? componentType.normalize(value)
+        : value;
+    }
+  }
+
+  return { data, count, componentCount };
+}
+
+function readAttribute(
+  ctx: GltfContext,
+  primitive: GltfPrimitive,
+  name: string,
+  expectedComponents: number
+) {
+  const accessorIdx = primitive.attributes[name];
+  if (accessorIdx === undefined) {
+    return undefined;
+  }
+  const result = readAccessor(ctx, accessorIdx, Float32Array);
+  if (result.componentCount !== expectedComponents) {
+    throw new GltfError(`Attribute '${name}' should have ${expectedComponents} components, got ${result.componentCount}`); // prettier-ignore
+  }
+  return result;
+}
+
+///////////////////////////
+/// Mesh
+
+interface MeshPart {
+  positions: Float32Array;
+  normals: Float32Array;
+  uv: Float32Array | undefined;
+  indices: Uint32Array;
+}
+
+function readPrimitive(
+  ctx: GltfContext,
+  { primitive, matrix }: ScenePrimitive,
+  scale: number
+): MeshPart {
+  const position = readAttribute(ctx, primitive, 'POSITION', 3);
+  if (!position) {
+    throw new GltfError(`Primitive does not have 'POSITION' attribute`);
+  }
+  const vertexCount = position.count;
+
+  // indices
+  let indices: Uint32Array;
+  if (primitive.indices !== undefined) {
+    indices = readAccessor(ctx, primitive.indices, Uint32Array).data;
+  } else {
+    indices = new Uint32Array(vertexCount).map((_, i) => i);
+  }
+  if (indices.length % 3 !== 0) {
+    throw new GltfError(`Triangle primitive has ${indices.length} indices, which is not a multiple of 3`); // prettier-ignore
+  }
+  const outOfBoundsIdx = indices.find((idx) => idx >= vertexCount);
+  if (outOfBoundsIdx !== undefined) {
+    throw new GltfError(`Primitive index ${outOfBoundsIdx} is out of bounds (${vertexCount} vertices)`); // prettier-ignore
+  }
+  // mirroring transform flips the triangle winding
+  if (mat4.determinant(matrix) < 0) {
+    for (let i = 0; i < indices.length; i += 3) {
+      const tmp = indices[i + 1];
+      indices[i + 1] = indices[i + 2];
+      indices[i + 2] = tmp;
+    }
+  }
+
+  // positions
+  const positions = position.data;
+  const tmp = vec3.create();
+  for (let i = 0; i < vertexCount; i++) {
+    const p = positions.subarray(i * 3, i * 3 + 3);
+    vec3.transformMat4(p, matrix, tmp);
+    vec3.scale(tmp, scale, p);
+  }
+
+  // normals
+  let normals: Float32Array;
+  const normal = readAttribute(ctx, primitive, 'NORMAL', 3);
+  if (normal && normal.count === vertexCount) {
+    normals = normal.data;
+    const normalMatrix = mat4.transpose(mat4.inverse(matrix));
+    for (let i = 0; i < vertexCount; i++) {
+      const n = normals.subarray(i * 3, i * 3 + 3);
+      vec3.transformMat4Upper3x3(n, normalMatrix, tmp);
+      vec3.normalize(tmp, n);
+    }
+  } else {
+    normals = calcVertexNormals(
+      positions,
+      indices,
+      new Float32Array(vertexCount * 3)
+    );
+  }
+
+  // uv
+  const texCoord = getBaseColorTextureInfo(ctx, primitive)?.texCoord ?? 0;
+  const uvAttr = readAttribute(ctx, primitive, `TEXCOORD_${texCoord}`, 2);
+  let uv: Float32Array | undefined = undefined;
+  if (uvAttr && uvAttr.count === vertexCount) {
+    // glTF has the same UV origin as WebGPU, no need to invert Y
+    uv = uvAttr.data.map((v) => {
+      if (v >= 0 && v <= 1) return v; // keep 1.0 as is
+      v = v % 1; // to range [0-1]
+      return v < 0 ? 1.0 - Math.abs(v) : v; // negative to positive
+    });
+  }
+
+  return { positions, normals, uv, indices };
+}
+
+function mergeMeshParts(parts: MeshPart[]): RawMeshData {
+  const vertexCount = parts.reduce((acc, p) => acc + p.positions.length / 3, 0); // prettier-ignore
+  const indexCount = parts.reduce((acc, p) => acc + p.indices.length, 0);
+  const positions = new Float32Array(vertexCount * 3);
+  const normals = new Float32Array(vertexCount * 3);
+  const uv = new Float32Array(vertexCount * 2).fill(0.5);
+  const indices = new Uint32Array(indexCount);
+
+  let firstVertex = 0;
+  let firstIndex = 0;
+  parts.forEach((part) => {
+    positions.set(part.positions, firstVertex * 3);
+    normals.set(part.normals, firstVertex * 3);
+    if (part.uv) uv.set(part.uv, firstVertex * 2);
+
+    for (let i = 0; i < part.indices.length; i++) {
+      indices[firstIndex + i] = part.indices[i] + firstVertex;
+    }
+
+    firstVertex += part.positions.length / 3;
+    firstIndex += part.indices.length;
+  });
+
+  return createRawMeshData(positions, normals, uv, indices);
+}
+
+///////////////////////////
+/// Texture
+
+function getBaseColorTextureInfo(ctx: GltfContext, primitive: GltfPrimitive) {
+  if (primitive.material === undefined) return undefined;
+  const material = ctx.json.materials?.[primitive.material];
+  return material?.pbrMetallicRoughness?.baseColorTexture;
+}
+
+function getBaseColorTexture(
+  ctx: GltfContext,
+  primitives: ScenePrimitive[]
+): TextureSource | undefined {
+  const textureIndices = new Set<number>();
+  primitives.forEach(({ primitive }) => {
+    const info = getBaseColorTextureInfo(ctx, primitive);
+    if (info) textureIndices.add(info.index);
+  });
+  if (textureIndices.size === 0) {
+    return undefined;
+  }
+
+  const [textureIdx] = textureIndices;
+  if (textureIndices.size > 1) {
+    console.warn(`glTF file '${ctx.filePath}' has ${textureIndices.size} base color textures. Only one texture per object is supported, using texture ${textureIdx}.`); // prettier-ignore
+  }
+
+  const imageIdx = ctx.json.textures?.[textureIdx]?.source;
+  const image = imageIdx !== undefined ? ctx.json.images?.[imageIdx] : undefined; // prettier-ignore
+  if (!image) {
+    throw new GltfError(`Texture ${textureIdx} does not have a valid image`);
+  }
+  const label = `${ctx.filePath}#image${imageIdx}`;
+
+  // external file
+  if (image.uri !== undefined && !image.uri.startsWith('data:')) {
+    return { type: 'file', path: resolveUri(ctx.filePath, image.uri) };
+  }
+
+  // data URI
+  if (image.uri !== undefined) {
+    const { data, mimeType } = decodeDataUri(image.uri);
+    return { type: 'embedded', label, data, mimeType };
+  }
+
+  // embedded in the buffer
+  const bufferView =
+    image.bufferView !== undefined
+      ? ctx.json.bufferViews?.[image.bufferView]
+      : undefined;
+  const buffer = bufferView && ctx.buffers[bufferView.buffer];
+  if (!bufferView || !buffer || !image.mimeType) {
+    throw new GltfError(`Image ${imageIdx} needs either 'uri' or 'bufferView' with 'mimeType'`); // prettier-ignore
+  }
+  const offset = bufferView.byteOffset || 0;
+  return {
+    type: 'embedded',
+    label,
+    data: new Uint8Array(buffer, offset, bufferView.byteLength),
+    mimeType: image.mimeType,
+  };
+}
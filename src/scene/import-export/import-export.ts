@@ -1,13 +1,11 @@
 import { createOriginalMesh } from '../load/createOriginalMesh.ts';
-import { LoadedObject } from '../load/loadScene.ts';
-import { NaniteObjectBuffers } from '../naniteBuffers/index.ts';
+import { createNaniteObjectBuffers } from '../naniteBuffers/index.ts';
 import { NaniteObject } from '../naniteObject.ts';
-import { downloadBuffer } from '../../utils/webgpu.ts';
 import {
-  serializeNode,
   SerializedNaniteObject,
   deserializeNodes,
   ImportError,
+  LEGACY_EXPORTER_VERSION,
 } from './types.ts';
 import {
   ensureTypedArray,
@@ -19,91 +17,118 @@ import {
   splitVerticesWithAttributesIntoSeparateLists,
 } from '../objLoader.ts';
 import { assertValidNaniteObject } from '../utils/assertValidNaniteObject.ts';
-import { ObjectLoaderParams, createImpostors } from '../load/loadObject.ts';
-import { getProfilerTimestamp } from '../../gpuProfiler.ts';
+import {
+  ObjectLoaderParams,
+  createImpostors,
+  preprocessMeshFile,
+  readMeshFile,
+} from '../load/loadObject.ts';
+import {
+  getProfilerTimestamp,
+  getDeltaFromTimestampMS,
+} from '../../gpuProfiler.ts';
+import {
+  NaniteMeshletTree,
+  createNaniteMeshletTree,
+} from '../load/createNaniteMeshletTree.ts';
+import { SceneObjectName, getSceneObjectDef } from '../sceneFiles.ts';
+import { ObjectLoadingProgressCb } from '../load/types.ts';
 import {
   BYTES_U32,
   CONFIG,
   MODELS_DIR,
   VERTS_IN_TRIANGLE,
 } from '../../constants.ts';
+import {
+  NANITE_FILE_EXT,
+  readNaniteFile,
+  writeNaniteFile,
+} from './naniteFile.ts';
 
-export async function exportToFile(
-  device: GPUDevice,
-  object: LoadedObject,
-  outputPathJson: string,
-  outputPathBin: string
+/** Everything that is written to the file. Can be created without GPUDevice. */
+export interface ExportedNaniteObject {
+  name: string;
+  parsedMesh: ParsedMesh;
+  meshletTree: NaniteMeshletTree;
+}
+
+/**
+ * Pure-CPU 'OBJ/glTF -> .nanite' conversion. Impostors and textures are
+ * not part of the file, they are created when the file is imported.
+ */
+export async function exportMeshFile(
+  name: SceneObjectName,
+  outputPath: string,
+  progressCb?: ObjectLoadingProgressCb
 ) {
-  const { naniteObject, parsedMesh } = object;
+  const start = getProfilerTimestamp();
+  const timers: string[] = [];
+  const addTimer = (name: string, start: number) =>
+    timers.push(`${name}: ${getDeltaFromTimestampMS(start).toFixed(2)}ms`);
 
-  const allMeshlets = naniteObject.allMeshlets.map(serializeNode);
-  // console.log(allMeshlets);
+  const objectDef = getSceneObjectDef(name);
+  const fileContent = await readMeshFile(objectDef);
+  addTimer('File content fetch', start);
 
-  const meshletIndexBufferData = await downloadBuffer(
-    device,
-    Uint32Array,
-    naniteObject.buffers.indexBuffer
+  const { loadedObj, naniteMeshlets } = await preprocessMeshFile(
+    { name, objectDef, progressCb, addTimer },
+    fileContent
   );
 
-  const serializedNaniteObj: SerializedNaniteObject = {
-    exporterVersion: 0,
-    name: naniteObject.name,
-    bounds: naniteObject.bounds,
-    allMeshlets,
-    roots: naniteObject.roots.map((n) => n.id),
-    lodLevelCount: naniteObject.lodLevelCount,
-    parsedMesh: {
-      vertexCount: parsedMesh.vertexCount,
-      positionsStride: parsedMesh.positionsStride,
-      // verticesAndAttributes: parsedMesh.verticesAndAttributes, // binary
-      verticesAndAttributesStride: parsedMesh.verticesAndAttributesStride,
-      // indices: parsedMesh.indices, // binary
-      indicesCount: parsedMesh.indicesCount,
-      bounds: parsedMesh.bounds,
-    },
-    // meshletIndexBufferData, // binary
-  };
+  const timerStart = getProfilerTimestamp();
+  const meshletTree = createNaniteMeshletTree(loadedObj, naniteMeshlets);
+  addTimer('Create LOD tree', timerStart);
 
-  const str = JSON.stringify(serializedNaniteObj, (_key, value) => {
-    if (value !== undefined) {
-      // console.log(key, getClassName(value));
-      if (value instanceof Float32Array || value instanceof Uint32Array) {
-        return Array.from(value);
-      }
-    }
-    return value;
-  });
-  await Deno.writeTextFile(outputPathJson, str);
-
-  // write binary file
-  const fileBin = await Deno.create(outputPathBin);
-  const writerBin = fileBin.writable.getWriter();
-  console.log(`Writing vertex buffer: ${formatBytes(parsedMesh.verticesAndAttributes.byteLength)}`); // prettier-ignore
-  await writeTypedArray(writerBin, parsedMesh.verticesAndAttributes);
-  console.log(`Writing original index buffer: ${formatBytes(parsedMesh.indices.byteLength)}`); // prettier-ignore
-  await writeTypedArray(writerBin, parsedMesh.indices);
-  console.log(`Writing meshlets' index buffer: ${formatBytes(meshletIndexBufferData.byteLength)}`); // prettier-ignore
-  await writeTypedArray(writerBin, meshletIndexBufferData);
-  await writerBin.close();
+  await exportToFile({ name, parsedMesh: loadedObj, meshletTree }, outputPath);
+
+  addTimer('---TOTAL---', start);
+  console.log(`Object '${name}' exported. Timers:`, timers);
 }
 
-function writeTypedArray(
-  writer: WritableStreamDefaultWriter<Uint8Array>,
-  data: Uint32Array | Float32Array
+export async function exportToFile(
+  object: ExportedNaniteObject,
+  outputPath: string
 ) {
-  return writer.write(new Uint8Array(data.buffer));
+  const { parsedMesh, meshletTree } = object;
+  console.log(`Vertex buffer: ${formatBytes(parsedMesh.verticesAndAttributes.byteLength)}`); // prettier-ignore
+  console.log(`Original index buffer: ${formatBytes(parsedMesh.indices.byteLength)}`); // prettier-ignore
+  console.log(`Meshlets' index buffer: ${formatBytes(meshletTree.indices.byteLength)}`); // prettier-ignore
+
+  const bytes = writeNaniteFile(object);
+  console.log(`Writing ${NANITE_FILE_EXT} file: ${formatBytes(bytes.byteLength)}`); // prettier-ignore
+  await Deno.writeFile(outputPath, bytes);
 }
 
 export async function importFromFile(
+  params: ObjectLoaderParams,
+  fileContent: ArrayBuffer
+) {
+  const timerStart = getProfilerTimestamp();
+  const imported = readNaniteFile(fileContent);
+  params.addTimer(`${NANITE_FILE_EXT} file parsing`, timerStart);
+
+  return createImportedNaniteObject(params, imported);
+}
+
+/**
+ * Old '.json' + '.bin' format (`exporterVersion: 0`). Only reading is supported,
+ * re-export the object to get a `.nanite` file.
+ */
+export async function importFromLegacyJsonFile(
   params: ObjectLoaderParams,
   jsonText: string
 ) {
-  const { device, instances, name, objectDef, progressCb, addTimer } = params;
+  const { name, objectDef, addTimer } = params;
+  console.warn(`Object '${name}' uses deprecated '.json' + '.bin' format. Export it again to get a ${NANITE_FILE_EXT} file.`); // prettier-ignore
 
-  let timerStart = getProfilerTimestamp();
+  const timerStart = getProfilerTimestamp();
   const jsonObj: SerializedNaniteObject = JSON.parse(jsonText);
   addTimer('JSON parsing', timerStart);
 
+  if (jsonObj.exporterVersion !== LEGACY_EXPORTER_VERSION) {
+    throw new ImportError(`Unsupported '.json' exporterVersion=${jsonObj.exporterVersion}. Only version ${LEGACY_EXPORTER_VERSION} can be imported from '.json' files.`); // prettier-ignore
+  }
+
   // read binary file
   const binaryFilePath = replaceFileExt(
     `${MODELS_DIR}/${objectDef.file}`,
@@ -128,35 +153,68 @@ export async function importFromFile(
     ),
     indices: ensureTypedArray(Uint32Array, binaryFileContent.indices),
   };
+
+  // set meshlet data
+  const allMeshlets = deserializeNodes(jsonObj.allMeshlets);
+  const roots = jsonObj.roots.map((id) => {
+    const n = allMeshlets.find((n) => n.id === id);
+    if (n == undefined) {
+      throw new ImportError(`Root node with id='${id}' does not exist`);
+    }
+    return n;
+  });
+  const lodLevelCount =
+    allMeshlets.reduce((acc, m) => Math.max(acc, m.lodLevel), 0) + 1;
+
+  return createImportedNaniteObject(params, {
+    name: jsonObj.name,
+    parsedMesh,
+    meshletTree: {
+      allMeshlets,
+      roots,
+      lodLevelCount,
+      indices: binaryFileContent.meshletIndices,
+    },
+  });
+}
+
+async function createImportedNaniteObject(
+  params: ObjectLoaderParams,
+  imported: ExportedNaniteObject
+) {
+  const { device, instances, name, progressCb, addTimer } = params;
+  const { parsedMesh, meshletTree } = imported;
+
   const originalMesh = createOriginalMesh(device, name, parsedMesh);
 
+  // create impostors
+  const impostors = await createImpostors(
+    params,
+    name,
+    originalMesh,
+    parsedMesh
+  );
+
   // create nanite buffers
-  const buffers = new NaniteObjectBuffers(
+  const buffers = createNaniteObjectBuffers(
     device,
     name,
     originalMesh,
     parsedMesh,
-    jsonObj.allMeshlets.map((m) => ({
+    meshletTree.allMeshlets.map((m) => ({
       indices: m.triangleCount * 3,
       lodLevel: m.lodLevel,
     })),
-    instances.count
-  );
-
-  // create impostors
-  const impostors = await createImpostors(
-    params,
-    name,
-    originalMesh,
-    parsedMesh
+    instances.capacity,
+    impostors.layer
   );
 
   // create nanite object
   await progressCb?.(name, `Uploading '${name}' data to the GPU`);
-  timerStart = getProfilerTimestamp();
+  const timerStart = getProfilerTimestamp();
   const naniteObject = new NaniteObject(
     name,
-    jsonObj.bounds,
+    parsedMesh.bounds,
     originalMesh,
     buffers,
     impostors,
@@ -165,22 +223,14 @@ export async function importFromFile(
   device.queue.writeBuffer(
     naniteObject.buffers.indexBuffer,
     0,
-    binaryFileContent.meshletIndices,
+    meshletTree.indices,
     0
   );
 
   // set meshlet data
-  const allMeshlets = deserializeNodes(jsonObj.allMeshlets);
-  naniteObject.allMeshlets.push(...allMeshlets);
-  jsonObj.roots.forEach((id) => {
-    const n = allMeshlets.find((n) => n.id === id);
-    if (n == undefined) {
-      throw new ImportError(`Root node with id='${id}' does not exist`);
-    }
-    naniteObject.roots.push(n);
-  });
-  naniteObject.lodLevelCount =
-    allMeshlets.reduce((acc, m) => Math.max(acc, m.lodLevel), 0) + 1;
+  naniteObject.allMeshlets.push(...meshletTree.allMeshlets);
+  naniteObject.roots.push(...meshletTree.roots);
+  naniteObject.lodLevelCount = meshletTree.lodLevelCount;
 
   // upload meshlet data to the GPU
   naniteObject.finalizeNaniteObject(device);
@@ -0,0 +1,146 @@
+import { assertEquals, assertThrows } from 'assert';
+import { NaniteMeshletTreeNode } from '../naniteObject.ts';
+import { ParsedMesh } from '../objLoader.ts';
+import { ExportedNaniteObject } from './import-export.ts';
+import {
+  crc32,
+  NANITE_FILE_VERSION,
+  readNaniteFile,
+  writeNaniteFile,
+} from './naniteFile.ts';
+import { ImportError } from './types.ts';
+
+const BOUNDS: ParsedMesh['bounds'] = {
+  box: [
+    [0, 0, 0],
+    [1, 1, 0],
+  ],
+  sphere: { center: [0.5, 0.5, 0], radius: 0.75 },
+};
+
+function createTestObject(): ExportedNaniteObject {
+  // 4 vertices: pos3 + normal3 + uv2
+  // prettier-ignore
+  const verticesAndAttributes = new Float32Array([
+    0, 0, 0,  0, 0, 1,  0, 0,
+    1, 0, 0,  0, 0, 1,  1, 0,
+    1, 1, 0,  0, 0, 1,  1, 1,
+    0, 1, 0,  0, 0, 1,  0, 1,
+  ]);
+  const indices = new Uint32Array([0, 1, 2, 0, 2, 3]);
+
+  const createNode = (
+    id: number,
+    lodLevel: number,
+    firstIndexOffset: number
+  ): NaniteMeshletTreeNode => ({
+    id,
+    lodLevel,
+    triangleCount: 1,
+    firstIndexOffset,
+    maxSiblingsError: 0.000000001 * (lodLevel + 1),
+    parentError: lodLevel === 1 ? Infinity : 0.000000002,
+    sharedSiblingsBounds: BOUNDS.sphere,
+    parentBounds: lodLevel === 1 ? undefined : BOUNDS.sphere,
+    ownBounds: BOUNDS,
+    createdFrom: [],
+  });
+  const root = createNode(0, 1, 0);
+  const child0 = createNode(1, 0, 3);
+  const child1 = createNode(2, 0, 6);
+  root.createdFrom.push(child0, child1);
+  child0.cone = { coneAxis: [0, 0, -1], coneCutoff: 0.5 };
+
+  return {
+    name: 'test-object',
+    parsedMesh: {
+      vertexCount: 4,
+      positions: new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]),
+      positionsStride: 12,
+      normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]),
+      uv: new Float32Array([0, 0, 1, 0, 1, 1, 0, 1]),
+      verticesAndAttributes,
+      verticesAndAttributesStride: 32,
+      indices,
+      indicesCount: indices.length,
+      bounds: BOUNDS,
+    },
+    meshletTree: {
+      allMeshlets: [root, child0, child1],
+      roots: [root],
+      lodLevelCount: 2,
+      indices: new Uint32Array([0, 1, 2, 0, 1, 2, 0, 2, 3]),
+    },
+  };
+}
+
+Deno.test('naniteFile :: write and read back', () => {
+  const obj = createTestObject();
+
+  const bytes = writeNaniteFile(obj);
+  const result = readNaniteFile(bytes.buffer);
+
+  assertEquals(result.name, obj.name);
+  assertEquals(result.parsedMesh, obj.parsedMesh);
+  assertEquals(result.meshletTree.lodLevelCount, 2);
+  assertEquals(result.meshletTree.indices, obj.meshletTree.indices);
+  assertEquals(result.meshletTree.roots.length, 1);
+
+  const meshlets = result.meshletTree.allMeshlets;
+  assertEquals(meshlets.length, 3);
+  assertEquals(result.meshletTree.roots[0], meshlets[0]);
+  assertEquals(meshlets[0].createdFrom, [meshlets[1], meshlets[2]]);
+  assertEquals(meshlets[0].parentError, Infinity);
+  assertEquals(meshlets[0].parentBounds, undefined);
+  // errors keep full precision
+  assertEquals(meshlets[1].maxSiblingsError, 0.000000001);
+  assertEquals(meshlets[1].parentError, 0.000000002);
+  assertEquals(meshlets[2].firstIndexOffset, 6);
+  // backface culling cones
+  assertEquals(meshlets[0].cone, undefined);
+  assertEquals(meshlets[1].cone, { coneAxis: [0, 0, -1], coneCutoff: 0.5 });
+});
+
+Deno.test('naniteFile :: reads version 1 without cones', () => {
+  const obj = createTestObject();
+  obj.meshletTree.allMeshlets.forEach((m) => (m.cone = undefined));
+  const bytes = writeNaniteFile(obj);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(4, 1, true);
+  // before version 3, the checksum did not cover the section table
+  const headerBytes = 16 + view.getUint32(12, true) * 12;
+  view.setUint32(8, crc32(bytes.subarray(headerBytes)), true);
+
+  const result = readNaniteFile(bytes.buffer);
+  const meshlets = result.meshletTree.allMeshlets;
+  assertEquals(meshlets.length, 3);
+  meshlets.forEach((m) => assertEquals(m.cone, undefined));
+});
+
+Deno.test('naniteFile :: rejects invalid magic', () => {
+  const bytes = writeNaniteFile(createTestObject());
+  bytes[0] = 0;
+
+  assertThrows(() => readNaniteFile(bytes.buffer), ImportError, 'magic');
+});
+
+Deno.test('naniteFile :: rejects newer versions', () => {
+  const bytes = writeNaniteFile(createTestObject());
+  new DataView(bytes.buffer).setUint32(4, NANITE_FILE_VERSION + 1, true);
+
+  assertThrows(() => readNaniteFile(bytes.buffer), ImportError, 'version');
+});
+
+Deno.test('naniteFile :: rejects corrupted file', () => {
+  const bytes = writeNaniteFile(createTestObject());
+  bytes[bytes.length - 1] += 1;
+
+  assertThrows(() => readNaniteFile(bytes.buffer), ImportError, 'Checksum');
+});
+
+Deno.test('naniteFile :: rejects corrupted section table', () => {
+  const bytes = writeNaniteFile(createTestObject());
+  bytes[16] += 1; // type of the first section
+
+  assertThrows(() => readNaniteFile(bytes.buffer), ImportError, 'Checksum');
+});
@@ -0,0 +1,530 @@
+import { BYTES_F32, BYTES_U32, VERTS_IN_TRIANGLE } from '../../constants.ts';
+import { Bounds3d, BoundingSphere } from '../../utils/calcBounds.ts';
+import { NaniteMeshletTreeNode } from '../naniteObject.ts';
+import { splitVerticesWithAttributesIntoSeparateLists } from '../objLoader.ts';
+import { ImportError } from './types.ts';
+import type { ExportedNaniteObject } from './import-export.ts';
+
+/*
+Binary '.nanite' file. All numbers are little endian.
+
+HEADER:
+  - magic 'NANI' (4 bytes)
+  - u32 version
+  - u32 checksum (CRC32 of everything after this field, including the section table.
+                  Before version 3, only the sections were checked)
+  - u32 section count
+  - section table: [u32 type, u32 offset, u32 byteLength] per section
+SECTIONS (4 byte aligned):
+  - NAME: utf-8 string
+  - MESH_INFO: vertex/index counts, strides, bounds
+  - VERTICES: f32[], interleaved position, normal, uv (`verticesAndAttributes`)
+  - INDICES: u32[], index buffer of the original mesh
+  - MESHLETS: packed `NaniteMeshletTreeNode` records, see `MESHLET_RECORD_BYTES`
+  - MESHLET_CHILDREN: u32[], ids of `createdFrom`. Each record stores offset+count
+  - MESHLET_INDICES: u32[], index buffer of all meshlets
+  - ROOTS: u32[], ids of the root meshlets
+  - MESHLET_CONES: f32[], backface culling cone (axis + cutoff) per meshlet record.
+                   Only meshlets with `MESHLET_FLAG_HAS_CONE` use it. (since version 2)
+*/
+
+export const NANITE_FILE_EXT = '.nanite';
+
+/** Bump on every change to the layout. Add migration to `MIGRATIONS` if possible. */
+export const NANITE_FILE_VERSION = 3;
+
+const MAGIC = 'NANI';
+const HEADER_FIXED_BYTES = 4 * BYTES_U32;
+/** Checksum covers the section count, section table and sections */
+const CHECKSUM_START = 3 * BYTES_U32;
+const SECTION_ENTRY_BYTES = 3 * BYTES_U32;
+
+const SECTION = {
+  NAME: 1,
+  MESH_INFO: 2,
+  VERTICES: 3,
+  INDICES: 4,
+  MESHLETS: 5,
+  MESHLET_CHILDREN: 6,
+  MESHLET_INDICES: 7,
+  ROOTS: 8,
+  MESHLET_CONES: 9,
+};
+type SectionType = (typeof SECTION)[keyof typeof SECTION];
+const getSectionName = (type: SectionType) =>
+  Object.entries(SECTION).find(([_, v]) => v === type)?.[0] || `${type}`;
+
+/** 5 u32 + 10 f32 (bounds) */
+const MESH_INFO_BYTES = 5 * BYTES_U32 + 10 * BYTES_F32;
+
+/**
+ * - u32: id, lodLevel, triangleCount, firstIndexOffset, flags
+ * - f64: maxSiblingsError, parentError. Keep full precision, parent's error
+ *        has to be strictly bigger than children's.
+ * - f32: sharedSiblingsBounds (4), parentBounds (4), ownBounds (6 box + 4 sphere)
+ * - u32: childrenOffset, childrenCount
+ */
+const MESHLET_RECORD_BYTES = 5 * 4 + 2 * 8 + 18 * 4 + 2 * 4;
+const MESHLET_FLAG_HAS_PARENT_BOUNDS = 1 << 0;
+const MESHLET_FLAG_HAS_CONE = 1 << 1;
+const MESHLET_CONE_BYTES = 4 * BYTES_F32;
+
+/**
+ * Upgrade older file to the next version. Key is the version it upgrades from.
+ * Only in-place changes of the file bytes are supported.
+ */
+const MIGRATIONS: Record<number, (bytes: Uint8Array) => Uint8Array> = {
+  // v2 added optional MESHLET_CONES. Older files just have no cones
+  1: (bytes) => bytes,
+  // v3 extended the checksum to the section table. Verified before migrating
+  2: (bytes) => bytes,
+};
+
+export const isNaniteFile = (path: string) =>
+  path.toLowerCase().endsWith(NANITE_FILE_EXT);
+
+///////////////////////////
+/// WRITE
+
+export function writeNaniteFile(object: ExportedNaniteObject): Uint8Array {
+  const { name, parsedMesh, meshletTree } = object;
+  const { allMeshlets, roots } = meshletTree;
+
+  // meshlets + flattened children
+  const meshletsBytes = new DataView(
+    new ArrayBuffer(allMeshlets.length * MESHLET_RECORD_BYTES)
+  );
+  const children: number[] = [];
+  const cones = new Float32Array(allMeshlets.length * 4);
+  allMeshlets.forEach((m, i) => {
+    writeMeshletRecord(meshletsBytes, i * MESHLET_RECORD_BYTES, m, children.length); // prettier-ignore
+    children.push(...m.createdFrom.map((c) => c.id));
+    if (m.cone) {
+      cones.set([...m.cone.coneAxis, m.cone.coneCutoff], i * 4);
+    }
+  });
+
+  // mesh info
+  const meshInfo = new DataView(new ArrayBuffer(MESH_INFO_BYTES));
+  let offset = 0;
+  const u32s = [
+    parsedMesh.vertexCount,
+    parsedMesh.positionsStride,
+    parsedMesh.verticesAndAttributesStride,
+    parsedMesh.indicesCount,
+    meshletTree.lodLevelCount,
+  ];
+  u32s.forEach((v) => {
+    meshInfo.setUint32(offset, v, true);
+    offset += BYTES_U32;
+  });
+  writeBounds3d(meshInfo, offset, parsedMesh.bounds);
+
+  const sections: Array<[SectionType, Uint8Array]> = [
+    [SECTION.NAME, new TextEncoder().encode(name)],
+    [SECTION.MESH_INFO, asBytes(meshInfo)],
+    [SECTION.VERTICES, asBytes(parsedMesh.verticesAndAttributes)],
+    [SECTION.INDICES, asBytes(parsedMesh.indices)],
+    [SECTION.MESHLETS, asBytes(meshletsBytes)],
+    [SECTION.MESHLET_CHILDREN, asBytes(new Uint32Array(children))],
+    [SECTION.MESHLET_INDICES, asBytes(meshletTree.indices)],
+    [SECTION.ROOTS, asBytes(new Uint32Array(roots.map((m) => m.id)))],
+    [SECTION.MESHLET_CONES, asBytes(cones)],
+  ];
+
+  // layout
+  const headerBytes =
+    HEADER_FIXED_BYTES + sections.length * SECTION_ENTRY_BYTES;
+  let nextOffset = headerBytes;
+  const sectionOffsets = sections.map(([_, data]) => {
+    const sectionOffset = nextOffset;
+    nextOffset = alignTo4(nextOffset + data.byteLength);
+    return sectionOffset;
+  });
+
+  // write
+  const result = new Uint8Array(nextOffset);
+  const view = new DataView(result.buffer);
+  result.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint32(4, NANITE_FILE_VERSION, true);
+  view.setUint32(12, sections.length, true);
+  sections.forEach(([type, data], i) => {
+    const entryOffset = HEADER_FIXED_BYTES + i * SECTION_ENTRY_BYTES;
+    view.setUint32(entryOffset, type, true);
+    view.setUint32(entryOffset + 4, sectionOffsets[i], true);
+    view.setUint32(entryOffset + 8, data.byteLength, true);
+    result.set(data, sectionOffsets[i]);
+  });
+  view.setUint32(8, crc32(result.subarray(CHECKSUM_START)), true);
+
+  return result;
+}
+
+function writeMeshletRecord(
+  view: DataView,
+  offset: number,
+  m: NaniteMeshletTreeNode,
+  childrenOffset: number
+) {
+  let flags = 0;
+  flags |= m.parentBounds !== undefined ? MESHLET_FLAG_HAS_PARENT_BOUNDS : 0;
+  flags |= m.cone !== undefined ? MESHLET_FLAG_HAS_CONE : 0;
+  view.setUint32(offset, m.id, true);
+  view.setUint32(offset + 4, m.lodLevel, true);
+  view.setUint32(offset + 8, m.triangleCount, true);
+  view.setUint32(offset + 12, m.firstIndexOffset, true);
+  view.setUint32(offset + 16, flags, true);
+  view.setFloat64(offset + 20, m.maxSiblingsError, true);
+  view.setFloat64(offset + 28, m.parentError, true); // Infinity for roots
+  offset = writeSphere(view, offset + 36, m.sharedSiblingsBounds);
+  offset = writeSphere(view, offset, m.parentBounds);
+  offset = writeBounds3d(view, offset, m.ownBounds);
+  view.setUint32(offset, childrenOffset, true);
+  view.setUint32(offset + 4, m.createdFrom.length, true);
+}
+
+function writeSphere(
+  view: DataView,
+  offset: number,
+  sphere: BoundingSphere | undefined
+) {
+  const values = sphere ? [...sphere.center, sphere.radius] : [0, 0, 0, 0];
+  return writeF32s(view, offset, values);
+}
+
+function writeBounds3d(view: DataView, offset: number, bounds: Bounds3d) {
+  const [min, max] = bounds.box;
+  offset = writeF32s(view, offset, [...min, ...max]);
+  return writeSphere(view, offset, bounds.sphere);
+}
+
+function writeF32s(view: DataView, offset: number, values: ArrayLike<number>) {
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat32(offset, values[i], true);
+    offset += BYTES_F32;
+  }
+  return offset;
+}
+
+const asBytes = (a: ArrayBufferView) =>
+  new Uint8Array(a.buffer, a.byteOffset, a.byteLength);
+
+const alignTo4 = (a: number) => Math.ceil(a / 4) * 4;
+
+///////////////////////////
+/// READ
+
+export function readNaniteFile(fileContent: ArrayBuffer): ExportedNaniteObject {
+  let bytes = new Uint8Array(fileContent);
+  if (bytes.byteLength < HEADER_FIXED_BYTES) {
+    throw new ImportError(`File is too small (${bytes.byteLength} bytes) to be a ${NANITE_FILE_EXT} file`); // prettier-ignore
+  }
+
+  const magic = new TextDecoder().decode(bytes.subarray(0, 4));
+  if (magic !== MAGIC) {
+    throw new ImportError(`Not a ${NANITE_FILE_EXT} file. Expected magic '${MAGIC}', got '${magic}'`); // prettier-ignore
+  }
+
+  // version
+  let version = new DataView(bytes.buffer).getUint32(4, true);
+  if (version > NANITE_FILE_VERSION) {
+    throw new ImportError(`File has version ${version}, but this app only supports up to version ${NANITE_FILE_VERSION}. Please update the app.`); // prettier-ignore
+  }
+  verifyChecksum(bytes, version);
+  while (version < NANITE_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ImportError(`File has version ${version} that cannot be migrated to version ${NANITE_FILE_VERSION}. Please export the object again.`); // prettier-ignore
+    }
+    console.warn(`Migrating ${NANITE_FILE_EXT} file from version ${version} to ${version + 1}. Export the object again to skip this step.`); // prettier-ignore
+    bytes = migrate(bytes);
+    version += 1;
+  }
+
+  const reader = new NaniteFileReader(bytes);
+  return reader.read();
+}
+
+class NaniteFileReader {
+  private readonly view: DataView;
+  private readonly sections = new Map<
+    SectionType,
+    { offset: number; byteLength: number }
+  >();
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.readSectionTable();
+  }
+
+  read(): ExportedNaniteObject {
+    const name = new TextDecoder().decode(this.getSectionBytes(SECTION.NAME));
+    const meshInfo = this.readMeshInfo();
+
+    // vertex and index buffers of the original mesh
+    const verticesAndAttributes = new Float32Array(
+      this.getSectionData(
+        SECTION.VERTICES,
+        meshInfo.vertexCount * meshInfo.verticesAndAttributesStride
+      )
+    );
+    const indices = new Uint32Array(
+      this.getSectionData(SECTION.INDICES, meshInfo.indicesCount * BYTES_U32)
+    );
+    const attributes = splitVerticesWithAttributesIntoSeparateLists(
+      verticesAndAttributes,
+      meshInfo.verticesAndAttributesStride / BYTES_F32
+    );
+
+    // meshlets
+    const allMeshlets = this.readMeshlets();
+    const meshletTriangles = allMeshlets.reduce(
+      (acc, m) => acc + m.triangleCount,
+      0
+    );
+    const meshletIndices = new Uint32Array(
+      this.getSectionData(
+        SECTION.MESHLET_INDICES,
+        meshletTriangles * VERTS_IN_TRIANGLE * BYTES_U32
+      )
+    );
+    const roots = this.readU32Section(SECTION.ROOTS).map((id) =>
+      getMeshletById(allMeshlets, id, 'Root')
+    );
+
+    return {
+      name,
+      parsedMesh: {
+        vertexCount: meshInfo.vertexCount,
+        positions: attributes.positions,
+        positionsStride: meshInfo.positionsStride,
+        normals: attributes.normals,
+        uv: attributes.uv,
+        verticesAndAttributes,
+        verticesAndAttributesStride: meshInfo.verticesAndAttributesStride,
+        indices,
+        indicesCount: meshInfo.indicesCount,
+        bounds: meshInfo.bounds,
+      },
+      meshletTree: {
+        allMeshlets,
+        roots,
+        lodLevelCount: meshInfo.lodLevelCount,
+        indices: meshletIndices,
+      },
+    };
+  }
+
+  private readSectionTable() {
+    const { view, bytes } = this;
+    const sectionCount = view.getUint32(12, true);
+    const headerBytes =
+      HEADER_FIXED_BYTES + sectionCount * SECTION_ENTRY_BYTES;
+    if (headerBytes > bytes.byteLength) {
+      throw new ImportError(`Header declares ${sectionCount} sections, but the file is only ${bytes.byteLength} bytes`); // prettier-ignore
+    }
+
+    for (let i = 0; i < sectionCount; i++) {
+      const entryOffset = HEADER_FIXED_BYTES + i * SECTION_ENTRY_BYTES;
+      const type = view.getUint32(entryOffset, true) as SectionType;
+      const offset = view.getUint32(entryOffset + 4, true);
+      const byteLength = view.getUint32(entryOffset + 8, true);
+      if (offset % 4 !== 0 || offset + byteLength > bytes.byteLength) {
+        throw new ImportError(`Section ${getSectionName(type)} (offset=${offset}, ${byteLength} bytes) is out of file bounds`); // prettier-ignore
+      }
+      this.sections.set(type, { offset, byteLength });
+    }
+  }
+
+  private getSectionBytes(type: SectionType) {
+    const section = this.sections.get(type);
+    if (!section) {
+      throw new ImportError(`Missing section ${getSectionName(type)}`);
+    }
+    const start = this.bytes.byteOffset + section.offset;
+    return new Uint8Array(this.bytes.buffer, start, section.byteLength);
+  }
+
+  /** Returns copy of the data, so it is properly aligned and does not keep the whole file in memory */
+  private getSectionData(type: SectionType, expectedBytes: number) {
+    const data = this.getSectionBytes(type);
+    if (data.byteLength !== expectedBytes) {
+      throw new ImportError(`Invalid section ${getSectionName(type)}. Expected ${expectedBytes} bytes, got ${data.byteLength}`); // prettier-ignore
+    }
+    return data.slice().buffer;
+  }
+
+  private readU32Section(type: SectionType) {
+    const data = this.getSectionBytes(type);
+    return Array.from(new Uint32Array(data.slice().buffer));
+  }
+
+  private readMeshInfo() {
+    const data = this.getSectionData(SECTION.MESH_INFO, MESH_INFO_BYTES);
+    const view = new DataView(data);
+    return {
+      vertexCount: view.getUint32(0, true),
+      positionsStride: view.getUint32(4, true),
+      verticesAndAttributesStride: view.getUint32(8, true),
+      indicesCount: view.getUint32(12, true),
+      lodLevelCount: view.getUint32(16, true),
+      bounds: readBounds3d(view, 20),
+    };
+  }
+
+  private readMeshlets(): NaniteMeshletTreeNode[] {
+    const data = this.getSectionBytes(SECTION.MESHLETS);
+    if (data.byteLength % MESHLET_RECORD_BYTES !== 0) {
+      throw new ImportError(`Invalid section MESHLETS. Size ${data.byteLength} is not a multiple of ${MESHLET_RECORD_BYTES} bytes`); // prettier-ignore
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const meshletCount = data.byteLength / MESHLET_RECORD_BYTES;
+    const children = this.readU32Section(SECTION.MESHLET_CHILDREN);
+
+    const records = [];
+    for (let i = 0; i < meshletCount; i++) {
+      records.push(readMeshletRecord(view, i * MESHLET_RECORD_BYTES));
+    }
+    const allMeshlets = records.map((r) => r.node);
+
+    // cones. Files before version 2 do not have the section
+    if (records.some((r) => r.hasCone)) {
+      const cones = new Float32Array(
+        this.getSectionData(
+          SECTION.MESHLET_CONES,
+          meshletCount * MESHLET_CONE_BYTES
+        )
+      );
+      records.forEach(({ node, hasCone }, i) => {
+        if (!hasCone) return;
+        const [x, y, z, coneCutoff] = cones.subarray(i * 4, i * 4 + 4);
+        node.cone = { coneAxis: [x, y, z], coneCutoff };
+      });
+    }
+
+    // resolve children
+    records.forEach(({ node, childrenOffset, childrenCount }) => {
+      if (childrenOffset + childrenCount > children.length) {
+        throw new ImportError(`Meshlet with id='${node.id}' has children outside of MESHLET_CHILDREN section`); // prettier-ignore
+      }
+      const childIds = children.slice(
+        childrenOffset,
+        childrenOffset + childrenCount
+      );
+      node.createdFrom = childIds.map((id) =>
+        getMeshletById(allMeshlets, id, 'CreatedFrom')
+      );
+    });
+
+    return allMeshlets;
+  }
+}
+
+function readMeshletRecord(view: DataView, offset: number) {
+  const flags = view.getUint32(offset + 16, true);
+  const hasParentBounds = (flags & MESHLET_FLAG_HAS_PARENT_BOUNDS) !== 0;
+  const sharedSiblingsBounds = readSphere(view, offset + 36);
+  const parentBounds = readSphere(view, offset + 52);
+  const ownBounds = readBounds3d(view, offset + 68);
+
+  const node: NaniteMeshletTreeNode = {
+    id: view.getUint32(offset, true),
+    lodLevel: view.getUint32(offset + 4, true),
+    triangleCount: view.getUint32(offset + 8, true),
+    firstIndexOffset: view.getUint32(offset + 12, true),
+    maxSiblingsError: view.getFloat64(offset + 20, true),
+    parentError: view.getFloat64(offset + 28, true),
+    sharedSiblingsBounds,
+    parentBounds: hasParentBounds ? parentBounds : undefined,
+    ownBounds,
+    createdFrom: [], // resolved after all records are read
+  };
+  return {
+    node,
+    hasCone: (flags & MESHLET_FLAG_HAS_CONE) !== 0,
+    childrenOffset: view.getUint32(offset + 108, true),
+    childrenCount: view.getUint32(offset + 112, true),
+  };
+}
+
+function readSphere(view: DataView, offset: number): BoundingSphere {
+  const [x, y, z, radius] = readF32s(view, offset, 4);
+  return { center: [x, y, z], radius };
+}
+
+function readBounds3d(view: DataView, offset: number): Bounds3d {
+  const [x0, y0, z0, x1, y1, z1] = readF32s(view, offset, 6);
+  return {
+    box: [
+      [x0, y0, z0],
+      [x1, y1, z1],
+    ],
+    sphere: readSphere(view, offset + 6 * BYTES_F32),
+  };
+}
+
+function readF32s(view: DataView, offset: number, count: number) {
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    result.push(view.getFloat32(offset + i * BYTES_F32, true));
+  }
+  return result;
+}
+
+function getMeshletById(
+  allMeshlets: NaniteMeshletTreeNode[],
+  id: number,
+  kind: string
+) {
+  // ids are in index buffer order, so id is also the index
+  const n = allMeshlets[id]?.id === id ? allMeshlets[id] : allMeshlets.find((m) => m.id === id); // prettier-ignore
+  if (n == undefined) {
+    throw new ImportError(`${kind} node with id='${id}' does not exist`);
+  }
+  return n;
+}
+
+///////////////////////////
+/// CHECKSUM
+
+let CRC32_TABLE: Uint32Array | undefined = undefined;
+
+function getCrc32Table() {
+  if (CRC32_TABLE) return CRC32_TABLE;
+
+  CRC32_TABLE = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    CRC32_TABLE[i] = c >>> 0;
+  }
+  return CRC32_TABLE;
+}
+
+/** Checksum of the file as written by its version, so it's done before migrations */
+function verifyChecksum(bytes: Uint8Array, version: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let checksumStart = CHECKSUM_START;
+  if (version < 3) {
+    const sectionCount = view.getUint32(12, true);
+    checksumStart = HEADER_FIXED_BYTES + sectionCount * SECTION_ENTRY_BYTES;
+  }
+
+  const expectedChecksum = view.getUint32(8, true);
+  const checksum = crc32(bytes.subarray(checksumStart));
+  if (checksum !== expectedChecksum) {
+    throw new ImportError(`Checksum mismatch. The file is corrupted. Expected ${expectedChecksum}, got ${checksum}`); // prettier-ignore
+  }
+}
+
+/** https://en.wikipedia.org/wiki/Cyclic_redundancy_check */
+export function crc32(bytes: Uint8Array): number {
+  const table = getCrc32Table();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -7,6 +7,9 @@ export type SerializedNode = Omit<NaniteMeshletTreeNode, 'createdFrom'> & {
   createdFrom: Array<NaniteMeshletTreeNode['id']>;
 };
 
+/** Version of the old '.json' + '.bin' format. New files use '.nanite', see `naniteFile.ts` */
+export const LEGACY_EXPORTER_VERSION = 0;
+
 export interface SerializedNaniteObject {
   exporterVersion: number;
   name: string;
@@ -27,13 +30,6 @@ export interface SerializedNaniteObject {
   // meshletIndexBufferData: number[] | Uint32Array;
 }
 
-export function serializeNode(node: NaniteMeshletTreeNode): SerializedNode {
-  return {
-    ...node,
-    createdFrom: node.createdFrom.map((n) => n.id),
-  };
-}
-
 export function deserializeNodes(
   nodes: SerializedNode[]
 ): NaniteMeshletTreeNode[] {
@@ -0,0 +1,111 @@
+import { assert, assertAlmostEquals, assertEquals } from 'assert';
+import { mat4, vec3 } from 'wgpu-matrix';
+import { BYTES_U32 } from '../constants.ts';
+import {
+  NaniteInstancesData,
+  createGrid,
+  createInstanceTransforms,
+} from './instancesData.ts';
+import { InstancesBvh, getMortonCode } from './instancesBvh.ts';
+import {
+  BYTES_INSTANCES_BVH_HEADER,
+  BYTES_INSTANCES_BVH_LEAF,
+  INSTANCES_BVH_LEAF_SIZE,
+} from './naniteBuffers/instancesBvhBuffer.ts';
+import { createMockGpuDevice } from '../sys_deno/testUtils.ts';
+
+const getLeafOf = (bvh: InstancesBvh, id: number) =>
+  bvh.leaves.findIndex((leaf) => leaf.instances.includes(id));
+
+const assertLeavesContainOrigins = (
+  bvh: InstancesBvh,
+  instances: NaniteInstancesData
+) => {
+  instances.transforms.forEach((tfx, id) => {
+    if (!tfx) return;
+    const leaf = bvh.leaves[getLeafOf(bvh, id)];
+    const origin = [tfx[12], tfx[13], tfx[14]];
+    const dist = vec3.distance(leaf.originsBounds.center, origin);
+    assert(dist <= leaf.originsBounds.radius + 0.0001, `Instance ${id} outside its leaf`); // prettier-ignore
+  });
+};
+
+Deno.test('InstancesBvh :: every instance is in exactly one leaf', () => {
+  const { device } = createMockGpuDevice();
+  const transforms = createInstanceTransforms(createGrid(20, 10));
+  const instances = new NaniteInstancesData(device, 'test', transforms);
+  const bvh = instances.bvh;
+
+  assertEquals(bvh.leaves.length, Math.ceil(200 / INSTANCES_BVH_LEAF_SIZE));
+  const allIds = bvh.leaves.flatMap((leaf) => leaf.instances);
+  assertEquals(
+    [...allIds].sort((a, b) => a - b),
+    transforms.map((_, i) => i)
+  );
+  assertLeavesContainOrigins(bvh, instances);
+  bvh.leaves.forEach((leaf) => assertAlmostEquals(leaf.maxScale, 1));
+});
+
+Deno.test('InstancesBvh :: refits only the changed leaves', () => {
+  const { device, writes } = createMockGpuDevice();
+  const transforms = createInstanceTransforms(createGrid(20, 10));
+  const instances = new NaniteInstancesData(device, 'test', transforms);
+  const bvh = instances.bvh;
+  const leafIdx = getLeafOf(bvh, 5);
+
+  // move
+  writes.length = 0;
+  instances.setTransform(5, { position: [100, 0, 0], scale: 3 });
+  instances.uploadChanges();
+  assertLeavesContainOrigins(bvh, instances);
+  assertAlmostEquals(bvh.leaves[leafIdx].maxScale, 3);
+  const leafWrites = writes.filter((w) => w.buffer === bvh.leavesBuffer);
+  assertEquals(
+    leafWrites.map((w) => [w.offset, w.data.byteLength]),
+    [
+      [0, BYTES_INSTANCES_BVH_HEADER],
+      [BYTES_INSTANCES_BVH_HEADER + leafIdx * BYTES_INSTANCES_BVH_LEAF, BYTES_INSTANCES_BVH_LEAF], // prettier-ignore
+    ]
+  );
+  const idsWrite = writes.find((w) => w.buffer === bvh.idsBuffer)!;
+  assertEquals(idsWrite.offset, leafIdx * INSTANCES_BVH_LEAF_SIZE * BYTES_U32); // prettier-ignore
+
+  // remove, the slot stays in the leaf
+  instances.remove(5);
+  instances.uploadChanges();
+  assertEquals(getLeafOf(bvh, 5), leafIdx);
+  assertAlmostEquals(bvh.leaves[leafIdx].maxScale, 1);
+});
+
+Deno.test('InstancesBvh :: new instances go to the last leaf', () => {
+  const { device } = createMockGpuDevice();
+  const transforms = createInstanceTransforms(createGrid(8, 8)); // 1 full leaf
+  const instances = new NaniteInstancesData(device, 'test', transforms);
+  const bvh = instances.bvh;
+  const prevBuffer = bvh.leavesBuffer;
+  assertEquals(bvh.leaves.length, 1);
+
+  const id = instances.add(mat4.translation([-50, 0, 0]));
+  instances.uploadChanges();
+  // grows the buffers, so the tree is rebuilt
+  assert(bvh.leavesBuffer !== prevBuffer);
+  assertEquals(bvh.leaves.length, 2);
+  assert(getLeafOf(bvh, id) >= 0);
+  assertLeavesContainOrigins(bvh, instances);
+
+  const id2 = instances.add(mat4.translation([50, 0, 0]));
+  instances.uploadChanges();
+  assertEquals(getLeafOf(bvh, id2), bvh.leaves.length - 1);
+  assertLeavesContainOrigins(bvh, instances);
+});
+
+Deno.test('getMortonCode', () => {
+  const min = [0, 0, 0];
+  const max = [1, 1, 1];
+  assertEquals(getMortonCode(min, max, [0, 0, 0]), 0);
+  assertEquals(getMortonCode(min, max, [1, 1, 1]), (1 << 30) - 1);
+  // x is the most significant
+  assert(getMortonCode(min, max, [1, 0, 0]) > getMortonCode(min, max, [0, 1, 1])); // prettier-ignore
+  // flat box
+  assertEquals(getMortonCode(min, [1, 0, 1], [0, 5, 0]), 0);
+});
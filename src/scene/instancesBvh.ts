@@ -0,0 +1,237 @@
+import { Mat4, vec3 } from 'wgpu-matrix';
+import { BYTES_U32 } from '../constants.ts';
+import {
+  BoundingSphere,
+  boundsCalculator,
+  calcBoundingSphere,
+} from '../utils/calcBounds.ts';
+import { getModelMatScale } from '../utils/index.ts';
+import {
+  BYTES_INSTANCES_BVH_HEADER,
+  BYTES_INSTANCES_BVH_LEAF,
+  INSTANCES_BVH_LEAF_SIZE,
+  createInstancesBvhIdsBuffer,
+  createInstancesBvhLeavesBuffer,
+} from './naniteBuffers/instancesBvhBuffer.ts';
+import type { InstanceId } from './instancesData.ts';
+
+export interface InstancesBvhLeaf {
+  /** At most `INSTANCES_BVH_LEAF_SIZE`. Can contain removed instances */
+  instances: InstanceId[];
+  /** World space sphere around the instance origins */
+  originsBounds: BoundingSphere;
+  maxScale: number;
+}
+
+/**
+ * Two-level BVH over the instance transforms: root -> leaves of up to
+ * `INSTANCES_BVH_LEAF_SIZE` instances. Built by sorting the instance origins
+ * along a Morton curve, so each leaf is a compact group of neighbours.
+ * The cull shader tests the leaf bounds first and skips all of its
+ * instances if the leaf is not visible.
+ *
+ * Leaves do not depend on the object's bounds, so objects that share
+ * the instances also share the BVH.
+ *
+ * Changed instances only refit their leaf. New instances are added to the
+ * last leaf. Tree is rebuilt when the instances buffer grows.
+ */
+export class InstancesBvh {
+  public readonly leaves: InstancesBvhLeaf[] = [];
+  public leavesBuffer: GPUBuffer;
+  public idsBuffer: GPUBuffer;
+  private readonly leafOfInstance: Array<number | undefined> = [];
+  private dirtyStart = Infinity;
+  private dirtyEnd = 0; // exclusive
+
+  constructor(
+    private readonly device: GPUDevice,
+    public readonly name: string,
+    private readonly transforms: Array<Mat4 | undefined>,
+    capacity: number
+  ) {
+    this.leavesBuffer = createInstancesBvhLeavesBuffer(device, name, capacity);
+    this.idsBuffer = createInstancesBvhIdsBuffer(device, name, capacity);
+    this.rebuild();
+    this.uploadChanges();
+  }
+
+  /** Instances in `[start, end)` were added, moved or removed */
+  markDirty(start: InstanceId, end: InstanceId) {
+    for (let id = start; id < end; id++) {
+      let leafIdx = this.leafOfInstance[id];
+      if (leafIdx === undefined) {
+        if (this.transforms[id] === undefined) continue;
+        leafIdx = this.addToLastLeaf(id);
+      }
+      this.markLeafDirty(leafIdx);
+    }
+  }
+
+  /** Recreate the GPU buffers and rebuild the tree */
+  reallocate(capacity: number) {
+    this.dispose();
+    this.leavesBuffer = createInstancesBvhLeavesBuffer(this.device, this.name, capacity); // prettier-ignore
+    this.idsBuffer = createInstancesBvhIdsBuffer(this.device, this.name, capacity); // prettier-ignore
+    this.rebuild();
+  }
+
+  /** Refit and upload the changed leaves */
+  uploadChanges() {
+    if (this.dirtyStart >= this.dirtyEnd) return;
+
+    const { dirtyStart, dirtyEnd } = this;
+    const leafCount = dirtyEnd - dirtyStart;
+    const leavesData = new ArrayBuffer(leafCount * BYTES_INSTANCES_BVH_LEAF);
+    const leavesF32 = new Float32Array(leavesData);
+    const leavesU32 = new Uint32Array(leavesData);
+    const ids = new Uint32Array(leafCount * INSTANCES_BVH_LEAF_SIZE);
+
+    for (let leafIdx = dirtyStart; leafIdx < dirtyEnd; leafIdx++) {
+      const leaf = this.leaves[leafIdx];
+      this.refitLeaf(leaf);
+
+      const offset = ((leafIdx - dirtyStart) * BYTES_INSTANCES_BVH_LEAF) / BYTES_U32; // prettier-ignore
+      const { center, radius } = leaf.originsBounds;
+      leavesF32[offset + 0] = center[0];
+      leavesF32[offset + 1] = center[1];
+      leavesF32[offset + 2] = center[2];
+      leavesF32[offset + 3] = radius;
+      leavesF32[offset + 4] = leaf.maxScale;
+      leavesU32[offset + 5] = leaf.instances.length;
+      ids.set(leaf.instances, (leafIdx - dirtyStart) * INSTANCES_BVH_LEAF_SIZE);
+    }
+
+    const header = new Uint32Array(BYTES_INSTANCES_BVH_HEADER / BYTES_U32);
+    header[0] = this.leaves.length;
+    this.device.queue.writeBuffer(this.leavesBuffer, 0, header);
+    this.device.queue.writeBuffer(
+      this.leavesBuffer,
+      BYTES_INSTANCES_BVH_HEADER + dirtyStart * BYTES_INSTANCES_BVH_LEAF,
+      leavesData
+    );
+    this.device.queue.writeBuffer(
+      this.idsBuffer,
+      dirtyStart * INSTANCES_BVH_LEAF_SIZE * BYTES_U32,
+      ids
+    );
+
+    this.dirtyStart = Infinity;
+    this.dirtyEnd = 0;
+  }
+
+  dispose() {
+    this.leavesBuffer.destroy();
+    this.idsBuffer.destroy();
+  }
+
+  private rebuild() {
+    const ids: InstanceId[] = [];
+    const [box, addPoint] = boundsCalculator();
+    this.transforms.forEach((tfx, id) => {
+      if (tfx === undefined) return;
+      ids.push(id);
+      addPoint(getOrigin(tfx));
+    });
+
+    const mortonCodes = new Map<InstanceId, number>();
+    ids.forEach((id) => {
+      const origin = getOrigin(this.transforms[id]!);
+      mortonCodes.set(id, getMortonCode(box[0], box[1], origin));
+    });
+    ids.sort((a, b) => mortonCodes.get(a)! - mortonCodes.get(b)!);
+
+    this.leaves.length = 0;
+    this.leafOfInstance.length = 0;
+    for (let i = 0; i < ids.length; i += INSTANCES_BVH_LEAF_SIZE) {
+      const instances = ids.slice(i, i + INSTANCES_BVH_LEAF_SIZE);
+      this.leaves.push(createLeaf(instances));
+      instances.forEach((id) => (this.leafOfInstance[id] = this.leaves.length - 1)); // prettier-ignore
+    }
+
+    this.dirtyStart = 0;
+    this.dirtyEnd = this.leaves.length;
+  }
+
+  private addToLastLeaf(id: InstanceId) {
+    let leaf = this.leaves[this.leaves.length - 1];
+    if (!leaf || leaf.instances.length >= INSTANCES_BVH_LEAF_SIZE) {
+      leaf = createLeaf([]);
+      this.leaves.push(leaf);
+    }
+    leaf.instances.push(id);
+    const leafIdx = this.leaves.length - 1;
+    this.leafOfInstance[id] = leafIdx;
+    return leafIdx;
+  }
+
+  private markLeafDirty(leafIdx: number) {
+    this.dirtyStart = Math.min(this.dirtyStart, leafIdx);
+    this.dirtyEnd = Math.max(this.dirtyEnd, leafIdx + 1);
+  }
+
+  private refitLeaf(leaf: InstancesBvhLeaf) {
+    const live = leaf.instances
+      .map((id) => this.transforms[id])
+      .filter((tfx): tfx is Mat4 => tfx !== undefined);
+    if (live.length === 0) {
+      leaf.originsBounds = { center: [0, 0, 0], radius: 0 };
+      leaf.maxScale = 0;
+      return;
+    }
+
+    const [box, addPoint] = boundsCalculator();
+    live.forEach((tfx) => addPoint(getOrigin(tfx)));
+    const center = calcBoundingSphere(box).center;
+    // tighter than the sphere around the box
+    const radius = live.reduce(
+      (acc, tfx) => Math.max(acc, vec3.distance(center, getOrigin(tfx))),
+      0
+    );
+    leaf.originsBounds = { center, radius };
+    leaf.maxScale = live.reduce((acc, tfx) => Math.max(acc, getModelMatScale(tfx)), 0); // prettier-ignore
+  }
+}
+
+const createLeaf = (instances: InstanceId[]): InstancesBvhLeaf => ({
+  instances,
+  originsBounds: { center: [0, 0, 0], radius: 0 },
+  maxScale: 0,
+});
+
+const getOrigin = (tfx: Mat4): [number, number, number] => [
+  tfx[12],
+  tfx[13],
+  tfx[14],
+];
+
+const MORTON_BITS = 10;
+
+/** 30 bit Morton code of the point inside the `[minCo, maxCo]` box */
+export function getMortonCode(
+  minCo: number[],
+  maxCo: number[],
+  p: number[]
+): number {
+  const maxValue = (1 << MORTON_BITS) - 1;
+  const quantize = (co: number) => {
+    const size = maxCo[co] - minCo[co];
+    const t = size > 0 ? (p[co] - minCo[co]) / size : 0;
+    return Math.min(Math.max(Math.floor(t * maxValue), 0), maxValue);
+  };
+  // multiply instead of shift, JS bit ops are signed 32 bit
+  return (
+    expandBits(quantize(0)) * 4 +
+    expandBits(quantize(1)) * 2 +
+    expandBits(quantize(2))
+  );
+}
+
+/** Insert 2 zero bits after each of the 10 low bits */
+function expandBits(v: number) {
+  v = (v | (v << 16)) & 0x030000ff;
+  v = (v | (v << 8)) & 0x0300f00f;
+  v = (v | (v << 4)) & 0x030c30c3;
+  v = (v | (v << 2)) & 0x09249249;
+  return v;
+}
@@ -0,0 +1,79 @@
+import { assertEquals, assertThrows } from 'assert';
+import { mat4 } from 'wgpu-matrix';
+import { BYTES_MAT4 } from '../constants.ts';
+import { NaniteInstancesData } from './instancesData.ts';
+import {
+  MockGpuBufferWrite,
+  createMockGpuDevice,
+} from '../sys_deno/testUtils.ts';
+
+const getWrittenIds = ({ offset, data }: MockGpuBufferWrite) => {
+  const first = offset / BYTES_MAT4;
+  return [first, first + data.byteLength / BYTES_MAT4];
+};
+
+const getWrittenFloats = ({ data }: MockGpuBufferWrite) =>
+  new Float32Array(data);
+
+Deno.test('NaniteInstancesData :: reuses slots, uploads only changes', () => {
+  const { device, buffers, writes } = createMockGpuDevice();
+  const instances = new NaniteInstancesData(device, 'test', [
+    mat4.translation([0, 0, 0]),
+    mat4.translation([1, 0, 0]),
+    mat4.translation([2, 0, 0]),
+  ]);
+  assertEquals(instances.count, 3);
+  assertEquals(instances.capacity, 3);
+  assertEquals(writes.map(getWrittenIds), [[0, 3]]);
+
+  // nothing changed
+  writes.length = 0;
+  instances.uploadChanges();
+  assertEquals(writes.length, 0);
+
+  // remove writes zero matrix
+  instances.remove(1);
+  assertEquals(instances.count, 2);
+  assertEquals(instances.isAlive(1), false);
+  instances.uploadChanges();
+  assertEquals(writes.map(getWrittenIds), [[1, 2]]);
+  assertEquals(Array.from(getWrittenFloats(writes[0])), new Array(16).fill(0));
+  assertThrows(() => instances.setTransform(1, mat4.identity()), Error, `Instance 1 of 'test' does not exist`); // prettier-ignore
+
+  // add reuses the free slot, move marks its range dirty
+  writes.length = 0;
+  const id = instances.add({ position: [5, 0, 0] });
+  assertEquals(id, 1);
+  instances.setTransform(2, { position: [7, 0, 0], scale: 2 });
+  instances.uploadChanges();
+  assertEquals(writes.map(getWrittenIds), [[1, 3]]);
+  assertEquals(getWrittenFloats(writes[0])[12], 5);
+  assertEquals(getWrittenFloats(writes[0])[16 + 12], 7);
+  assertEquals(buffers.length, 1);
+});
+
+Deno.test('NaniteInstancesData :: grows the buffers when out of space', () => {
+  const { device, buffers, writes } = createMockGpuDevice();
+  const instances = new NaniteInstancesData(device, 'test', [mat4.identity()]);
+  const reallocated: number[] = [];
+  instances.onReallocate((_device, capacity) => reallocated.push(capacity));
+
+  const ids = [0, 1, 2].map((x) => instances.add({ position: [x, 0, 0] }));
+  assertEquals(ids, [1, 2, 3]);
+  writes.length = 0;
+  instances.uploadChanges();
+
+  assertEquals(instances.capacity, 4);
+  assertEquals(instances.version, 1);
+  assertEquals(reallocated, [4]);
+  assertEquals(
+    buffers.map((b) => [b.size, b.destroyed]),
+    [
+      [BYTES_MAT4, true],
+      [4 * BYTES_MAT4, false],
+    ]
+  );
+  // everything is uploaded to the new buffer
+  assertEquals(writes.map(getWrittenIds), [[0, 4]]);
+  assertEquals(writes[0].buffer, buffers[1]);
+});
@@ -1,16 +1,69 @@
 import { Mat4, mat4 } from 'wgpu-matrix';
 import { BYTES_MAT4 } from '../constants.ts';
-import { randomBetween, dgr2rad } from '../utils/index.ts';
-import { writeMatrixToGPUBuffer } from '../utils/webgpu.ts';
+import {
+  randomBetween,
+  dgr2rad,
+  createSeededRandom,
+  lerp,
+} from '../utils/index.ts';
+import { InstancesBvh } from './instancesBvh.ts';
 
+type Vec3Tuple = [number, number, number];
+
+/** XZ grid, each instance has random rotation around Y axis (except the first one) */
 export type InstancesGridDef = {
+  type: 'grid';
   countX: number;
   countY: number;
   spacing: number;
   offsetX: number;
   offsetY: number;
 };
-export const getInstancesCount = (g: InstancesGridDef) => g.countX * g.countY;
+
+/**
+ * Translation, rotation and scale. Rotation is in degrees, applied
+ * in X, Y, Z order. Scale can be non-uniform.
+ *
+ * WARNING: Negative scale (mirroring) flips the triangle winding. Disable
+ * `CONFIG.nanite.render.allowHardwareBackfaceCull` if you use it.
+ */
+export interface InstanceTRS {
+  position: Vec3Tuple;
+  rotationDgr?: Vec3Tuple;
+  scale?: number | Vec3Tuple;
+}
+
+/** Either full model matrix or TRS */
+export type InstanceTransformDef = Mat4 | InstanceTRS;
+
+/** Explicit list of instances */
+export type InstancesListDef = {
+  type: 'list';
+  transforms: InstanceTransformDef[];
+};
+
+/** Random positions inside the box, with random rotation around Y axis. Same seed gives same layout. */
+export type InstancesScatterDef = {
+  type: 'scatter';
+  count: number;
+  seed: number;
+  min: Vec3Tuple;
+  max: Vec3Tuple;
+};
+
+export type InstancesDef =
+  InstancesGridDef | InstancesListDef | InstancesScatterDef;
+
+export const getInstancesCount = (def: InstancesDef) => {
+  switch (def.type) {
+    case 'grid':
+      return def.countX * def.countY;
+    case 'list':
+      return def.transforms.length;
+    case 'scatter':
+      return def.count;
+  }
+};
 
 export function createGrid(
   countX: number = 10,
@@ -19,47 +72,256 @@ export function createGrid(
   offsetX = 0,
   offsetY = 0
 ): InstancesGridDef {
-  return { countX, countY, spacing, offsetX, offsetY };
+  return { type: 'grid', countX, countY, spacing, offsetX, offsetY };
 }
 
-export interface NaniteInstancesData {
-  transforms: Array<Mat4>;
-  /** Array of Mat4 */
-  transformsBuffer: GPUBuffer;
-  count: number;
+export function createInstancesList(
+  transforms: InstanceTransformDef[]
+): InstancesListDef {
+  return { type: 'list', transforms };
+}
+
+export type InstanceId = number;
+
+type ReallocateListener = (device: GPUDevice, capacity: number) => void;
+
+/** Marks unused slots in `transformsBuffer`. Shaders skip them (see `_isInstanceAlive()`) */
+const REMOVED_INSTANCE_TRANSFORM = new Float32Array(16);
+
+/**
+ * Instance transforms of the object (can be shared between objects).
+ * Instances can be added, removed and moved at runtime:
+ *
+ * - slots of removed instances are reused by the next `add()`,
+ * - only the changed range of `transformsBuffer` is uploaded,
+ * - when there is no more space, the buffer grows and all listeners
+ *   (see `onReallocate()`) recreate their per-instance buffers,
+ * - `bvh` is refit for the changed instances.
+ *
+ * Changes are sent to the GPU in `uploadChanges()`, called once per frame.
+ */
+export class NaniteInstancesData {
+  /** Indexed by `InstanceId`. Removed instances are `undefined` until the slot is reused */
+  public readonly transforms: Array<Mat4 | undefined>;
+  /** Array of Mat4. Has `capacity` elements, can be more than `transforms.length` */
+  public transformsBuffer: GPUBuffer;
+  /** Incremented each time `transformsBuffer` is reallocated */
+  public version = 0;
+  /** Incremented each time `transformsBuffer` content changes. Merged scene buffers copy it then */
+  public contentVersion = 0;
+  private _capacity: number;
+  private readonly freeSlots: InstanceId[] = [];
+  private dirtyStart = Infinity;
+  private dirtyEnd = 0; // exclusive
+  private readonly reallocateListeners: ReallocateListener[] = [];
+  private _bvh: InstancesBvh | undefined = undefined;
+
+  constructor(
+    private readonly device: GPUDevice,
+    public readonly name: string,
+    transforms: Mat4[]
+  ) {
+    this.transforms = [...transforms];
+    this._capacity = Math.max(transforms.length, 1);
+    this.transformsBuffer = this.createTransformsBuffer();
+    this.markDirty(0, transforms.length);
+    this.uploadChanges();
+  }
+
+  /** Count of live instances */
+  get count() {
+    return this.transforms.length - this.freeSlots.length;
+  }
+
+  /** How many instances fit into the GPU buffers. Dispatches should cover all of them */
+  get capacity() {
+    return this._capacity;
+  }
+
+  /** Created on first use. Shared by all objects that use these instances */
+  get bvh() {
+    if (this._bvh === undefined) {
+      this._bvh = new InstancesBvh(
+        this.device,
+        this.name,
+        this.transforms,
+        this._capacity
+      );
+    }
+    return this._bvh;
+  }
+
+  isAlive = (id: InstanceId) => this.transforms[id] !== undefined;
+
+  add(transform: InstanceTransformDef): InstanceId {
+    const id = this.freeSlots.pop() ?? this.transforms.length;
+    this.transforms[id] = createTransformFromDef(transform);
+    this.markDirty(id, id + 1);
+    return id;
+  }
+
+  remove(id: InstanceId) {
+    this.assertAlive(id);
+    this.transforms[id] = undefined;
+    this.freeSlots.push(id);
+    this.markDirty(id, id + 1);
+  }
+
+  setTransform(id: InstanceId, transform: InstanceTransformDef) {
+    this.assertAlive(id);
+    this.transforms[id] = createTransformFromDef(transform);
+    this.markDirty(id, id + 1);
+  }
+
+  dispose() {
+    this.transformsBuffer.destroy();
+    this._bvh?.dispose();
+  }
+
+  /** Called after `transformsBuffer` was reallocated, with the new capacity */
+  onReallocate(listener: ReallocateListener) {
+    this.reallocateListeners.push(listener);
+  }
+
+  /** Upload changes since last call. Does nothing if there are no changes, so it's OK to call it for each object that shares the instances. */
+  uploadChanges() {
+    if (this.transforms.length > this._capacity) {
+      this.reallocate(Math.max(this.transforms.length, 2 * this._capacity));
+    }
+    if (this.dirtyStart >= this.dirtyEnd) return;
+
+    const { dirtyStart, dirtyEnd } = this;
+    const data = new Float32Array((dirtyEnd - dirtyStart) * 16);
+    for (let id = dirtyStart; id < dirtyEnd; id++) {
+      const tfx = this.transforms[id] || REMOVED_INSTANCE_TRANSFORM;
+      data.set(tfx, (id - dirtyStart) * 16);
+    }
+    this.device.queue.writeBuffer(
+      this.transformsBuffer,
+      dirtyStart * BYTES_MAT4,
+      data
+    );
+    this._bvh?.markDirty(dirtyStart, dirtyEnd);
+    this._bvh?.uploadChanges();
+    this.contentVersion += 1;
+
+    this.dirtyStart = Infinity;
+    this.dirtyEnd = 0;
+  }
+
+  private reallocate(capacity: number) {
+    this.transformsBuffer.destroy();
+    this._capacity = capacity;
+    this.transformsBuffer = this.createTransformsBuffer();
+    this.version += 1;
+    this.markDirty(0, this.transforms.length);
+    this._bvh?.reallocate(capacity);
+    this.reallocateListeners.forEach((fn) => fn(this.device, capacity));
+  }
+
+  private createTransformsBuffer() {
+    return this.device.createBuffer({
+      label: `${this.name}-nanite-transforms`,
+      size: BYTES_MAT4 * this._capacity,
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.COPY_DST |
+        GPUBufferUsage.COPY_SRC, // copied into the merged scene buffers
+    });
+  }
+
+  private markDirty(start: InstanceId, end: InstanceId) {
+    this.dirtyStart = Math.min(this.dirtyStart, start);
+    this.dirtyEnd = Math.max(this.dirtyEnd, end);
+  }
+
+  private assertAlive(id: InstanceId) {
+    if (!this.isAlive(id)) {
+      throw new Error(`Instance ${id} of '${this.name}' does not exist`);
+    }
+  }
 }
 
 export function createInstancesData(
   device: GPUDevice,
   name: string,
-  grid: InstancesGridDef
+  instancesDef: InstancesDef
 ): NaniteInstancesData {
-  const transformsBuffer = device.createBuffer({
-    label: `${name}-nanite-transforms`,
-    size: BYTES_MAT4 * grid.countX * grid.countY,
-    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-  });
+  const transforms = createInstanceTransforms(instancesDef);
+  return new NaniteInstancesData(device, name, transforms);
+}
+
+export function createInstanceTransforms(instancesDef: InstancesDef): Mat4[] {
+  switch (instancesDef.type) {
+    case 'grid':
+      return createGridTransforms(instancesDef);
+    case 'list':
+      return instancesDef.transforms.map(createTransformFromDef);
+    case 'scatter':
+      return createScatterTransforms(instancesDef);
+  }
+}
+
+const isInstanceTRS = (t: InstanceTransformDef): t is InstanceTRS =>
+  'position' in t;
+
+function createTransformFromDef(t: InstanceTransformDef): Mat4 {
+  if (!isInstanceTRS(t)) {
+    if (t.length !== 16) {
+      throw new Error(`Instance transform matrix should have 16 values, got ${t.length}`); // prettier-ignore
+    }
+    return mat4.clone(t);
+  }
+
+  const [rotX, rotY, rotZ] = t.rotationDgr || [0, 0, 0];
+  const scale = t.scale === undefined ? 1 : t.scale;
+  const result = mat4.translation(t.position);
+  mat4.rotateZ(result, dgr2rad(rotZ), result);
+  mat4.rotateY(result, dgr2rad(rotY), result);
+  mat4.rotateX(result, dgr2rad(rotX), result);
+  const scaleV = typeof scale === 'number' ? [scale, scale, scale] : scale;
+  return mat4.scale(result, scaleV, result);
+}
+
+function createTransform(position: Vec3Tuple, rotationYDgr: number) {
+  const moveMat = mat4.translation(position);
+  const rotMat = mat4.rotationY(dgr2rad(rotationYDgr));
+  return mat4.multiply(moveMat, rotMat);
+}
+
+function createGridTransforms(grid: InstancesGridDef) {
   const transforms: Array<Mat4> = [];
 
-  let offsetBytes = 0;
   for (let x = 0; x < grid.countX; x++) {
     for (let y = 0; y < grid.countY; y++) {
-      const moveMat = mat4.translation([
+      const position: Vec3Tuple = [
         -x * grid.spacing + grid.offsetX,
         0,
         -y * grid.spacing + grid.offsetY,
-      ]);
+      ];
       const angleDgr = x == 0 && y == 0 ? 0 : randomBetween(0, 360);
       // const angleDgr = x * -90; // use if you just want to have preview for other angles
-      const rotMat = mat4.rotationY(dgr2rad(angleDgr));
-      const tfxMat = mat4.multiply(moveMat, rotMat);
-
-      transforms.push(tfxMat);
-      writeMatrixToGPUBuffer(device, transformsBuffer, offsetBytes, tfxMat);
-      offsetBytes += BYTES_MAT4;
+      transforms.push(createTransform(position, angleDgr));
     }
   }
 
-  const count = getInstancesCount(grid);
-  return { transforms, transformsBuffer, count };
+  return transforms;
+}
+
+function createScatterTransforms(scatter: InstancesScatterDef) {
+  const random = createSeededRandom(scatter.seed);
+  const { min, max } = scatter;
+  const transforms: Array<Mat4> = [];
+
+  for (let i = 0; i < scatter.count; i++) {
+    const position: Vec3Tuple = [
+      lerp(min[0], max[0], random()),
+      lerp(min[1], max[1], random()),
+      lerp(min[2], max[2], random()),
+    ];
+    const angleDgr = random() * 360;
+    transforms.push(createTransform(position, angleDgr));
+  }
+
+  return transforms;
 }
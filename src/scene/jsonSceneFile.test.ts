@@ -0,0 +1,153 @@
+import { assertEquals, assertThrows } from 'assert';
+import { SceneFileError, parseJsonSceneFile } from './jsonSceneFile.ts';
+import { createGrid, createInstanceTransforms } from './instancesData.ts';
+import { MAX_LIGHTS } from './lights.ts';
+
+const FILE_PATH = 'scenes/test.json';
+
+const parse = (json: object) =>
+  parseJsonSceneFile(FILE_PATH, JSON.stringify(json));
+
+Deno.test('jsonSceneFile :: parses all instance layouts', () => {
+  const scatter = { count: 3, seed: 5, min: [0, 0, 0], max: [10, 1, 10] };
+  const result = parse({
+    objects: {
+      myBunny: { file: 'bunny.obj', scale: 2, texture: 'test-texture.png' },
+      myCube: { file: 'cube.obj' },
+    },
+    instances: [
+      { model: 'myBunny', grid: { countX: 2, spacing: 3 } },
+      {
+        models: ['bunny', 'myCube'],
+        transforms: [
+          { position: [1, 2, 3], rotationY: 90 },
+          { position: [0, 0, 0], rotation: [10, 20, 30], scale: [1, 2, 3] },
+          { matrix: [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 5, 0, 0, 1] },
+        ],
+      },
+      { model: 'myCube', scatter },
+    ],
+  });
+
+  assertEquals(result.name, FILE_PATH);
+  assertEquals(result.objects, {
+    myBunny: { file: 'bunny.obj', scale: 2, texture: 'test-texture.png' },
+    myCube: { file: 'cube.obj', scale: 1, texture: undefined },
+  });
+
+  const [grid, list, scattered] = result.groups;
+  assertEquals(grid, { models: ['myBunny'], instances: createGrid(2, 10, 3) });
+  assertEquals(list.models, ['bunny', 'myCube']);
+  assertEquals(list.instances, {
+    type: 'list',
+    transforms: [
+      { position: [1, 2, 3], rotationDgr: [0, 90, 0], scale: 1 },
+      { position: [0, 0, 0], rotationDgr: [10, 20, 30], scale: [1, 2, 3] },
+      [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 5, 0, 0, 1],
+    ],
+  });
+  assertEquals(scattered.instances, { type: 'scatter', ...scatter });
+
+  // scatter is deterministic
+  const tfxA = createInstanceTransforms(scattered.instances);
+  const tfxB = createInstanceTransforms(scattered.instances);
+  assertEquals(tfxA.length, 3);
+  assertEquals(tfxA, tfxB);
+  tfxA.forEach((mat) => {
+    const [x, y, z] = [mat[12], mat[13], mat[14]];
+    assertEquals(x >= 0 && x <= 10 && y >= 0 && y <= 1 && z >= 0 && z <= 10, true); // prettier-ignore
+  });
+});
+
+Deno.test('jsonSceneFile :: parses lights', () => {
+  const instances = [{ model: 'bunny', grid: { countX: 1, countY: 1 } }];
+  assertEquals(parse({ instances }).lights, undefined);
+
+  const result = parse({
+    instances,
+    lights: [
+      { type: 'directional', direction: [1, 1, 0], color: [1, 0.5, 0], intensity: 2 }, // prettier-ignore
+      { type: 'point', position: [0, 2, 0] },
+    ],
+  });
+  assertEquals(result.lights, [
+    { type: 'directional', position: [1, 1, 0], color: [1, 0.5, 0], intensity: 2 }, // prettier-ignore
+    { type: 'point', position: [0, 2, 0], color: [1, 1, 1], intensity: 1 },
+  ]);
+});
+
+Deno.test('jsonSceneFile :: reports invalid values', () => {
+  const expectError = (json: object | string, msg: string) => {
+    const text = typeof json === 'string' ? json : JSON.stringify(json);
+    assertThrows(
+      () => parseJsonSceneFile(FILE_PATH, text),
+      SceneFileError,
+      `Invalid scene file '${FILE_PATH}'. ${msg}`
+    );
+  };
+  const grid = { countX: 1, countY: 1 };
+
+  expectError('{ "instances": [', 'Not a valid JSON');
+  expectError([], '$: Expected an object, got array of length 0');
+  expectError({ instances: [] }, '$.instances: Expected a non-empty array');
+  expectError(
+    { instances: [{ model: 'bunny', grid }], camera: {} },
+    `$: Unknown property 'camera'`
+  );
+  expectError(
+    { objects: { bunny: { file: 'a.obj' } }, instances: [{ model: 'bunny', grid }] }, // prettier-ignore
+    '$.objects.bunny: Name is already used by a built-in object'
+  );
+  expectError(
+    { objects: { a: { file: 'a.obj', scale: 0 } }, instances: [{ model: 'a', grid }] }, // prettier-ignore
+    '$.objects.a.scale: Expected a number > 0, got 0'
+  );
+  expectError(
+    { instances: [{ model: 'notAnObject', grid }] },
+    `$.instances[0]: Unknown object 'notAnObject'`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', models: ['cube'], grid }] },
+    `$.instances[0]: Expected exactly one of 'model' or 'models'`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', grid, transforms: [] }] },
+    `$.instances[0]: Expected exactly one of 'grid', 'transforms', 'scatter'`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', grid: { countX: 2.5 } }] },
+    '$.instances[0].grid.countX: Expected an integer, got 2.5'
+  );
+  expectError(
+    { instances: [{ model: 'bunny', transforms: [{ position: [0, '1', 0] }] }] }, // prettier-ignore
+    '$.instances[0].transforms[0].position[1]: Expected a number, got "1"'
+  );
+  expectError(
+    { instances: [{ model: 'bunny', transforms: [{ matrix: [1, 0, 0, 1] }] }] }, // prettier-ignore
+    '$.instances[0].transforms[0].matrix: Expected an array of 16 numbers, got array of length 4'
+  );
+  expectError(
+    { instances: [{ model: 'bunny', transforms: [{ position: [0, 0, 0], matrix: [] }] }] }, // prettier-ignore
+    `$.instances[0].transforms[0]: 'matrix' cannot be combined with 'position'`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', scatter: { count: 1, min: [0, 0, 0], max: [1, -1, 1] } }] }, // prettier-ignore
+    `$.instances[0].scatter: 'min' [0,0,0] is bigger than 'max' [1,-1,1]`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', grid }], lights: [{ type: 'spot', position: [0, 0, 0] }] }, // prettier-ignore
+    `$.lights[0].type: Expected one of: directional, point, got 'spot'`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', grid }], lights: [{ type: 'point', direction: [0, 1, 0] }] }, // prettier-ignore
+    `$.lights[0]: 'point' light does not have a 'direction'`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', grid }], lights: [{ type: 'directional', direction: [0, 0, 0] }] }, // prettier-ignore
+    `$.lights[0].direction: Direction cannot be [0, 0, 0]`
+  );
+  expectError(
+    { instances: [{ model: 'bunny', grid }], lights: new Array(MAX_LIGHTS + 1).fill({ type: 'point', position: [0, 0, 0] }) }, // prettier-ignore
+    `$.lights: Expected at most ${MAX_LIGHTS} lights, got ${MAX_LIGHTS + 1}`
+  );
+});
@@ -0,0 +1,393 @@
+import { CONFIG } from '../constants.ts';
+import {
+  InstanceTransformDef,
+  InstancesDef,
+  InstancesGridDef,
+  InstancesListDef,
+  InstancesScatterDef,
+  createGrid,
+  createInstancesList,
+} from './instancesData.ts';
+import { Light, LightType, MAX_LIGHTS } from './lights.ts';
+import {
+  SceneDef,
+  SceneObjectDef,
+  SceneObjectGroup,
+  isBuiltinObjectName,
+  registerSceneObjectDefs,
+} from './sceneFiles.ts';
+
+/**
+ * JSON scene description. Alternative to the hardcoded `SCENES`.
+ * Objects can be either built-in (see `OBJECTS` in 'sceneFiles.ts')
+ * or defined in the file. Paths are relative to the models directory.
+ *
+ * ```json
+ * {
+ *   "objects": {
+ *     "myBunny": { "file": "bunny.obj", "scale": 8, "texture": "test-texture.png" }
+ *   },
+ *   "instances": [
+ *     { "model": "myBunny", "grid": { "countX": 10, "countY": 10, "spacing": 1.3 } },
+ *     { "models": ["jinxBody", "jinxFace"], "transforms": [{ "position": [0, 0, 0], "rotationY": 90, "scale": 2 }] },
+ *     { "model": "bunny", "scatter": { "count": 100, "seed": 1, "min": [-5, 0, -5], "max": [5, 0, 5] } }
+ *   ],
+ *   "lights": [
+ *     { "type": "directional", "direction": [1, 1, 0], "color": [1, 0.95, 0.8], "intensity": 1.5 },
+ *     { "type": "point", "position": [0, 2, 0], "intensity": 10 }
+ *   ]
+ * }
+ * ```
+ */
+export interface JsonSceneFile {
+  name: string;
+  objects: Record<string, SceneObjectDef>;
+  groups: SceneObjectGroup[];
+  lights: Light[] | undefined;
+}
+
+export class SceneFileError extends Error {
+  constructor(filePath: string, msg: string) {
+    super(`Invalid scene file '${filePath}'. ${msg}`);
+  }
+}
+
+/** Read, validate, and register the objects, so they can be loaded */
+export async function loadJsonSceneFile(filePath: string): Promise<SceneDef> {
+  const text = await CONFIG.loaders.textFileReader(filePath);
+  const sceneFile = parseJsonSceneFile(filePath, text);
+  registerSceneObjectDefs(sceneFile.objects);
+  return {
+    name: sceneFile.name,
+    groups: sceneFile.groups,
+    lights: sceneFile.lights,
+  };
+}
+
+export function parseJsonSceneFile(
+  filePath: string,
+  text: string
+): JsonSceneFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    throw new SceneFileError(filePath, `Not a valid JSON: ${error}`);
+  }
+
+  const v = new JsonValidator(filePath);
+  const root = v.object(json, '$', ['name', 'objects', 'instances', 'lights']);
+
+  const objects: Record<string, SceneObjectDef> = {};
+  if (root.objects !== undefined) {
+    const objectsJson = v.object(root.objects, '$.objects');
+    Object.entries(objectsJson).forEach(([name, objJson]) => {
+      const path = `$.objects.${name}`;
+      if (isBuiltinObjectName(name)) {
+        v.fail(path, `Name is already used by a built-in object`);
+      }
+      objects[name] = parseObjectDef(v, objJson, path);
+    });
+  }
+
+  const instancesJson = v.array(root.instances, '$.instances');
+  const groups = instancesJson.map((groupJson, i) =>
+    parseObjectGroup(v, groupJson, `$.instances[${i}]`, objects)
+  );
+
+  let lights: Light[] | undefined = undefined;
+  if (root.lights !== undefined) {
+    const lightsJson = v.array(root.lights, '$.lights');
+    if (lightsJson.length > MAX_LIGHTS) {
+      v.fail('$.lights', `Expected at most ${MAX_LIGHTS} lights, got ${lightsJson.length}`); // prettier-ignore
+    }
+    lights = lightsJson.map((lightJson, i) =>
+      parseLight(v, lightJson, `$.lights[${i}]`)
+    );
+  }
+
+  return {
+    name: v.optionalString(root.name, '$.name') || filePath,
+    objects,
+    groups,
+    lights,
+  };
+}
+
+function parseObjectDef(
+  v: JsonValidator,
+  json: unknown,
+  path: string
+): SceneObjectDef {
+  const obj = v.object(json, path, ['file', 'scale', 'texture']);
+  return {
+    file: v.string(obj.file, `${path}.file`),
+    scale: v.optionalNumber(obj.scale, `${path}.scale`, { min: 0, exclusiveMin: true }) ?? 1, // prettier-ignore
+    texture: v.optionalString(obj.texture, `${path}.texture`),
+  };
+}
+
+const LAYOUT_KEYS = ['grid', 'transforms', 'scatter'] as const;
+
+function parseObjectGroup(
+  v: JsonValidator,
+  json: unknown,
+  path: string,
+  fileObjects: Record<string, SceneObjectDef>
+): SceneObjectGroup {
+  const obj = v.object(json, path, ['model', 'models', ...LAYOUT_KEYS]);
+
+  // models
+  if ((obj.model === undefined) === (obj.models === undefined)) {
+    v.fail(path, `Expected exactly one of 'model' or 'models'`);
+  }
+  const models =
+    obj.model !== undefined
+      ? [v.string(obj.model, `${path}.model`)]
+      : v.array(obj.models, `${path}.models`).map((m, i) => v.string(m, `${path}.models[${i}]`)); // prettier-ignore
+  models.forEach((name) => {
+    if (!isBuiltinObjectName(name) && !(name in fileObjects)) {
+      v.fail(path, `Unknown object '${name}'. Define it in '$.objects' or use a built-in one`); // prettier-ignore
+    }
+  });
+
+  // instances
+  const layouts = LAYOUT_KEYS.filter((key) => obj[key] !== undefined);
+  if (layouts.length !== 1) {
+    v.fail(path, `Expected exactly one of ${LAYOUT_KEYS.map((k) => `'${k}'`).join(', ')}`); // prettier-ignore
+  }
+  const layout = layouts[0];
+  const layoutPath = `${path}.${layout}`;
+  let instances: InstancesDef;
+  if (layout === 'grid') {
+    instances = parseGrid(v, obj.grid, layoutPath);
+  } else if (layout === 'transforms') {
+    instances = parseTransforms(v, obj.transforms, layoutPath);
+  } else {
+    instances = parseScatter(v, obj.scatter, layoutPath);
+  }
+
+  return { models, instances };
+}
+
+function parseGrid(
+  v: JsonValidator,
+  json: unknown,
+  path: string
+): InstancesGridDef {
+  const obj = v.object(json, path, [
+    'countX',
+    'countY',
+    'spacing',
+    'offsetX',
+    'offsetY',
+  ]);
+  const count = { integer: true, min: 1 };
+  return createGrid(
+    v.optionalNumber(obj.countX, `${path}.countX`, count),
+    v.optionalNumber(obj.countY, `${path}.countY`, count),
+    v.optionalNumber(obj.spacing, `${path}.spacing`),
+    v.optionalNumber(obj.offsetX, `${path}.offsetX`),
+    v.optionalNumber(obj.offsetY, `${path}.offsetY`)
+  );
+}
+
+function parseTransforms(
+  v: JsonValidator,
+  json: unknown,
+  path: string
+): InstancesListDef {
+  const transforms = v
+    .array(json, path)
+    .map((tfxJson, i) => parseTransform(v, tfxJson, `${path}[${i}]`));
+  return createInstancesList(transforms);
+}
+
+function parseTransform(
+  v: JsonValidator,
+  json: unknown,
+  path: string
+): InstanceTransformDef {
+  const obj = v.object(json, path, [
+    'position',
+    'rotation',
+    'rotationY',
+    'scale',
+    'matrix',
+  ]);
+
+  // column-major model matrix
+  if (obj.matrix !== undefined) {
+    const otherKey = Object.keys(obj).find((k) => k !== 'matrix');
+    if (otherKey !== undefined) {
+      v.fail(path, `'matrix' cannot be combined with '${otherKey}'`);
+    }
+    return v.numbers(obj.matrix, `${path}.matrix`, 16);
+  }
+
+  if (obj.rotation !== undefined && obj.rotationY !== undefined) {
+    v.fail(path, `Expected only one of 'rotation' or 'rotationY'`);
+  }
+  const rotationY = v.optionalNumber(obj.rotationY, `${path}.rotationY`) ?? 0;
+  const rotationDgr =
+    obj.rotation !== undefined
+      ? v.vec3(obj.rotation, `${path}.rotation`)
+      : ([0, rotationY, 0] as [number, number, number]);
+  const scale =
+    typeof obj.scale === 'number' || obj.scale === undefined
+      ? (v.optionalNumber(obj.scale, `${path}.scale`) ?? 1)
+      : v.vec3(obj.scale, `${path}.scale`);
+
+  return {
+    position: v.vec3(obj.position, `${path}.position`),
+    rotationDgr,
+    scale,
+  };
+}
+
+function parseScatter(
+  v: JsonValidator,
+  json: unknown,
+  path: string
+): InstancesScatterDef {
+  const obj = v.object(json, path, ['count', 'seed', 'min', 'max']);
+  const count = v.number(obj.count, `${path}.count`, { integer: true, min: 1 });
+  const seed = v.optionalNumber(obj.seed, `${path}.seed`, { integer: true }) ?? 0; // prettier-ignore
+  const min = v.vec3(obj.min, `${path}.min`);
+  const max = v.vec3(obj.max, `${path}.max`);
+  if (min.some((e, i) => e > max[i])) {
+    v.fail(path, `'min' [${min}] is bigger than 'max' [${max}]`);
+  }
+  return { type: 'scatter', count, seed, min, max };
+}
+
+const LIGHT_TYPES: LightType[] = ['directional', 'point'];
+
+function parseLight(v: JsonValidator, json: unknown, path: string): Light {
+  const obj = v.object(json, path, [
+    'type',
+    'direction',
+    'position',
+    'color',
+    'intensity',
+  ]);
+  const type = v.string(obj.type, `${path}.type`) as LightType;
+  if (!LIGHT_TYPES.includes(type)) {
+    v.fail(`${path}.type`, `Expected one of: ${LIGHT_TYPES.join(', ')}, got '${type}'`); // prettier-ignore
+  }
+
+  // directional lights have a direction, point lights have a position
+  const [key, otherKey] =
+    type === 'directional' ? ['direction', 'position'] : ['position', 'direction']; // prettier-ignore
+  if (obj[otherKey] !== undefined) {
+    v.fail(path, `'${type}' light does not have a '${otherKey}'`);
+  }
+  const position = v.vec3(obj[key], `${path}.${key}`);
+  if (type === 'directional' && position.every((e) => e === 0)) {
+    v.fail(`${path}.${key}`, `Direction cannot be [0, 0, 0]`);
+  }
+
+  return {
+    type,
+    position,
+    color: obj.color !== undefined ? v.vec3(obj.color, `${path}.color`) : [1, 1, 1], // prettier-ignore
+    intensity: v.optionalNumber(obj.intensity, `${path}.intensity`, { min: 0 }) ?? 1, // prettier-ignore
+  };
+}
+
+///////////////////////////
+/// Validation utils
+
+type JsonObject = Record<string, unknown>;
+
+interface NumberOpts {
+  integer?: boolean;
+  min?: number;
+  exclusiveMin?: boolean;
+}
+
+/** Each check throws `SceneFileError` with JSON path of the invalid value */
+class JsonValidator {
+  constructor(private readonly filePath: string) {}
+
+  fail(path: string, msg: string): never {
+    throw new SceneFileError(this.filePath, `${path}: ${msg}`);
+  }
+
+  object(value: unknown, path: string, allowedKeys?: string[]): JsonObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(path, `Expected an object, got ${describe(value)}`);
+    }
+    const obj = value as JsonObject;
+    if (allowedKeys) {
+      const unknownKey = Object.keys(obj).find((k) => !allowedKeys.includes(k)); // prettier-ignore
+      if (unknownKey !== undefined) {
+        this.fail(path, `Unknown property '${unknownKey}'. Expected one of: ${allowedKeys.join(', ')}`); // prettier-ignore
+      }
+    }
+    return obj;
+  }
+
+  /** Non-empty array */
+  array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.fail(path, `Expected a non-empty array, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(path, `Expected a non-empty string, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  optionalString(value: unknown, path: string): string | undefined {
+    return value === undefined ? undefined : this.string(value, path);
+  }
+
+  number(value: unknown, path: string, opts: NumberOpts = {}): number {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      this.fail(path, `Expected a number, got ${describe(value)}`);
+    }
+    if (opts.integer && !Number.isInteger(value)) {
+      this.fail(path, `Expected an integer, got ${value}`);
+    }
+    if (opts.min !== undefined) {
+      const tooSmall = opts.exclusiveMin ? value <= opts.min : value < opts.min; // prettier-ignore
+      if (tooSmall) {
+        const op = opts.exclusiveMin ? '>' : '>=';
+        this.fail(path, `Expected a number ${op} ${opts.min}, got ${value}`);
+      }
+    }
+    return value;
+  }
+
+  optionalNumber(
+    value: unknown,
+    path: string,
+    opts: NumberOpts = {}
+  ): number | undefined {
+    return value === undefined ? undefined : this.number(value, path, opts);
+  }
+
+  vec3(value: unknown, path: string): [number, number, number] {
+    const [x, y, z] = this.numbers(value, path, 3);
+    return [x, y, z];
+  }
+
+  numbers(value: unknown, path: string, count: number): number[] {
+    if (!Array.isArray(value) || value.length !== count) {
+      this.fail(path, `Expected an array of ${count} numbers, got ${describe(value)}`); // prettier-ignore
+    }
+    return value.map((e, i) => this.number(e, `${path}[${i}]`));
+  }
+}
+
+function describe(value: unknown) {
+  if (value === undefined) return 'nothing';
+  if (Array.isArray(value)) return `array of length ${value.length}`;
+  return JSON.stringify(value);
+}
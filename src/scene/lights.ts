@@ -0,0 +1,46 @@
+/** Size of the lights array in `RenderUniformsBuffer` */
+export const MAX_LIGHTS = 8;
+
+export type LightType = 'directional' | 'point';
+
+/** Changeable from GUI. Scene file can provide its own list */
+export interface Light {
+  type: LightType;
+  /**
+   * World space.
+   * - 'directional' - direction towards the light, does not have to be normalized,
+   * - 'point' - position. Intensity falls off with the distance squared.
+   */
+  position: [number, number, number];
+  color: [number, number, number];
+  intensity: number;
+}
+
+/** Used if the scene does not define any */
+export const createDefaultLights = (): Light[] => [
+  {
+    type: 'directional',
+    position: [1, 1, 0],
+    color: [1, 0.95, 0.8],
+    intensity: 1.5,
+  },
+  {
+    type: 'directional',
+    position: [-1, -1 / 3, 1 / 3],
+    color: [0.8, 0.8, 1],
+    intensity: 0.7,
+  },
+];
+
+export const createPointLight = (
+  position: [number, number, number]
+): Light => ({
+  type: 'point',
+  position,
+  color: [1, 1, 1],
+  intensity: 10,
+});
+
+/** Only one light has a shadow map. Returns -1 if there is no directional light */
+export const getShadowCastingLightIdx = (lights: Light[]): number =>
+  lights.findIndex((l, i) => i < MAX_LIGHTS && l.type === 'directional');
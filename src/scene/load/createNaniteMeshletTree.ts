@@ -0,0 +1,112 @@
+import { VERTS_IN_TRIANGLE } from '../../constants.ts';
+import { MeshletWIP, isWIP_Root } from '../../meshPreprocessing/index.ts';
+import { calculateBounds } from '../../utils/calcBounds.ts';
+import { createArray, getTriangleCount } from '../../utils/index.ts';
+import { MeshletId, NaniteMeshletTreeNode } from '../naniteObject.ts';
+import { ParsedMesh } from '../objLoader.ts';
+
+/**
+ * Final LOD tree. Does not need GPUDevice, so it's also
+ * used by the exporter to bake the files on machines without GPU.
+ */
+export interface NaniteMeshletTree {
+  allMeshlets: NaniteMeshletTreeNode[];
+  roots: NaniteMeshletTreeNode[];
+  /** Max LOD tree level of _ONE_ of the roots. Some roots might have ended earlier */
+  lodLevelCount: number;
+  /** Index buffer with all meshlets. Use `firstIndexOffset` to get each meshlet's slice. */
+  indices: Uint32Array;
+}
+
+/**
+ * Convert `MeshletWIP`s into tree nodes. Meshlets are sorted breadth-first,
+ * starting from the roots. Ids are rewritten to match this order.
+ */
+export function createNaniteMeshletTree(
+  parsedMesh: ParsedMesh,
+  allWIPMeshlets: MeshletWIP[]
+): NaniteMeshletTree {
+  const totalIndexCount = allWIPMeshlets.reduce(
+    (acc, m) => acc + m.indices.length,
+    0
+  );
+  const tree: NaniteMeshletTree = {
+    allMeshlets: [],
+    roots: [],
+    lodLevelCount: 0,
+    indices: new Uint32Array(totalIndexCount),
+  };
+  const nodesByWIPId = new Map<MeshletId, NaniteMeshletTreeNode>();
+
+  // write meshlets to the LOD tree
+  let nextIndexOffset = 0;
+  let nextId = 0; // id in the index buffer order
+  const rewriteIds = createArray(allWIPMeshlets.length);
+
+  // array of [parentNode, meshletToCheck]
+  const roots = allWIPMeshlets.filter(isWIP_Root);
+  const meshletsToCheck: Array<
+    [NaniteMeshletTreeNode | undefined, MeshletWIP]
+  > = roots.map((m) => [undefined, m]);
+
+  while (meshletsToCheck.length > 0) {
+    const [parentNode, meshlet] = meshletsToCheck.shift()!; // remove 1st from queue
+
+    if (nodesByWIPId.has(meshlet.id)) {
+      continue;
+    }
+
+    // create meshlet
+    const node: NaniteMeshletTreeNode = {
+      id: meshlet.id,
+      lodLevel: meshlet.lodLevel,
+      sharedSiblingsBounds: meshlet.sharedSiblingsBounds,
+      maxSiblingsError: meshlet.maxSiblingsError,
+      parentBounds: meshlet.parentBounds,
+      parentError: meshlet.parentError,
+      cone: meshlet.cone,
+      firstIndexOffset: nextIndexOffset,
+      triangleCount: getTriangleCount(meshlet.indices),
+      createdFrom: [], // filled when children are processed
+      ownBounds: calculateBounds(parsedMesh.positions, meshlet.indices),
+    };
+    nodesByWIPId.set(meshlet.id, node);
+    tree.allMeshlets.push(node);
+    tree.lodLevelCount = Math.max(tree.lodLevelCount, node.lodLevel + 1);
+    if (parentNode) {
+      parentNode.createdFrom.push(node);
+    } else {
+      tree.roots.push(node);
+    }
+
+    // write index buffer slice
+    tree.indices.set(meshlet.indices, nextIndexOffset);
+    nextIndexOffset += node.triangleCount * VERTS_IN_TRIANGLE;
+
+    // rewrite id's to be in index buffer order
+    rewriteIds[meshlet.id] = nextId;
+    nextId += 1;
+
+    // schedule child nodes processing
+    meshlet.createdFrom.forEach((m) => {
+      if (m) {
+        meshletsToCheck.push([node, m]);
+      }
+    });
+  }
+
+  // assert all added OK
+  if (allWIPMeshlets.length !== tree.allMeshlets.length) {
+    // prettier-ignore
+    throw new Error(`Created ${allWIPMeshlets.length} meshlets, but only ${tree.allMeshlets.length} were added to the LOD tree? Please verify '.createdFrom' for all meshlets.`);
+  }
+
+  // rewrite id's to be in index buffer order
+  // This should be the last step, as we use ids all over the place.
+  // After this step, MeshletWIP[_].id !== naniteLODTree.allMeshlets[_].id
+  tree.allMeshlets.forEach((m) => {
+    m.id = rewriteIds[m.id];
+  });
+
+  return tree;
+}
@@ -1,14 +1,13 @@
-import { BYTES_U32, CONFIG } from '../../constants.ts';
-import { NaniteMeshletTreeNode, NaniteObject } from '../naniteObject.ts';
-import { createArray, getBytesForTriangles } from '../../utils/index.ts';
-import { MeshletWIP, isWIP_Root } from '../../meshPreprocessing/index.ts';
-import { calculateBounds } from '../../utils/calcBounds.ts';
+import { CONFIG } from '../../constants.ts';
+import { NaniteObject } from '../naniteObject.ts';
+import { MeshletWIP } from '../../meshPreprocessing/index.ts';
 import { GPUOriginalMesh } from '../GPUOriginalMesh.ts';
 import { ParsedMesh } from '../objLoader.ts';
 import { assertValidNaniteObject } from '../utils/assertValidNaniteObject.ts';
 import { NaniteInstancesData } from '../instancesData.ts';
 import { ImpostorBillboardTexture } from '../renderImpostors/renderImpostors.ts';
-import { NaniteObjectBuffers } from '../naniteBuffers/index.ts';
+import { createNaniteObjectBuffers } from '../naniteBuffers/index.ts';
+import { createNaniteMeshletTree } from './createNaniteMeshletTree.ts';
 
 export function createNaniteObject(
   device: GPUDevice,
@@ -19,13 +18,14 @@ export function createNaniteObject(
   instances: NaniteInstancesData,
   impostor: ImpostorBillboardTexture
 ): NaniteObject {
-  const naniteBuffers = new NaniteObjectBuffers(
+  const naniteBuffers = createNaniteObjectBuffers(
     device,
     name,
     originalMesh,
     loadedObj,
     allWIPMeshlets,
-    instances.count
+    instances.capacity,
+    impostor.layer
   );
 
   const naniteObject = new NaniteObject(
@@ -38,65 +38,11 @@ export function createNaniteObject(
   );
 
   // write meshlets to the LOD tree
-  let indexBufferOffsetBytes = 0;
-  let nextId = 0; // id in the index buffer order
-  const rewriteIds = createArray(naniteObject.meshletCount);
-
-  // array of [parentNode, meshletToCheck]
-  const roots = allWIPMeshlets.filter(isWIP_Root);
-  const meshletsToCheck: Array<
-    [NaniteMeshletTreeNode | undefined, MeshletWIP]
-  > = roots.map((m) => [undefined, m]);
-
-  while (meshletsToCheck.length > 0) {
-    const [parentNode, meshlet] = meshletsToCheck.shift()!; // remove 1st from queue
-
-    if (naniteObject.contains(meshlet.id)) {
-      continue;
-    }
-
-    // create meshlet
-    const ownBounds = calculateBounds(loadedObj.positions, meshlet.indices);
-    const node = naniteObject.addMeshlet(
-      parentNode,
-      meshlet,
-      indexBufferOffsetBytes / BYTES_U32,
-      ownBounds
-    );
-
-    // write index buffer slice
-    device.queue.writeBuffer(
-      naniteBuffers.indexBuffer,
-      indexBufferOffsetBytes,
-      meshlet.indices,
-      0
-    );
-    indexBufferOffsetBytes += getBytesForTriangles(node.triangleCount);
-
-    // rewrite id's to be in index buffer order
-    rewriteIds[meshlet.id] = nextId;
-    nextId += 1;
-
-    // schedule child nodes processing
-    meshlet.createdFrom.forEach((m) => {
-      if (m) {
-        meshletsToCheck.push([node, m]);
-      }
-    });
-  }
-
-  // assert all added OK
-  if (allWIPMeshlets.length !== naniteObject.allMeshlets.length) {
-    // prettier-ignore
-    throw new Error(`Created ${allWIPMeshlets.length} meshlets, but only ${naniteObject.allMeshlets.length} were added to the LOD tree? Please verify '.createdFrom' for all meshlets.`);
-  }
-
-  // rewrite id's to be in index buffer order
-  // This should be the last step, as we use ids all over the place.
-  // After this step, MeshletWIP[_].id !== naniteLODTree.allMeshlets[_].id
-  naniteObject.allMeshlets.forEach((m) => {
-    m.id = rewriteIds[m.id];
-  });
+  const tree = createNaniteMeshletTree(loadedObj, allWIPMeshlets);
+  naniteObject.allMeshlets.push(...tree.allMeshlets);
+  naniteObject.roots.push(...tree.roots);
+  naniteObject.lodLevelCount = tree.lodLevelCount;
+  device.queue.writeBuffer(naniteBuffers.indexBuffer, 0, tree.indices, 0);
 
   // upload meshlet data to the GPU
   naniteObject.finalizeNaniteObject(device);
@@ -25,7 +25,7 @@ export function createOriginalMesh(
     device,
     `${sceneName}-original-uvs`,
     mesh.uv,
-    GPUBufferUsage.STORAGE
+    GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC // COPY_SRC for merged scene buffers
   );
   const indexBuffer = createGPU_IndexBuffer(
     device,
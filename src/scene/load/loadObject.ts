@@ -7,18 +7,32 @@ import { createNaniteMeshlets } from '../../meshPreprocessing/index.ts';
 import { getVertexCount, getTriangleCount } from '../../utils/index.ts';
 import { printBoundingBox } from '../../utils/calcBounds.ts';
 import { createNaniteObject } from './createNaniteObject.ts';
-import { ParsedMesh, loadObjFile } from '../objLoader.ts';
+import { ParsedMesh } from '../objLoader.ts';
 import {
   SceneObjectName,
   getSceneObjectDef,
   SceneObjectDef,
 } from '../sceneFiles.ts';
 import { NaniteInstancesData } from '../instancesData.ts';
-import { ImpostorRenderer } from '../renderImpostors/renderImpostors.ts';
+import {
+  ImpostorRenderer,
+  ImpostorTextureArray,
+} from '../renderImpostors/renderImpostors.ts';
 import { createOriginalMesh } from './createOriginalMesh.ts';
-import { ObjectLoadingProgressCb } from './types.ts';
-import { importFromFile } from '../import-export/import-export.ts';
+import { ObjectLoadingProgressCb, TextureSource } from './types.ts';
+import {
+  importFromFile,
+  importFromLegacyJsonFile,
+} from '../import-export/import-export.ts';
+import { isNaniteFile } from '../import-export/naniteFile.ts';
 import { GPUOriginalMesh } from '../GPUOriginalMesh.ts';
+import {
+  PreprocessExecutor,
+  createPreprocessExecutor,
+} from '../../meshPreprocessing/workers/workerPool.ts';
+import { LoadedGltf, isGltfFile, loadGltfFile } from '../gltfLoader.ts';
+import { isPlyFile } from '../plyLoader.ts';
+import { isStlFile } from '../stlLoader.ts';
 
 export interface ObjectLoaderParams {
   name: SceneObjectName;
@@ -26,19 +40,37 @@ export interface ObjectLoaderParams {
   device: GPUDevice;
   instances: NaniteInstancesData;
   impostorRenderer: ImpostorRenderer;
+  /** Shared by all objects in the scene */
+  impostorTextures: ImpostorTextureArray;
   diffuseTextureView: GPUTextureView | undefined;
   progressCb?: ObjectLoadingProgressCb;
   start: number;
   addTimer: (name: string, start: number) => void;
 }
 
-type Result = Awaited<ReturnType<typeof loadObjectObj>>;
+/** Source mesh file, before the Nanite preprocessing */
+export type MeshFileContent =
+  | { type: 'obj'; objText: string }
+  | { type: 'gltf'; gltf: LoadedGltf }
+  | { type: 'ply' | 'stl'; data: Uint8Array };
+
+/** Files that need Nanite preprocessing. Other files were already exported. */
+export const isMeshFile = (path: string) =>
+  path.toLowerCase().endsWith('.obj') ||
+  isGltfFile(path) ||
+  isPlyFile(path) ||
+  isStlFile(path);
+
+const isLegacyJsonFile = (path: string) => path.endsWith('.json');
+
+type Result = Awaited<ReturnType<typeof loadObjectMesh>>;
 
 export async function loadObject(
   device: GPUDevice,
   name: SceneObjectName,
   instances: NaniteInstancesData,
   impostorRenderer: ImpostorRenderer,
+  impostorTextures: ImpostorTextureArray,
   progressCb?: ObjectLoadingProgressCb
 ): Promise<Result> {
   console.groupCollapsed(`Object '${name}'`);
@@ -48,11 +80,17 @@ export async function loadObject(
   const addTimer = (name: string, start: number) =>
     timers.push(`${name}: ${getDeltaFromTimestampMS(start).toFixed(2)}ms`);
 
-  // get file text
+  // get file content
   const objectDef = getSceneObjectDef(name);
-  const fileText = await CONFIG.loaders.textFileReader(
-    `${MODELS_DIR}/${objectDef.file}`
-  );
+  const filePath = `${MODELS_DIR}/${objectDef.file}`;
+  let fileContent: ArrayBuffer | string | MeshFileContent;
+  if (isNaniteFile(filePath)) {
+    fileContent = await CONFIG.loaders.binaryFileReader(filePath);
+  } else if (isLegacyJsonFile(filePath)) {
+    fileContent = await CONFIG.loaders.textFileReader(filePath);
+  } else {
+    fileContent = await readMeshFile(objectDef);
+  }
   addTimer('File content fetch', start);
 
   // load texture if needed
@@ -60,8 +98,7 @@ export async function loadObject(
   const tex = await loadObjectTexture(
     device,
     addTimer,
-    // deno-lint-ignore no-explicit-any
-    (objectDef as any)['texture']
+    getObjectTextureSource(objectDef, fileContent)
   );
 
   const params: ObjectLoaderParams = {
@@ -70,16 +107,21 @@ export async function loadObject(
     device,
     instances,
     impostorRenderer,
+    impostorTextures,
     progressCb,
     addTimer,
     start,
     diffuseTextureView: tex.diffuseTextureView,
   };
 
-  const isJson = objectDef.file.endsWith('.json');
-  const result: Result = await (isJson
-    ? importFromFile(params, fileText)
-    : loadObjectObj(params, fileText));
+  let result: Result;
+  if (fileContent instanceof ArrayBuffer) {
+    result = await importFromFile(params, fileContent);
+  } else if (typeof fileContent === 'string') {
+    result = await importFromLegacyJsonFile(params, fileContent);
+  } else {
+    result = await loadObjectMesh(params, fileContent);
+  }
 
   // assign textures
   result.naniteObject.diffuseTexture = tex.diffuseTexture;
@@ -93,29 +135,40 @@ export async function loadObject(
   return result;
 }
 
-async function loadObjectObj(params: ObjectLoaderParams, objFileText: string) {
-  const { device, instances, name, objectDef, progressCb, addTimer } = params;
+/** glTF is parsed right away, as it can reference other files. Unknown extensions are treated as OBJ. */
+export async function readMeshFile(
+  objectDef: SceneObjectDef
+): Promise<MeshFileContent> {
+  const filePath = `${MODELS_DIR}/${objectDef.file}`;
+  if (isGltfFile(filePath)) {
+    const fileContent = await CONFIG.loaders.binaryFileReader(filePath);
+    const gltf = await loadGltfFile(fileContent, filePath, objectDef.scale);
+    return { type: 'gltf', gltf };
+  }
+  if (isPlyFile(filePath) || isStlFile(filePath)) {
+    const fileContent = await CONFIG.loaders.binaryFileReader(filePath);
+    const type = isPlyFile(filePath) ? 'ply' : 'stl';
+    return { type, data: new Uint8Array(fileContent) };
+  }
+
+  const objText = await CONFIG.loaders.textFileReader(filePath);
+  return { type: 'obj', objText };
+}
+
+async function loadObjectMesh(
+  params: ObjectLoaderParams,
+  fileContent: MeshFileContent
+) {
+  const { device, instances, name, progressCb, addTimer } = params;
 
-  // parse OBJ file
-  let timerStart = getProfilerTimestamp();
-  const loadedObj = await loadObjFile(objFileText, objectDef.scale);
-  addTimer('OBJ parsing', timerStart);
-  // prettier-ignore
-  console.log(`Object '${name}': ${getVertexCount(loadedObj.positions)} vertices, ${getTriangleCount(loadedObj.indices)} triangles`);
-  printBoundingBox(loadedObj.positions);
+  const { loadedObj, naniteMeshlets } = await preprocessMeshFile(
+    params,
+    fileContent
+  );
 
   // create original mesh
   const originalMesh = createOriginalMesh(device, name, loadedObj);
 
-  // Nanite preprocess: create meshlet LOD hierarchy
-  timerStart = getProfilerTimestamp();
-  const naniteMeshlets = await createNaniteMeshlets(
-    loadedObj,
-    loadedObj.indices,
-    progressCb != undefined ? (p) => progressCb(name, p) : undefined
-  );
-  addTimer('Nanite LOD tree build', timerStart);
-
   // create impostors
   const impostors = await createImpostors(
     params,
@@ -126,7 +179,7 @@ async function loadObjectObj(params: ObjectLoaderParams, objFileText: string) {
 
   // create nanite object
   await progressCb?.(name, `Uploading '${name}' data to the GPU`);
-  timerStart = getProfilerTimestamp();
+  const timerStart = getProfilerTimestamp();
   const naniteObject = createNaniteObject(
     device,
     name,
@@ -145,56 +198,155 @@ async function loadObjectObj(params: ObjectLoaderParams, objFileText: string) {
   };
 }
 
+/** Mesh parse and the LOD tree build. Both are done on the workers (if available). Does not need GPUDevice. */
+export async function preprocessMeshFile(
+  params: Pick<
+    ObjectLoaderParams,
+    'name' | 'objectDef' | 'progressCb' | 'addTimer'
+  >,
+  fileContent: MeshFileContent
+) {
+  const { name, objectDef, progressCb, addTimer } = params;
+  const executor = createPreprocessExecutor();
+
+  try {
+    // parse mesh file
+    let timerStart = getProfilerTimestamp();
+    const loadedObj = await parseMeshFile(
+      executor,
+      fileContent,
+      objectDef.scale
+    );
+    addTimer(`${fileContent.type.toUpperCase()} parsing`, timerStart);
+    // prettier-ignore
+    console.log(`Object '${name}': ${getVertexCount(loadedObj.positions)} vertices, ${getTriangleCount(loadedObj.indices)} triangles`);
+    printBoundingBox(loadedObj.positions);
+
+    // Nanite preprocess: create meshlet LOD hierarchy
+    timerStart = getProfilerTimestamp();
+    const naniteMeshlets = await createNaniteMeshlets(
+      loadedObj,
+      loadedObj.indices,
+      progressCb != undefined ? (p) => progressCb(name, p) : undefined,
+      executor
+    );
+    addTimer('Nanite LOD tree build', timerStart);
+
+    return { loadedObj, naniteMeshlets };
+  } finally {
+    executor.terminate();
+  }
+}
+
+function parseMeshFile(
+  executor: PreprocessExecutor,
+  fileContent: MeshFileContent,
+  scale: number
+) {
+  switch (fileContent.type) {
+    case 'obj': {
+      const { objText } = fileContent;
+      return executor.run('parseObj', { objText, scale });
+    }
+    case 'gltf': {
+      const { rawMesh } = fileContent.gltf;
+      return executor.run('createParsedMesh', { rawMesh });
+    }
+    case 'ply':
+      return executor.run('parsePly', { data: fileContent.data, scale });
+    case 'stl':
+      return executor.run('parseStl', { data: fileContent.data, scale });
+  }
+}
+
 export async function createImpostors(
   params: ObjectLoaderParams,
   name: SceneObjectName,
   originalMesh: GPUOriginalMesh,
   parsedMesh: ParsedMesh
 ) {
-  const { device, impostorRenderer, progressCb, addTimer, diffuseTextureView } =
-    params;
+  const {
+    device,
+    impostorRenderer,
+    impostorTextures,
+    progressCb,
+    addTimer,
+    diffuseTextureView,
+  } = params;
 
   await progressCb?.(name, `Creating impostors`);
   const timerStart = getProfilerTimestamp();
-  const impostor = impostorRenderer.createImpostorTexture(device, {
-    name,
-    vertexBuffer: originalMesh.vertexBuffer,
-    normalsBuffer: originalMesh.normalsBuffer,
-    uvBuffer: originalMesh.uvBuffer,
-    indexBuffer: originalMesh.indexBuffer,
-    triangleCount: originalMesh.triangleCount,
-    bounds: parsedMesh.bounds.sphere,
-    texture: diffuseTextureView,
-  });
+  const impostor = impostorRenderer.createImpostorTexture(
+    device,
+    impostorTextures,
+    {
+      name,
+      vertexBuffer: originalMesh.vertexBuffer,
+      normalsBuffer: originalMesh.normalsBuffer,
+      uvBuffer: originalMesh.uvBuffer,
+      indexBuffer: originalMesh.indexBuffer,
+      triangleCount: originalMesh.triangleCount,
+      bounds: parsedMesh.bounds.sphere,
+      texture: diffuseTextureView,
+    }
+  );
   addTimer('Creating impostors', timerStart);
 
   return impostor;
 }
 
+/** Texture from the object definition overrides the one inside glTF file */
+function getObjectTextureSource(
+  objectDef: SceneObjectDef,
+  fileContent: ArrayBuffer | string | MeshFileContent
+): TextureSource | undefined {
+  if (objectDef.texture) {
+    return { type: 'file', path: `${MODELS_DIR}/${objectDef.texture}` };
+  }
+  if (fileContent instanceof ArrayBuffer || typeof fileContent === 'string') {
+    return undefined; // exported files do not contain textures
+  }
+  return fileContent.type === 'gltf'
+    ? fileContent.gltf.baseColorTexture
+    : undefined;
+}
+
 async function loadObjectTexture(
   device: GPUDevice,
   addTimer: ObjectLoaderParams['addTimer'],
-  fileName: string | undefined
+  source: TextureSource | undefined
 ) {
-  if (!fileName) {
+  if (!source) {
     return { diffuseTexture: undefined, diffuseTextureView: undefined };
   }
 
   const timerStart = getProfilerTimestamp();
 
-  const texturePath = `${MODELS_DIR}/${fileName}`;
+  const format: GPUTextureFormat = 'rgba8unorm-srgb';
   const usage: GPUTextureUsageFlags =
     GPUTextureUsage.TEXTURE_BINDING |
     GPUTextureUsage.COPY_DST |
     GPUTextureUsage.RENDER_ATTACHMENT;
 
-  const diffuseTexture = await CONFIG.loaders.createTextureFromFile(
-    device,
-    texturePath,
-    'rgba8unorm-srgb',
-    usage
-  );
-  console.log(`Texture: '${texturePath}'`);
+  let diffuseTexture: GPUTexture;
+  if (source.type === 'file') {
+    diffuseTexture = await CONFIG.loaders.createTextureFromFile(
+      device,
+      source.path,
+      format,
+      usage
+    );
+  } else {
+    diffuseTexture = await CONFIG.loaders.createTextureFromEmbeddedImage(
+      device,
+      source.label,
+      source.data,
+      source.mimeType,
+      format,
+      usage
+    );
+  }
+  console.log(`Texture: '${diffuseTexture.label}'`);
   const diffuseTextureView = diffuseTexture.createView();
   addTimer('Load texture', timerStart);
 
@@ -7,17 +7,23 @@ import { formatBytes, formatNumber } from '../../utils/index.ts';
 import { createDebugMeshes } from './createDebugMeshes.ts';
 import { NaniteObject } from '../naniteObject.ts';
 import {
+  getBuiltinSceneDef,
   getSceneObjectDef,
-  SceneName,
+  isJsonSceneFile,
+  isValidSceneName,
+  SceneDef,
   SceneObjectName,
+  SceneSource,
   SCENES,
 } from '../sceneFiles.ts';
+import { loadJsonSceneFile } from '../jsonSceneFile.ts';
 import { NaniteInstancesData, createInstancesData } from '../instancesData.ts';
 import { ImpostorRenderer } from '../renderImpostors/renderImpostors.ts';
 import { DebugMeshes, Scene } from '../scene.ts';
 import { createFallbackTexture, createSampler } from '../../utils/textures.ts';
 import { DEFAULT_COLOR } from '../../passes/_shaderSnippets/shading.wgsl.ts';
 import { loadObject } from './loadObject.ts';
+import { createDefaultLights } from '../lights.ts';
 import { ObjectLoadingProgressCb } from './types.ts';
 import { CONFIG } from '../../constants.ts';
 
@@ -30,21 +36,29 @@ export type OnObjectLoadedCb = (
 
 export async function loadScene(
   device: GPUDevice,
-  sceneName: SceneName,
+  scene: SceneSource,
   progressCb?: ObjectLoadingProgressCb,
   objectLoadedCb?: OnObjectLoadedCb
 ): Promise<Scene> {
-  const sceneObjectDefs = getSceneDef(device, sceneName);
+  const sceneDef = await loadSceneDef(scene);
+  const sceneObjectDefs = createSceneInstances(device, sceneDef);
 
   // fallback texture
   const fallbackDiffuseTexture = createFallbackTexture(device, DEFAULT_COLOR);
   const fallbackDiffuseTextureView = fallbackDiffuseTexture.createView();
+  const fallbackDiffuseTextureArrayView = fallbackDiffuseTexture.createView({
+    dimension: '2d-array',
+  });
   const samplerNearest = createSampler(device, 'nearest');
   const samplerLinear = createSampler(device, 'linear');
   const impostorRenderer = new ImpostorRenderer(
     device,
     fallbackDiffuseTextureView
   );
+  const impostorTextures = impostorRenderer.createTextureArray(
+    device,
+    sceneObjectDefs.length
+  );
 
   let debugMeshes: DebugMeshes | undefined = undefined;
   const naniteObjects: NaniteObject[] = [];
@@ -63,6 +77,7 @@ export async function loadScene(
       objDef.model,
       objDef.instances,
       impostorRenderer,
+      impostorTextures,
       progressCb
     );
     naniteObjects.push(obj.naniteObject);
@@ -87,6 +102,7 @@ export async function loadScene(
   }
 
   ensureUniqueNames(naniteObjects);
+  impostorRenderer.dispose();
 
   // update stats
   const delta = getDeltaFromTimestampMS(start);
@@ -95,11 +111,15 @@ export async function loadScene(
 
   return {
     naniteObjects,
+    mergedBuffers: undefined,
     debugMeshes: debugMeshes!, // was created from first nanite object
     fallbackDiffuseTexture,
     fallbackDiffuseTextureView,
+    fallbackDiffuseTextureArrayView,
     samplerNearest,
     samplerLinear,
+    impostorTextures,
+    lights: sceneDef.lights || createDefaultLights(),
     ...stats,
   };
 }
@@ -123,6 +143,7 @@ function updateSceneStats(
   let drawnInstancesBytes = 0;
   let drawnImpostorsBytes = 0;
   let drawnMeshletsBytes = 0;
+  let meshletsQueueBytes = 0;
 
   for (const naniteObj of naniteObjects) {
     naiveTriangleCount +=
@@ -141,6 +162,7 @@ function updateSceneStats(
     drawnInstancesBytes += naniteObj.buffers.drawnInstancesBuffer.size;
     drawnImpostorsBytes += naniteObj.buffers.drawnImpostorsBuffer.size;
     drawnMeshletsBytes += naniteObj.buffers.drawnMeshletsBuffer.size;
+    meshletsQueueBytes += naniteObj.buffers.meshletsQueueBuffer.size;
   }
 
   // memory
@@ -150,6 +172,7 @@ function updateSceneStats(
   STATS.update('Drawn instances', formatBytes(drawnInstancesBytes));
   STATS.update('Drawn impostors', formatBytes(drawnImpostorsBytes));
   STATS.update('Drawn meshlets', formatBytes(drawnMeshletsBytes));
+  STATS.update('Meshlets queue', formatBytes(meshletsQueueBytes));
   // geometry
   STATS.update('Scene meshlets', formatNumber(naiveMeshletCount, 1));
   STATS.update('Scene triangles', formatNumber(naiveTriangleCount, 1));
@@ -164,37 +187,32 @@ function updateSceneStats(
   };
 }
 
-function getSceneDef(
-  device: GPUDevice,
-  sceneName: SceneName
-): Array<{ model: SceneObjectName; instances: NaniteInstancesData }> {
-  const sceneObjectDefs = SCENES[sceneName];
-  const errMsg = `Scene '${sceneName}' is empty`;
-  if (!sceneObjectDefs) {
-    throw new Error(`Scene '${sceneName}' is empty`);
+/** Built-in scene or JSON scene file (path or URL) */
+export async function loadSceneDef(scene: SceneSource): Promise<SceneDef> {
+  if (isValidSceneName(scene)) {
+    return getBuiltinSceneDef(scene);
   }
-
-  // each object has own instance grid
-  if (Array.isArray(sceneObjectDefs)) {
-    if (sceneObjectDefs.length < 1) throw new Error(errMsg);
-
-    return sceneObjectDefs.map((objDef) => {
-      const instances = createInstancesData(
-        device,
-        objDef.model,
-        objDef.instances
-      );
-      return {
-        model: objDef.model,
-        instances,
-      };
-    });
+  if (isJsonSceneFile(scene)) {
+    return await loadJsonSceneFile(scene);
   }
+  const okNames = Object.keys(SCENES).join(', ');
+  throw new Error(`Invalid scene '${scene}'. Expected path to .json scene file or one of: ${okNames}`); // prettier-ignore
+}
 
-  // shared instances grid between all objects
-  const { models, instances } = sceneObjectDefs;
-  const instancesGPU = createInstancesData(device, sceneName, instances);
-  return models.map((model) => ({ model, instances: instancesGPU }));
+function createSceneInstances(
+  device: GPUDevice,
+  sceneDef: SceneDef
+): Array<{ model: SceneObjectName; instances: NaniteInstancesData }> {
+  const errMsg = `Scene '${sceneDef.name}' is empty`;
+  if (sceneDef.groups.length < 1) throw new Error(errMsg);
+
+  // objects in the group share the instances
+  return sceneDef.groups.flatMap((group) => {
+    if (group.models.length < 1) throw new Error(errMsg);
+    const name = group.models.length === 1 ? group.models[0] : sceneDef.name;
+    const instances = createInstancesData(device, name, group.instances);
+    return group.models.map((model) => ({ model, instances }));
+  });
 }
 
 function ensureUniqueNames(naniteObjs: NaniteObject[]) {
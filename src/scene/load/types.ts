@@ -9,6 +9,23 @@ export type TextureReader = (
   usage: GPUTextureUsageFlags
 ) => Promise<GPUTexture>;
 
+/** Image that is part of other file, e.g. glTF's base color texture */
+export type EmbeddedTextureReader = (
+  device: GPUDevice,
+  label: string,
+  data: Uint8Array,
+  mimeType: string,
+  format: GPUTextureFormat,
+  usage: GPUTextureUsageFlags
+) => Promise<GPUTexture>;
+
+export type TextureSource =
+  | { type: 'file'; path: string }
+  | { type: 'embedded'; label: string; data: Uint8Array; mimeType: string };
+
+/** Worker for mesh preprocessing. Web and Deno load the script differently. */
+export type PreprocessWorkerFactory = () => Worker;
+
 /** Progress [0..1] or status */
 export type ObjectLoadingProgressCb = (
   name: string,
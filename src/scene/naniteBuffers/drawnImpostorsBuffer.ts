@@ -3,7 +3,7 @@ import {
   WEBGPU_MINIMAL_BUFFER_SIZE,
   downloadBuffer,
 } from '../../utils/webgpu.ts';
-import { NaniteObject } from '../naniteObject.ts';
+import type { NaniteDrawable } from '../naniteObject.ts';
 
 ///////////////////////////
 /// SHADER CODE
@@ -20,6 +20,9 @@ struct DrawIndirect{
   instanceCount: atomic<u32>,
   firstVertex: u32,
   firstInstance : u32,
+  // other params:
+  /** Instances that are also drawn as mesh. Included in 'instanceCount' */
+  crossFadeCount: atomic<u32>,
 }
 @group(0) @binding(${bindingIdx})
 var<storage, ${access}> _drawnImpostorsParams: DrawIndirect;
@@ -35,7 +38,8 @@ var<storage, ${access}> _drawnImpostorsList: array<u32>;
 
 export const BYTES_DRAWN_IMPOSTORS_PARAMS = Math.max(
   WEBGPU_MINIMAL_BUFFER_SIZE,
-  4 * BYTES_U32
+  4 * BYTES_U32 + // draw indirect
+    BYTES_U32 // crossFadeCount
 );
 
 ///////////////////////////
@@ -69,7 +73,7 @@ export function createDrawnImpostorsBuffer(
  */
 export async function downloadDrawnImpostorsBuffer(
   device: GPUDevice,
-  naniteObject: NaniteObject
+  naniteObject: NaniteDrawable
 ) {
   const gpuBuffer = naniteObject.buffers.drawnImpostorsBuffer;
 
@@ -85,6 +89,7 @@ export async function downloadDrawnImpostorsBuffer(
     impostorCount,
     firstVertex: data[2],
     firstInstance: data[3],
+    crossFadeCount: data[4],
     idsList,
   };
 
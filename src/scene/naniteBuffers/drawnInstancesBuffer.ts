@@ -1,5 +1,4 @@
-import { BYTES_U32, BYTES_VEC4 } from '../../constants.ts';
-import { BoundingSphere } from '../../utils/calcBounds.ts';
+import { BYTES_U32 } from '../../constants.ts';
 import { WEBGPU_MINIMAL_BUFFER_SIZE } from '../../utils/webgpu.ts';
 
 ///////////////////////////
@@ -20,7 +19,7 @@ struct CullParams{
   /** when not limited by dispatch workgroup requirements */
   actuallyDrawnInstances: ${access === 'read' ? 'u32' : 'atomic<u32>'},
   // other params:
-  objectBoundingSphere: vec4f,
+  /** Meshlets of the largest object. Sizes the meshlet culling dispatch */
   allMeshletsCount: u32,
 }
 @group(0) @binding(${bindingIdx})
@@ -31,8 +30,7 @@ export const BYTES_DRAWN_INSTANCES_PARAMS = Math.max(
   WEBGPU_MINIMAL_BUFFER_SIZE,
   3 * BYTES_U32 + // dispatch itself
     BYTES_U32 + // actuallyDrawnInstances
-    BYTES_U32 + // allMeshletsCount
-    BYTES_VEC4 // bounding sphere
+    BYTES_U32 // allMeshletsCount
 );
 
 export const BUFFER_DRAWN_INSTANCES_LIST = (
@@ -51,8 +49,7 @@ export function createDrawnInstanceIdsBuffer(
   device: GPUDevice,
   name: string,
   allMeshletsCount: number,
-  instanceCount: number,
-  wholeObjectBounds: BoundingSphere
+  instanceCount: number
 ): GPUBuffer {
   const dataSize = BYTES_U32 * instanceCount;
 
@@ -66,7 +63,7 @@ export function createDrawnInstanceIdsBuffer(
       GPUBufferUsage.COPY_SRC, // for stats, debug etc.
   });
 
-  writeCullData(device, bufferGpu, allMeshletsCount, wholeObjectBounds);
+  writeCullData(device, bufferGpu, allMeshletsCount);
 
   return bufferGpu;
 }
@@ -74,22 +71,14 @@ export function createDrawnInstanceIdsBuffer(
 function writeCullData(
   device: GPUDevice,
   bufferGpu: GPUBuffer,
-  allMeshletsCount: number,
-  wholeObjectBounds: BoundingSphere
+  allMeshletsCount: number
 ) {
   // write const data
   const buffer = new ArrayBuffer(BYTES_DRAWN_INSTANCES_PARAMS);
-  const bufferF32 = new Float32Array(buffer);
   const bufferU32 = new Uint32Array(buffer);
 
   const offset0 = 4; // dispatch indirect, in BYTES_U32
-  // write bounding sphere
-  bufferF32[offset0 + 0] = wholeObjectBounds.center[0];
-  bufferF32[offset0 + 1] = wholeObjectBounds.center[1];
-  bufferF32[offset0 + 2] = wholeObjectBounds.center[2];
-  bufferF32[offset0 + 3] = wholeObjectBounds.radius;
-  // allMeshletsCount
-  bufferU32[offset0 + 4] = allMeshletsCount;
+  bufferU32[offset0] = allMeshletsCount;
 
   // write
   device.queue.writeBuffer(
@@ -102,7 +91,6 @@ function writeCullData(
 }
 
 export const parseDrawnInstancesBuffer = (data: Uint32Array) => {
-  const dataF32 = new Float32Array(data.buffer);
   const actuallyDrawnInstances = data[3];
 
   const offset = BYTES_DRAWN_INSTANCES_PARAMS / BYTES_U32;
@@ -114,8 +102,7 @@ export const parseDrawnInstancesBuffer = (data: Uint32Array) => {
     workgroupsY: data[1],
     workgroupsZ: data[2],
     actuallyDrawnInstances,
-    boundingSphere: [dataF32[4], dataF32[5], dataF32[6], dataF32[7]],
-    allMeshletsCount: data[8],
+    allMeshletsCount: data[4],
     instanceIds,
   };
 };
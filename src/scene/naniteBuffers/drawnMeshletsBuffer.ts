@@ -4,14 +4,16 @@ import {
   WEBGPU_MINIMAL_BUFFER_SIZE,
   downloadBuffer,
 } from '../../utils/webgpu.ts';
-import { BOTTOM_LEVEL_NODE, NaniteObject } from '../naniteObject.ts';
+import type { NaniteDrawable } from '../naniteObject.ts';
 
 ///////////////////////////
 /// SHADER CODE
 ///
 /// NOTE: Drawn meshlets list contains vec2u(transformMatrixId, meshletId) entries.
 ///       Each such entry will be drawn either by hardware XOR software rasterizer.
-///       Same entry will NEVER exist on both lists at same time. We allocate
+///       Exception are the meshlets in the cross fade band around the software
+///       rasterizer threshold. These are on both lists and each rasterizer draws
+///       only some of the pixels (see 'getRasterizerCrossFade()'). We allocate
 ///       as if we had to drawn most detailed LOD for all instances.
 ///       At the start of the list are items hardware rasterized. At end - software.
 ///////////////////////////
@@ -28,13 +30,16 @@ struct DrawIndirect{
   instanceCount: atomic<u32>,
   firstVertex: u32,
   firstInstance : u32,
+  // other params:
+  /** Meshlets that would be drawn if not for the backface cone culling */
+  coneCulledMeshlets: atomic<u32>,
 }
 @group(0) @binding(${bindingIdx})
 var<storage, ${access}> _drawnMeshletsParams: DrawIndirect;
 `;
 export const BYTES_DRAWN_MESHLETS_PARAMS = Math.max(
   WEBGPU_MINIMAL_BUFFER_SIZE,
-  4 * BYTES_U32
+  5 * BYTES_U32
 );
 
 /** Drawn meshlets params - software */
@@ -100,16 +105,13 @@ ${access == 'read' ? loadUtilFns : storeUtilFns}
 /// GPU BUFFER
 ///////////////////////////
 
+/** List has space for bottom level meshlets of all instances. Sum over all objects in the buffers */
 export function createDrawnMeshletsBuffer(
   device: GPUDevice,
   name: string,
-  allWIPMeshlets: Array<{ lodLevel: number }>,
-  instanceCount: number
+  bottomMeshletInstances: number
 ): GPUBuffer {
-  const bottomMeshletCount = allWIPMeshlets.filter(
-    (m) => m.lodLevel === BOTTOM_LEVEL_NODE
-  ).length;
-  const listSize = bottomMeshletCount * instanceCount * BYTES_UVEC2;
+  const listSize = bottomMeshletInstances * BYTES_UVEC2;
 
   return device.createBuffer({
     label: `${name}-nanite-drawn-meshlets`,
@@ -130,7 +132,7 @@ export function createDrawnMeshletsBuffer(
  */
 export async function downloadDrawnMeshletsBuffer(
   device: GPUDevice,
-  naniteObject: NaniteObject
+  naniteObject: NaniteDrawable
 ) {
   const gpuBuffer = naniteObject.buffers.drawnMeshletsBuffer;
 
@@ -156,7 +158,7 @@ export function parseDrawnMeshletsBuffer(data: Uint32Array) {
   });
 
   // hardware draw
-  const indirectDraw = data.slice(0, 4);
+  const indirectDraw = data.slice(0, 5);
   const meshletCount = indirectDraw[1];
   const meshletIds = createArray(meshletCount).map((_, i) => getDrawByIdx(i));
 
@@ -175,6 +177,7 @@ export function parseDrawnMeshletsBuffer(data: Uint32Array) {
       meshletCount, // indirect draw's instanceCount
       firstVertex: indirectDraw[2],
       firstInstance: indirectDraw[3],
+      coneCulledMeshlets: indirectDraw[4],
       meshletIds,
     },
     softwareRaster: {
@@ -0,0 +1,150 @@
+import { BYTES_U32 } from '../../constants.ts';
+import {
+  WEBGPU_MINIMAL_BUFFER_SIZE,
+  downloadBuffer,
+} from '../../utils/webgpu.ts';
+import type { NaniteDrawable } from '../naniteObject.ts';
+
+///////////////////////////
+/// SHADER CODE
+///
+/// NOTE: Result of per-triangle culling. Triangles of the hardware rasterized
+///       meshlets that survived are written into the compacted index buffer
+///       shared by all objects. Each object draws its own range of it.
+///       Index value is `drawnMeshletIdx * MAX_MESHLET_TRIANGLES * 3 + vertexInMeshlet`.
+///////////////////////////
+
+/** Draw params and stats of triangle culling */
+export const BUFFER_DRAWN_TRIANGLES_PARAMS = (
+  bindingIdx: number
+) => /* wgsl */ `
+
+/** arg for https://developer.mozilla.org/en-US/docs/Web/API/GPURenderPassEncoder/drawIndexedIndirect */
+struct DrawIndexedIndirect {
+  indexCount: atomic<u32>,
+  instanceCount: u32,
+  firstIndex: u32,
+  baseVertex: u32,
+  firstInstance: u32,
+  // other params:
+  culledBackface: atomic<u32>,
+  culledZeroArea: atomic<u32>,
+  culledSmall: atomic<u32>,
+  /** Triangles that did not fit into the compacted index buffer */
+  overflowCount: atomic<u32>,
+}
+@group(0) @binding(${bindingIdx})
+var<storage, read_write> _drawnTrianglesParams: DrawIndexedIndirect;
+`;
+
+export const BYTES_DRAWN_TRIANGLES_PARAMS = Math.max(
+  WEBGPU_MINIMAL_BUFFER_SIZE,
+  9 * BYTES_U32
+);
+
+/** Indirect dispatch for triangle culling. Written from the hardware draw params */
+export const BUFFER_DRAWN_TRIANGLES_DISPATCH = (
+  bindingIdx: number,
+  access: 'read_write' | 'read'
+) => /* wgsl */ `
+
+/** arg for https://developer.mozilla.org/en-US/docs/Web/API/GPUComputePassEncoder/dispatchWorkgroupsIndirect */
+struct DrawnTrianglesDispatch {
+  workgroupsX: u32,
+  workgroupsY: u32,
+  workgroupsZ: u32,
+  /** Hardware rasterized meshlets. Can be more than 'workgroupsX' */
+  meshletCount: u32,
+}
+@group(0) @binding(${bindingIdx})
+var<storage, ${access}> _drawnTrianglesDispatch: DrawnTrianglesDispatch;
+`;
+
+/** Shared by all objects. Header is followed by the index buffer */
+export const BUFFER_COMPACTED_INDICES = (bindingIdx: number) => /* wgsl */ `
+
+struct CompactedIndices {
+  /** Allocator for all objects. Can be more than the capacity */
+  allocatedCount: atomic<u32>,
+  padding0: u32,
+  padding1: u32,
+  padding2: u32,
+  indices: array<u32>,
+}
+@group(0) @binding(${bindingIdx})
+var<storage, read_write> _compactedIndices: CompactedIndices;
+`;
+
+/** Use as offset for `setIndexBuffer()` */
+export const BYTES_COMPACTED_INDICES_HEADER = 4 * BYTES_U32;
+
+///////////////////////////
+/// GPU BUFFER
+///////////////////////////
+
+export function createDrawnTrianglesBuffer(
+  device: GPUDevice,
+  name: string
+): GPUBuffer {
+  return device.createBuffer({
+    label: `${name}-nanite-drawn-triangles`,
+    size: BYTES_DRAWN_TRIANGLES_PARAMS,
+    usage:
+      GPUBufferUsage.STORAGE |
+      GPUBufferUsage.INDIRECT |
+      GPUBufferUsage.COPY_SRC, // for stats, debug etc.
+  });
+}
+
+/** Separate buffer, as we cannot read it as indirect and write in the same dispatch */
+export function createDrawnTrianglesDispatchBuffer(
+  device: GPUDevice,
+  name: string
+): GPUBuffer {
+  return device.createBuffer({
+    label: `${name}-nanite-drawn-triangles-dispatch`,
+    size: WEBGPU_MINIMAL_BUFFER_SIZE,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.INDIRECT,
+  });
+}
+
+export function createCompactedIndexBuffer(
+  device: GPUDevice,
+  maxTriangles: number
+): GPUBuffer {
+  return device.createBuffer({
+    label: `nanite-compacted-index-buffer`,
+    size: BYTES_COMPACTED_INDICES_HEADER + maxTriangles * 3 * BYTES_U32,
+    usage:
+      GPUBufferUsage.STORAGE |
+      GPUBufferUsage.INDEX |
+      GPUBufferUsage.COPY_DST |
+      GPUBufferUsage.COPY_SRC, // for stats, debug etc.
+  });
+}
+
+/**
+ * WARNING: SLOW. DO NOT USE UNLESS FOR DEBUG/TEST PURPOSES.
+ */
+export async function downloadDrawnTrianglesBuffer(
+  device: GPUDevice,
+  naniteObject: NaniteDrawable
+) {
+  const gpuBuffer = naniteObject.buffers.drawnTrianglesBuffer;
+  const data = await downloadBuffer(device, Uint32Array, gpuBuffer);
+  return parseDrawnTrianglesBuffer(data);
+}
+
+export function parseDrawnTrianglesBuffer(data: Uint32Array) {
+  return {
+    indexCount: data[0],
+    instanceCount: data[1],
+    firstIndex: data[2],
+    baseVertex: data[3],
+    firstInstance: data[4],
+    culledBackface: data[5],
+    culledZeroArea: data[6],
+    culledSmall: data[7],
+    overflowCount: data[8],
+  };
+}
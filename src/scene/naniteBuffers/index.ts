@@ -16,9 +16,33 @@ import {
   BYTES_DRAWN_MESHLETS_SW_PARAMS,
   createDrawnMeshletsBuffer,
 } from './drawnMeshletsBuffer.ts';
+import {
+  createDrawnTrianglesBuffer,
+  createDrawnTrianglesDispatchBuffer,
+} from './drawnTrianglesBuffer.ts';
 import { createMeshletsDataBuffer } from './meshletsDataBuffer.ts';
+import {
+  MESHLETS_HIERARCHY_ROOTS_OFFSET,
+  MeshletsHierarchy,
+  createMeshletsHierarchyBuffer,
+} from './meshletsHierarchyBuffer.ts';
+import {
+  BYTES_MESHLETS_QUEUE_PARAMS,
+  createMeshletsQueueBuffer,
+  createMeshletsQueueDispatchBuffer,
+} from './meshletsQueueBuffer.ts';
+import {
+  createInstancesVisibilityBuffer,
+  createMeshletsVisibilityBuffer,
+} from './visibilityBuffer.ts';
+import {
+  NaniteSceneObject,
+  createSceneObjectsBuffer,
+  getSceneObjectsTotals,
+} from './sceneObjectsBuffer.ts';
 import { createOctahedronNormals } from './vertexNormalsBuffer.ts';
 import { createNaniteVertexPositionsBuffer } from './vertexPositionsBuffer.ts';
+import { BOTTOM_LEVEL_NODE } from '../naniteObject.ts';
 
 export const BUFFER_INDEX_BUFFER = (bindingIdx: number) => /* wgsl */ `
 
@@ -30,12 +54,23 @@ type MeshletData = Pick<MeshletWIP, 'lodLevel'> & {
   indices: Uint32Array | number;
 };
 
+/** Geometry of a single object, or of all objects merged into shared buffers */
+export interface NaniteGeometryBuffers {
+  indexBuffer: GPUBuffer;
+  meshletsDataBuffer: GPUBuffer;
+  vertexPositionsBuffer: GPUBuffer;
+  vertexNormalsBuffer: GPUBuffer;
+  vertexUVsBuffer: GPUBuffer;
+}
+
 export class NaniteObjectBuffers {
   /** Allocate single shared index buffer. Meshlets will use slices of it */
   public readonly indexBuffer: GPUBuffer = undefined!;
 
   /** GPU-flow: data for meshlets (NaniteMeshletTreeNode) uploaded to the GPU */
   public readonly meshletsDataBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: roots and children of each meshlet. Created when the LOD tree is finished */
+  public meshletsHierarchyBuffer: GPUBuffer = undefined!;
 
   ///////////////
   // vertex buffers
@@ -48,66 +83,180 @@ export class NaniteObjectBuffers {
   ///////////////
   // buffers that hold per-frame data
 
-  /** GPU-flow: Result of instance culling. Holds 1 dispatch indirect, object bounding sphere, and `Array<tfxId>` */
-  public readonly drawnInstancesBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: Ranges of the objects in these buffers and object of each instance. See `NaniteSceneObject` */
+  public sceneObjectsBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: Result of instance culling. Holds 1 dispatch indirect, max meshlet count, and `Array<tfxId>` */
+  public drawnInstancesBuffer: GPUBuffer = undefined!;
   /** GPU-flow: Draw params and instanceIds for billboards. Holds 1 draw indirect and `Array<tfxId>` */
-  public readonly drawnImpostorsBuffer: GPUBuffer = undefined!;
+  public drawnImpostorsBuffer: GPUBuffer = undefined!;
   /** GPU-flow: [Hardware+Software rasterizing] Temporary structure between passes. Holds:
    * - 1 draw indirect for hardware draw (aligned to 256bytes),
    * - 1 dispatch indirect for software draw (aligned to 256bytes),
    * - list of drawn meshlets: `Array<(tfxId, meshletId)>`
    * See more in the respective file
    */
-  public readonly drawnMeshletsBuffer: GPUBuffer = undefined!;
-
+  public drawnMeshletsBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: [Two-pass occlusion culling] Was the instance visible in previous frames. Holds `Array<u32>` */
+  public instancesVisibilityBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: [Two-pass occlusion culling] Was the meshlet drawn in previous frame. 1 bit per `(tfxId, meshletId)` */
+  public meshletsVisibilityBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: [Hierarchical culling] Work queue of `(tfxId, meshletId)` to check in the next traversal step. Created with the hierarchy */
+  public meshletsQueueBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: [Hierarchical culling] Indirect dispatch for the next traversal step */
+  public readonly meshletsQueueDispatchBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: [Triangle culling] Indexed draw indirect for this object's range of the compacted index buffer + culling stats */
+  public readonly drawnTrianglesBuffer: GPUBuffer = undefined!;
+  /** GPU-flow: [Triangle culling] Indirect dispatch with workgroup per hardware rasterized meshlet */
+  public readonly drawnTrianglesDispatchBuffer: GPUBuffer = undefined!;
+
+  /** Needed to recreate per-frame buffers when instance count grows */
+  private readonly name: string = undefined!;
+  private readonly sceneObjects: NaniteSceneObject[] = undefined!;
+  /** Per object, see `MeshletsHierarchy.traversalWidths`. Sizes the meshlets queue */
+  private traversalWidths: number[] | undefined = undefined;
+
+  /** See `createNaniteObjectBuffers()` for a single object */
   constructor(
     device: GPUDevice,
     name: string,
-    originalMesh: GPUOriginalMesh,
-    loadedObj: ParsedMesh,
-    allWIPMeshlets: Array<MeshletData>,
-    instanceCount: number
+    geometry: NaniteGeometryBuffers,
+    sceneObjects: NaniteSceneObject[]
   ) {
     // convinence for testing
     if (CONFIG.isTest && device == undefined) {
       return;
     }
 
-    this.indexBuffer = createIndexBuffer(device, name, allWIPMeshlets);
-    this.vertexPositionsBuffer = createNaniteVertexPositionsBuffer(
+    this.name = name;
+    this.sceneObjects = sceneObjects;
+    this.indexBuffer = geometry.indexBuffer;
+    this.meshletsDataBuffer = geometry.meshletsDataBuffer;
+    this.vertexPositionsBuffer = geometry.vertexPositionsBuffer;
+    this.vertexNormalsBuffer = geometry.vertexNormalsBuffer;
+    this.vertexUVsBuffer = geometry.vertexUVsBuffer;
+    this.meshletsQueueDispatchBuffer = createMeshletsQueueDispatchBuffer(
       device,
-      name,
-      loadedObj.positions
+      name
     );
-    this.vertexNormalsBuffer = createOctahedronNormals(
+    this.drawnTrianglesBuffer = createDrawnTrianglesBuffer(device, name);
+    this.drawnTrianglesDispatchBuffer = createDrawnTrianglesDispatchBuffer(
       device,
-      name,
-      loadedObj.normals
+      name
     );
-    this.vertexUVsBuffer = originalMesh.uvBuffer;
-    this.meshletsDataBuffer = createMeshletsDataBuffer(
+    this.createInstanceBuffers(device);
+  }
+
+  /** Does not destroy `vertexUVsBuffer`, it belongs to the original mesh */
+  dispose() {
+    this.indexBuffer.destroy();
+    this.meshletsDataBuffer.destroy();
+    this.meshletsHierarchyBuffer?.destroy();
+    this.meshletsQueueDispatchBuffer.destroy();
+    this.drawnTrianglesBuffer.destroy();
+    this.drawnTrianglesDispatchBuffer.destroy();
+    this.vertexPositionsBuffer.destroy();
+    this.vertexNormalsBuffer.destroy();
+    this.destroyInstanceBuffers();
+  }
+
+  /** Max over the objects. Meshlet culling dispatch covers the largest object */
+  get maxMeshletCount() {
+    return Math.max(...this.sceneObjects.map((o) => o.meshletCount));
+  }
+
+  /**
+   * Recreate buffers that hold per-instance data. Bind groups that use them become invalid.
+   * Merged buffers are recreated instead, as the ranges of all objects move.
+   */
+  resizeInstanceBuffers(device: GPUDevice, instanceCount: number) {
+    if (this.sceneObjects.length !== 1) {
+      throw new Error(`Cannot resize instance buffers of merged '${this.name}'`); // prettier-ignore
+    }
+    this.sceneObjects[0].instanceCount = instanceCount;
+    this.destroyInstanceBuffers();
+    this.createInstanceBuffers(device);
+  }
+
+  private createInstanceBuffers(device: GPUDevice) {
+    const { name, sceneObjects } = this;
+    const totals = getSceneObjectsTotals(sceneObjects);
+
+    this.sceneObjectsBuffer = createSceneObjectsBuffer(
       device,
       name,
-      allWIPMeshlets.length
+      sceneObjects
     );
     this.drawnMeshletsBuffer = createDrawnMeshletsBuffer(
       device,
       name,
-      allWIPMeshlets,
-      instanceCount
+      totals.bottomMeshletInstances
     );
     this.drawnInstancesBuffer = createDrawnInstanceIdsBuffer(
       device,
       name,
-      allWIPMeshlets.length,
-      instanceCount,
-      loadedObj.bounds.sphere
+      this.maxMeshletCount,
+      totals.instanceCount
     );
     this.drawnImpostorsBuffer = createDrawnImpostorsBuffer(
       device,
       name,
-      instanceCount
+      totals.instanceCount
     );
+    // visibility is lost. Next frame will draw everything in the 2nd phase
+    this.instancesVisibilityBuffer = createInstancesVisibilityBuffer(
+      device,
+      name,
+      totals.instanceCount
+    );
+    this.meshletsVisibilityBuffer = createMeshletsVisibilityBuffer(
+      device,
+      name,
+      totals.meshletInstances
+    );
+    this.createMeshletsQueueBuffer(device);
+  }
+
+  private createMeshletsQueueBuffer(device: GPUDevice) {
+    const { traversalWidths, sceneObjects } = this;
+    if (!traversalWidths) return;
+
+    const queueCapacity = sceneObjects.reduce(
+      (acc, obj, i) => acc + traversalWidths[i] * obj.instanceCount,
+      0
+    );
+    this.meshletsQueueBuffer = createMeshletsQueueBuffer(
+      device,
+      this.name,
+      queueCapacity
+    );
+  }
+
+  private destroyInstanceBuffers() {
+    this.sceneObjectsBuffer.destroy();
+    this.drawnMeshletsBuffer.destroy();
+    this.drawnInstancesBuffer.destroy();
+    this.drawnImpostorsBuffer.destroy();
+    this.instancesVisibilityBuffer.destroy();
+    this.meshletsVisibilityBuffer.destroy();
+    this.meshletsQueueBuffer?.destroy();
+  }
+
+  /** Call once the LOD tree is finished. Also (re)creates the meshlets queue, as the hierarchy decides its size */
+  uploadMeshletsHierarchy(
+    device: GPUDevice,
+    name: string,
+    hierarchy: MeshletsHierarchy
+  ) {
+    this.meshletsHierarchyBuffer?.destroy();
+    this.meshletsHierarchyBuffer = createMeshletsHierarchyBuffer(
+      device,
+      name,
+      hierarchy
+    );
+
+    this.meshletsQueueBuffer?.destroy();
+    this.traversalWidths = hierarchy.traversalWidths;
+    this.createMeshletsQueueBuffer(device);
   }
 
   bindIndexBuffer = (bindingIdx: number): GPUBindGroupEntry => ({
@@ -135,12 +284,22 @@ export class NaniteObjectBuffers {
     resource: { buffer: this.meshletsDataBuffer },
   });
 
+  bindMeshletsHierarchy = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.meshletsHierarchyBuffer },
+  });
+
+  bindSceneObjects = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.sceneObjectsBuffer },
+  });
+
   ///////////////////////
   // Drawn meshlets - software + hardware
 
   cmdClearDrawnMeshletsParams(cmdBuf: GPUCommandEncoder) {
-    let offset = 0; // clear hardware draw params
-    cmdBuf.clearBuffer(this.drawnMeshletsBuffer, offset, 4 * BYTES_U32);
+    let offset = 0; // clear hardware draw params and cone culling stats
+    cmdBuf.clearBuffer(this.drawnMeshletsBuffer, offset, 5 * BYTES_U32);
     offset = BYTES_DRAWN_MESHLETS_PARAMS; // clear software draw params
     cmdBuf.clearBuffer(this.drawnMeshletsBuffer, offset, 4 * BYTES_U32);
   }
@@ -182,6 +341,10 @@ export class NaniteObjectBuffers {
     },
   });
 
+  _mockMeshletHardwareDraw(device: GPUDevice, params: Uint32Array) {
+    device.queue.writeBuffer(this.drawnMeshletsBuffer, 0, params);
+  }
+
   _mockMeshletSoftwareDraw(device: GPUDevice, params: Uint32Array) {
     device.queue.writeBuffer(
       this.drawnMeshletsBuffer,
@@ -229,7 +392,7 @@ export class NaniteObjectBuffers {
   // Drawn impostors
 
   cmdClearDrawnImpostorsParams(cmdBuf: GPUCommandEncoder) {
-    cmdBuf.clearBuffer(this.drawnImpostorsBuffer, 0, 4 * BYTES_U32);
+    cmdBuf.clearBuffer(this.drawnImpostorsBuffer, 0, 5 * BYTES_U32);
   }
 
   bindDrawnImpostorsParams = (bindingIdx: number): GPUBindGroupEntry => ({
@@ -248,6 +411,107 @@ export class NaniteObjectBuffers {
       offset: BYTES_DRAWN_IMPOSTORS_PARAMS,
     },
   });
+
+  ///////////////////////
+  // Visibility (two-pass occlusion culling)
+
+  bindInstancesVisibility = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.instancesVisibilityBuffer },
+  });
+
+  bindMeshletsVisibility = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.meshletsVisibilityBuffer },
+  });
+
+  ///////////////////////
+  // Meshlets queue (hierarchical culling)
+
+  cmdClearMeshletsQueueParams(cmdBuf: GPUCommandEncoder) {
+    cmdBuf.clearBuffer(this.meshletsQueueBuffer, 0, BYTES_MESHLETS_QUEUE_PARAMS); // prettier-ignore
+  }
+
+  cmdDispatchMeshletsQueueIndirect(computePass: GPUComputePassEncoder) {
+    computePass.dispatchWorkgroupsIndirect(this.meshletsQueueDispatchBuffer, 0);
+  }
+
+  bindMeshletsQueue = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.meshletsQueueBuffer },
+  });
+
+  bindMeshletsQueueDispatch = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.meshletsQueueDispatchBuffer },
+  });
+
+  ///////////////////////
+  // Drawn triangles (triangle culling)
+
+  /** Requires the compacted index buffer to be set */
+  cmdDrawTrianglesIndexedIndirect(renderPass: GPURenderPassEncoder) {
+    renderPass.drawIndexedIndirect(this.drawnTrianglesBuffer, 0);
+  }
+
+  cmdDispatchDrawnTrianglesIndirect(computePass: GPUComputePassEncoder) {
+    computePass.dispatchWorkgroupsIndirect(this.drawnTrianglesDispatchBuffer, 0); // prettier-ignore
+  }
+
+  bindDrawnTrianglesParams = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.drawnTrianglesBuffer },
+  });
+
+  bindDrawnTrianglesDispatch = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.drawnTrianglesDispatchBuffer },
+  });
+}
+
+/** Buffers of a single object. Meshlets and the hierarchy are uploaded once the LOD tree is finished */
+export function createNaniteObjectBuffers(
+  device: GPUDevice,
+  name: string,
+  originalMesh: GPUOriginalMesh,
+  loadedObj: ParsedMesh,
+  allWIPMeshlets: Array<MeshletData>,
+  instanceCount: number,
+  impostorLayer: number
+): NaniteObjectBuffers {
+  const geometry: NaniteGeometryBuffers = {
+    indexBuffer: createIndexBuffer(device, name, allWIPMeshlets),
+    meshletsDataBuffer: createMeshletsDataBuffer(
+      device,
+      name,
+      allWIPMeshlets.length
+    ),
+    vertexPositionsBuffer: createNaniteVertexPositionsBuffer(
+      device,
+      name,
+      loadedObj.positions
+    ),
+    vertexNormalsBuffer: createOctahedronNormals(
+      device,
+      name,
+      loadedObj.normals
+    ),
+    vertexUVsBuffer: originalMesh.uvBuffer,
+  };
+  const sceneObject: NaniteSceneObject = {
+    boundingSphere: loadedObj.bounds.sphere,
+    meshletOffset: 0,
+    meshletCount: allWIPMeshlets.length,
+    bottomMeshletCount: allWIPMeshlets.filter(
+      (m) => m.lodLevel === BOTTOM_LEVEL_NODE
+    ).length,
+    instanceOffset: 0,
+    instanceCount,
+    rootsOffset: MESHLETS_HIERARCHY_ROOTS_OFFSET,
+    impostorLayer,
+    diffuseLayer: 0, // object's own texture
+  };
+  return new NaniteObjectBuffers(device, name, geometry, [sceneObject]);
 }
 
 function createIndexBuffer(
@@ -259,17 +523,12 @@ function createIndexBuffer(
     (acc, m) => acc + getTriangleCount(m.indices),
     0
   );
-  const extraUsage: GPUBufferUsageFlags = CONFIG.isExporting
-    ? GPUBufferUsage.COPY_SRC
-    : 0;
-
   return device.createBuffer({
     label: `${name}-nanite-index-buffer`,
     size: getBytesForTriangles(totalTriangleCount),
     usage:
       GPUBufferUsage.INDEX |
       GPUBufferUsage.COPY_DST |
-      GPUBufferUsage.STORAGE |
-      extraUsage,
+      GPUBufferUsage.STORAGE,
   });
 }
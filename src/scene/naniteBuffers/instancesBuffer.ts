@@ -11,7 +11,13 @@ fn _getInstanceTransform(idx: u32) -> mat4x4<f32> {
   return _instanceTransforms[idx];
 }
 
+/** Includes removed instances, check them with _isInstanceAlive() */
 fn _getInstanceCount() -> u32 {
   return arrayLength(&_instanceTransforms);
 }
+
+/** Removed instances (and unused capacity) have all-zero transform */
+fn _isInstanceAlive(modelMat: mat4x4<f32>) -> bool {
+  return modelMat[3][3] != 0.0;
+}
 `;
@@ -0,0 +1,85 @@
+import { BYTES_U32, BYTES_UVEC4, BYTES_VEC4 } from '../../constants.ts';
+
+/** Max instances in a leaf. Leaf `i` owns slots `[i * LEAF_SIZE, (i + 1) * LEAF_SIZE)` of the ids buffer */
+export const INSTANCES_BVH_LEAF_SIZE = 64;
+
+///////////////////////////
+/// SHADER CODE
+///
+/// Leaves of the instances BVH. Leaf bounds enclose the instance origins.
+/// Objects sharing the instances have different bounds, so each object
+/// expands the leaf with its own bounding sphere (see `_getInstancesBvhLeafBounds()`).
+///////////////////////////
+
+export const BUFFER_INSTANCES_BVH = (
+  bindingIdx: number,
+  idsBindingIdx: number
+) => /* wgsl */ `
+
+struct InstancesBvhLeaf {
+  originsBoundingSphere: vec4f, // world space
+  maxScale: f32,
+  instanceCount: u32,
+  padding0: u32,
+  padding1: u32,
+}
+struct InstancesBvh {
+  leafCount: u32,
+  padding0: u32,
+  padding1: u32,
+  padding2: u32,
+  leaves: array<InstancesBvhLeaf>,
+}
+@group(0) @binding(${bindingIdx})
+var<storage, read> _instancesBvh: InstancesBvh;
+
+@group(0) @binding(${idsBindingIdx})
+var<storage, read> _instancesBvhIds: array<u32>;
+
+fn _getInstancesBvhInstance(leafIdx: u32, idx: u32) -> u32 {
+  return _instancesBvhIds[leafIdx * ${INSTANCES_BVH_LEAF_SIZE}u + idx];
+}
+
+/** World space sphere that contains the object (model space 'boundingSphere') for every instance in the leaf */
+fn _getInstancesBvhLeafBounds(leaf: InstancesBvhLeaf, boundingSphere: vec4f) -> vec4f {
+  let objectRadius = length(boundingSphere.xyz) + boundingSphere.w;
+  let r = leaf.originsBoundingSphere.w + leaf.maxScale * objectRadius;
+  return vec4f(leaf.originsBoundingSphere.xyz, r);
+}
+`;
+
+export const BYTES_INSTANCES_BVH_HEADER = BYTES_UVEC4;
+export const BYTES_INSTANCES_BVH_LEAF = BYTES_VEC4 + BYTES_UVEC4;
+
+///////////////////////////
+/// GPU BUFFER
+///////////////////////////
+
+export const getInstancesBvhMaxLeafCount = (instanceCapacity: number) =>
+  Math.max(1, Math.ceil(instanceCapacity / INSTANCES_BVH_LEAF_SIZE));
+
+export function createInstancesBvhLeavesBuffer(
+  device: GPUDevice,
+  name: string,
+  instanceCapacity: number
+): GPUBuffer {
+  const leafCount = getInstancesBvhMaxLeafCount(instanceCapacity);
+  return device.createBuffer({
+    label: `${name}-nanite-instances-bvh`,
+    size: BYTES_INSTANCES_BVH_HEADER + leafCount * BYTES_INSTANCES_BVH_LEAF,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+  });
+}
+
+export function createInstancesBvhIdsBuffer(
+  device: GPUDevice,
+  name: string,
+  instanceCapacity: number
+): GPUBuffer {
+  const leafCount = getInstancesBvhMaxLeafCount(instanceCapacity);
+  return device.createBuffer({
+    label: `${name}-nanite-instances-bvh-ids`,
+    size: leafCount * INSTANCES_BVH_LEAF_SIZE * BYTES_U32,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+  });
+}
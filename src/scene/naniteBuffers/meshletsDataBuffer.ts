@@ -11,16 +11,20 @@ struct NaniteMeshletTreeNode {
   boundsMidPointAndError: vec4f, // sharedSiblingsBounds.xyz + maxSiblingsError
   parentBoundsMidPointAndError: vec4f, // parentBounds.xyz + parentError
   ownBoundingSphere: vec4f, // ownBounds
+  coneAxisAndCutoff: vec4f, // cone.coneAxis + cone.coneCutoff. Model space
   triangleCount: u32,
   firstIndexOffset: u32,
   lodLevel: u32, // meshlet level + padding
-  padding0: u32, // padding to fill uvec4
+  childrenOffset: u32, // offset into '_meshletsHierarchy'. Also padding to fill uvec4
 }
 @group(0) @binding(${bindingIdx})
 var<storage, read> _meshlets: array<NaniteMeshletTreeNode>;
 `;
 
-const GPU_MESHLET_SIZE_BYTES = 3 * BYTES_VEC4 + BYTES_UVEC4;
+const GPU_MESHLET_SIZE_BYTES = 4 * BYTES_VEC4 + BYTES_UVEC4;
+
+/** Cone that is never culled: cutoff `cos(angle/2) = 1` */
+const NO_CONE = { coneAxis: [0, 0, 0], coneCutoff: 1.0 };
 
 ///////////////////////////
 /// GPU BUFFER
@@ -42,20 +46,28 @@ export function createMeshletsDataBuffer(
 export function uploadMeshletsToGPU(
   device: GPUDevice,
   meshletsBuffer: GPUBuffer,
-  allMeshlets: Array<NaniteMeshletTreeNode>
+  allMeshlets: Array<NaniteMeshletTreeNode>,
+  /** From `createMeshletsHierarchy()`. Defaults to no children */
+  childrenOffsets?: number[],
+  /** Position of the object in the merged scene buffers. Defaults to the whole buffer */
+  merged?: { meshletOffset: number; indexOffset: number }
 ) {
   const meshletCount = allMeshlets.length;
   const actualSize = meshletCount * GPU_MESHLET_SIZE_BYTES;
-  if (actualSize !== meshletsBuffer.size) {
+  let offsetBytes = (merged?.meshletOffset || 0) * GPU_MESHLET_SIZE_BYTES;
+  const isSizeOk = merged
+    ? offsetBytes + actualSize <= meshletsBuffer.size
+    : actualSize === meshletsBuffer.size;
+  if (!isSizeOk) {
     // prettier-ignore
-    throw new Error(`GPU meshlet data preallocated ${meshletsBuffer.size} bytes, but ${actualSize} bytes (${meshletCount} meshlets * ${GPU_MESHLET_SIZE_BYTES}) are needed`);
+    throw new Error(`GPU meshlet data preallocated ${meshletsBuffer.size} bytes, but ${actualSize} bytes (${meshletCount} meshlets * ${GPU_MESHLET_SIZE_BYTES}) are needed at offset ${offsetBytes}`);
   }
 
-  let offsetBytes = 0;
+  const indexOffset = merged?.indexOffset || 0;
   const data = new ArrayBuffer(GPU_MESHLET_SIZE_BYTES);
   const dataAsF32 = new Float32Array(data);
   const dataAsU32 = new Uint32Array(data);
-  allMeshlets.forEach((m) => {
+  allMeshlets.forEach((m, i) => {
     dataAsF32[0] = m.sharedSiblingsBounds.center[0];
     dataAsF32[1] = m.sharedSiblingsBounds.center[1];
     dataAsF32[2] = m.sharedSiblingsBounds.center[2];
@@ -70,10 +82,17 @@ export function uploadMeshletsToGPU(
     dataAsF32[9] = ownBoundSph.center[1];
     dataAsF32[10] = ownBoundSph.center[2];
     dataAsF32[11] = ownBoundSph.radius;
+    // backface culling cone
+    const cone = m.cone || NO_CONE;
+    dataAsF32[12] = cone.coneAxis[0];
+    dataAsF32[13] = cone.coneAxis[1];
+    dataAsF32[14] = cone.coneAxis[2];
+    dataAsF32[15] = cone.coneCutoff;
     // u32's:
-    dataAsU32[12] = m.triangleCount;
-    dataAsU32[13] = m.firstIndexOffset;
-    dataAsU32[14] = m.lodLevel;
+    dataAsU32[16] = m.triangleCount;
+    dataAsU32[17] = indexOffset + m.firstIndexOffset;
+    dataAsU32[18] = m.lodLevel;
+    dataAsU32[19] = childrenOffsets?.[i] || 0;
 
     // write
     device.queue.writeBuffer(
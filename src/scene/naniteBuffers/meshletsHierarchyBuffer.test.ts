@@ -0,0 +1,105 @@
+import { assertEquals, assertThrows } from 'assert';
+import type { NaniteMeshletTreeNode } from '../naniteObject.ts';
+import {
+  createMeshletsHierarchy,
+  mergeMeshletsHierarchies,
+} from './meshletsHierarchyBuffer.ts';
+
+const createMeshlet = (
+  id: number,
+  createdFrom: NaniteMeshletTreeNode[] = []
+): NaniteMeshletTreeNode =>
+  // deno-lint-ignore no-explicit-any
+  ({ id, createdFrom }) as any;
+
+Deno.test('createMeshletsHierarchy', async (t) => {
+  // 2 bottom groups: (a, b) simplified into (p0, p1), (c) into (p2). Root is made from all parents.
+  const a = createMeshlet(0);
+  const b = createMeshlet(1);
+  const c = createMeshlet(2);
+  const p0 = createMeshlet(3, [a, b]);
+  const p1 = createMeshlet(4, [a, b]); // sibling of p0, same children
+  const p2 = createMeshlet(5, [c]);
+  const root = createMeshlet(6, [p0, p1, p2]);
+  const allMeshlets = [a, b, c, p0, p1, p2, root];
+
+  await t.step('lists roots and children', () => {
+    const { data, childrenOffsets } = createMeshletsHierarchy(allMeshlets, [
+      root,
+    ]);
+
+    assertEquals(
+      Array.from(data),
+      [
+        0, // empty children list
+        1, 6, // roots
+        2, 0, 1, // p0
+        1, 2, // p2
+        3, 3, 4, 5, // root
+      ] // prettier-ignore
+    );
+    assertEquals(childrenOffsets, [0, 0, 0, 3, 0, 6, 8]);
+  });
+
+  await t.step('traversal width is the widest depth', () => {
+    const { traversalWidths } = createMeshletsHierarchy(allMeshlets, [root]);
+    // root, then (p0, p1, p2), then (a, b, c)
+    assertEquals(traversalWidths, [3]);
+  });
+
+  await t.step('traversal width can be more than the bottom level', () => {
+    // 3 meshlets simplified from 2. Only q0 lists the children, q1 and q2 are leaves
+    const x = createMeshlet(0);
+    const y = createMeshlet(1);
+    const q0 = createMeshlet(2, [x, y]);
+    const q1 = createMeshlet(3, [x, y]);
+    const q2 = createMeshlet(4, [x, y]);
+    const top = createMeshlet(5, [q0, q1, q2]);
+    const { traversalWidths } = createMeshletsHierarchy(
+      [x, y, q0, q1, q2, top],
+      [top]
+    );
+    assertEquals(traversalWidths, [3]);
+  });
+
+  await t.step('child is listed under only one parent', () => {
+    const { data, childrenOffsets } = createMeshletsHierarchy(allMeshlets, [
+      root,
+    ]);
+    const getChildren = (meshletIdx: number) => {
+      const offset = childrenOffsets[meshletIdx];
+      return Array.from(data.slice(offset + 1, offset + 1 + data[offset]));
+    };
+
+    assertEquals(getChildren(3), [0, 1]);
+    assertEquals(getChildren(4), []); // p1 was deduplicated
+    assertEquals(getChildren(0), []); // bottom level
+  });
+
+  await t.step('merges hierarchies of many objects', () => {
+    const hierarchy = createMeshletsHierarchy(allMeshlets, [root]);
+    const merged = mergeMeshletsHierarchies([
+      { hierarchy, meshletOffset: 0 },
+      { hierarchy, meshletOffset: allMeshlets.length },
+    ]);
+
+    assertEquals(
+      Array.from(merged.data),
+      [
+        0, // empty children list
+        1, 6, 2, 0, 1, 1, 2, 3, 3, 4, 5, // 1st object
+        1, 13, 2, 7, 8, 1, 9, 3, 10, 11, 12, // 2nd object
+      ] // prettier-ignore
+    );
+    assertEquals(merged.rootsOffsets, [1, 12]);
+    assertEquals(merged.traversalWidths, [3, 3]);
+    assertEquals(
+      merged.childrenOffsets,
+      [0, 0, 0, 3, 0, 6, 8, 0, 0, 0, 14, 0, 17, 19] // prettier-ignore
+    );
+  });
+
+  await t.step('throws for unknown meshlet', () => {
+    assertThrows(() => createMeshletsHierarchy([a, p0], [p0]));
+  });
+});
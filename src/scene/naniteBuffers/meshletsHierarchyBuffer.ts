@@ -0,0 +1,167 @@
+import { BYTES_U32 } from '../../constants.ts';
+import { WEBGPU_MINIMAL_BUFFER_SIZE } from '../../utils/webgpu.ts';
+import type { NaniteMeshletTreeNode } from '../naniteObject.ts';
+
+///////////////////////////
+/// SHADER CODE
+///
+/// Roots and children of each meshlet for hierarchical culling. Flat `array<u32>`:
+/// - `[0]` is always 0. Empty children list for meshlets without children,
+/// - `[1]` root count, followed by root meshlet indices,
+/// - then for each meshlet with children: child count, followed by child meshlet indices.
+///
+/// `NaniteMeshletTreeNode.childrenOffset` points to the child count. `NaniteSceneObject.rootsOffset`
+/// points to the root count. Merged buffers append the hierarchies of all objects (without `[0]`).
+///
+/// Each child is listed only once, under one of its parents. All parents of
+/// a meshlet are siblings with the same error, so they take the same decision.
+/// This way each child is added to the traversal queue only once.
+///////////////////////////
+
+export const BUFFER_MESHLETS_HIERARCHY = (bindingIdx: number) => /* wgsl */ `
+
+@group(0) @binding(${bindingIdx})
+var<storage, read> _meshletsHierarchy: array<u32>;
+
+fn _getRootMeshletCount(rootsOffset: u32) -> u32 {
+  return _meshletsHierarchy[rootsOffset];
+}
+fn _getRootMeshlet(rootsOffset: u32, idx: u32) -> u32 {
+  return _meshletsHierarchy[rootsOffset + 1u + idx];
+}
+
+fn _getMeshletChildrenCount(meshlet: NaniteMeshletTreeNode) -> u32 {
+  return _meshletsHierarchy[meshlet.childrenOffset];
+}
+fn _getMeshletChild(meshlet: NaniteMeshletTreeNode, idx: u32) -> u32 {
+  return _meshletsHierarchy[meshlet.childrenOffset + 1u + idx];
+}
+`;
+
+/** Position of the root count in the hierarchy of a single object */
+export const MESHLETS_HIERARCHY_ROOTS_OFFSET = 1;
+
+export interface MeshletsHierarchy {
+  data: Uint32Array;
+  /** Per meshlet (same order as `allMeshlets`). Offset into `data` */
+  childrenOffsets: number[];
+  /**
+   * Per object. Max meshlet count at any depth of the traversal (roots are depth 0).
+   * Each traversal step reads a single depth, so this bounds the meshlets queue per instance.
+   * Can be more than the bottom level meshlet count, as meshlets whose children
+   * are listed under a sibling are leaves too.
+   */
+  traversalWidths: number[];
+}
+
+/** Indices refer to the position in `allMeshlets` (same as the GPU meshlets buffer) */
+export function createMeshletsHierarchy(
+  allMeshlets: Array<NaniteMeshletTreeNode>,
+  roots: Array<NaniteMeshletTreeNode>
+): MeshletsHierarchy {
+  const meshletIdx = new Map<NaniteMeshletTreeNode, number>();
+  allMeshlets.forEach((m, i) => meshletIdx.set(m, i));
+  const getIdx = (m: NaniteMeshletTreeNode) => {
+    const idx = meshletIdx.get(m);
+    if (idx === undefined) {
+      throw new Error(`Meshlet ${m.id} is not in the list of all meshlets`);
+    }
+    return idx;
+  };
+
+  const data: number[] = [0, roots.length, ...roots.map(getIdx)];
+  const childrenOffsets: number[] = allMeshlets.map(() => 0);
+  const childrenIdx: number[][] = allMeshlets.map(() => []);
+  const hasParent = new Set<NaniteMeshletTreeNode>();
+
+  allMeshlets.forEach((m, i) => {
+    const children = m.createdFrom.filter((child) => !hasParent.has(child));
+    if (children.length === 0) return;
+
+    childrenOffsets[i] = data.length;
+    data.push(children.length);
+    children.forEach((child) => {
+      hasParent.add(child);
+      data.push(getIdx(child));
+      childrenIdx[i].push(getIdx(child));
+    });
+  });
+
+  // walk the tree depth by depth, same as the GPU traversal
+  let depthMeshlets = roots.map(getIdx);
+  let traversalWidth = depthMeshlets.length;
+  while (depthMeshlets.length > 0) {
+    depthMeshlets = depthMeshlets.flatMap((idx) => childrenIdx[idx]);
+    traversalWidth = Math.max(traversalWidth, depthMeshlets.length);
+  }
+
+  return {
+    data: new Uint32Array(data),
+    childrenOffsets,
+    traversalWidths: [traversalWidth],
+  };
+}
+
+/**
+ * Appends hierarchies of many objects (see `NaniteSceneBuffers`). Meshlets of each object
+ * follow the previous object's, so child indices are moved by `meshletOffset`.
+ * Offsets are moved by the position of the object's data.
+ */
+export function mergeMeshletsHierarchies(
+  objects: Array<{ hierarchy: MeshletsHierarchy; meshletOffset: number }>
+): MeshletsHierarchy & { rootsOffsets: number[] } {
+  const data: number[] = [0]; // shared empty children list
+  const childrenOffsets: number[] = [];
+  const rootsOffsets: number[] = [];
+  const traversalWidths: number[] = [];
+
+  objects.forEach(({ hierarchy, meshletOffset }) => {
+    const src = hierarchy.data;
+    const shift = data.length - MESHLETS_HIERARCHY_ROOTS_OFFSET;
+    rootsOffsets.push(MESHLETS_HIERARCHY_ROOTS_OFFSET + shift);
+
+    // rest of the data is a list of: count, followed by meshlet indices
+    let i = MESHLETS_HIERARCHY_ROOTS_OFFSET;
+    while (i < src.length) {
+      const count = src[i];
+      data.push(count);
+      for (let j = 1; j <= count; j++) {
+        data.push(src[i + j] + meshletOffset);
+      }
+      i += count + 1;
+    }
+
+    hierarchy.childrenOffsets.forEach((offset) => {
+      childrenOffsets.push(offset === 0 ? 0 : offset + shift);
+    });
+    traversalWidths.push(...hierarchy.traversalWidths);
+  });
+
+  return {
+    data: new Uint32Array(data),
+    childrenOffsets,
+    traversalWidths,
+    rootsOffsets,
+  };
+}
+
+///////////////////////////
+/// GPU BUFFER
+///////////////////////////
+
+export function createMeshletsHierarchyBuffer(
+  device: GPUDevice,
+  name: string,
+  hierarchy: MeshletsHierarchy
+): GPUBuffer {
+  const gpuBuffer = device.createBuffer({
+    label: `${name}-nanite-meshlets-hierarchy`,
+    size: Math.max(
+      WEBGPU_MINIMAL_BUFFER_SIZE,
+      hierarchy.data.length * BYTES_U32
+    ),
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+  });
+  device.queue.writeBuffer(gpuBuffer, 0, hierarchy.data);
+  return gpuBuffer;
+}
@@ -0,0 +1,132 @@
+import { BYTES_U32, BYTES_UVEC2 } from '../../constants.ts';
+import {
+  WEBGPU_MINIMAL_BUFFER_SIZE,
+  downloadBuffer,
+} from '../../utils/webgpu.ts';
+import type { NaniteDrawable } from '../naniteObject.ts';
+
+///////////////////////////
+/// SHADER CODE
+///
+/// Work queue for hierarchical meshlet culling. Each traversal step reads
+/// `vec2u(tfxId, meshletId)` entries from one half of `items` and appends
+/// children to the other half. Between the steps, a single thread swaps the
+/// halves and writes the indirect dispatch for the next step.
+///////////////////////////
+
+export const BUFFER_MESHLETS_QUEUE = (bindingIdx: number) => /* wgsl */ `
+
+struct MeshletsQueue {
+  /** Which half of 'items' is read in the current step. Other half is written */
+  inSlot: u32,
+  inCount: u32,
+  outCount: atomic<u32>,
+  /** Entries that did not fit. Always 0, as the queue is sized for the widest traversal depth */
+  overflowCount: atomic<u32>,
+  items: array<vec2u>,
+}
+@group(0) @binding(${bindingIdx})
+var<storage, read_write> _meshletsQueue: MeshletsQueue;
+
+fn _getMeshletsQueueCapacity() -> u32 {
+  return arrayLength(&_meshletsQueue.items) / 2u;
+}
+
+fn _getMeshletsQueueItem(idx: u32) -> vec2u {
+  let offset = _meshletsQueue.inSlot * _getMeshletsQueueCapacity();
+  return _meshletsQueue.items[offset + idx];
+}
+
+fn _pushMeshletsQueue(tfxIdx: u32, meshletIdx: u32) {
+  let capacity = _getMeshletsQueueCapacity();
+  let idx = atomicAdd(&_meshletsQueue.outCount, 1u);
+  if (idx >= capacity) {
+    atomicAdd(&_meshletsQueue.overflowCount, 1u);
+    return;
+  }
+  let offset = (1u - _meshletsQueue.inSlot) * capacity;
+  _meshletsQueue.items[offset + idx] = vec2u(tfxIdx, meshletIdx);
+}
+`;
+
+export const BYTES_MESHLETS_QUEUE_PARAMS = 4 * BYTES_U32;
+
+/** Indirect dispatch for the next traversal step */
+export const BUFFER_MESHLETS_QUEUE_DISPATCH = (
+  bindingIdx: number
+) => /* wgsl */ `
+
+/** arg for https://developer.mozilla.org/en-US/docs/Web/API/GPUComputePassEncoder/dispatchWorkgroupsIndirect */
+struct MeshletsQueueDispatch {
+  workgroupsX: u32,
+  workgroupsY: u32,
+  workgroupsZ: u32,
+}
+@group(0) @binding(${bindingIdx})
+var<storage, read_write> _meshletsQueueDispatch: MeshletsQueueDispatch;
+`;
+
+///////////////////////////
+/// GPU BUFFER
+///////////////////////////
+
+/**
+ * Each half has space for the widest traversal depth of all instances,
+ * see `MeshletsHierarchy.traversalWidths`. It can never overflow.
+ */
+export function createMeshletsQueueBuffer(
+  device: GPUDevice,
+  name: string,
+  capacity: number
+): GPUBuffer {
+  const itemsSize = 2 * Math.max(capacity, 1) * BYTES_UVEC2;
+
+  return device.createBuffer({
+    label: `${name}-nanite-meshlets-queue`,
+    size: BYTES_MESHLETS_QUEUE_PARAMS + itemsSize,
+    usage:
+      GPUBufferUsage.STORAGE |
+      GPUBufferUsage.COPY_DST |
+      GPUBufferUsage.COPY_SRC, // for stats, debug etc.
+  });
+}
+
+/** Separate buffer, as we cannot read it as indirect and write in the same dispatch */
+export function createMeshletsQueueDispatchBuffer(
+  device: GPUDevice,
+  name: string
+): GPUBuffer {
+  return device.createBuffer({
+    label: `${name}-nanite-meshlets-queue-dispatch`,
+    size: WEBGPU_MINIMAL_BUFFER_SIZE,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.INDIRECT,
+  });
+}
+
+/**
+ * WARNING: SLOW. DO NOT USE UNLESS FOR DEBUG/TEST PURPOSES.
+ *
+ * Downloads only the params, not the items.
+ */
+export async function downloadMeshletsQueueBuffer(
+  device: GPUDevice,
+  naniteObject: NaniteDrawable
+) {
+  const gpuBuffer = naniteObject.buffers.meshletsQueueBuffer;
+  const data = await downloadBuffer(
+    device,
+    Uint32Array,
+    gpuBuffer,
+    BYTES_MESHLETS_QUEUE_PARAMS
+  );
+  return parseMeshletsQueueBuffer(data);
+}
+
+export function parseMeshletsQueueBuffer(data: Uint32Array) {
+  return {
+    inSlot: data[0],
+    inCount: data[1],
+    outCount: data[2],
+    overflowCount: data[3],
+  };
+}
@@ -0,0 +1,136 @@
+import { BYTES_U32, BYTES_VEC4 } from '../../constants.ts';
+import { BoundingSphere } from '../../utils/calcBounds.ts';
+
+///////////////////////////
+/// SHADER CODE
+///
+/// Objects inside the nanite buffers. Usually there is only one object. When
+/// the scene is merged (see `NaniteSceneBuffers`), all objects share the buffers:
+/// - meshlet ids are global, index into the merged meshlets table,
+/// - instance ids (tfxIdx) are global, index into the merged transforms,
+/// - `instanceObjectIds[tfxIdx]` is the object of the instance.
+///////////////////////////
+
+/** Size of the fixed objects table. Scenes with more objects are not merged */
+export const MAX_NANITE_SCENE_OBJECTS = 128;
+
+export const BUFFER_SCENE_OBJECTS = (bindingIdx: number) => /* wgsl */ `
+
+struct NaniteSceneObject {
+  boundingSphere: vec4f, // model space
+  meshletOffset: u32,
+  meshletCount: u32,
+  instanceOffset: u32,
+  /** Offset into '_meshletsHierarchy'. Points to the root count */
+  rootsOffset: u32,
+  /** First bit of this object in '_meshletsVisibility' */
+  meshletsVisibilityOffset: u32,
+  /** Layer in the impostor texture array */
+  impostorLayer: u32,
+  /** Layer in the diffuse texture array */
+  diffuseLayer: u32,
+  padding0: u32,
+}
+struct NaniteSceneObjects {
+  objects: array<NaniteSceneObject, ${MAX_NANITE_SCENE_OBJECTS}>,
+  /** Object of each instance */
+  instanceObjectIds: array<u32>,
+}
+@group(0) @binding(${bindingIdx})
+var<storage, read> _sceneObjects: NaniteSceneObjects;
+
+fn _getInstanceObject(tfxIdx: u32) -> NaniteSceneObject {
+  return _sceneObjects.objects[_sceneObjects.instanceObjectIds[tfxIdx]];
+}
+
+/** Index of the '(tfxIdx, meshletIdx)' bit in '_meshletsVisibility'. Both ids are global */
+fn _getMeshletVisibilityIdx(obj: NaniteSceneObject, tfxIdx: u32, meshletIdx: u32) -> u32 {
+  let localTfxIdx = tfxIdx - obj.instanceOffset;
+  let localMeshletIdx = meshletIdx - obj.meshletOffset;
+  return obj.meshletsVisibilityOffset + localTfxIdx * obj.meshletCount + localMeshletIdx;
+}
+`;
+
+const BYTES_SCENE_OBJECT = BYTES_VEC4 + 8 * BYTES_U32;
+
+/** Range of a single object inside the nanite buffers */
+export interface NaniteSceneObject {
+  /** Model space */
+  boundingSphere: BoundingSphere;
+  meshletOffset: number;
+  meshletCount: number;
+  /** Sizes the drawn meshlets list */
+  bottomMeshletCount: number;
+  instanceOffset: number;
+  /** Instance capacity, not the live count */
+  instanceCount: number;
+  /** Offset into the meshlets hierarchy. Points to the root count */
+  rootsOffset: number;
+  impostorLayer: number;
+  diffuseLayer: number;
+}
+
+/** Sums over all objects. Used to size the per-instance buffers */
+export function getSceneObjectsTotals(objects: NaniteSceneObject[]) {
+  return objects.reduce(
+    (acc, obj) => ({
+      instanceCount: acc.instanceCount + obj.instanceCount,
+      meshletInstances:
+        acc.meshletInstances + obj.meshletCount * obj.instanceCount,
+      bottomMeshletInstances:
+        acc.bottomMeshletInstances + obj.bottomMeshletCount * obj.instanceCount,
+    }),
+    { instanceCount: 0, meshletInstances: 0, bottomMeshletInstances: 0 }
+  );
+}
+
+///////////////////////////
+/// GPU BUFFER
+///////////////////////////
+
+export function createSceneObjectsBuffer(
+  device: GPUDevice,
+  name: string,
+  objects: NaniteSceneObject[]
+): GPUBuffer {
+  if (objects.length > MAX_NANITE_SCENE_OBJECTS) {
+    throw new Error(`Nanite buffers can hold at most ${MAX_NANITE_SCENE_OBJECTS} objects, got ${objects.length}`); // prettier-ignore
+  }
+
+  const { instanceCount } = getSceneObjectsTotals(objects);
+  const objectsSize = MAX_NANITE_SCENE_OBJECTS * BYTES_SCENE_OBJECT;
+  // struct has vec4 alignment, so its size is rounded up to 16 bytes
+  const idsCount = Math.ceil(Math.max(instanceCount, 1) / 4) * 4;
+  const data = new ArrayBuffer(objectsSize + idsCount * BYTES_U32);
+  const dataAsF32 = new Float32Array(data);
+  const dataAsU32 = new Uint32Array(data);
+
+  let meshletsVisibilityOffset = 0;
+  objects.forEach((obj, i) => {
+    const offset = (i * BYTES_SCENE_OBJECT) / BYTES_U32;
+    const sphere = obj.boundingSphere;
+    dataAsF32[offset + 0] = sphere.center[0];
+    dataAsF32[offset + 1] = sphere.center[1];
+    dataAsF32[offset + 2] = sphere.center[2];
+    dataAsF32[offset + 3] = sphere.radius;
+    dataAsU32[offset + 4] = obj.meshletOffset;
+    dataAsU32[offset + 5] = obj.meshletCount;
+    dataAsU32[offset + 6] = obj.instanceOffset;
+    dataAsU32[offset + 7] = obj.rootsOffset;
+    dataAsU32[offset + 8] = meshletsVisibilityOffset;
+    dataAsU32[offset + 9] = obj.impostorLayer;
+    dataAsU32[offset + 10] = obj.diffuseLayer;
+    meshletsVisibilityOffset += obj.meshletCount * obj.instanceCount;
+
+    const idsStart = objectsSize / BYTES_U32 + obj.instanceOffset;
+    dataAsU32.fill(i, idsStart, idsStart + obj.instanceCount);
+  });
+
+  const gpuBuffer = device.createBuffer({
+    label: `${name}-nanite-scene-objects`,
+    size: data.byteLength,
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+  });
+  device.queue.writeBuffer(gpuBuffer, 0, data);
+  return gpuBuffer;
+}
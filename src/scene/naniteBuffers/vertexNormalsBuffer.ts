@@ -47,7 +47,7 @@ export function createOctahedronNormals(
   return createGPUBuffer(
     device,
     `${name}-nanite-octahedron-normals`,
-    GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
     data
   );
 }
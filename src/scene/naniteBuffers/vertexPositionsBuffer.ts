@@ -45,7 +45,7 @@ function createNaniteVertexPositionsBuffer_Native(
   return createGPUBuffer(
     device,
     `${name}-nanite-vertex-buffer-vec4`,
-    GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
     data
   );
 }
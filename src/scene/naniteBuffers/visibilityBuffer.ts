@@ -0,0 +1,112 @@
+import { BYTES_U32 } from '../../constants.ts';
+import { WEBGPU_MINIMAL_BUFFER_SIZE } from '../../utils/webgpu.ts';
+
+///////////////////////////
+/// SHADER CODE
+/// Visibility persisted between frames for two-pass occlusion culling.
+/// Only 'phase2' of the culling passes writes it.
+///////////////////////////
+
+/**
+ * One u32 per instance:
+ * - 'INSTANCE_VISIBLE' - result of the latest 'phase2' test,
+ * - 'INSTANCE_VISIBLE_LAST_FRAME' - result of the one before.
+ *
+ * Before cullInstancesPass 'phase2' the latest result IS the last frame.
+ * After it, the last frame's value is moved to the second bit.
+ */
+export const BUFFER_INSTANCES_VISIBILITY = (
+  bindingIdx: number,
+  access: 'read_write' | 'read'
+) => /* wgsl */ `
+
+const INSTANCE_VISIBLE: u32 = 1u;
+const INSTANCE_VISIBLE_LAST_FRAME: u32 = 2u;
+
+@group(0) @binding(${bindingIdx})
+var<storage, ${access}> _instancesVisibility: array<u32>;
+
+fn _checkInstanceVisibility(tfxIdx: u32, bit: u32) -> bool {
+  return (_instancesVisibility[tfxIdx] & bit) != 0u;
+}
+
+${access === 'read_write' ? STORE_INSTANCE_VISIBILITY : ''}
+`;
+
+const STORE_INSTANCE_VISIBILITY = /* wgsl */ `
+fn _storeInstanceVisibility(tfxIdx: u32, isVisible: bool) {
+  let lastFrame = _instancesVisibility[tfxIdx] & INSTANCE_VISIBLE;
+  _instancesVisibility[tfxIdx] = select(0u, INSTANCE_VISIBLE, isVisible) | (lastFrame << 1u);
+}
+`;
+
+/**
+ * One bit per (instance, meshlet) pair. Set if the meshlet was drawn (correct LOD and passed culling).
+ * Objects have separate ranges of bits, see '_getMeshletVisibilityIdx()'.
+ */
+export const BUFFER_MESHLETS_VISIBILITY = (
+  bindingIdx: number,
+  access: 'read_write' | 'read'
+) => /* wgsl */ `
+
+@group(0) @binding(${bindingIdx})
+var<storage, ${access}> _meshletsVisibility: array<${access === 'read_write' ? 'atomic<u32>' : 'u32'}>;
+
+/** Returns (word index, bit mask) */
+fn _getMeshletVisibilityBit(idx: u32) -> vec2u {
+  return vec2u(idx / 32u, 1u << (idx % 32u));
+}
+
+${access === 'read_write' ? STORE_MESHLET_VISIBILITY : READ_MESHLET_VISIBILITY}
+`;
+
+const READ_MESHLET_VISIBILITY = /* wgsl */ `
+fn _wasMeshletVisible(visibilityIdx: u32) -> bool {
+  let bit = _getMeshletVisibilityBit(visibilityIdx);
+  return (_meshletsVisibility[bit.x] & bit.y) != 0u;
+}
+`;
+
+const STORE_MESHLET_VISIBILITY = /* wgsl */ `
+/** Returns previous value */
+fn _storeMeshletVisibility(visibilityIdx: u32, isVisible: bool) -> bool {
+  let bit = _getMeshletVisibilityBit(visibilityIdx);
+  var prev = 0u;
+  if (isVisible) {
+    prev = atomicOr(&_meshletsVisibility[bit.x], bit.y);
+  } else {
+    prev = atomicAnd(&_meshletsVisibility[bit.x], ~bit.y);
+  }
+  return (prev & bit.y) != 0u;
+}
+`;
+
+///////////////////////////
+/// GPU BUFFER
+///////////////////////////
+
+export function createInstancesVisibilityBuffer(
+  device: GPUDevice,
+  name: string,
+  instanceCount: number
+): GPUBuffer {
+  return device.createBuffer({
+    label: `${name}-nanite-instances-visibility`,
+    size: Math.max(WEBGPU_MINIMAL_BUFFER_SIZE, BYTES_U32 * instanceCount),
+    usage: GPUBufferUsage.STORAGE,
+  });
+}
+
+/** Bit per meshlet of each instance. Sum over all objects in the buffers */
+export function createMeshletsVisibilityBuffer(
+  device: GPUDevice,
+  name: string,
+  meshletInstances: number
+): GPUBuffer {
+  const words = Math.ceil(meshletInstances / 32);
+  return device.createBuffer({
+    label: `${name}-nanite-meshlets-visibility`,
+    size: Math.max(WEBGPU_MINIMAL_BUFFER_SIZE, BYTES_U32 * words),
+    usage: GPUBufferUsage.STORAGE,
+  });
+}
@@ -1,13 +1,14 @@
 import { IS_DENO, VERTS_IN_TRIANGLE } from '../constants.ts';
 import { MeshletWIP } from '../meshPreprocessing/index.ts';
-import { getTriangleCount } from '../utils/index.ts';
 import { NaniteVisibilityBufferCPU } from '../passes/naniteCpu/types.ts';
 import { Bounds3d } from '../utils/calcBounds.ts';
 import { NaniteInstancesData } from './instancesData.ts';
 import { ImpostorBillboardTexture } from './renderImpostors/renderImpostors.ts';
 import { uploadMeshletsToGPU } from './naniteBuffers/meshletsDataBuffer.ts';
 import { NaniteObjectBuffers } from './naniteBuffers/index.ts';
-import { GPUOriginalMesh } from './GPUOriginalMesh.ts';
+import { createMeshletsHierarchy } from './naniteBuffers/meshletsHierarchyBuffer.ts';
+import { GPUOriginalMesh, disposeOriginalMesh } from './GPUOriginalMesh.ts';
+import { InstancesBvh } from './instancesBvh.ts';
 
 export type MeshletId = number;
 
@@ -19,6 +20,7 @@ export type NaniteMeshletTreeNode = Pick<
   | 'maxSiblingsError'
   | 'parentBounds'
   | 'parentError'
+  | 'cone'
 > & {
   triangleCount: number;
   firstIndexOffset: number;
@@ -28,7 +30,29 @@ export type NaniteMeshletTreeNode = Pick<
 
 export const BOTTOM_LEVEL_NODE = 0;
 
-export class NaniteObject {
+/**
+ * What the GPU passes cull and draw. Either a single object, or all
+ * objects of the scene merged into shared buffers (see `NaniteSceneBuffers`).
+ */
+export interface NaniteDrawable {
+  readonly name: string;
+  readonly buffers: NaniteObjectBuffers;
+  /** Changes when per-instance buffers are reallocated. Use to invalidate cached bind groups */
+  readonly buffersVersion: number;
+  /** Max over the objects. Hierarchical culling does a step per level */
+  readonly lodLevelCount: number;
+  /** Instances in the transforms buffer. Dispatches should cover all of them */
+  readonly instancesCapacity: number;
+  /** Merged buffers cull the instances without the BVH */
+  readonly instancesBvh: InstancesBvh | undefined;
+  /** Viewed as `2d-array`, see `NaniteSceneObject.diffuseLayer` */
+  readonly diffuseTextureArrayView: GPUTextureView | undefined;
+  /** Meshlet by the id written into the drawn meshlets lists. Used by the GPU stats */
+  find(id: MeshletId): NaniteMeshletTreeNode | undefined;
+  bindInstanceTransforms(bindingIdx: number): GPUBindGroupEntry;
+}
+
+export class NaniteObject implements NaniteDrawable {
   public readonly allMeshlets: Array<NaniteMeshletTreeNode> = [];
   public readonly naniteVisibilityBufferCPU = new NaniteVisibilityBufferCPU();
   public diffuseTexture: GPUTexture | undefined = undefined;
@@ -36,6 +60,10 @@ export class NaniteObject {
   public roots: NaniteMeshletTreeNode[] = [];
   /** Max LOD tree level of _ONE_ of the roots. Some roots might have ended earlier */
   public lodLevelCount = 0;
+  /** Cached in `finalizeNaniteObject()`. The renderer reads them each frame */
+  private _totalTriangleCount = 0;
+  private _bottomMeshletCount = 0;
+  private _diffuseTextureArrayView: GPUTextureView | undefined = undefined;
 
   constructor(
     public name: string,
@@ -44,14 +72,18 @@ export class NaniteObject {
     public readonly buffers: NaniteObjectBuffers,
     public readonly impostor: ImpostorBillboardTexture,
     public readonly instances: NaniteInstancesData
-  ) {}
+  ) {
+    instances.onReallocate((device, capacity) => {
+      this.buffers.resizeInstanceBuffers(device, capacity);
+    });
+  }
 
   find = (id: MeshletId) => this.allMeshlets.find((m) => m.id === id);
 
   contains = (id: MeshletId) => this.find(id) !== undefined;
 
   get totalTriangleCount() {
-    return this.allMeshlets.reduce((acc, m) => acc + m.triangleCount, 0);
+    return this._totalTriangleCount;
   }
 
   get totalIndicesCount() {
@@ -62,8 +94,31 @@ export class NaniteObject {
     return this.allMeshlets.length;
   }
 
+  /** Live instances. Use `instances.capacity` for dispatch sizes */
   get instancesCount() {
-    return this.instances.transforms.length;
+    return this.instances.count;
+  }
+
+  /** Changes when per-instance buffers are reallocated. Use to invalidate cached bind groups */
+  get buffersVersion() {
+    return this.instances.version;
+  }
+
+  get instancesCapacity() {
+    return this.instances.capacity;
+  }
+
+  get instancesBvh() {
+    return this.instances.bvh;
+  }
+
+  get diffuseTextureArrayView() {
+    if (this.diffuseTexture && !this._diffuseTextureArrayView) {
+      this._diffuseTextureArrayView = this.diffuseTexture.createView({
+        dimension: '2d-array',
+      });
+    }
+    return this._diffuseTextureArrayView;
   }
 
   /** Triangle count as imported from .OBJ file. This is how much you would render if you did not have nanite */
@@ -75,9 +130,7 @@ export class NaniteObject {
 
   /** Bottom-level meshlets. We don't want to render them, we want something higher-up the LOD tree to reduce triangle count */
   get bottomMeshletCount() {
-    return this.allMeshlets.reduce((acc, m) => {
-      return m.lodLevel === BOTTOM_LEVEL_NODE ? acc + 1 : acc;
-    }, 0);
+    return this._bottomMeshletCount;
   }
 
   bindInstanceTransforms = (bindingIdx: number): GPUBindGroupEntry => ({
@@ -87,49 +140,30 @@ export class NaniteObject {
 
   finalizeNaniteObject(device: GPUDevice) {
     this.naniteVisibilityBufferCPU.initialize(this.meshletCount);
+    this._totalTriangleCount = this.allMeshlets.reduce(
+      (acc, m) => acc + m.triangleCount,
+      0
+    );
+    this._bottomMeshletCount = this.allMeshlets.reduce((acc, m) => {
+      return m.lodLevel === BOTTOM_LEVEL_NODE ? acc + 1 : acc;
+    }, 0);
 
+    const hierarchy = createMeshletsHierarchy(this.allMeshlets, this.roots);
     uploadMeshletsToGPU(
       device,
       this.buffers.meshletsDataBuffer,
-      this.allMeshlets
+      this.allMeshlets,
+      hierarchy.childrenOffsets
     );
+    this.buffers.uploadMeshletsHierarchy(device, this.name, hierarchy);
   }
 
-  /** Used only during construction */
-  addMeshlet(
-    parent: NaniteMeshletTreeNode | undefined,
-    m: MeshletWIP,
-    firstIndexOffset: number,
-    ownBounds: Bounds3d
-  ) {
-    const existing = this.find(m.id);
-    if (existing) {
-      return existing;
-    }
-
-    const node: NaniteMeshletTreeNode = {
-      id: m.id,
-      lodLevel: m.lodLevel,
-      sharedSiblingsBounds: m.sharedSiblingsBounds,
-      maxSiblingsError: m.maxSiblingsError,
-      parentBounds: m.parentBounds,
-      parentError: m.parentError,
-      firstIndexOffset,
-      triangleCount: getTriangleCount(m.indices),
-      createdFrom: [], // filled when addMeshlet() is called for children
-      ownBounds,
-    };
-
-    this.allMeshlets.push(node);
-    this.lodLevelCount = Math.max(this.lodLevelCount, node.lodLevel + 1);
-
-    if (parent) {
-      parent.createdFrom.push(node);
-    } else {
-      this.roots.push(node);
-    }
-
-    return node;
+  /** Instances can be shared with other objects. Destroying them twice is OK */
+  dispose() {
+    this.buffers.dispose();
+    disposeOriginalMesh(this.originalMesh);
+    this.diffuseTexture?.destroy();
+    this.instances.dispose();
   }
 
   printStats() {
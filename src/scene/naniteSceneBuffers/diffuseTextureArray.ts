@@ -0,0 +1,129 @@
+import {
+  assignResourcesToBindings2,
+  createLabel,
+  labelPipeline,
+  labelShader,
+  useColorAttachment,
+} from '../../passes/_shared.ts';
+import { cmdDrawFullscreenTriangle } from '../../passes/_shaderSnippets/fullscreenTriangle.wgsl.ts';
+import { createSampler } from '../../utils/textures.ts';
+import { SHADER_CODE, SHADER_PARAMS } from './diffuseTextureArray.wgsl.ts';
+
+/** Limits memory. Each layer is `size * size * 4` bytes */
+const MAX_LAYER_SIZE = 2048;
+const FORMAT: GPUTextureFormat = 'rgba8unorm-srgb';
+
+export interface DiffuseTextureArray {
+  texture: GPUTexture;
+  /** Layer for each of the provided textures */
+  layers: number[];
+}
+
+/**
+ * Copies diffuse textures of all objects into layers of a single texture array.
+ * Layer 0 is the fallback texture, used by objects without texture.
+ * All layers have the size of the largest texture, smaller ones are resampled.
+ */
+export class DiffuseTextureArrayBuilder {
+  public static NAME: string = 'DiffuseTextureArrayBuilder';
+
+  private readonly pipeline: GPURenderPipeline;
+  private readonly sampler: GPUSampler;
+
+  constructor(device: GPUDevice) {
+    const shaderModule = device.createShaderModule({
+      label: labelShader(DiffuseTextureArrayBuilder),
+      code: SHADER_CODE(),
+    });
+    this.pipeline = device.createRenderPipeline({
+      label: labelPipeline(DiffuseTextureArrayBuilder),
+      layout: 'auto',
+      vertex: {
+        module: shaderModule,
+        entryPoint: 'main_vs',
+        buffers: [],
+      },
+      fragment: {
+        module: shaderModule,
+        entryPoint: 'main_fs',
+        targets: [{ format: FORMAT }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+    this.sampler = createSampler(device, 'linear');
+  }
+
+  create(
+    device: GPUDevice,
+    name: string,
+    fallbackTexture: GPUTexture,
+    textures: Array<GPUTexture | undefined>
+  ): DiffuseTextureArray {
+    const sources = [fallbackTexture];
+    const layers = textures.map((texture) => {
+      if (!texture) return 0;
+      sources.push(texture);
+      return sources.length - 1;
+    });
+
+    const size = Math.min(
+      Math.max(...sources.map((t) => Math.max(t.width, t.height))),
+      MAX_LAYER_SIZE,
+      device.limits.maxTextureDimension2D
+    );
+    const texture = device.createTexture({
+      label: `${name}-diffuse-texture-array`,
+      dimension: '2d',
+      size: [size, size, sources.length],
+      format: FORMAT,
+      usage:
+        GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.RENDER_ATTACHMENT,
+    });
+
+    const cmdBuf = device.createCommandEncoder({
+      label: `${DiffuseTextureArrayBuilder.NAME}-${name}-cmd-buffer`,
+    });
+    sources.forEach((src, layer) => {
+      this.cmdCopyToLayer(device, cmdBuf, src, texture, layer);
+    });
+    device.queue.submit([cmdBuf.finish()]);
+
+    return { texture, layers };
+  }
+
+  private cmdCopyToLayer(
+    device: GPUDevice,
+    cmdBuf: GPUCommandEncoder,
+    src: GPUTexture,
+    target: GPUTexture,
+    layer: number
+  ) {
+    const b = SHADER_PARAMS.bindings;
+    const targetTextureView = target.createView({
+      dimension: '2d',
+      baseArrayLayer: layer,
+      arrayLayerCount: 1,
+    });
+    const renderPass = cmdBuf.beginRenderPass({
+      label: createLabel(DiffuseTextureArrayBuilder, `layer-${layer}`),
+      colorAttachments: [
+        useColorAttachment(targetTextureView, [0, 0, 0, 0], 'clear'),
+      ],
+    });
+
+    const bindings = assignResourcesToBindings2(
+      DiffuseTextureArrayBuilder,
+      `layer-${layer}`,
+      device,
+      this.pipeline,
+      [
+        { binding: b.srcTexture, resource: src.createView() },
+        { binding: b.sampler, resource: this.sampler },
+      ]
+    );
+    renderPass.setPipeline(this.pipeline);
+    renderPass.setBindGroup(0, bindings);
+    cmdDrawFullscreenTriangle(renderPass);
+    renderPass.end();
+  }
+}
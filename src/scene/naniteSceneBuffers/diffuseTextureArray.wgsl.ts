@@ -0,0 +1,46 @@
+import { FULLSCREEN_TRIANGLE_POSITION } from '../../passes/_shaderSnippets/fullscreenTriangle.wgsl.ts';
+
+export const SHADER_PARAMS = {
+  bindings: {
+    srcTexture: 0,
+    sampler: 1,
+  },
+};
+
+///////////////////////////
+/// SHADER CODE
+/// Resample object's diffuse texture into a layer of the merged texture array.
+///////////////////////////
+const b = SHADER_PARAMS.bindings;
+
+export const SHADER_CODE = () => /* wgsl */ `
+
+${FULLSCREEN_TRIANGLE_POSITION}
+
+@group(0) @binding(${b.srcTexture})
+var _srcTexture: texture_2d<f32>;
+
+@group(0) @binding(${b.sampler})
+var _sampler: sampler;
+
+struct VertexOutput {
+  @builtin(position) position: vec4<f32>,
+  @location(0) uv: vec2f,
+};
+
+@vertex
+fn main_vs(
+  @builtin(vertex_index) VertexIndex : u32
+) -> VertexOutput {
+  var result: VertexOutput;
+  result.position = getFullscreenTrianglePosition(VertexIndex);
+  // WebGPU has Y down in texture space
+  result.uv = vec2f(0.5, -0.5) * result.position.xy + 0.5;
+  return result;
+}
+
+@fragment
+fn main_fs(fragIn: VertexOutput) -> @location(0) vec4<f32> {
+  return textureSampleLevel(_srcTexture, _sampler, fragIn.uv, 0.0);
+}
+`;
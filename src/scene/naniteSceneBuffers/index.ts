@@ -0,0 +1,307 @@
+import {
+  BYTES_MAT4,
+  BYTES_U32,
+  BYTES_UVEC2,
+  BYTES_VEC2,
+  BYTES_VEC4,
+  CONFIG,
+} from '../../constants.ts';
+import { getBytesForTriangles } from '../../utils/index.ts';
+import { MeshletId, NaniteDrawable, NaniteObject } from '../naniteObject.ts';
+import {
+  NaniteGeometryBuffers,
+  NaniteObjectBuffers,
+} from '../naniteBuffers/index.ts';
+import {
+  createMeshletsDataBuffer,
+  uploadMeshletsToGPU,
+} from '../naniteBuffers/meshletsDataBuffer.ts';
+import {
+  createMeshletsHierarchy,
+  mergeMeshletsHierarchies,
+} from '../naniteBuffers/meshletsHierarchyBuffer.ts';
+import {
+  MAX_NANITE_SCENE_OBJECTS,
+  NaniteSceneObject,
+} from '../naniteBuffers/sceneObjectsBuffer.ts';
+import { IndicesMerger, MergedIndicesRange } from './mergeIndices.ts';
+import { DiffuseTextureArrayBuilder } from './diffuseTextureArray.ts';
+
+const NAME = 'nanite-scene';
+
+/** Incremented for each new merged buffers, so bind groups cached by name are recreated */
+let NEXT_BUFFERS_VERSION = 0;
+
+/** Position of the object inside the merged buffers */
+interface MergedObject {
+  naniteObject: NaniteObject;
+  /** Object's `buffersVersion` when merged. Merged buffers are outdated when it changes */
+  buffersVersion: number;
+  meshletOffset: number;
+  instanceOffset: number;
+  /** Last copied `NaniteInstancesData.contentVersion` */
+  copiedContentVersion: number;
+}
+
+/**
+ * Can all objects be merged into `NaniteSceneBuffers`. Quantized vertex
+ * positions are relative to the object's bounds, so they cannot be merged.
+ */
+export function canMergeObjects(
+  device: GPUDevice,
+  naniteObjects: NaniteObject[]
+) {
+  if (CONFIG.useVertexQuantization) return false;
+  if (naniteObjects.length === 0) return false;
+  if (naniteObjects.length > MAX_NANITE_SCENE_OBJECTS) return false;
+
+  // merged buffers have to fit into a single binding
+  const maxSize = device.limits.maxStorageBufferBindingSize;
+  const sum = (fn: (o: NaniteObject) => number) =>
+    naniteObjects.reduce((acc, o) => acc + fn(o), 0);
+  const vertexCount = sum((o) => o.originalMesh.vertexCount);
+  const triangleCount = sum((o) => o.totalTriangleCount);
+  const drawnMeshletsCount = sum(
+    (o) => o.bottomMeshletCount * o.instancesCapacity
+  );
+  return (
+    vertexCount * BYTES_VEC4 <= maxSize &&
+    getBytesForTriangles(triangleCount) <= maxSize &&
+    drawnMeshletsCount * BYTES_UVEC2 <= maxSize
+  );
+}
+
+/**
+ * All objects of the scene merged into shared buffers, so each GPU pass is a
+ * single dispatch or indirect draw for the whole scene:
+ *
+ * - meshlets of all objects in a single table. Meshlet ids are global,
+ * - vertices and indices in a single buffer. Indices point to the merged vertices,
+ * - transforms of all instances in a single buffer. Instance ids are global,
+ *   each instance knows its object (see `NaniteSceneObject`),
+ * - diffuse textures as layers of a single texture array.
+ *
+ * Objects keep their own buffers. Merged buffers are recreated when the objects change
+ * (see `isUpToDate()`). Transforms are copied each frame they change.
+ */
+export class NaniteSceneBuffers implements NaniteDrawable {
+  public readonly name = NAME;
+  public readonly buffers: NaniteObjectBuffers;
+  public readonly buffersVersion = NEXT_BUFFERS_VERSION++;
+  public readonly lodLevelCount: number;
+  public readonly instancesCapacity: number;
+  /** BVH is per object. Merged instances are culled one by one */
+  public readonly instancesBvh = undefined;
+  public readonly diffuseTextureArrayView: GPUTextureView;
+
+  private readonly objects: MergedObject[];
+  private readonly transformsBuffer: GPUBuffer;
+  private readonly diffuseTextureArray: GPUTexture;
+
+  constructor(
+    device: GPUDevice,
+    naniteObjects: NaniteObject[],
+    fallbackDiffuseTexture: GPUTexture
+  ) {
+    // ranges of the objects
+    let meshletOffset = 0;
+    let instanceOffset = 0;
+    let vertexOffset = 0;
+    let indexOffset = 0;
+    const ranges = naniteObjects.map((o) => {
+      const range = { meshletOffset, instanceOffset, vertexOffset, indexOffset }; // prettier-ignore
+      meshletOffset += o.meshletCount;
+      instanceOffset += o.instancesCapacity;
+      vertexOffset += o.originalMesh.vertexCount;
+      indexOffset += o.totalIndicesCount;
+      return range;
+    });
+
+    this.objects = naniteObjects.map((naniteObject, i) => ({
+      naniteObject,
+      buffersVersion: naniteObject.buffersVersion,
+      meshletOffset: ranges[i].meshletOffset,
+      instanceOffset: ranges[i].instanceOffset,
+      copiedContentVersion: -1,
+    }));
+    this.lodLevelCount = Math.max(...naniteObjects.map((o) => o.lodLevelCount));
+    this.instancesCapacity = instanceOffset;
+    this.transformsBuffer = device.createBuffer({
+      label: `${NAME}-nanite-transforms`,
+      size: BYTES_MAT4 * instanceOffset,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
+    // geometry
+    const geometry = this.createGeometry(
+      device,
+      naniteObjects,
+      ranges,
+      vertexOffset,
+      indexOffset
+    );
+
+    // diffuse textures
+    const textureArrayBuilder = new DiffuseTextureArrayBuilder(device);
+    const textureArray = textureArrayBuilder.create(
+      device,
+      NAME,
+      fallbackDiffuseTexture,
+      naniteObjects.map((o) => o.diffuseTexture)
+    );
+    this.diffuseTextureArray = textureArray.texture;
+    this.diffuseTextureArrayView = textureArray.texture.createView({
+      dimension: '2d-array',
+    });
+
+    // meshlets and hierarchy
+    const hierarchy = mergeMeshletsHierarchies(
+      naniteObjects.map((o, i) => ({
+        hierarchy: createMeshletsHierarchy(o.allMeshlets, o.roots),
+        meshletOffset: ranges[i].meshletOffset,
+      }))
+    );
+    naniteObjects.forEach((o, i) => {
+      const { meshletOffset, indexOffset } = ranges[i];
+      uploadMeshletsToGPU(
+        device,
+        geometry.meshletsDataBuffer,
+        o.allMeshlets,
+        hierarchy.childrenOffsets.slice(
+          meshletOffset,
+          meshletOffset + o.meshletCount
+        ),
+        { meshletOffset, indexOffset }
+      );
+    });
+
+    const sceneObjects: NaniteSceneObject[] = naniteObjects.map((o, i) => ({
+      boundingSphere: o.bounds.sphere,
+      meshletOffset: ranges[i].meshletOffset,
+      meshletCount: o.meshletCount,
+      bottomMeshletCount: o.bottomMeshletCount,
+      instanceOffset: ranges[i].instanceOffset,
+      instanceCount: o.instancesCapacity,
+      rootsOffset: hierarchy.rootsOffsets[i],
+      impostorLayer: o.impostor.layer,
+      diffuseLayer: textureArray.layers[i],
+    }));
+    this.buffers = new NaniteObjectBuffers(device, NAME, geometry, sceneObjects); // prettier-ignore
+    this.buffers.uploadMeshletsHierarchy(device, NAME, hierarchy);
+
+    console.log(`Merged ${naniteObjects.length} objects: ${meshletOffset} meshlets, ${instanceOffset} instances`); // prettier-ignore
+  }
+
+  /** Same objects in the same order, and none of them reallocated its instances */
+  isUpToDate(naniteObjects: NaniteObject[]) {
+    return (
+      naniteObjects.length === this.objects.length &&
+      this.objects.every(
+        (obj, i) =>
+          obj.naniteObject === naniteObjects[i] &&
+          obj.buffersVersion === obj.naniteObject.buffersVersion
+      )
+    );
+  }
+
+  /** Copy transforms of objects whose instances have changed since the last call */
+  cmdCopyInstanceTransforms(cmdBuf: GPUCommandEncoder) {
+    this.objects.forEach((obj) => {
+      const instances = obj.naniteObject.instances;
+      if (obj.copiedContentVersion === instances.contentVersion) return;
+
+      cmdBuf.copyBufferToBuffer(
+        instances.transformsBuffer,
+        0,
+        this.transformsBuffer,
+        obj.instanceOffset * BYTES_MAT4,
+        instances.capacity * BYTES_MAT4
+      );
+      obj.copiedContentVersion = instances.contentVersion;
+    });
+  }
+
+  /** Meshlet ids are global, see `NaniteSceneObject.meshletOffset` */
+  find = (id: MeshletId) => {
+    const obj = this.objects.find(
+      (o) =>
+        id >= o.meshletOffset &&
+        id < o.meshletOffset + o.naniteObject.meshletCount
+    );
+    return obj?.naniteObject.allMeshlets[id - obj.meshletOffset];
+  };
+
+  bindInstanceTransforms = (bindingIdx: number): GPUBindGroupEntry => ({
+    binding: bindingIdx,
+    resource: { buffer: this.transformsBuffer },
+  });
+
+  /** Objects are not disposed, they are owned by the scene */
+  dispose() {
+    this.buffers.dispose();
+    this.buffers.vertexUVsBuffer.destroy();
+    this.transformsBuffer.destroy();
+    this.diffuseTextureArray.destroy();
+  }
+
+  private createGeometry(
+    device: GPUDevice,
+    naniteObjects: NaniteObject[],
+    ranges: Array<{ vertexOffset: number; indexOffset: number }>,
+    vertexCount: number,
+    indexCount: number
+  ): NaniteGeometryBuffers {
+    const createVertexBuffer = (label: string, stride: number) =>
+      device.createBuffer({
+        label: `${NAME}-${label}`,
+        size: Math.max(vertexCount * stride, BYTES_U32),
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+    const geometry: NaniteGeometryBuffers = {
+      indexBuffer: device.createBuffer({
+        label: `${NAME}-nanite-index-buffer`,
+        size: indexCount * BYTES_U32,
+        usage:
+          GPUBufferUsage.INDEX |
+          GPUBufferUsage.COPY_DST |
+          GPUBufferUsage.STORAGE,
+      }),
+      meshletsDataBuffer: createMeshletsDataBuffer(
+        device,
+        NAME,
+        naniteObjects.reduce((acc, o) => acc + o.meshletCount, 0)
+      ),
+      vertexPositionsBuffer: createVertexBuffer('nanite-vertex-buffer-vec4', BYTES_VEC4), // prettier-ignore
+      vertexNormalsBuffer: createVertexBuffer('nanite-octahedron-normals', BYTES_VEC2), // prettier-ignore
+      vertexUVsBuffer: createVertexBuffer('nanite-uvs', BYTES_VEC2),
+    };
+
+    const cmdBuf = device.createCommandEncoder({
+      label: `${NAME}-merge-geometry-cmd-buffer`,
+    });
+    naniteObjects.forEach((o, i) => {
+      const { vertexOffset } = ranges[i];
+      const count = o.originalMesh.vertexCount;
+      const src = o.buffers;
+      cmdBuf.copyBufferToBuffer(src.vertexPositionsBuffer, 0, geometry.vertexPositionsBuffer, vertexOffset * BYTES_VEC4, count * BYTES_VEC4); // prettier-ignore
+      cmdBuf.copyBufferToBuffer(src.vertexNormalsBuffer, 0, geometry.vertexNormalsBuffer, vertexOffset * BYTES_VEC2, count * BYTES_VEC2); // prettier-ignore
+      cmdBuf.copyBufferToBuffer(src.vertexUVsBuffer, 0, geometry.vertexUVsBuffer, vertexOffset * BYTES_VEC2, count * BYTES_VEC2); // prettier-ignore
+    });
+
+    const indicesMerger = new IndicesMerger(
+      device,
+      naniteObjects.map((o, i): MergedIndicesRange => ({
+        name: o.name,
+        indexBuffer: o.buffers.indexBuffer,
+        indexOffset: ranges[i].indexOffset,
+        indexCount: o.totalIndicesCount,
+        vertexOffset: ranges[i].vertexOffset,
+      }))
+    );
+    indicesMerger.cmdMergeIndices(device, cmdBuf, geometry.indexBuffer);
+    device.queue.submit([cmdBuf.finish()]);
+    indicesMerger.dispose();
+
+    return geometry;
+  }
+}
@@ -0,0 +1,111 @@
+import { BYTES_U32 } from '../../constants.ts';
+import {
+  assignResourcesToBindings2,
+  labelPipeline,
+  labelShader,
+} from '../../passes/_shared.ts';
+import {
+  WEBGPU_MINIMAL_BUFFER_SIZE,
+  getItemsPerThread,
+} from '../../utils/webgpu.ts';
+import { SHADER_CODE, SHADER_PARAMS } from './mergeIndices.wgsl.ts';
+
+export interface MergedIndicesRange {
+  name: string;
+  indexBuffer: GPUBuffer;
+  /** First index of the object in the merged index buffer */
+  indexOffset: number;
+  indexCount: number;
+  /** First vertex of the object in the merged vertex buffers */
+  vertexOffset: number;
+}
+
+/** Copies index buffers of all objects into a single one. Only needed when the merged buffers are created */
+export class IndicesMerger {
+  public static NAME: string = 'IndicesMerger';
+
+  private readonly pipeline: GPUComputePipeline;
+  private readonly paramsBuffer: GPUBuffer;
+
+  /** Each range has its own params, aligned to the uniform buffer offset alignment */
+  constructor(
+    device: GPUDevice,
+    private readonly ranges: MergedIndicesRange[]
+  ) {
+    const shaderModule = device.createShaderModule({
+      label: labelShader(IndicesMerger),
+      code: SHADER_CODE(),
+    });
+    this.pipeline = device.createComputePipeline({
+      label: labelPipeline(IndicesMerger),
+      layout: 'auto',
+      compute: {
+        module: shaderModule,
+        entryPoint: 'main',
+      },
+    });
+
+    const data = new Uint32Array(
+      (Math.max(ranges.length, 1) * WEBGPU_MINIMAL_BUFFER_SIZE) / BYTES_U32
+    );
+    ranges.forEach((range, i) => {
+      const offset = (i * WEBGPU_MINIMAL_BUFFER_SIZE) / BYTES_U32;
+      data[offset + 0] = range.indexOffset;
+      data[offset + 1] = range.indexCount;
+      data[offset + 2] = range.vertexOffset;
+    });
+    this.paramsBuffer = device.createBuffer({
+      label: `${IndicesMerger.NAME}-params`,
+      size: data.byteLength,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    device.queue.writeBuffer(this.paramsBuffer, 0, data);
+  }
+
+  /** Call after the command buffer was submitted */
+  dispose() {
+    this.paramsBuffer.destroy();
+  }
+
+  cmdMergeIndices(
+    device: GPUDevice,
+    cmdBuf: GPUCommandEncoder,
+    dstBuffer: GPUBuffer
+  ) {
+    const b = SHADER_PARAMS.bindings;
+    const computePass = cmdBuf.beginComputePass({
+      label: IndicesMerger.NAME,
+    });
+    computePass.setPipeline(this.pipeline);
+
+    this.ranges.forEach((range, i) => {
+      const bindings = assignResourcesToBindings2(
+        IndicesMerger,
+        range.name,
+        device,
+        this.pipeline,
+        [
+          {
+            binding: b.params,
+            resource: {
+              buffer: this.paramsBuffer,
+              offset: i * WEBGPU_MINIMAL_BUFFER_SIZE,
+              size: 4 * BYTES_U32,
+            },
+          },
+          { binding: b.srcIndices, resource: { buffer: range.indexBuffer } },
+          { binding: b.dstIndices, resource: { buffer: dstBuffer } },
+        ]
+      );
+      computePass.setBindGroup(0, bindings);
+
+      const workgroupsCntX = Math.min(
+        getItemsPerThread(range.indexCount, SHADER_PARAMS.workgroupSizeX),
+        SHADER_PARAMS.maxWorkgroupsX
+      );
+      computePass.dispatchWorkgroups(Math.max(workgroupsCntX, 1), 1, 1);
+    });
+
+    computePass.end();
+  }
+}
@@ -0,0 +1,51 @@
+export const SHADER_PARAMS = {
+  workgroupSizeX: 64,
+  maxWorkgroupsX: 1 << 15, // Spec says limit is 65535 (2^16 - 1), so we use 32768
+  bindings: {
+    params: 0,
+    srcIndices: 1,
+    dstIndices: 2,
+  },
+};
+
+///////////////////////////
+/// SHADER CODE
+/// Copy index buffer of a single object into the merged index buffer.
+/// Indices point to the merged vertex buffers, so they are moved by the
+/// object's first vertex.
+///////////////////////////
+const c = SHADER_PARAMS;
+const b = SHADER_PARAMS.bindings;
+
+export const SHADER_CODE = () => /* wgsl */ `
+
+struct MergeParams {
+  /** First index of the object in '_dstIndices' */
+  dstOffset: u32,
+  count: u32,
+  /** First vertex of the object in the merged vertex buffers */
+  vertexOffset: u32,
+  padding0: u32,
+}
+@group(0) @binding(${b.params})
+var<uniform> _params: MergeParams;
+
+@group(0) @binding(${b.srcIndices})
+var<storage, read> _srcIndices: array<u32>;
+
+@group(0) @binding(${b.dstIndices})
+var<storage, read_write> _dstIndices: array<u32>;
+
+@compute
+@workgroup_size(${c.workgroupSizeX}, 1, 1)
+fn main(
+  @builtin(global_invocation_id) global_id: vec3<u32>,
+  @builtin(num_workgroups) num_workgroups: vec3<u32>,
+) {
+  // large objects have more indices than threads
+  let stride = num_workgroups.x * ${c.workgroupSizeX}u;
+  for (var i = global_id.x; i < _params.count; i += stride) {
+    _dstIndices[_params.dstOffset + i] = _srcIndices[i] + _params.vertexOffset;
+  }
+}
+`;
@@ -50,14 +50,63 @@ export async function loadObjFile(
   const verticesAndAttributesU8 = (mesh as any).makeBufferData(layout);
   const verticesAndAttributes = new Float32Array(verticesAndAttributesU8);
 
+  return createParsedMesh({
+    verticesAndAttributes,
+    vertexCount: vertexCountInitial,
+    indices: indicesInitial,
+  });
+}
+
+/**
+ * Not optimized mesh with interleaved 'position, normal, uv' vertex buffer.
+ * Each mesh loader produces this, the rest of the pipeline is shared.
+ */
+export interface RawMeshData {
+  verticesAndAttributes: Float32Array;
+  vertexCount: number;
+  indices: Uint32Array;
+}
+
+/** Layout of `RawMeshData.verticesAndAttributes`: position3, normal3, uv2 */
+export const RAW_MESH_VERTEX_STRIDE_BYTES = 32;
+
+/** Interleave per-attribute lists. Missing UVs are set to 0.5, same as for OBJ. */
+export function createRawMeshData(
+  positions: Float32Array,
+  normals: Float32Array,
+  uv: Float32Array | undefined,
+  indices: Uint32Array
+): RawMeshData {
+  const strideF32 = RAW_MESH_VERTEX_STRIDE_BYTES / BYTES_F32; // 8
+  const vertexCount = getVertexCount(positions);
+  const verticesAndAttributes = new Float32Array(vertexCount * strideF32);
+
+  for (let i = 0; i < vertexCount; i++) {
+    const offset = i * strideF32;
+    verticesAndAttributes[offset + 0] = positions[3 * i + 0];
+    verticesAndAttributes[offset + 1] = positions[3 * i + 1];
+    verticesAndAttributes[offset + 2] = positions[3 * i + 2];
+    verticesAndAttributes[offset + 3] = normals[3 * i + 0];
+    verticesAndAttributes[offset + 4] = normals[3 * i + 1];
+    verticesAndAttributes[offset + 5] = normals[3 * i + 2];
+    verticesAndAttributes[offset + 6] = uv ? uv[2 * i + 0] : 0.5;
+    verticesAndAttributes[offset + 7] = uv ? uv[2 * i + 1] : 0.5;
+  }
+
+  return { verticesAndAttributes, vertexCount, indices };
+}
+
+export async function createParsedMesh(
+  rawMesh: RawMeshData
+): Promise<ParsedMesh> {
   // optimize vertex and index buffer
-  const strideBytes = layout.stride; // 32
+  const strideBytes = RAW_MESH_VERTEX_STRIDE_BYTES;
   const strideF32 = strideBytes / BYTES_F32; // 8
   const [verticesNew, indicesNew] = await optimizeMeshBuffers(
-    verticesAndAttributes,
-    vertexCountInitial,
+    rawMesh.verticesAndAttributes,
+    rawMesh.vertexCount,
     strideBytes,
-    indicesInitial
+    rawMesh.indices
   );
 
   // split optimized vertex buffer into per-attribute copies
@@ -119,27 +168,43 @@ function cleanupRawOBJData(mesh: ObjMesh, scale: number) {
 /** https://github.com/zeux/meshoptimizer/blob/f13503c8f1196e20bcfb1e67ea1e97b1d0ce98c7/demo/main.cpp#L145 */
 function recalcNormals(mesh: ObjMesh) {
   const vertCnt = vertexCount(mesh);
-  mesh.vertexNormals = createArray(vertCnt * 3).fill(0.0);
+  mesh.vertexNormals = calcVertexNormals(
+    mesh.vertices,
+    mesh.indices,
+    createArray(vertCnt * 3).fill(0.0)
+  );
+}
 
-  const x = (idx: number) => mesh.vertices[3 * idx];
-  const y = (idx: number) => mesh.vertices[3 * idx + 1];
-  const z = (idx: number) => mesh.vertices[3 * idx + 2];
+/**
+ * Smooth normals: each vertex gets the average of the normals of its triangles.
+ * `result` has to be zero-filled.
+ */
+export function calcVertexNormals<T extends number[] | Float32Array>(
+  positions: ArrayLike<number>,
+  indices: ArrayLike<number>,
+  result: T
+): T {
+  const vertCnt = Math.ceil(result.length / 3);
+
+  const x = (idx: number) => positions[3 * idx];
+  const y = (idx: number) => positions[3 * idx + 1];
+  const z = (idx: number) => positions[3 * idx + 2];
 
   // accumulate triangle normals for each vert
-  for (let i = 0; i < mesh.indices.length; i += 3) {
-    const a = mesh.indices[i];
-    const b = mesh.indices[i + 1];
-    const c = mesh.indices[i + 2];
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i];
+    const b = indices[i + 1];
+    const c = indices[i + 2];
 
     const nx = (y(b) - y(a)) * (z(c) - z(a)) - (z(b) - z(a)) * (y(c) - y(a));
     const ny = (z(b) - z(a)) * (x(c) - x(a)) - (x(b) - x(a)) * (z(c) - z(a));
     const nz = (x(b) - x(a)) * (y(c) - y(a)) - (y(b) - y(a)) * (x(c) - x(a));
 
     for (let k = 0; k < 3; ++k) {
-      const index = mesh.indices[i + k];
-      mesh.vertexNormals[index * 3 + 0] += nx;
-      mesh.vertexNormals[index * 3 + 1] += ny;
-      mesh.vertexNormals[index * 3 + 2] += nz;
+      const index = indices[i + k];
+      result[index * 3 + 0] += nx;
+      result[index * 3 + 1] += ny;
+      result[index * 3 + 2] += nz;
     }
   }
 
@@ -147,16 +212,18 @@ function recalcNormals(mesh: ObjMesh) {
   let tmp = vec3.create();
   for (let i = 0; i < vertCnt; i++) {
     const n = vec3.set(
-      mesh.vertexNormals[i * 3 + 0],
-      mesh.vertexNormals[i * 3 + 1],
-      mesh.vertexNormals[i * 3 + 2],
+      result[i * 3 + 0],
+      result[i * 3 + 1],
+      result[i * 3 + 2],
       tmp
     );
     tmp = vec3.normalize(n, tmp);
-    mesh.vertexNormals[i * 3 + 0] = tmp[0];
-    mesh.vertexNormals[i * 3 + 1] = tmp[1];
-    mesh.vertexNormals[i * 3 + 2] = tmp[2];
+    result[i * 3 + 0] = tmp[0];
+    result[i * 3 + 1] = tmp[1];
+    result[i * 3 + 2] = tmp[2];
   }
+
+  return result;
 }
 
 /** split optimized vertex buffer into per-attribute copies */
@@ -0,0 +1,120 @@
+import { assertEquals, assertThrows } from 'assert';
+import { assertSameArray } from '../sys_deno/testUtils.ts';
+import { splitVerticesWithAttributesIntoSeparateLists } from './objLoader.ts';
+import { PlyError, parsePlyFile } from './plyLoader.ts';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+Deno.test('plyLoader :: ASCII quad without normals', () => {
+  const text = `ply
+format ascii 1.0
+comment single quad
+element vertex 4
+property float x
+property float y
+property float z
+property float s
+property float t
+element face 1
+property list uchar int vertex_indices
+end_header
+-1 -1 0 0 0
+1 -1 0 1 0
+1 1 0 1 1
+-1 1 0 0 1
+4 0 1 2 3
+`;
+
+  const mesh = parsePlyFile(encode(text), 2.0);
+
+  assertEquals(mesh.vertexCount, 4);
+  assertSameArray(mesh.indices, [0, 1, 2, 0, 2, 3]);
+  const attrs = splitVerticesWithAttributesIntoSeparateLists(
+    mesh.verticesAndAttributes
+  );
+  // prettier-ignore
+  assertSameArray(attrs.positions, [
+    -2, -2, 0,  2, -2, 0,  2, 2, 0,  -2, 2, 0,
+  ]);
+  // prettier-ignore
+  assertSameArray(attrs.normals, [
+    0, 0, 1,  0, 0, 1,  0, 0, 1,  0, 0, 1,
+  ]);
+  // Y is inverted
+  // prettier-ignore
+  assertSameArray(attrs.uv, [
+    0, 1,  1, 1,  1, 0,  0, 0,
+  ]);
+});
+
+Deno.test('plyLoader :: binary with normals and extra elements', () => {
+  const header = encode(`ply
+format binary_big_endian 1.0
+element vertex 3
+property float x
+property float y
+property float z
+property uchar red
+property float nx
+property float ny
+property float nz
+element face 1
+property uchar flags
+property list uchar uint vertex_indices
+element edge 1
+property int vertex1
+property int vertex2
+end_header
+`);
+  const body = new DataView(new ArrayBuffer(3 * 25 + 14 + 8));
+  let offset = 0;
+  const write = (fn: 'setFloat32' | 'setUint8' | 'setUint32' | 'setInt32', bytes: number, v: number) => { body[fn](offset, v); offset += bytes; }; // prettier-ignore
+  // prettier-ignore
+  const vertices = [
+    [0, 0, 0,  255, 1, 0, 0],
+    [1, 0, 0,  128, 1, 0, 0],
+    [0, 1, 0,  0, 1, 0, 0],
+  ];
+  vertices.forEach(([x, y, z, red, nx, ny, nz]) => {
+    [x, y, z].forEach((v) => write('setFloat32', 4, v));
+    write('setUint8', 1, red);
+    [nx, ny, nz].forEach((v) => write('setFloat32', 4, v));
+  });
+  write('setUint8', 1, 7); // face flags
+  write('setUint8', 1, 3); // list length
+  [0, 1, 2].forEach((idx) => write('setUint32', 4, idx));
+  write('setInt32', 4, 0); // edge
+  write('setInt32', 4, 1);
+
+  const data = new Uint8Array(header.length + body.byteLength);
+  data.set(header, 0);
+  data.set(new Uint8Array(body.buffer), header.length);
+
+  const mesh = parsePlyFile(data, 1.0);
+
+  assertEquals(mesh.vertexCount, 3);
+  assertSameArray(mesh.indices, [0, 1, 2]);
+  const attrs = splitVerticesWithAttributesIntoSeparateLists(
+    mesh.verticesAndAttributes
+  );
+  assertSameArray(attrs.positions, [0, 0, 0, 1, 0, 0, 0, 1, 0]);
+  assertSameArray(attrs.normals, [1, 0, 0, 1, 0, 0, 1, 0, 0]);
+  assertSameArray(attrs.uv, [0.5, 0.5, 0.5, 0.5, 0.5, 0.5]);
+});
+
+Deno.test('plyLoader :: rejects out of bounds indices', () => {
+  const text = `ply
+format ascii 1.0
+element vertex 1
+property float x
+property float y
+property float z
+element face 1
+property list uchar int vertex_indices
+end_header
+0 0 0
+3 0 1 2
+`;
+
+  assertThrows(() => parsePlyFile(encode(text), 1.0), PlyError, 'out of bounds'); // prettier-ignore
+});
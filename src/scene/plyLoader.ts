@@ -0,0 +1,353 @@
+import {
+  RawMeshData,
+  calcVertexNormals,
+  createRawMeshData,
+} from './objLoader.ts';
+
+/**
+ * PLY loader, both ASCII and binary. Reads positions, normals, UVs and faces.
+ * Polygons are triangulated as fans. Other elements are skipped.
+ *
+ * http://paulbourke.net/dataformats/ply/
+ */
+
+export class PlyError extends Error {
+  constructor(msg: string) {
+    super(`Invalid PLY file. ${msg}`);
+  }
+}
+
+export const isPlyFile = (path: string) => path.toLowerCase().endsWith('.ply');
+
+export function parsePlyFile(data: Uint8Array, scale: number): RawMeshData {
+  const header = parseHeader(data);
+  const reader =
+    header.format === 'ascii'
+      ? createAsciiReader(data, header.bodyOffset)
+      : createBinaryReader(data, header.bodyOffset, header.format);
+
+  let vertices: VertexData | undefined = undefined;
+  let indices: number[] = [];
+  for (const element of header.elements) {
+    if (element.name === 'vertex') {
+      vertices = readVertices(reader, element, scale);
+    } else if (element.name === 'face') {
+      indices = readFaces(reader, element);
+    } else {
+      skipElement(reader, element);
+    }
+  }
+
+  if (!vertices) {
+    throw new PlyError(`No 'vertex' element`);
+  }
+  const { positions, uv } = vertices;
+  const vertexCount = positions.length / 3;
+  const outOfBoundsIdx = indices.find((idx) => idx >= vertexCount);
+  if (outOfBoundsIdx !== undefined) {
+    throw new PlyError(`Face index ${outOfBoundsIdx} is out of bounds (${vertexCount} vertices)`); // prettier-ignore
+  }
+
+  const indicesU32 = new Uint32Array(indices);
+  const normals =
+    vertices.normals ||
+    calcVertexNormals(positions, indicesU32, new Float32Array(vertexCount * 3));
+  return createRawMeshData(positions, normals, uv, indicesU32);
+}
+
+///////////////////////////
+/// Header
+
+type PlyFormat = 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+
+const SCALAR_TYPES = {
+  char: 'int8',
+  int8: 'int8',
+  uchar: 'uint8',
+  uint8: 'uint8',
+  short: 'int16',
+  int16: 'int16',
+  ushort: 'uint16',
+  uint16: 'uint16',
+  int: 'int32',
+  int32: 'int32',
+  uint: 'uint32',
+  uint32: 'uint32',
+  float: 'float32',
+  float32: 'float32',
+  double: 'float64',
+  float64: 'float64',
+} as const;
+type ScalarType = (typeof SCALAR_TYPES)[keyof typeof SCALAR_TYPES];
+
+type PlyProperty =
+  | { name: string; type: ScalarType; isList: false }
+  | {
+      name: string;
+      type: ScalarType;
+      isList: true;
+      countType: ScalarType;
+    };
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+interface PlyHeader {
+  format: PlyFormat;
+  elements: PlyElement[];
+  /** Byte offset of the first byte after 'end_header' line */
+  bodyOffset: number;
+}
+
+const END_HEADER = 'end_header';
+
+function parseHeader(data: Uint8Array): PlyHeader {
+  // header is always ASCII, find where it ends
+  const decoder = new TextDecoder();
+  const headerSearch = decoder.decode(data.subarray(0, 64 * 1024));
+  const endIdx = headerSearch.indexOf(END_HEADER);
+  if (!headerSearch.startsWith('ply') || endIdx === -1) {
+    throw new PlyError(`Missing 'ply' magic or '${END_HEADER}'`);
+  }
+  let bodyOffset = endIdx + END_HEADER.length;
+  if (headerSearch[bodyOffset] === '\r') bodyOffset += 1;
+  bodyOffset += 1; // '\n'
+
+  let format: PlyFormat | undefined = undefined;
+  const elements: PlyElement[] = [];
+  const lines = headerSearch.substring(0, endIdx).split(/\r?\n/);
+  lines.forEach((line) => {
+    const tokens = line.trim().split(/\s+/);
+    switch (tokens[0]) {
+      case 'format': {
+        if (tokens[2] !== '1.0') {
+          throw new PlyError(`Unsupported version '${tokens[2]}'`);
+        }
+        format = parseFormat(tokens[1]);
+        break;
+      }
+      case 'element': {
+        const count = parseInt(tokens[2], 10);
+        if (isNaN(count) || count < 0) {
+          throw new PlyError(`Invalid element count in line '${line}'`);
+        }
+        elements.push({ name: tokens[1], count, properties: [] });
+        break;
+      }
+      case 'property': {
+        const element = elements.at(-1);
+        if (!element) {
+          throw new PlyError(`Property before any element: '${line}'`);
+        }
+        element.properties.push(parseProperty(tokens, line));
+        break;
+      }
+    }
+  });
+
+  if (!format) {
+    throw new PlyError(`Missing 'format' line`);
+  }
+  return { format, elements, bodyOffset };
+}
+
+function parseFormat(format: string): PlyFormat {
+  if (
+    format === 'ascii' ||
+    format === 'binary_little_endian' ||
+    format === 'binary_big_endian'
+  ) {
+    return format;
+  }
+  throw new PlyError(`Unsupported format '${format}'`);
+}
+
+function parseScalarType(type: string, line: string): ScalarType {
+  const result = SCALAR_TYPES[type as keyof typeof SCALAR_TYPES];
+  if (!result) {
+    throw new PlyError(`Unsupported property type '${type}' in line '${line}'`);
+  }
+  return result;
+}
+
+function parseProperty(tokens: string[], line: string): PlyProperty {
+  if (tokens[1] === 'list') {
+    return {
+      name: tokens[4],
+      type: parseScalarType(tokens[3], line),
+      isList: true,
+      countType: parseScalarType(tokens[2], line),
+    };
+  }
+  return {
+    name: tokens[2],
+    type: parseScalarType(tokens[1], line),
+    isList: false,
+  };
+}
+
+///////////////////////////
+/// Body
+
+interface PlyReader {
+  read(type: ScalarType): number;
+}
+
+function createAsciiReader(data: Uint8Array, offset: number): PlyReader {
+  const text = new TextDecoder().decode(data.subarray(offset));
+  const tokens = text.split(/\s+/).filter((t) => t.length > 0);
+  let next = 0;
+  return {
+    read: () => {
+      if (next >= tokens.length) {
+        throw new PlyError(`Unexpected end of file`);
+      }
+      return parseFloat(tokens[next++]);
+    },
+  };
+}
+
+// prettier-ignore
+const BINARY_READERS: Record<ScalarType, [number, (v: DataView, o: number, le: boolean) => number]> = {
+  int8: [1, (v, o) => v.getInt8(o)],
+  uint8: [1, (v, o) => v.getUint8(o)],
+  int16: [2, (v, o, le) => v.getInt16(o, le)],
+  uint16: [2, (v, o, le) => v.getUint16(o, le)],
+  int32: [4, (v, o, le) => v.getInt32(o, le)],
+  uint32: [4, (v, o, le) => v.getUint32(o, le)],
+  float32: [4, (v, o, le) => v.getFloat32(o, le)],
+  float64: [8, (v, o, le) => v.getFloat64(o, le)],
+};
+
+function createBinaryReader(
+  data: Uint8Array,
+  offset: number,
+  format: PlyFormat
+): PlyReader {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const littleEndian = format === 'binary_little_endian';
+  return {
+    read: (type) => {
+      const [bytes, readFn] = BINARY_READERS[type];
+      if (offset + bytes > view.byteLength) {
+        throw new PlyError(`Unexpected end of file`);
+      }
+      const value = readFn(view, offset, littleEndian);
+      offset += bytes;
+      return value;
+    },
+  };
+}
+
+function readProperty(reader: PlyReader, property: PlyProperty): number[] {
+  if (!property.isList) {
+    return [reader.read(property.type)];
+  }
+  const count = reader.read(property.countType);
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    result.push(reader.read(property.type));
+  }
+  return result;
+}
+
+function skipElement(reader: PlyReader, element: PlyElement) {
+  for (let i = 0; i < element.count; i++) {
+    element.properties.forEach((p) => readProperty(reader, p));
+  }
+}
+
+interface VertexData {
+  positions: Float32Array;
+  normals: Float32Array | undefined;
+  uv: Float32Array | undefined;
+}
+
+/** Different exporters use different names for UVs */
+const UV_PROPERTY_NAMES = [
+  ['u', 'v'],
+  ['s', 't'],
+  ['texture_u', 'texture_v'],
+  ['texture_s', 'texture_t'],
+];
+
+function readVertices(
+  reader: PlyReader,
+  element: PlyElement,
+  scale: number
+): VertexData {
+  const propIdx = (name: string) =>
+    element.properties.findIndex((p) => p.name === name);
+  const hasAll = (names: string[]) => names.every((n) => propIdx(n) !== -1);
+
+  if (!hasAll(['x', 'y', 'z'])) {
+    throw new PlyError(`Vertex element requires 'x', 'y', 'z' properties`);
+  }
+  const positionProps = ['x', 'y', 'z'].map(propIdx);
+  const normalProps = hasAll(['nx', 'ny', 'nz'])
+    ? ['nx', 'ny', 'nz'].map(propIdx)
+    : undefined;
+  const uvNames = UV_PROPERTY_NAMES.find(hasAll);
+  const uvProps = uvNames?.map(propIdx);
+
+  const count = element.count;
+  const positions = new Float32Array(count * 3);
+  const normals = normalProps ? new Float32Array(count * 3) : undefined;
+  const uv = uvProps ? new Float32Array(count * 2) : undefined;
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    values.length = 0;
+    element.properties.forEach((p) => {
+      values.push(readProperty(reader, p)[0]);
+    });
+
+    for (let k = 0; k < 3; k++) {
+      positions[3 * i + k] = values[positionProps[k]] * scale;
+    }
+    if (normals && normalProps) {
+      for (let k = 0; k < 3; k++) {
+        normals[3 * i + k] = values[normalProps[k]];
+      }
+    }
+    if (uv && uvProps) {
+      uv[2 * i + 0] = wrapUV(values[uvProps[0]]);
+      uv[2 * i + 1] = 1 - wrapUV(values[uvProps[1]]); // invert Y - webgpu coordinate system
+    }
+  }
+
+  return { positions, normals, uv };
+}
+
+function wrapUV(v: number) {
+  if (v >= 0 && v <= 1) return v;
+  v = v % 1; // to range [0-1]
+  return v < 0 ? 1.0 - Math.abs(v) : v; // negative to positive
+}
+
+function readFaces(reader: PlyReader, element: PlyElement): number[] {
+  const listProp = element.properties.find(
+    (p) =>
+      p.isList && (p.name === 'vertex_indices' || p.name === 'vertex_index')
+  );
+  if (!listProp) {
+    throw new PlyError(`Face element requires 'vertex_indices' list property`);
+  }
+
+  const indices: number[] = [];
+  for (let i = 0; i < element.count; i++) {
+    element.properties.forEach((p) => {
+      const values = readProperty(reader, p);
+      if (p !== listProp) return;
+
+      // triangle fan
+      for (let k = 1; k + 1 < values.length; k++) {
+        indices.push(values[0], values[k], values[k + 1]);
+      }
+    });
+  }
+  return indices;
+}
@@ -0,0 +1,180 @@
+import { Vec3, vec3 } from 'wgpu-matrix';
+import { ImpostorLayout } from '../../constants.ts';
+import { dgr2rad } from '../../utils/index.ts';
+
+/*
+Where each impostor image is rendered from. Object space, Y-up.
+
+- 'horizontal' - images around the UP-axis. Image `i` is rendered from `360/views * i` degrees.
+- 'hemiOctahedral', 'octahedral' - `gridSize*gridSize` images. Grid point `(x, y)`
+  is mapped into [0, 1] and decoded as an octahedron-encoded direction. Hemi-octahedral
+  only encodes the upper hemisphere (so it has better resolution there).
+
+GPU version is in `impostorLayout.wgsl.ts`. Both have to match.
+*/
+
+/** `[columns, rows]` of images in the impostor texture */
+export function getImpostorGridDimensions(
+  layout: ImpostorLayout,
+  gridSize: number
+): [number, number] {
+  return layout === 'horizontal' ? [gridSize, 1] : [gridSize, gridSize];
+}
+
+const signNotZero = (x: number) => (x >= 0.0 ? 1.0 : -1.0);
+
+/** Direction to [0, 1] square. Hemi-octahedral clamps lower hemisphere to the horizon. */
+export function octahedralEncode(
+  layout: ImpostorLayout,
+  dir: Vec3
+): [number, number] {
+  const x = dir[0];
+  const y = layout === 'hemiOctahedral' ? Math.max(dir[1], 0.0) : dir[1];
+  const z = dir[2];
+  const len = Math.max(Math.abs(x) + Math.abs(y) + Math.abs(z), 0.00001);
+  let px = x / len;
+  let pz = z / len;
+
+  if (layout === 'hemiOctahedral') {
+    // rotate 45dgr, so the diamond fills the whole square
+    return [(px + pz) * 0.5 + 0.5, (px - pz) * 0.5 + 0.5];
+  }
+
+  if (y < 0.0) {
+    const tmp = px;
+    px = (1.0 - Math.abs(pz)) * signNotZero(px);
+    pz = (1.0 - Math.abs(tmp)) * signNotZero(pz);
+  }
+  return [px * 0.5 + 0.5, pz * 0.5 + 0.5];
+}
+
+/** [0, 1] square to normalized direction. Reverse of `octahedralEncode()` */
+export function octahedralDecode(
+  layout: ImpostorLayout,
+  u: number,
+  v: number,
+  result?: Vec3
+): Vec3 {
+  const px = u * 2.0 - 1.0;
+  const py = v * 2.0 - 1.0;
+
+  if (layout === 'hemiOctahedral') {
+    const x = (px + py) * 0.5;
+    const z = (px - py) * 0.5;
+    const y = 1.0 - Math.abs(x) - Math.abs(z);
+    return vec3.normalize(vec3.create(x, y, z), result);
+  }
+
+  let x = px;
+  let z = py;
+  const y = 1.0 - Math.abs(x) - Math.abs(z);
+  if (y < 0.0) {
+    x = (1.0 - Math.abs(py)) * signNotZero(px);
+    z = (1.0 - Math.abs(px)) * signNotZero(py);
+  }
+  return vec3.normalize(vec3.create(x, y, z), result);
+}
+
+/** Direction from the object's center towards the camera that rendered the image */
+export function getImpostorFrameDirection(
+  layout: ImpostorLayout,
+  gridSize: number,
+  frameX: number,
+  frameY: number
+): Vec3 {
+  if (layout === 'horizontal') {
+    const angle = dgr2rad((360.0 / gridSize) * frameX);
+    return vec3.create(-Math.sin(angle), 0.0, Math.cos(angle));
+  }
+
+  const u = frameX / (gridSize - 1);
+  const v = frameY / (gridSize - 1);
+  return octahedralDecode(layout, u, v);
+}
+
+/** Up vector for the image's view matrix. Cannot be parallel to the direction. */
+export function getImpostorFrameUp(dir: Vec3): Vec3 {
+  return Math.abs(dir[1]) > 0.999
+    ? vec3.create(0.0, 0.0, -1.0)
+    : vec3.create(0.0, 1.0, 0.0);
+}
+
+export interface ImpostorFrames {
+  /** Grid coordinates `[x, y]` of each image */
+  frames: [number, number][];
+  /** Sums to 1 */
+  weights: [number, number, number];
+}
+
+/**
+ * Select images closest to the direction. Octahedral layouts blend 3 images:
+ * a triangle of the grid cell. Horizontal layout blends 2 images (3rd has weight 0).
+ *
+ * @param dir direction from the object's center towards the camera (object space)
+ * @param jitter offset in grid cells (dithering)
+ */
+export function getImpostorFrames(
+  layout: ImpostorLayout,
+  gridSize: number,
+  dir: Vec3,
+  jitter = 0.0
+): ImpostorFrames {
+  if (layout === 'horizontal') {
+    const angleDgr = angleDgr_axisXZ(dir);
+    const pos = angleDgr / (360.0 / gridSize) + jitter + gridSize;
+    const f = pos - Math.floor(pos);
+    const i0 = Math.floor(pos) % gridSize;
+    const i1 = (i0 + 1) % gridSize;
+    return {
+      frames: [
+        [i0, 0],
+        [i1, 0],
+        [i0, 0],
+      ],
+      weights: [1.0 - f, f, 0.0],
+    };
+  }
+
+  const [u, v] = octahedralEncode(layout, vec3.normalize(dir));
+  const maxCell = gridSize - 2;
+  const gridX = u * (gridSize - 1) + jitter;
+  const gridY = v * (gridSize - 1) + jitter;
+  const cellX = clamp(Math.floor(gridX), 0, maxCell);
+  const cellY = clamp(Math.floor(gridY), 0, maxCell);
+  const fx = clamp(gridX - cellX, 0, 1);
+  const fy = clamp(gridY - cellY, 0, 1);
+
+  if (fx + fy < 1.0) {
+    return {
+      frames: [
+        [cellX, cellY],
+        [cellX + 1, cellY],
+        [cellX, cellY + 1],
+      ],
+      weights: [1.0 - fx - fy, fx, fy],
+    };
+  }
+  return {
+    frames: [
+      [cellX + 1, cellY + 1],
+      [cellX, cellY + 1],
+      [cellX + 1, cellY],
+    ],
+    weights: [fx + fy - 1.0, 1.0 - fx, 1.0 - fy],
+  };
+}
+
+const clamp = (x: number, min: number, max: number) =>
+  Math.min(Math.max(x, min), max);
+
+/** Angle around the UP-axis between object's front (+Z) and the direction. Range: [0, 360) */
+function angleDgr_axisXZ(dir: Vec3) {
+  const len = Math.hypot(dir[0], dir[2]);
+  const dot = dir[2] / len;
+  const det = -dir[0] / len;
+  let dgr = (Math.atan2(det, dot) * 180.0) / Math.PI;
+  while (dgr < 0.0) {
+    dgr += 360.0;
+  }
+  return dgr;
+}
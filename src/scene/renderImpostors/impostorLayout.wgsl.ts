@@ -0,0 +1,136 @@
+import { ImpostorLayout } from '../../constants.ts';
+import { getImpostorGridDimensions } from './impostorLayout.ts';
+
+/**
+ * Which impostor images to sample and where. Has to match `impostorLayout.ts`.
+ *
+ * Use the same `layout` and `gridSize` as when rendering the impostor texture.
+ */
+export const SNIPPET_IMPOSTOR_LAYOUT = (
+  layout: ImpostorLayout,
+  gridSize: number
+) => {
+  const [cols, rows] = getImpostorGridDimensions(layout, gridSize);
+
+  return /* wgsl */ `
+
+const IMPOSTOR_GRID_SIZE: u32 = ${gridSize}u;
+const IMPOSTOR_GRID_DIMENSIONS = vec2f(${cols}.0, ${rows}.0);
+
+struct ImpostorFrames {
+  frames: array<vec2u, 3>,
+  /** Sums to 1 */
+  weights: vec3f,
+};
+
+/** Transform uv of a single image into uv of the whole impostor texture */
+fn getImpostorTextureUV(frame: vec2u, frameUV: vec2f) -> vec2f {
+  return (vec2f(frame) + frameUV) / IMPOSTOR_GRID_DIMENSIONS;
+}
+
+${layout === 'horizontal' ? LAYOUT_HORIZONTAL : LAYOUT_OCTAHEDRAL(layout)}
+`;
+};
+
+const LAYOUT_HORIZONTAL = /* wgsl */ `
+
+/** Blend 2 consecutive images. 3rd has weight 0. 'dirMS' is the object-space direction towards camera. */
+fn getImpostorFrames(dirMS: vec3f, jitter: f32) -> ImpostorFrames {
+  let delta = 360.0 / f32(IMPOSTOR_GRID_SIZE); // 30dgr
+  let pos = angleDgr_axisXZ(vec3f(0., 0., 1.), dirMS) / delta + jitter + f32(IMPOSTOR_GRID_SIZE);
+  let f = fract(pos);
+  let i0 = u32(floor(pos)) % IMPOSTOR_GRID_SIZE;
+  let i1 = (i0 + 1u) % IMPOSTOR_GRID_SIZE;
+
+  var result: ImpostorFrames;
+  result.frames = array<vec2u, 3>(vec2u(i0, 0u), vec2u(i1, 0u), vec2u(i0, 0u));
+  result.weights = vec3f(1.0 - f, f, 0.0);
+  return result;
+}
+
+/** Images were rendered with the camera at the object's height, so use billboard's uv as-is. */
+fn getImpostorFrameUV(frame: vec2u, quadUV: vec2f, quadPosMS: vec3f) -> vec2f {
+  return quadUV;
+}
+
+/** https://math.stackexchange.com/questions/878785/how-to-find-an-angle-in-range0-360-between-2-vectors
+ *
+ * Consult 'src\\passes\\naniteBillboard\\mathPlayground.test.ts' before making any changes!
+ */
+fn angleDgr_axisXZ(vecA: vec3f, vecB: vec3f) -> f32 {
+  let vecAn = normalize(vec2f(vecA.x, vecA.z));
+  let vecBn = normalize(vec2f(vecB.x, vecB.z));
+  let dot = vecAn.x * vecBn.x + vecAn.y * vecBn.y;
+  let det = vecAn.x * vecBn.y - vecAn.y * vecBn.x;
+  var dgr = degrees(atan2(det, dot));
+
+  while (dgr < 0.0) { dgr += 360.0; }
+  return dgr;
+}
+`;
+
+const LAYOUT_OCTAHEDRAL = (layout: ImpostorLayout) => {
+  const isHemi = layout === 'hemiOctahedral';
+
+  return /* wgsl */ `
+
+fn signNotZero(v: vec2f) -> vec2f {
+  return select(vec2f(-1.0), vec2f(1.0), v >= vec2f(0.0));
+}
+
+fn octahedralEncode(dir: vec3f) -> vec2f {
+  ${isHemi ? 'let d = vec3f(dir.x, max(dir.y, 0.0), dir.z);' : 'let d = dir;'}
+  var p = d.xz / max(abs(d.x) + abs(d.y) + abs(d.z), 0.00001);
+  ${
+    isHemi
+      ? 'p = vec2f(p.x + p.y, p.x - p.y);'
+      : 'if (d.y < 0.0) { p = (1.0 - abs(p.yx)) * signNotZero(p); }'
+  }
+  return p * 0.5 + 0.5;
+}
+
+fn octahedralDecode(uv: vec2f) -> vec3f {
+  let p = uv * 2.0 - 1.0;
+  ${
+    isHemi
+      ? `let xz = vec2f(p.x + p.y, p.x - p.y) * 0.5;
+  let d = vec3f(xz.x, 1.0 - abs(xz.x) - abs(xz.y), xz.y);`
+      : `var d = vec3f(p.x, 1.0 - abs(p.x) - abs(p.y), p.y);
+  if (d.y < 0.0) { d = vec3f((1.0 - abs(p.yx)) * signNotZero(p), d.y).xzy; }`
+  }
+  return normalize(d);
+}
+
+/** Blend 3 images - a triangle inside a grid cell. 'dirMS' is the object-space direction towards camera. */
+fn getImpostorFrames(dirMS: vec3f, jitter: f32) -> ImpostorFrames {
+  let gridPos = octahedralEncode(normalize(dirMS)) * f32(IMPOSTOR_GRID_SIZE - 1u) + jitter;
+  let cell = clamp(floor(gridPos), vec2f(0.0), vec2f(f32(IMPOSTOR_GRID_SIZE - 2u)));
+  let f = saturate(gridPos - cell);
+  let c = vec2u(cell);
+
+  var result: ImpostorFrames;
+  if (f.x + f.y < 1.0) {
+    result.frames = array<vec2u, 3>(c, c + vec2u(1u, 0u), c + vec2u(0u, 1u));
+    result.weights = vec3f(1.0 - f.x - f.y, f.x, f.y);
+  } else {
+    result.frames = array<vec2u, 3>(c + vec2u(1u, 1u), c + vec2u(0u, 1u), c + vec2u(1u, 0u));
+    result.weights = vec3f(f.x + f.y - 1.0, 1.0 - f.x, 1.0 - f.y);
+  }
+  return result;
+}
+
+/**
+ * Project the billboard's point onto the image's plane. Works for any
+ * camera orientation, as each image has its own up vector.
+ * 'quadPosMS' is object-space offset from the bounding sphere center, divided by radius.
+ */
+fn getImpostorFrameUV(frame: vec2u, quadUV: vec2f, quadPosMS: vec3f) -> vec2f {
+  let dir = octahedralDecode(vec2f(frame) / f32(IMPOSTOR_GRID_SIZE - 1u));
+  // same as 'lookAt()' used to render the image
+  let up = select(vec3f(0.0, 1.0, 0.0), vec3f(0.0, 0.0, -1.0), abs(dir.y) > 0.999);
+  let axisX = normalize(cross(up, dir));
+  let axisY = cross(dir, axisX);
+  return vec2f(dot(quadPosMS, axisX), -dot(quadPosMS, axisY)) * 0.5 + 0.5;
+}
+`;
+};
@@ -10,6 +10,7 @@ import {
   IMPOSTOR_BYTES_PER_PIXEL,
   ImpostorMesh,
   ImpostorRenderer,
+  ImpostorTextureArray,
 } from './renderImpostors.ts';
 import { DEFAULT_COLOR } from '../../passes/_shaderSnippets/shading.wgsl.ts';
 import { createFallbackTexture } from '../../utils/textures.ts';
@@ -21,6 +22,16 @@ import {
   readBufferToCPU,
 } from '../../utils/webgpu.ts';
 import { createOriginalMesh } from '../load/createOriginalMesh.ts';
+import { ImpostorLayout } from '../../constants.ts';
+import { assert, assertAlmostEquals, assertEquals, assertThrows } from 'assert';
+import { Vec3, vec3 } from 'wgpu-matrix';
+import {
+  getImpostorFrameDirection,
+  getImpostorFrames,
+  getImpostorGridDimensions,
+  octahedralDecode,
+  octahedralEncode,
+} from './impostorLayout.ts';
 
 // needed cause OBJ loader optimizes the mesh
 import '../../lib/meshoptimizer.d.ts';
@@ -39,17 +50,94 @@ const SNAPSHOT_FILE_N = relativePath(
   import.meta,
   '__test__/ImpostorsRenderer.n.snapshot.bin'
 );
+const SNAPSHOT_FILE_DEPTH = relativePath(
+  import.meta,
+  '__test__/ImpostorsRenderer.depth.snapshot.bin'
+);
+
+const PREVIEW_PATH_OCT = relativePath(
+  import.meta,
+  '__test__/test_preview.octahedral.png'
+);
+const PREVIEW_PATH_OCT_N = relativePath(
+  import.meta,
+  '__test__/test_preview.octahedral.n.png'
+);
+
+const SNAPSHOT_FILE_OCT = relativePath(
+  import.meta,
+  '__test__/ImpostorsRenderer.octahedral.snapshot.bin'
+);
+const SNAPSHOT_FILE_OCT_N = relativePath(
+  import.meta,
+  '__test__/ImpostorsRenderer.octahedral.n.snapshot.bin'
+);
 
 const IMPOSTOR_VIEWS = 3; // NOTE: the back view is whole black
+const IMPOSTOR_GRID_SIZE = 3;
 const IMPOSTOR_IMAGE_SIZE = 64;
 
 const OBJ_NAME = 'impostor-cube';
-const TEXTURE_DIMENSIONS: Dimensions = {
-  width: IMPOSTOR_IMAGE_SIZE * IMPOSTOR_VIEWS,
-  height: IMPOSTOR_IMAGE_SIZE,
-};
 
 Deno.test('ImpostorsRenderer', async () => {
+  const [colorData, normalsData, depthData] = await renderImpostor(
+    'horizontal',
+    IMPOSTOR_VIEWS
+  );
+  const dims = getTextureDimensions('horizontal', IMPOSTOR_VIEWS);
+
+  await writePng(colorData.buffer, dims, PREVIEW_PATH);
+  await writePng(normalsData.buffer, dims, PREVIEW_PATH_N);
+
+  // 1st image is the front view. Cube's front face is 'halfSize / radius' closer than the center
+  const centerPx = (dims.height / 2) * dims.width + IMPOSTOR_IMAGE_SIZE / 2;
+  assertAlmostEquals(depthData[centerPx], 1 / Math.sqrt(3), 0.01);
+
+  await assertBinarySnapshot(SNAPSHOT_FILE, colorData.buffer);
+  await assertBinarySnapshot(SNAPSHOT_FILE_N, normalsData.buffer);
+  await assertBinarySnapshot(SNAPSHOT_FILE_DEPTH, depthData.buffer);
+});
+
+Deno.test('ImpostorsRenderer - octahedral', async () => {
+  const [colorData, normalsData] = await renderImpostor(
+    'octahedral',
+    IMPOSTOR_GRID_SIZE
+  );
+  const dims = getTextureDimensions('octahedral', IMPOSTOR_GRID_SIZE);
+
+  await writePng(colorData.buffer, dims, PREVIEW_PATH_OCT);
+  await writePng(normalsData.buffer, dims, PREVIEW_PATH_OCT_N);
+
+  // every image sees the cube, including the ones from below
+  for (let y = 0; y < IMPOSTOR_GRID_SIZE; y++) {
+    for (let x = 0; x < IMPOSTOR_GRID_SIZE; x++) {
+      const centerX = (x + 0.5) * IMPOSTOR_IMAGE_SIZE;
+      const centerY = (y + 0.5) * IMPOSTOR_IMAGE_SIZE;
+      const pixelIdx = centerY * dims.width + centerX;
+      assert(colorData[pixelIdx] !== 0, `Empty image [${x}, ${y}]`);
+    }
+  }
+
+  await assertBinarySnapshot(SNAPSHOT_FILE_OCT, colorData.buffer);
+  await assertBinarySnapshot(SNAPSHOT_FILE_OCT_N, normalsData.buffer);
+});
+
+function getTextureDimensions(
+  layout: ImpostorLayout,
+  gridSize: number
+): Dimensions {
+  const [cols, rows] = getImpostorGridDimensions(layout, gridSize);
+  return {
+    width: IMPOSTOR_IMAGE_SIZE * cols,
+    height: IMPOSTOR_IMAGE_SIZE * rows,
+  };
+}
+
+/** Returns `[colorData, normalsData, depthData]` */
+async function renderImpostor(
+  layout: ImpostorLayout,
+  gridSize: number
+): Promise<[Uint32Array, Uint32Array, Float32Array]> {
   const [device, reportWebGPUErrAsync] = await createGpuDevice_TESTS();
 
   const filePath = absPathFromRepoRoot(TEST_FILE);
@@ -73,11 +161,13 @@ Deno.test('ImpostorsRenderer', async () => {
   const pass = new ImpostorRenderer(
     device,
     fallbackDiffuseTextureView,
-    IMPOSTOR_VIEWS,
+    layout,
+    gridSize,
     IMPOSTOR_IMAGE_SIZE
   );
 
-  const result = pass.createImpostorTexture(device, mesh);
+  const textureArray = pass.createTextureArray(device, 1);
+  const result = pass.createImpostorTexture(device, textureArray, mesh);
   const readbackBuffer = createReadbackBufferFromTexture(
     device,
     result.texture,
@@ -101,18 +191,152 @@ Deno.test('ImpostorsRenderer', async () => {
   // cleanup
   device.destroy();
 
-  const pixelCount = resultData.length / 2;
+  const pixelCount = resultData.length / 4;
   const colorData = new Uint32Array(pixelCount);
   const normalsData = new Uint32Array(pixelCount);
+  const depthData = new Float32Array(pixelCount);
+  const resultDataF32 = new Float32Array(resultData.buffer);
 
   for (let i = 0; i < pixelCount; i++) {
-    colorData[i] = resultData[2 * i];
-    normalsData[i] = resultData[2 * i + 1];
+    colorData[i] = resultData[4 * i];
+    normalsData[i] = resultData[4 * i + 1];
+    depthData[i] = resultDataF32[4 * i + 2];
   }
 
-  await writePng(colorData.buffer, TEXTURE_DIMENSIONS, PREVIEW_PATH);
-  await writePng(normalsData.buffer, TEXTURE_DIMENSIONS, PREVIEW_PATH_N);
+  return [colorData, normalsData, depthData];
+}
 
-  await assertBinarySnapshot(SNAPSHOT_FILE, colorData.buffer);
-  await assertBinarySnapshot(SNAPSHOT_FILE_N, normalsData.buffer);
+Deno.test('ImpostorTextureArray allocates a layer per object', () => {
+  const mockTexture = {
+    depthOrArrayLayers: 2,
+    createView: () => ({}),
+    // deno-lint-ignore no-explicit-any
+  } as any;
+  const textureArray = new ImpostorTextureArray(mockTexture);
+
+  assertEquals(textureArray.allocateLayer(), 0);
+  assertEquals(textureArray.allocateLayer(), 1);
+  assertThrows(() => textureArray.allocateLayer());
+});
+
+///////////////////////////
+/// LAYOUT MATH
+
+const TEST_DIRECTIONS: Array<[number, number, number]> = [
+  [0, 1, 0],
+  [0, -1, 0],
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+  [1, 1, 1],
+  [-2, 1, 0.5],
+  [0.3, -1, -2],
+  [-1, -0.2, 1],
+];
+
+const p = (x: Vec3) =>
+  `[${x[0].toFixed(2)}, ${x[1].toFixed(2)}, ${x[2].toFixed(2)}]`;
+
+function assertSameDirection(actual: Vec3, expected: Vec3) {
+  const msg = `Expected ${p(expected)}, got ${p(actual)}`;
+  assertAlmostEquals(actual[0], expected[0], 0.0001, msg);
+  assertAlmostEquals(actual[1], expected[1], 0.0001, msg);
+  assertAlmostEquals(actual[2], expected[2], 0.0001, msg);
+}
+
+Deno.test('Impostor layout - octahedral encode/decode', async (t) => {
+  const layouts: ImpostorLayout[] = ['octahedral', 'hemiOctahedral'];
+
+  for (const layout of layouts) {
+    for (const d of TEST_DIRECTIONS) {
+      const dir = vec3.normalize(d);
+      // hemi-octahedral clamps to the horizon
+      const expected = vec3.clone(dir);
+      if (layout === 'hemiOctahedral' && expected[1] < 0) {
+        expected[1] = 0;
+        if (vec3.length(expected) < 0.001) continue;
+        vec3.normalize(expected, expected);
+      }
+
+      await t.step(`${layout} ${p(dir)}`, () => {
+        const [u, v] = octahedralEncode(layout, dir);
+        assert(u >= 0 && u <= 1 && v >= 0 && v <= 1, `UV [${u}, ${v}]`);
+        assertSameDirection(octahedralDecode(layout, u, v), expected);
+      });
+    }
+  }
+});
+
+Deno.test('Impostor layout - frame directions', () => {
+  const gridSize = 5;
+  const dirs = (layout: ImpostorLayout) =>
+    [0, 1, 2, 3, 4].flatMap((y) =>
+      [0, 1, 2, 3, 4].map((x) =>
+        getImpostorFrameDirection(layout, gridSize, x, y)
+      )
+    );
+
+  // hemi-octahedral: only above the horizon, center is the top view
+  const hemi = dirs('hemiOctahedral');
+  hemi.forEach((d) => assert(d[1] >= -0.0001, `Below horizon: ${p(d)}`));
+  assertSameDirection(hemi[2 * gridSize + 2], vec3.create(0, 1, 0));
+
+  // octahedral: center is top, corners are bottom
+  const oct = dirs('octahedral');
+  assertSameDirection(oct[2 * gridSize + 2], vec3.create(0, 1, 0));
+  assertSameDirection(oct[0], vec3.create(0, -1, 0));
+  assertSameDirection(oct[gridSize * gridSize - 1], vec3.create(0, -1, 0));
+
+  // horizontal: the first image is from the front
+  const horizontal = getImpostorFrameDirection('horizontal', 12, 0, 0);
+  assertSameDirection(horizontal, vec3.create(0, 0, 1));
+});
+
+Deno.test('Impostor layout - frame selection', async (t) => {
+  const gridSize = 6;
+  const layouts: ImpostorLayout[] = ['octahedral', 'hemiOctahedral'];
+
+  for (const layout of layouts) {
+    // direction exactly at the image's direction uses only that image
+    await t.step(`${layout} - exact image`, () => {
+      const dir = getImpostorFrameDirection(layout, gridSize, 2, 3);
+      const { frames, weights } = getImpostorFrames(layout, gridSize, dir);
+      const idx = weights.findIndex((w) => w > 0.999);
+      assert(idx !== -1, `Expected single image, got weights ${weights}`);
+      assertEquals(frames[idx], [2, 3]);
+    });
+
+    // selected images are the closest ones
+    for (const d of TEST_DIRECTIONS) {
+      const dir = vec3.normalize(d);
+      if (layout === 'hemiOctahedral' && dir[1] < 0) continue;
+
+      await t.step(`${layout} ${p(dir)}`, () => {
+        const { frames, weights } = getImpostorFrames(layout, gridSize, dir);
+        const weightSum = weights[0] + weights[1] + weights[2];
+        assertAlmostEquals(weightSum, 1.0, 0.0001);
+        weights.forEach((w) => assert(w >= 0 && w <= 1, `Weight ${w}`));
+
+        // the image with the highest weight is not further than a grid cell diagonal
+        const maxIdx = weights.indexOf(Math.max(...weights));
+        const [x, y] = frames[maxIdx];
+        const frameDir = getImpostorFrameDirection(layout, gridSize, x, y);
+        const cellAngle = Math.PI / (gridSize - 1); // octahedral has twice the area
+        const angle = vec3.angle(dir, frameDir);
+        assert(angle <= cellAngle * 1.5, `Image [${x}, ${y}], angle ${angle}`);
+      });
+    }
+  }
+
+  await t.step('horizontal', () => {
+    // 45dgr to the right between images 1 (30dgr) and 2 (60dgr)
+    const dir = vec3.create(-1, 0, 1);
+    const { frames, weights } = getImpostorFrames('horizontal', 12, dir);
+    assertEquals(frames[0], [1, 0]);
+    assertEquals(frames[1], [2, 0]);
+    assertAlmostEquals(weights[0], 0.5, 0.0001);
+    assertAlmostEquals(weights[1], 0.5, 0.0001);
+    assertEquals(weights[2], 0);
+  });
 });
@@ -1,5 +1,10 @@
-import { Mat4, mat4 } from 'wgpu-matrix';
-import { BYTES_F32, BYTES_VEC2, CONFIG } from '../../constants.ts';
+import { Mat4, mat4, vec3 } from 'wgpu-matrix';
+import {
+  BYTES_F32,
+  BYTES_VEC4,
+  CONFIG,
+  ImpostorLayout,
+} from '../../constants.ts';
 import { BYTES_MAT4 } from '../../constants.ts';
 import {
   labelShader,
@@ -17,12 +22,34 @@ import { createArray, dgr2rad } from '../../utils/index.ts';
 import { assertIsGPUTextureView } from '../../utils/webgpu.ts';
 import { createSampler } from '../../utils/textures.ts';
 import { VERTEX_ATTRIBUTES } from '../GPUOriginalMesh.ts';
+import {
+  getImpostorFrameDirection,
+  getImpostorFrameUp,
+  getImpostorGridDimensions,
+} from './impostorLayout.ts';
 
-export class ImpostorBillboardTexture {
+/** Impostors of all objects in the scene. Each object has its own layer. Owned by the scene. */
+export class ImpostorTextureArray {
   public readonly textureView: GPUTextureView;
+  private nextLayer = 0;
 
   constructor(public readonly texture: GPUTexture) {
-    this.textureView = texture.createView();
+    this.textureView = texture.createView({ dimension: '2d-array' });
+  }
+
+  get layerCount() {
+    return this.texture.depthOrArrayLayers;
+  }
+
+  allocateLayer(): number {
+    if (this.nextLayer >= this.layerCount) {
+      throw new Error(`Impostor texture array has only ${this.layerCount} layers`); // prettier-ignore
+    }
+    return this.nextLayer++;
+  }
+
+  dispose() {
+    this.texture.destroy();
   }
 
   bind = (idx: number): GPUBindGroupEntry => ({
@@ -31,6 +58,18 @@ export class ImpostorBillboardTexture {
   });
 }
 
+/** Per-object impostor: layer in the shared `ImpostorTextureArray`. See `NaniteSceneObject.impostorLayer` */
+export class ImpostorBillboardTexture {
+  constructor(
+    public readonly textureArray: ImpostorTextureArray,
+    public readonly layer: number
+  ) {}
+
+  get texture() {
+    return this.textureArray.texture;
+  }
+}
+
 export interface ImpostorMesh {
   name: string;
   vertexBuffer: GPUBuffer;
@@ -43,9 +82,14 @@ export interface ImpostorMesh {
 }
 
 // const OUT_TEXTURE_FORMAT: GPUTextureFormat = 'rgba8unorm'; // 8bit per channel, will be read as float [0-1]
-const OUT_TEXTURE_FORMAT: GPUTextureFormat = 'rg32float';
+/** r - packed color, g - packed normal, b - depth (see shader), a - not used */
+const OUT_TEXTURE_FORMAT: GPUTextureFormat = 'rgba32float';
 const DEPTH_FORMAT: GPUTextureFormat = 'depth24plus';
-export const IMPOSTOR_BYTES_PER_PIXEL = BYTES_VEC2;
+export const IMPOSTOR_BYTES_PER_PIXEL = BYTES_VEC4;
+
+/** Images in a row for 'horizontal' layout, images per side of the grid for octahedral ones */
+export const getImpostorGridSize = (layout: ImpostorLayout) =>
+  layout === 'horizontal' ? CONFIG.impostors.views : CONFIG.impostors.gridSize;
 
 export class ImpostorRenderer {
   public static NAME: string = 'ImpostorRenderer';
@@ -57,14 +101,23 @@ export class ImpostorRenderer {
   private readonly sampler: GPUSampler;
   private readonly depthTexture: GPUTexture;
   private readonly depthTextureView: GPUTextureView;
+  /** `[columns, rows]` of images */
+  private readonly gridDimensions: [number, number];
+  private readonly viewCount: number;
 
   constructor(
     device: GPUDevice,
     private readonly fallbackTexture: GPUTextureView,
-    private readonly viewCount = CONFIG.impostors.views,
+    private readonly layout = CONFIG.impostors.layout,
+    private readonly gridSize = getImpostorGridSize(layout),
     private readonly textureSize = CONFIG.impostors.textureSize
   ) {
     assertIsGPUTextureView(this.fallbackTexture);
+    if (layout !== 'horizontal' && gridSize < 2) {
+      throw new Error(`Octahedral impostors require grid size of at least 2, got ${gridSize}`); // prettier-ignore
+    }
+    this.gridDimensions = getImpostorGridDimensions(layout, gridSize);
+    this.viewCount = this.gridDimensions[0] * this.gridDimensions[1];
 
     const shaderModule = device.createShaderModule({
       label: labelShader(ImpostorRenderer),
@@ -103,61 +156,80 @@ export class ImpostorRenderer {
 
     this.depthTexture = device.createTexture({
       label: createLabel(ImpostorRenderer, 'depth'),
-      size: [this.textureSize * this.viewCount, this.textureSize],
+      size: this.getTextureSize(),
       format: DEPTH_FORMAT,
       usage: GPUTextureUsage.RENDER_ATTACHMENT,
     });
     this.depthTextureView = this.depthTexture.createView();
   }
 
+  /** Only needed during scene load */
+  dispose() {
+    this.matricesBuffer.destroy();
+    this.depthTexture.destroy();
+  }
+
+  /** Render into the next free layer of the texture array */
   createImpostorTexture(
     device: GPUDevice,
+    textureArray: ImpostorTextureArray,
     mesh: ImpostorMesh
   ): ImpostorBillboardTexture {
-    const resultTexture = this.createResultTexture(device, mesh);
+    const layer = textureArray.allocateLayer();
 
     // render views
     const cmdBuf = device.createCommandEncoder({
       label: `${ImpostorRenderer.NAME}-${mesh.name}-cmd-buffer`,
     });
-    const result = this.renderImpostorTexture(
-      device,
-      cmdBuf,
-      resultTexture,
-      mesh
-    );
+    this.renderImpostorTexture(device, cmdBuf, textureArray, layer, mesh);
     device.queue.submit([cmdBuf.finish()]);
 
-    return result;
+    return new ImpostorBillboardTexture(textureArray, layer);
   }
 
-  private createResultTexture(device: GPUDevice, mesh: ImpostorMesh) {
-    const sizeW = this.textureSize * this.viewCount;
+  /** Images are stored in a grid */
+  private getTextureSize(): [number, number] {
+    const [cols, rows] = this.gridDimensions;
+    return [this.textureSize * cols, this.textureSize * rows];
+  }
+
+  /** Shared by all objects. All impostors have the same layout and size. */
+  createTextureArray(
+    device: GPUDevice,
+    layerCount: number
+  ): ImpostorTextureArray {
+    const [sizeW, sizeH] = this.getTextureSize();
     const extraUsage: GPUTextureDescriptor['usage'] = CONFIG.isTest
       ? GPUTextureUsage.COPY_SRC
       : 0;
 
-    return device.createTexture({
-      label: createLabel(ImpostorRenderer, mesh.name),
+    const texture = device.createTexture({
+      label: createLabel(ImpostorRenderer, `texture-array-${layerCount}`),
       dimension: '2d',
-      size: [sizeW, this.textureSize, 1],
+      size: [sizeW, sizeH, layerCount],
       format: OUT_TEXTURE_FORMAT,
       usage:
         GPUTextureUsage.TEXTURE_BINDING |
         GPUTextureUsage.RENDER_ATTACHMENT |
         extraUsage,
     });
+    return new ImpostorTextureArray(texture);
   }
 
-  /** Render to the target texture */
+  /** Render to the layer of the target texture */
   private renderImpostorTexture(
     device: GPUDevice,
     cmdBuf: GPUCommandEncoder,
-    targetTexture: GPUTexture,
+    textureArray: ImpostorTextureArray,
+    layer: number,
     mesh: ImpostorMesh
-  ): ImpostorBillboardTexture {
+  ) {
     // https://developer.mozilla.org/en-US/docs/Web/API/GPUCommandEncoder/beginRenderPass
-    const targetTextureView = targetTexture.createView();
+    const targetTextureView = textureArray.texture.createView({
+      dimension: '2d',
+      baseArrayLayer: layer,
+      arrayLayerCount: 1,
+    });
     const renderPass = cmdBuf.beginRenderPass({
       label: ImpostorRenderer.NAME,
       colorAttachments: [
@@ -183,12 +255,13 @@ export class ImpostorRenderer {
     renderPass.setBindGroup(0, bindings);
 
     const textureSize = this.textureSize;
+    const cols = this.gridDimensions[0];
 
     // draw
     for (let i = 0; i < this.viewCount; i++) {
       renderPass.setViewport(
-        textureSize * i, // x
-        0, // y
+        textureSize * (i % cols), // x
+        textureSize * Math.floor(i / cols), // y
         textureSize, // w
         textureSize, // h
         0, // minDepth
@@ -200,8 +273,6 @@ export class ImpostorRenderer {
 
     // fin
     renderPass.end();
-
-    return new ImpostorBillboardTexture(targetTexture);
   }
 
   private createBindings = (
@@ -211,10 +282,7 @@ export class ImpostorRenderer {
     const b = SHADER_PARAMS.bindings;
 
     const projMat = this.getProjectionMat(mesh);
-    const rotDelta = 360.0 / this.viewCount; // e.g. 30dgr
-    const viewMats = createArray(this.viewCount).map((_, i) =>
-      mat4.rotationY(dgr2rad(rotDelta * i))
-    );
+    const viewMats = this.getViewMatrices(mesh);
     this.writeUniforms(device, projMat, viewMats);
 
     const texture = mesh.texture || this.fallbackTexture;
@@ -258,9 +326,36 @@ export class ImpostorRenderer {
     return offsetBytes + BYTES_MAT4;
   }
 
+  /** Same order as in the texture: row by row */
+  private getViewMatrices(mesh: ImpostorMesh): Mat4[] {
+    const { layout, gridSize } = this;
+    const cols = this.gridDimensions[0];
+
+    if (layout === 'horizontal') {
+      const rotDelta = 360.0 / this.viewCount; // e.g. 30dgr
+      return createArray(this.viewCount).map((_, i) =>
+        mat4.rotationY(dgr2rad(rotDelta * i))
+      );
+    }
+
+    // look at the bounding sphere center from '2 * radius' distance
+    const { center, radius } = mesh.bounds;
+    return createArray(this.viewCount).map((_, i) => {
+      // prettier-ignore
+      const dir = getImpostorFrameDirection(layout, gridSize, i % cols, Math.floor(i / cols));
+      const eye = vec3.addScaled(center, dir, 2 * radius);
+      return mat4.lookAt(eye, center, getImpostorFrameUp(dir));
+    });
+  }
+
   private getProjectionMat(mesh: ImpostorMesh) {
     const b = mesh.bounds;
     const r = b.radius;
+    if (this.layout !== 'horizontal') {
+      // see view matrices: the center is at '(0, 0, -2r)' in view space
+      return mat4.ortho(-r, r, -r, r, r, 3 * r);
+    }
+
     return mat4.ortho(
       b.center[0] - r,
       b.center[0] + r,
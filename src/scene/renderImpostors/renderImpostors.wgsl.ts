@@ -59,14 +59,19 @@ ${SNIPPET_PACKING}
 @fragment
 fn main_fs(
   fragIn: VertexOutput
-) -> @location(0) vec2f {
+) -> @location(0) vec4f {
   let c = textureSample(_diffuseTexture, _sampler, fragIn.uv).rgb;
   // TODO [IGNORE] store diffuse texture's alpha instead of override with 1.0
 
   let normalWS = normalize(fragIn.normalWS.xyz);
-  return vec2f(
+  // Orthographic projection spans the bounding sphere, so the center is at 0.5.
+  // Store as distance from the center towards the camera, in radius units: [-1, 1]
+  let depth = 1.0 - 2.0 * fragIn.position.z;
+  return vec4f(
     packColor8888(vec4f(c.rgb, 1.0)),
-    packNormal(vec4f(normalWS, 0.0))
+    packNormal(vec4f(normalWS, 0.0)),
+    depth,
+    0.0
   );
 }
 `;
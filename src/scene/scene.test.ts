@@ -38,7 +38,8 @@ Deno.test({
     let error: Error | undefined = undefined;
     try {
       // await loadScene(device, objTextReaderFn, FAILING_SCENE);
-      await loadObject(mockDevice, FAILING_SCENE, undefined!, undefined!);
+      // prettier-ignore
+      await loadObject(mockDevice, FAILING_SCENE, undefined!, undefined!, undefined!);
     } catch (e) {
       error = e;
       // if (TEST_FILE) throw e; // uncomment if error happens somewhere else to get real stacktrace
@@ -1,15 +1,26 @@
 import { meshopt_Meshlets } from '../meshPreprocessing/createMeshlets.types.ts';
 import { GPUOriginalMesh } from './GPUOriginalMesh.ts';
-import { NaniteObject } from './naniteObject.ts';
+import { NaniteDrawable, NaniteObject } from './naniteObject.ts';
+import { Light } from './lights.ts';
+import { ImpostorTextureArray } from './renderImpostors/renderImpostors.ts';
+import { NaniteSceneBuffers } from './naniteSceneBuffers/index.ts';
 
 export interface Scene {
   naniteObjects: NaniteObject[];
+  /** All objects merged into shared buffers. Created by the renderer, see `CONFIG.nanite.render.mergeObjects` */
+  mergedBuffers: NaniteSceneBuffers | undefined;
   debugMeshes: DebugMeshes;
   fallbackDiffuseTexture: GPUTexture;
   /** Texture with neutral (probably grey) color */
   fallbackDiffuseTextureView: GPUTextureView;
+  /** Same texture, viewed as `2d-array` */
+  fallbackDiffuseTextureArrayView: GPUTextureView;
   samplerNearest: GPUSampler;
   samplerLinear: GPUSampler;
+  /** Impostors of all objects. Layer per object, see `NaniteObject.impostor` */
+  impostorTextures: ImpostorTextureArray;
+  /** Up to `MAX_LIGHTS`. Editable from GUI */
+  lights: Light[];
 
   // stats
   /** Triangle count as imported from .OBJ file. This is how much you would render if you did not have nanite */
@@ -24,9 +35,28 @@ export function getDebugTestObject(scene: Scene): [DebugMeshes, NaniteObject] {
   return [scene.debugMeshes, scene.naniteObjects[0]];
 }
 
+/** Destroy all GPU resources. Renderer should forget cached bind groups too (see `Renderer.onSceneChanged()`) */
+export function disposeScene(scene: Scene) {
+  scene.naniteObjects.forEach((naniteObject) => naniteObject.dispose());
+  scene.mergedBuffers?.dispose();
+  scene.mergedBuffers = undefined;
+  disposeDebugMeshes(scene.debugMeshes);
+  scene.fallbackDiffuseTexture.destroy();
+  scene.impostorTextures.dispose();
+}
+
+/** What the GPU passes cull and draw: either merged buffers, or each object separately */
+export const getNaniteDrawables = (scene: Scene): NaniteDrawable[] =>
+  scene.mergedBuffers ? [scene.mergedBuffers] : scene.naniteObjects;
+
 export const getDiffuseTexture = (scene: Scene, naniteObject: NaniteObject) =>
   naniteObject.diffuseTextureView || scene.fallbackDiffuseTextureView;
 
+export const getDiffuseTextureArray = (
+  scene: Scene,
+  drawable: NaniteDrawable
+) => drawable.diffuseTextureArrayView || scene.fallbackDiffuseTextureArrayView;
+
 export interface DebugMeshes {
   mesh: GPUOriginalMesh;
   meshlets: MeshletRenderPckg;
@@ -39,3 +69,12 @@ export type MeshletRenderPckg = meshopt_Meshlets & {
   vertexBuffer: GPUBuffer;
   indexBuffer: GPUBuffer;
 };
+
+/** Vertex buffers are shared with the first nanite object's original mesh */
+function disposeDebugMeshes(debugMeshes: DebugMeshes) {
+  debugMeshes.meshlets.indexBuffer.destroy();
+  debugMeshes.meshoptimizerLODs.forEach((lod) => lod.indexBuffer.destroy());
+  debugMeshes.meshoptimizerMeshletLODs.forEach((lod) =>
+    lod.indexBuffer.destroy()
+  );
+}
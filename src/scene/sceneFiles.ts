@@ -1,5 +1,6 @@
 import { ValueOf } from '../utils/index.ts';
-import { InstancesGridDef, createGrid } from './instancesData.ts';
+import { InstancesDef, createGrid } from './instancesData.ts';
+import { Light } from './lights.ts';
 
 // prettier-ignore
 const OBJECTS = {
@@ -27,20 +28,38 @@ const OBJECTS = {
   jinxHair: { file: 'jinx/jinx_hair.obj', scale: 1, texture: 'jinx/jinx_hair.png' },
   jinxCombined: { file: 'jinx-combined/jinx-combined.obj', scale: 1, texture: 'jinx-combined/jinx-combined.png' },
 };
-export type SceneObjectName = keyof typeof OBJECTS;
+type BuiltinObjectName = keyof typeof OBJECTS;
+/** Built-in object or one defined in a JSON scene file */
+export type SceneObjectName = BuiltinObjectName | (string & {});
 
-export type SceneObjectDef = ReturnType<typeof getSceneObjectDef>;
+export interface SceneObjectDef {
+  file: string;
+  scale: number;
+  texture: string | undefined;
+}
+
+/** Objects from JSON scene files, see `registerSceneObjectDefs()` */
+const CUSTOM_OBJECTS: Record<string, SceneObjectDef> = {};
+
+export const isBuiltinObjectName = (name: string): name is BuiltinObjectName =>
+  Object.keys(OBJECTS).includes(name);
 
-export function getSceneObjectDef(name: SceneObjectName) {
-  const result = OBJECTS[name];
+export function getSceneObjectDef(name: SceneObjectName): SceneObjectDef {
+  const result = isBuiltinObjectName(name) ? OBJECTS[name] : CUSTOM_OBJECTS[name]; // prettier-ignore
   if (!result) {
     throw new Error(`Nonexistent object '${name}'`);
   }
-  return result as {
-    file: string;
-    scale: number;
-    texture: string | undefined;
-  };
+  return result as SceneObjectDef;
+}
+
+/** Make objects from JSON scene file available for loading */
+export function registerSceneObjectDefs(defs: Record<string, SceneObjectDef>) {
+  Object.entries(defs).forEach(([name, def]) => {
+    if (isBuiltinObjectName(name)) {
+      throw new Error(`Cannot redefine built-in object '${name}'`);
+    }
+    CUSTOM_OBJECTS[name] = def;
+  });
 }
 
 export const SCENES = {
@@ -80,7 +99,7 @@ export const SCENES = {
       'jinxFace',
       'jinxHair',
       'jinxBackpack',
-    ] as SceneObjectName[],
+    ] as BuiltinObjectName[],
     instances: createGrid(100, 100, 1.0),
   },
 };
@@ -88,8 +107,25 @@ export const SCENES = {
 export type SceneName = keyof typeof SCENES;
 export type SceneDesc = ValueOf<typeof SCENES>;
 
+/** Built-in scene name or path/URL to JSON scene file */
+export type SceneSource = SceneName | (string & {});
+
+/** Objects that share the same instances */
+export interface SceneObjectGroup {
+  models: SceneObjectName[];
+  instances: InstancesDef;
+}
+
+/** Common representation of both built-in and JSON scenes */
+export interface SceneDef {
+  name: string;
+  groups: SceneObjectGroup[];
+  /** Default lights if not provided */
+  lights?: Light[];
+}
+
 function sceneModel(
-  model: SceneObjectName,
+  model: BuiltinObjectName,
   ...args: Parameters<typeof createGrid>
 ) {
   const instances = createGrid(...args);
@@ -97,7 +133,7 @@ function sceneModel(
 }
 
 function sceneModelUniformGrid(
-  model: SceneObjectName,
+  model: BuiltinObjectName,
   count: number,
   spacing: number,
   offset = 0
@@ -106,10 +142,46 @@ function sceneModelUniformGrid(
   return obj(model, instances);
 }
 
-function obj(model: SceneObjectName, instances: InstancesGridDef) {
+function obj(model: BuiltinObjectName, instances: InstancesDef) {
   return { model, instances };
 }
 
+export function getBuiltinSceneDef(sceneName: SceneName): SceneDef {
+  const sceneDesc: SceneDesc = SCENES[sceneName];
+  if (!sceneDesc) {
+    throw new Error(`Nonexistent scene '${sceneName}'`);
+  }
+
+  // each object has own instance grid
+  if (Array.isArray(sceneDesc)) {
+    const groups = sceneDesc.map((objDef) => ({
+      models: [objDef.model],
+      instances: objDef.instances,
+    }));
+    return { name: sceneName, groups };
+  }
+
+  // shared instances grid between all objects
+  const { models, instances } = sceneDesc;
+  return { name: sceneName, groups: [{ models, instances }] };
+}
+
+/** Unique objects used in the scene */
+export function getSceneObjectNames(sceneDef: SceneDef): SceneObjectName[] {
+  const names = sceneDef.groups.flatMap((group) => group.models);
+  return [...new Set(names)];
+}
+
 export function isValidSceneName(scName: unknown): scName is SceneName {
   return typeof scName === 'string' && Object.keys(SCENES).includes(scName);
 }
+
+export const isJsonSceneFile = (path: string) =>
+  path.toLowerCase().endsWith('.json');
+
+export function isValidSceneSource(source: unknown): source is SceneSource {
+  return (
+    isValidSceneName(source) ||
+    (typeof source === 'string' && isJsonSceneFile(source))
+  );
+}
@@ -0,0 +1,68 @@
+import { assertEquals, assertThrows } from 'assert';
+import { assertSameArray } from '../sys_deno/testUtils.ts';
+import { splitVerticesWithAttributesIntoSeparateLists } from './objLoader.ts';
+import { StlError, parseStlFile } from './stlLoader.ts';
+
+// 2 triangles of a quad, sharing an edge
+// prettier-ignore
+const TRIANGLES = [
+  [[0, 0, 0], [1, 0, 0], [1, 1, 0]],
+  [[0, 0, 0], [1, 1, 0], [0, 1, 0]],
+];
+
+function createBinaryStl(header: string) {
+  const data = new Uint8Array(84 + TRIANGLES.length * 50);
+  data.set(new TextEncoder().encode(header), 0);
+  const view = new DataView(data.buffer);
+  view.setUint32(80, TRIANGLES.length, true);
+  TRIANGLES.forEach((tri, i) => {
+    const offset = 84 + i * 50;
+    view.setFloat32(offset + 8, 1, true); // facet normal, ignored
+    tri.flat().forEach((v, k) => {
+      view.setFloat32(offset + 12 + k * 4, v, true);
+    });
+  });
+  return data;
+}
+
+function assertQuad(mesh: ReturnType<typeof parseStlFile>) {
+  assertEquals(mesh.vertexCount, 4); // shared vertices are merged
+  assertSameArray(mesh.indices, [0, 1, 2, 0, 2, 3]);
+  const attrs = splitVerticesWithAttributesIntoSeparateLists(
+    mesh.verticesAndAttributes
+  );
+  // prettier-ignore
+  assertSameArray(attrs.positions, [
+    0, 0, 0,  2, 0, 0,  2, 2, 0,  0, 2, 0,
+  ]);
+  // smooth normals are recalculated
+  // prettier-ignore
+  assertSameArray(attrs.normals, [
+    0, 0, 1,  0, 0, 1,  0, 0, 1,  0, 0, 1,
+  ]);
+}
+
+Deno.test('stlLoader :: binary', () => {
+  // binary files can also start with 'solid'
+  const mesh = parseStlFile(createBinaryStl('solid binary quad'), 2.0);
+  assertQuad(mesh);
+});
+
+Deno.test('stlLoader :: ASCII', () => {
+  const facets = TRIANGLES.map(
+    (tri) => `facet normal 0 0 1
+  outer loop
+${tri.map((v) => `    vertex ${v.join(' ')}`).join('\n')}
+  endloop
+endfacet`
+  );
+  const text = `solid quad\n${facets.join('\n')}\nendsolid quad\n`;
+
+  const mesh = parseStlFile(new TextEncoder().encode(text), 2.0);
+  assertQuad(mesh);
+});
+
+Deno.test('stlLoader :: rejects truncated binary file', () => {
+  const data = createBinaryStl('binary quad').subarray(0, 100);
+  assertThrows(() => parseStlFile(data, 1.0), StlError);
+});
@@ -0,0 +1,107 @@
+import {
+  RawMeshData,
+  calcVertexNormals,
+  createRawMeshData,
+} from './objLoader.ts';
+
+/**
+ * STL loader, both ASCII and binary. STL is a triangle soup: each triangle
+ * has its own vertices and a facet normal. Vertices with same position
+ * are merged and smooth normals are recalculated, same as for OBJ files
+ * without normals. Flat facet normals would make the mesh impossible to simplify.
+ */
+
+export class StlError extends Error {
+  constructor(msg: string) {
+    super(`Invalid STL file. ${msg}`);
+  }
+}
+
+export const isStlFile = (path: string) => path.toLowerCase().endsWith('.stl');
+
+const BINARY_HEADER_BYTES = 80;
+const BINARY_TRIANGLE_BYTES = 50; // normal + 3 vertices (all vec3f) + u16 attribute
+
+export function parseStlFile(data: Uint8Array, scale: number): RawMeshData {
+  const soup = isBinaryStl(data) ? readBinary(data) : readAscii(data);
+  if (soup.length === 0) {
+    throw new StlError(`File does not contain any triangles`);
+  }
+
+  // merge vertices with the same position
+  const vertexIds = new Map<string, number>();
+  const positions: number[] = [];
+  const indices = new Uint32Array(soup.length / 3);
+  for (let i = 0; i < indices.length; i++) {
+    const x = soup[3 * i] * scale;
+    const y = soup[3 * i + 1] * scale;
+    const z = soup[3 * i + 2] * scale;
+    const key = `${x},${y},${z}`;
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = positions.length / 3;
+      vertexIds.set(key, id);
+      positions.push(x, y, z);
+    }
+    indices[i] = id;
+  }
+
+  const positionsF32 = new Float32Array(positions);
+  const normals = calcVertexNormals(
+    positionsF32,
+    indices,
+    new Float32Array(positions.length)
+  );
+  return createRawMeshData(positionsF32, normals, undefined, indices);
+}
+
+/** Binary files can also start with 'solid', so check the size first */
+function isBinaryStl(data: Uint8Array) {
+  if (data.byteLength >= BINARY_HEADER_BYTES + 4) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const triangleCount = view.getUint32(BINARY_HEADER_BYTES, true);
+    const expectedBytes =
+      BINARY_HEADER_BYTES + 4 + triangleCount * BINARY_TRIANGLE_BYTES;
+    if (data.byteLength === expectedBytes) return true;
+  }
+
+  const start = new TextDecoder().decode(data.subarray(0, 5));
+  if (start === 'solid') return false;
+  throw new StlError(`File is neither ASCII (starting with 'solid') nor binary with correct size`); // prettier-ignore
+}
+
+/** Returns vertex positions, 3 vertices per triangle */
+function readBinary(data: Uint8Array): Float32Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const triangleCount = view.getUint32(BINARY_HEADER_BYTES, true);
+  const result = new Float32Array(triangleCount * 9);
+
+  for (let i = 0; i < triangleCount; i++) {
+    const offset = BINARY_HEADER_BYTES + 4 + i * BINARY_TRIANGLE_BYTES;
+    // skip the facet normal (3 floats)
+    for (let k = 0; k < 9; k++) {
+      result[i * 9 + k] = view.getFloat32(offset + 12 + k * 4, true);
+    }
+  }
+  return result;
+}
+
+/** Returns vertex positions, 3 vertices per triangle */
+function readAscii(data: Uint8Array): Float32Array {
+  const text = new TextDecoder().decode(data);
+  const result: number[] = [];
+  const vertexRegex = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+
+  for (const match of text.matchAll(vertexRegex)) {
+    const xyz = [match[1], match[2], match[3]].map(parseFloat);
+    if (xyz.some(isNaN)) {
+      throw new StlError(`Invalid vertex: '${match[0]}'`);
+    }
+    result.push(...xyz);
+  }
+
+  if (result.length % 9 !== 0) {
+    throw new StlError(`Vertex count ${result.length / 3} is not a multiple of 3`); // prettier-ignore
+  }
+  return new Float32Array(result);
+}
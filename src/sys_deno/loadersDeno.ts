@@ -4,6 +4,8 @@ import {
   BinaryFileReader,
   TextFileReader,
   TextureReader,
+  EmbeddedTextureReader,
+  PreprocessWorkerFactory,
 } from '../scene/load/types.ts';
 
 // deno-lint-ignore require-await
@@ -26,6 +28,32 @@ export const createTextureFromFile_Deno: TextureReader = async (
   usage: GPUTextureUsageFlags
 ) => {
   const rawFileData = Deno.readFileSync(path);
+  return createTextureFromPNG(device, path, rawFileData, format, usage);
+};
+
+// deno-lint-ignore require-await
+export const createTextureFromEmbeddedImage_Deno: EmbeddedTextureReader =
+  async (
+    device: GPUDevice,
+    label: string,
+    data: Uint8Array,
+    mimeType: string,
+    format: GPUTextureFormat,
+    usage: GPUTextureUsageFlags
+  ) => {
+    if (mimeType !== 'image/png') {
+      throw new Error(`Unsupported embedded texture '${label}' of type '${mimeType}'. Only PNG is supported in Deno.`); // prettier-ignore
+    }
+    return createTextureFromPNG(device, label, data, format, usage);
+  };
+
+function createTextureFromPNG(
+  device: GPUDevice,
+  label: string,
+  rawFileData: Uint8Array,
+  format: GPUTextureFormat,
+  usage: GPUTextureUsageFlags
+) {
   const pngFile = png.decode(rawFileData);
 
   let data: Uint8Array;
@@ -34,11 +62,11 @@ export const createTextureFromFile_Deno: TextureReader = async (
   } else if (pngFile.colorType === png.ColorType.RGBA) {
     data = pngFile.image;
   } else {
-    throw new Error(`Invalid texture colorType: ${pngFile.colorType} for file '${path}'`); // prettier-ignore
+    throw new Error(`Invalid texture colorType: ${pngFile.colorType} for file '${label}'`); // prettier-ignore
   }
 
   const texture = device.createTexture({
-    label: path,
+    label,
     dimension: '2d',
     size: { width: pngFile.width, height: pngFile.height },
     format,
@@ -53,6 +81,14 @@ export const createTextureFromFile_Deno: TextureReader = async (
   );
 
   return texture;
+}
+
+export const createPreprocessWorker_Deno: PreprocessWorkerFactory = () => {
+  const workerUrl = new URL(
+    '../meshPreprocessing/workers/preprocessWorker.ts',
+    import.meta.url
+  );
+  return new Worker(workerUrl.href, { type: 'module' });
 };
 
 function convertRGB_to_RGBA(data: Uint8Array) {
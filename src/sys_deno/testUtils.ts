@@ -20,6 +20,7 @@ import { OVERRIDE_METIS_WASM_PATH } from '../meshPreprocessing/partitionGraph.ts
 import { createDepthPyramidSampler } from '../passes/depthPyramid/depthPyramidPass.ts';
 import { existsSync } from 'fs';
 import { NaniteObjectBuffers } from '../scene/naniteBuffers/index.ts';
+import { Scene } from '../scene/scene.ts';
 
 export function absPathFromRepoRoot(filePath: string) {
   const __dirname = path.dirname(path.fromFileUrl(import.meta.url));
@@ -98,18 +99,98 @@ export const createMockPassCtx = (
     cameraPositionWorldSpace: cameraCtrl.positionWorldSpace,
     profiler: undefined,
     viewport,
-    scene: undefined!,
+    // RenderUniformsBuffer reads only the lights
+    scene: { lights: [] } as unknown as Scene,
     depthTexture: undefined!,
     hdrRenderTexture: undefined!,
+    visibilityTexture: undefined!,
     softwareRasterizerEnabled: false,
     rasterizerSwResult: undefined!,
+    rasterizerSwNormals: undefined!,
+    rasterizerSwVisibility: undefined!,
+    compactedIndexBuffer: undefined!,
     globalUniforms: undefined!,
     prevFrameDepthPyramidTexture: dummyPyramidTexture.createView(),
     cameraFrustum,
     depthPyramidSampler,
+    // RenderUniformsBuffer reads only the matrix and light index
+    shadowMap: {
+      texture: undefined!,
+      sampler: undefined!,
+      vpMatrix: mat4.identity(),
+      lightIdx: -1,
+    },
   };
 };
 
+/** Buffer created by `createMockGpuDevice()` */
+export type MockGpuBuffer = GPUBuffer & { destroyed: boolean };
+
+/** Single `device.queue.writeBuffer()` call. `data` is a copy of the uploaded bytes */
+export interface MockGpuBufferWrite {
+  buffer: GPUBuffer;
+  offset: number;
+  data: ArrayBufferLike;
+}
+
+/** Records buffer allocations and uploads. For CPU-side tests that do not need a real GPUDevice */
+export const createMockGpuDevice = () => {
+  const buffers: MockGpuBuffer[] = [];
+  const writes: MockGpuBufferWrite[] = [];
+  const device = {
+    createBuffer: ({ label, size }: GPUBufferDescriptor) => {
+      const buffer = {
+        label,
+        size,
+        destroyed: false,
+        destroy: () => {
+          buffer.destroyed = true;
+        },
+      };
+      buffers.push(buffer as unknown as MockGpuBuffer);
+      return buffer;
+    },
+    createTexture: () => ({ createView: () => ({}) }),
+    createSampler: () => ({}),
+    queue: {
+      writeBuffer: (
+        buffer: GPUBuffer,
+        offset: number,
+        data: BufferSource,
+        dataOffset = 0,
+        size?: number
+      ) => {
+        writes.push({
+          buffer,
+          offset,
+          data: copyWrittenBytes(data, dataOffset, size),
+        });
+      },
+    },
+  } as unknown as GPUDevice;
+  return { device, buffers, writes };
+};
+
+/** Same as `writeBuffer()`: offset and size are in elements for typed arrays, in bytes otherwise */
+function copyWrittenBytes(
+  data: BufferSource,
+  dataOffset: number,
+  size: number | undefined
+): ArrayBufferLike {
+  if (!ArrayBuffer.isView(data)) {
+    const end = size === undefined ? undefined : dataOffset + size;
+    return data.slice(dataOffset, end);
+  }
+  const bytesPerElement =
+    'BYTES_PER_ELEMENT' in data ? (data.BYTES_PER_ELEMENT as number) : 1;
+  const start = data.byteOffset + dataOffset * bytesPerElement;
+  const byteLength =
+    size === undefined
+      ? data.byteLength - dataOffset * bytesPerElement
+      : size * bytesPerElement;
+  return data.buffer.slice(start, start + byteLength);
+}
+
 export const assertSameArray = (
   actual: number[] | Uint32Array | Float32Array,
   expected: number[]
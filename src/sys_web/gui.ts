@@ -11,10 +11,13 @@ import {
   SHADING_MODE_TRIANGLE,
 } from '../constants.ts';
 import { GpuProfiler, GpuProfilerResult } from '../gpuProfiler.ts';
+import { QualityGovernor } from '../qualityGovernor.ts';
 import { Scene, getDebugTestObject } from '../scene/scene.ts';
 import { Camera } from '../camera.ts';
 import { showHtmlEl } from '../utils/index.ts';
 import { resetNaniteStats } from '../passes/_shared.ts';
+import { SCENES, SceneSource } from '../scene/sceneFiles.ts';
+import { Light, MAX_LIGHTS, createPointLight } from '../scene/lights.ts';
 
 // https://github.com/Scthe/WebFX/blob/master/src/UISystem.ts#L13
 // https://github.com/Scthe/gaussian-splatting-webgpu/blob/master/src/web/gui.ts
@@ -26,16 +29,30 @@ export let setDisplayMode: undefined | ((e: DisplayMode) => unknown) =
 
 type GuiCtrl = dat.GUIController<Record<string, unknown>>;
 
+export interface SceneSwitcher {
+  sceneFile: SceneSource;
+  /** Returns undefined if the scene could not be loaded */
+  changeScene: (sceneFile: SceneSource) => Promise<Scene | undefined>;
+}
+
 export function initializeGUI(
   profiler: GpuProfiler,
+  qualityGovernor: QualityGovernor,
   scene: Scene,
-  camera: Camera
+  camera: Camera,
+  sceneSwitcher: SceneSwitcher
 ) {
-  // let softwareBackfaceCullCtrl: GuiCtrl;
+  let gpuConeCullingCtrl: GuiCtrl;
   let gpuFreezeVisiblityCtrl: GuiCtrl;
+  let gpuTwoPassOcclusionCtrl: GuiCtrl;
+  let gpuHierarchicalCullingCtrl: GuiCtrl;
+  let gpuMergeObjectsCtrl: GuiCtrl;
+  let gpuVisibilityBufferCtrl: GuiCtrl;
   // let gpuVisiblityImplCtrl: GuiCtrl;
   let _gpuShadingMode: GuiCtrl;
   let gpuSoftwareRasterizerThrsh: GuiCtrl;
+  let updateDbgLodLevels: () => void;
+  let updateLightsFolder: () => void;
 
   const gui = new dat.GUI();
 
@@ -52,6 +69,11 @@ export function initializeGUI(
     getGpuDrawStats: () => {
       CONFIG.nanite.render.nextFrameDebugDrawnMeshletsBuffer = true;
     },
+    addLight: () => {
+      const [x, y, z] = camera.positionWorldSpace;
+      scene.lights.push(createPointLight([x, y, z]));
+      updateLightsFolder();
+    },
     showSwRasterAlert: () => {
       alert(
         "WebGPU does not support atomic<u64> yet. I can't output both depth and color data with just 32 bits. Depth and normals are the best we get. And even that is a squeeze. What you see is the default white color affected by lights."
@@ -65,6 +87,8 @@ export function initializeGUI(
   // profiler
   gui.add(dummyObject, 'profile').name('Profile');
 
+  addSceneSelect();
+
   // GPU stats
   const getGPUStatsCtrl = gui
     .add(dummyObject, 'getGpuDrawStats')
@@ -73,6 +97,10 @@ export function initializeGUI(
   addNaniteFolder();
   addInstanceCullingFolder();
   addMeshletCullingFolder();
+  addTriangleCullingFolder();
+  addQualityGovernorFolder();
+  addLightsFolder();
+  addShadowsFolder();
   addColorMgmt();
   addDbgFolder();
 
@@ -87,16 +115,44 @@ export function initializeGUI(
     // gpu
     setVisible(getGPUStatsCtrl, nextDevice == 'gpu');
     setVisible(gpuFreezeVisiblityCtrl, nextDevice == 'gpu');
+    setVisible(gpuTwoPassOcclusionCtrl, nextDevice == 'gpu');
+    setVisible(gpuHierarchicalCullingCtrl, nextDevice == 'gpu');
+    setVisible(gpuMergeObjectsCtrl, nextDevice == 'gpu');
+    setVisible(gpuVisibilityBufferCtrl, nextDevice == 'gpu');
     setVisible(gpuSoftwareRasterizerThrsh, nextDevice == 'gpu');
+    setVisible(gpuConeCullingCtrl, nextDevice == 'gpu');
     // setVisible(gpuVisiblityImplCtrl, nextDevice == 'gpu');
     // setVisible(gpuShadingMode, nextDevice == 'gpu'); // normals preview works on the CPU
-    // cpu
-    // setVisible(softwareBackfaceCullCtrl, nextDevice == 'cpu');
   }
 
   //////////////
   /// subdirs
 
+  function addSceneSelect() {
+    const sceneFiles: SceneSource[] = Object.keys(SCENES);
+    if (!sceneFiles.includes(sceneSwitcher.sceneFile)) {
+      sceneFiles.unshift(sceneSwitcher.sceneFile); // JSON scene file
+    }
+
+    const sceneDummy = { scene: sceneSwitcher.sceneFile };
+    const sceneCtrl = gui
+      .add(sceneDummy, 'scene', sceneFiles)
+      .name('Scene')
+      .onFinishChange(async (nextSceneFile: SceneSource) => {
+        const nextScene = await sceneSwitcher.changeScene(nextSceneFile);
+        if (nextScene) {
+          scene = nextScene;
+          sceneSwitcher.sceneFile = nextSceneFile;
+          resetNaniteStats();
+          updateDbgLodLevels();
+          updateLightsFolder();
+        }
+        // revert if failed or ignored (other scene was still loading)
+        sceneDummy.scene = sceneSwitcher.sceneFile;
+        sceneCtrl.updateDisplay();
+      });
+  }
+
   function addNaniteFolder() {
     const dir = gui.addFolder('Nanite');
     dir.open();
@@ -116,7 +172,18 @@ export function initializeGUI(
     // errorThreshold
     dir
       .add(CONFIG.nanite.render, 'errorThreshold', 0, 10)
-      .name('Error threshold');
+      .name('Error threshold')
+      .listen(); // changed by quality governor
+
+    // error metric: pixels/legacy
+    // prettier-ignore
+    const errorMetricDummy = createDummy(CONFIG.nanite.render, 'errorMetric', [
+      { label: 'Pixels', value: 'pixels' },
+      { label: 'Legacy', value: 'legacy' },
+    ]);
+    dir
+      .add(errorMetricDummy, 'errorMetric', errorMetricDummy.values)
+      .name('Error metric');
 
     // Visib. algo
     // gpuVisiblityImplCtrl = dir
@@ -142,6 +209,18 @@ export function initializeGUI(
     gpuFreezeVisiblityCtrl = dir
       .add(CONFIG.nanite.render, 'freezeGPU_Visibilty')
       .name('Freeze culling');
+    gpuTwoPassOcclusionCtrl = dir
+      .add(CONFIG.nanite.render, 'twoPassOcclusionCulling')
+      .name('Two-pass occlusion');
+    gpuHierarchicalCullingCtrl = dir
+      .add(CONFIG.nanite.render, 'hierarchicalCulling')
+      .name('Hierarchical culling');
+    gpuMergeObjectsCtrl = dir
+      .add(CONFIG.nanite.render, 'mergeObjects')
+      .name('Merge objects');
+    gpuVisibilityBufferCtrl = dir
+      .add(CONFIG.nanite.render, 'useVisibilityBuffer')
+      .name('Visibility buffer');
 
     dir
       .add(dummyObject, 'showSwRasterAlert')
@@ -151,7 +230,10 @@ export function initializeGUI(
     dir.add(cfgSr, 'enabled').name('Softw. raster. enable');
     gpuSoftwareRasterizerThrsh = dir
       .add(cfgSr, 'threshold', 0.0, 2500.0)
-      .name('Softw. raster. threshold [px]');
+      .name('Softw. raster. threshold [px]')
+      .listen(); // changed by quality governor
+    dir.add(cfgSr, 'crossFadeBand', 0.0, 2.0).name('Softw. raster. cross fade');
+    dir.add(cfgSr, 'preciseDepth').name('Softw. raster. precise depth');
   }
 
   function addInstanceCullingFolder() {
@@ -163,9 +245,12 @@ export function initializeGUI(
     dir.add(cfg, 'enabled').name('Enabled');
     dir.add(cfg, 'frustumCulling').name('Frustum culling');
     dir.add(cfg, 'occlusionCulling').name('Occlusion culling');
+    dir.add(cfg, 'useBvh').name('BVH');
     dir
       .add(imp, 'billboardThreshold', 0.0, 8000.0)
-      .name('Billboard threshold [px]');
+      .name('Billboard threshold [px]')
+      .listen(); // changed by quality governor
+    dir.add(imp, 'crossFadeBand', 0.0, 2.0).name('Billboard cross fade');
     dir.add(imp, 'forceOnlyBillboards').name('Force billboards');
     dir.add(imp, 'ditherStrength', 0.0, 1.0).name('Billboard dither');
   }
@@ -192,10 +277,97 @@ export function initializeGUI(
       .step(1)
       .name('OC ov-ride lvl');
 
-    // SW backface cull
-    // softwareBackfaceCullCtrl = dir
-    // .add(cfg, 'useSoftwareBackfaceCull')
-    // .name('SW backface cull');
+    // Backface cone culling
+    gpuConeCullingCtrl = dir
+      .add(cfg, 'coneCulling')
+      .name('Cone culling')
+      .onFinishChange(resetNaniteStats);
+  }
+
+  function addTriangleCullingFolder() {
+    const dir = gui.addFolder('Triangle culling');
+    const cfg = CONFIG.cullingTriangles;
+
+    dir.add(cfg, 'enabled').name('Enabled').onFinishChange(resetNaniteStats);
+    dir.add(cfg, 'backfaceCulling').name('Backface culling');
+    dir.add(cfg, 'zeroAreaCulling').name('Zero area culling');
+    dir.add(cfg, 'smallPrimitiveCulling').name('Small triangles culling');
+  }
+
+  function addQualityGovernorFolder() {
+    const dir = gui.addFolder('Quality governor');
+    const cfg = CONFIG.qualityGovernor;
+
+    dir.add(cfg, 'enabled').name('Enabled');
+    dir.add(cfg, 'targetMs', 1.0, 100.0).name('Target [ms]');
+    dir.add(cfg, 'hysteresis', 0.0, 0.5).name('Hysteresis');
+    // current decision. 0 - best quality, 1 - fastest
+    dir.add(qualityGovernor, 'level', 0.0, 1.0).name('Level').listen();
+
+    const addBounds = (
+      bounds: { min: number; max: number },
+      name: string,
+      maxValue: number
+    ) => {
+      dir.add(bounds, 'min', 0.0, maxValue).name(`${name} min`);
+      dir.add(bounds, 'max', 0.0, maxValue).name(`${name} max`);
+    };
+    addBounds(cfg.errorThreshold, 'Error thr.', 10.0);
+    addBounds(cfg.softwareRasterizerThreshold, 'Softw. raster. thr.', 2500.0);
+    addBounds(cfg.billboardThreshold, 'Billboard thr.', 8000.0);
+  }
+
+  function addLightsFolder() {
+    const dir = gui.addFolder('Lights');
+    const amb = CONFIG.ambientLight;
+
+    addColorController(dir, amb, 'color', 'Ambient color');
+    dir.add(amb, 'intensity', 0.0, 1.0).name('Ambient intensity');
+    const addLightCtrl = dir
+      .add(dummyObject, 'addLight')
+      .name('Add point light at camera');
+
+    // depends on the scene
+    let lightDirs: dat.GUI[] = [];
+    updateLightsFolder = () => {
+      lightDirs.forEach((lightDir) => dir.removeFolder(lightDir));
+      lightDirs = scene.lights.map((light, i) => addLightFolder(dir, light, i));
+      setVisible(addLightCtrl, scene.lights.length < MAX_LIGHTS);
+    };
+    updateLightsFolder();
+  }
+
+  function addLightFolder(parentDir: dat.GUI, light: Light, idx: number) {
+    const dir = parentDir.addFolder(`Light ${idx} (${light.type})`);
+    const isPoint = light.type === 'point';
+
+    const posName = isPoint ? 'Position' : 'Direction';
+    const axes = ['X', 'Y', 'Z'] as const;
+    axes.forEach((axis, i) => {
+      dir.add(light.position, i).step(0.1).name(`${posName} ${axis}`);
+    });
+    addColorController(dir, light, 'color', 'Color');
+    dir.add(light, 'intensity', 0.0, isPoint ? 100.0 : 5.0).name('Intensity');
+
+    const removeDummy = {
+      remove: () => {
+        scene.lights.splice(scene.lights.indexOf(light), 1);
+        updateLightsFolder();
+      },
+    };
+    dir.add(removeDummy, 'remove').name('Remove');
+    return dir;
+  }
+
+  function addShadowsFolder() {
+    const dir = gui.addFolder('Shadows');
+    const cfg = CONFIG.shadows;
+
+    dir.add(cfg, 'enabled').name('Enabled');
+    dir.add(cfg, 'distance', 1.0, 50.0).name('Distance');
+    dir.add(cfg, 'errorThreshold', 0.0, 10.0).name('Error threshold');
+    dir.add(cfg, 'depthBias', 0.0, 0.01).step(0.0001).name('Depth bias');
+    dir.add(cfg, 'normalOffset', 0.0, 0.1).step(0.001).name('Normal offset');
   }
 
   function addColorMgmt() {
@@ -234,19 +406,28 @@ export function initializeGUI(
       modeCtrl.updateDisplay();
     };
 
-    const [debugMeshes, naniteObject] = getDebugTestObject(scene);
-    let maxLod = debugMeshes.meshoptimizerLODs.length - 1;
     const lodCtrl = dir
-      .add(CONFIG, 'dbgMeshoptimizerLodLevel', 0, maxLod)
+      .add(CONFIG, 'dbgMeshoptimizerLodLevel', 0, 1)
       .step(1)
       .name('LOD level');
 
-    maxLod = naniteObject.lodLevelCount - 1; // 7 levels mean 0-6 on GUI
     const naniteLodCtrl = dir
-      .add(CONFIG, 'dbgNaniteLodLevel', 0, maxLod)
+      .add(CONFIG, 'dbgNaniteLodLevel', 0, 1)
       .step(1)
       .name('Nanite LOD');
 
+    // depends on the scene
+    updateDbgLodLevels = () => {
+      const [debugMeshes, naniteObject] = getDebugTestObject(scene);
+      const maxLod = debugMeshes.meshoptimizerLODs.length - 1;
+      const maxNaniteLod = naniteObject.lodLevelCount - 1; // 7 levels mean 0-6 on GUI
+      CONFIG.dbgMeshoptimizerLodLevel = Math.min(CONFIG.dbgMeshoptimizerLodLevel, maxLod); // prettier-ignore
+      CONFIG.dbgNaniteLodLevel = Math.min(CONFIG.dbgNaniteLodLevel, maxNaniteLod); // prettier-ignore
+      lodCtrl.max(maxLod).updateDisplay();
+      naniteLodCtrl.max(maxNaniteLod).updateDisplay();
+    };
+    updateDbgLodLevels();
+
     const depthPyramidLevelCtrl = dir
       .add(CONFIG, 'dbgDepthPyramidLevel', 0, MAX_DEPTH_PYRAMID_LEVEL)
       .step(1)
@@ -1,7 +1,9 @@
 import {
   TextFileReader,
   TextureReader,
+  EmbeddedTextureReader,
   BinaryFileReader,
+  PreprocessWorkerFactory,
 } from '../scene/load/types.ts';
 
 export const textFileReader_Web: TextFileReader = async (filename: string) => {
@@ -27,10 +29,38 @@ export const createTextureFromFile_Web: TextureReader = async (
   usage: GPUTextureUsageFlags
 ) => {
   const response = await fetch(path);
-  const imageBitmap = await createImageBitmap(await response.blob());
+  return createTextureFromBlob(
+    device,
+    path,
+    await response.blob(),
+    format,
+    usage
+  );
+};
+
+export const createTextureFromEmbeddedImage_Web: EmbeddedTextureReader = (
+  device: GPUDevice,
+  label: string,
+  data: Uint8Array,
+  mimeType: string,
+  format: GPUTextureFormat,
+  usage: GPUTextureUsageFlags
+) => {
+  const blob = new Blob([data], { type: mimeType });
+  return createTextureFromBlob(device, label, blob, format, usage);
+};
+
+async function createTextureFromBlob(
+  device: GPUDevice,
+  label: string,
+  blob: Blob,
+  format: GPUTextureFormat,
+  usage: GPUTextureUsageFlags
+) {
+  const imageBitmap = await createImageBitmap(blob);
 
   const texture = device.createTexture({
-    label: path,
+    label,
     dimension: '2d',
     size: [imageBitmap.width, imageBitmap.height, 1],
     format,
@@ -44,4 +74,8 @@ export const createTextureFromFile_Web: TextureReader = async (
   );
 
   return texture;
-};
+}
+
+/** Bundled separately by esbuild, see 'esbuild-script.js' */
+export const createPreprocessWorker_Web: PreprocessWorkerFactory = () =>
+  new Worker('preprocessWorker.js');
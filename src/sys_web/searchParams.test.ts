@@ -51,6 +51,8 @@ Deno.test('searchParams()', async (t) => {
   await testSearchParams(`?scene_file=${sceneName0}`, sceneName0, {});
   await testSearchParams(`?scene_file=${sceneName1}`, sceneName1, {});
   await testSearchParams(`?scene_file=INVALID_SCENE_NAME`, undefined, {});
+  await testSearchParams(`?scene_file=scenes/test.json`, 'scenes/test.json', {}); // prettier-ignore
+  await testSearchParams(`?scene_file=scenes/test.obj`, undefined, {});
 
   // softwareRasterizerThreshold
   await testSearchParams('?softwarerasterizer_threshold=0', undefined, {
@@ -115,6 +117,18 @@ Deno.test('searchParams()', async (t) => {
     '?nanite_errorthreshold=???',
   ]);
 
+  // naniteErrorMetric
+  await testSearchParams('?nanite_errormetric=legacy', undefined, {
+    nanite: { render: { errorMetric: 'legacy' } },
+  });
+  await testSearchParams('?nanite_errormetric=PIXELS', undefined, {
+    nanite: { render: { errorMetric: 'pixels' } },
+  });
+  await testNoopSearchParams([
+    '?nanite_errormetric=',
+    '?nanite_errormetric=whatever',
+  ]);
+
   // impostorsForceOnlyBillboards
   await testSearchParams('?impostors_forceOnlyBillboards', undefined, {
     impostors: { forceOnlyBillboards: true },
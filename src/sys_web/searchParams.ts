@@ -1,6 +1,6 @@
 import { CONFIG } from '../constants.ts';
-import { SCENES, isValidSceneName } from '../scene/sceneFiles.ts';
-import { SceneName } from '../scene/sceneFiles.ts';
+import { SCENES, isValidSceneSource } from '../scene/sceneFiles.ts';
+import { SceneSource } from '../scene/sceneFiles.ts';
 
 const PARAMS = {
   sceneFile: 'scene_file',
@@ -9,14 +9,15 @@ const PARAMS = {
   impostorsTextureSize: 'impostors_texturesize',
   impostorsForceOnlyBillboards: 'impostors_forceonlybillboards',
   naniteErrorThreshold: 'nanite_errorthreshold',
+  naniteErrorMetric: 'nanite_errormetric',
 };
 
 export const INVALID_SEARCH_PARAMS: string[] = [];
 
 export function applySearchParams(
   target: typeof CONFIG,
-  defaultScene: SceneName
-): SceneName {
+  defaultScene: SceneSource
+): SceneSource {
   const params = new URLSearchParams(window.location.search);
 
   params.forEach((val, key) => {
@@ -24,10 +25,10 @@ export function applySearchParams(
     val = val.trim();
 
     if (key === PARAMS.sceneFile) {
-      if (isValidSceneName(val)) {
+      if (isValidSceneSource(val)) {
         defaultScene = val;
       } else {
-        console.warn(`Invalid scene name '${val}', try one of: `, Object.keys(SCENES)); // prettier-ignore
+        console.warn(`Invalid scene name '${val}', use path to .json scene file or one of: `, Object.keys(SCENES)); // prettier-ignore
       }
     } else if (key === PARAMS.softwareRasterizerThreshold) {
       const [isOk, value] = parseNumber(val);
@@ -53,6 +54,13 @@ export function applySearchParams(
       if (isOk) {
         target.nanite.render.errorThreshold = Math.abs(value);
       }
+    } else if (key === PARAMS.naniteErrorMetric) {
+      const value = val.toLowerCase();
+      if (value === 'pixels' || value === 'legacy') {
+        target.nanite.render.errorMetric = value;
+      } else {
+        console.warn(`Invalid nanite error metric '${val}', use 'pixels' or 'legacy'`); // prettier-ignore
+      }
     } else if (key === PARAMS.impostorsForceOnlyBillboards) {
       target.impostors.forceOnlyBillboards = true;
     } else {
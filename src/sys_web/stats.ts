@@ -25,18 +25,29 @@ const AvailableStats = {
   'Drawn instances': { visibilityDevice: 'gpu' } as StatOpts,
   'Drawn impostors': { visibilityDevice: 'gpu' } as StatOpts,
   'Drawn meshlets': { visibilityDevice: 'gpu' } as StatOpts,
+  'Meshlets queue': { visibilityDevice: 'gpu' } as StatOpts,
   // Geometry
   s1: { categoryName: 'Geometry' } as StatOpts,
   'Preprocessing': {} as StatOpts,
   'Scene meshlets': {} as StatOpts,
   'Scene triangles': {} as StatOpts,
-  'Rendered impostors': { visibilityDevice: 'gpu' } as StatOpts,
+  'Rendered impostors': { visibilityDevice: 'gpu' } as StatOpts, // does not count cross faded
+  'Cross faded impostors': { visibilityDevice: 'gpu' } as StatOpts, // drawn as both mesh and impostor
   'Rendered meshlets': {} as StatOpts,
   'Rendered triangles': {} as StatOpts, // in GPU mode this does not count impostors
   'HW: Rendered meshlets': { visibilityDevice: 'gpu' } as StatOpts,
   'HW: Rendered triangles': { visibilityDevice: 'gpu' } as StatOpts,
   'SW: Rendered meshlets': { visibilityDevice: 'gpu' } as StatOpts,
   'SW: Rendered triangles': { visibilityDevice: 'gpu' } as StatOpts,
+  'Cone culled meshlets': { visibilityDevice: 'gpu' } as StatOpts, // per-meshlet backface culling
+  'Meshlets queue overflow': { visibilityDevice: 'gpu' } as StatOpts, // hierarchical culling. Should be 0
+  'HW: Culled backface': { visibilityDevice: 'gpu' } as StatOpts, // per-triangle culling
+  'HW: Culled zero area': { visibilityDevice: 'gpu' } as StatOpts,
+  'HW: Culled small': { visibilityDevice: 'gpu' } as StatOpts,
+  // Quality governor
+  s2: { categoryName: 'Quality governor' } as StatOpts,
+  'Governor': {} as StatOpts,
+  'Governor frame': {} as StatOpts,
 };
 type StatName = keyof typeof AvailableStats;
 
@@ -1,5 +1,7 @@
 type ErrorCb = (msg: string) => never;
 
+export type ErrorSystem = ReturnType<typeof createErrorSystem>;
+
 export function createErrorSystem(device: GPUDevice) {
   const ERROR_SCOPES: GPUErrorFilter[] = [
     'internal',
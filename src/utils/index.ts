@@ -61,6 +61,15 @@ export function projectPoint(mvpMatrix: Mat4, p: Vec4 | Vec3, result?: Vec4) {
   return vec4.transformMat4(v, mvpMatrix, result);
 }
 
+/** Largest scale along any axis. Same as 'getModelMatScale()' in shaders. */
+export function getModelMatScale(modelMat: Mat4) {
+  const m = modelMat;
+  const sx = m[0] * m[0] + m[1] * m[1] + m[2] * m[2];
+  const sy = m[4] * m[4] + m[5] * m[5] + m[6] * m[6];
+  const sz = m[8] * m[8] + m[9] * m[9] + m[10] * m[10];
+  return Math.sqrt(Math.max(sx, sy, sz));
+}
+
 /** debug matrix to string */
 export function dbgMat(m: Float32Array | Mat4) {
   const s = Math.floor(Math.sqrt(m.length));
@@ -206,6 +215,18 @@ export const randomBetween = (start: number, end: number) => {
   return lerp(start, end, Math.random());
 };
 
+/** Deterministic replacement for `Math.random()` (mulberry32). Returns values in [0, 1). */
+export function createSeededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 export function clamp(x: number, min: number, max: number): number {
   return Math.min(Math.max(x, min), max);
 }
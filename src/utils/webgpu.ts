@@ -29,7 +29,16 @@ export async function createGpuDevice() {
       requiredFeatures.push('timestamp-query');
     }
 
-    const device = await adapter?.requestDevice({ requiredFeatures });
+    // two-pass occlusion culling binds more than the default 8 storage buffers
+    const requiredLimits: Record<string, number> = {
+      maxStorageBuffersPerShaderStage:
+        adapter.limits.maxStorageBuffersPerShaderStage,
+    };
+
+    const device = await adapter?.requestDevice({
+      requiredFeatures,
+      requiredLimits,
+    });
     if (!device) {
       onError('Failed to get GPUDevice from the adapter.');
       return;
@@ -141,10 +150,14 @@ export const getItemsPerThread = (items: number, threads: number) =>
 ///////////////
 /// Readback GPU->CPU
 
-export function createReadbackBuffer(device: GPUDevice, orgBuffer: GPUBuffer) {
+export function createReadbackBuffer(
+  device: GPUDevice,
+  orgBuffer: GPUBuffer,
+  size = orgBuffer.size
+) {
   return device.createBuffer({
     label: `${orgBuffer}-readback-buffer`,
-    size: orgBuffer.size,
+    size,
     usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
   });
 }
@@ -154,7 +167,13 @@ export function cmdCopyToReadbackBuffer(
   orgBuffer: GPUBuffer,
   readbackBuffer: GPUBuffer
 ) {
-  cmdBuf.copyBufferToBuffer(orgBuffer, 0, readbackBuffer, 0, orgBuffer.size);
+  cmdBuf.copyBufferToBuffer(
+    orgBuffer,
+    0,
+    readbackBuffer,
+    0,
+    readbackBuffer.size
+  );
 }
 
 export async function readBufferToCPU<T>(
@@ -172,7 +191,9 @@ export async function readBufferToCPU<T>(
 export async function downloadBuffer<T>(
   device: GPUDevice,
   TypedArrayClass: { new (a: ArrayBuffer): T },
-  orgBuffer: GPUBuffer
+  orgBuffer: GPUBuffer,
+  /** Only the first bytes of the buffer, e.g. the params before a huge list */
+  size = orgBuffer.size
 ) {
   if (!CONFIG.isTest) {
     console.warn(`Reading '${orgBuffer.label}' buffer back to CPU. This is slow!`); // prettier-ignore
@@ -180,7 +201,7 @@ export async function downloadBuffer<T>(
 
   let readbackBuffer: GPUBuffer | undefined = undefined;
   try {
-    readbackBuffer = createReadbackBuffer(device, orgBuffer);
+    readbackBuffer = createReadbackBuffer(device, orgBuffer, size);
 
     // copy using command
     const cmdBuf = device.createCommandEncoder({